@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import * as Y from "yjs";
+import {
+  type Author,
+  authorSpans,
+  contributions,
+  registerAuthor,
+  registeredAuthor,
+} from "../editor/authorship";
+
+function peer(clientID: number) {
+  const doc = new Y.Doc();
+  doc.clientID = clientID;
+  return doc;
+}
+
+function sync(from: Y.Doc, to: Y.Doc) {
+  Y.applyUpdate(to, Y.encodeStateAsUpdate(from));
+}
+
+describe("authorship", () => {
+  it("splits text into runs by the client that inserted them", () => {
+    const alice = peer(1);
+    const bob = peer(2);
+    alice.getText("content").insert(0, "hello world");
+    sync(alice, bob);
+    bob.getText("content").insert(5, ", dear");
+    bob.getText("content").delete(0, 1);
+    bob.getText("content").insert(0, "H");
+
+    const text = bob.getText("content");
+    expect(text.toString()).toBe("Hello, dear world");
+    expect(authorSpans(text)).toEqual([
+      { from: 0, to: 1, clientId: 2 },
+      { from: 1, to: 5, clientId: 1 },
+      { from: 5, to: 11, clientId: 2 },
+      { from: 11, to: 17, clientId: 1 },
+    ]);
+  });
+
+  it("merges consecutive inserts by the same client into one run", () => {
+    const doc = peer(1);
+    const text = doc.getText("content");
+    text.insert(0, "abc");
+    text.insert(3, "def");
+
+    expect(authorSpans(text)).toEqual([{ from: 0, to: 6, clientId: 1 }]);
+  });
+
+  it("keeps text attributed to a user across their connections", () => {
+    const first = peer(1);
+    registerAuthor(first, { userId: "u1", name: "Alice", color: "#ff0000" });
+    first.getText("content").insert(0, "abc");
+    const second = peer(3);
+    sync(first, second);
+    registerAuthor(second, { userId: "u1", name: "Alice", color: "#ff0000" });
+    second.getText("content").insert(3, "de");
+    const other = peer(2);
+    sync(second, other);
+    other.getText("content").insert(0, "x");
+
+    const text = other.getText("content");
+    const resolve = (clientId: number): Author | null => registeredAuthor(other, clientId) ?? null;
+    expect(contributions(text, resolve)).toEqual([
+      { key: "u1", name: "Alice", color: "#ff0000", chars: 5 },
+      { key: "client:2", name: "Unknown", color: "", chars: 1 },
+    ]);
+  });
+
+  it("only rewrites the author entry when it changed", () => {
+    const doc = peer(1);
+    const updates: Uint8Array[] = [];
+    doc.on("update", (update: Uint8Array) => updates.push(update));
+
+    registerAuthor(doc, { userId: "u1", name: "Alice", color: "#ff0000" });
+    registerAuthor(doc, { userId: "u1", name: "Alice", color: "#ff0000" });
+    expect(updates).toHaveLength(1);
+
+    registerAuthor(doc, { userId: "u1", name: "Alice B", color: "#ff0000" });
+    expect(updates).toHaveLength(2);
+    expect(registeredAuthor(doc, 1)?.name).toBe("Alice B");
+    expect(registeredAuthor(doc, 2)).toBeUndefined();
+  });
+});
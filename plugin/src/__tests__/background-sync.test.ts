@@ -2,6 +2,7 @@ import { TFile } from "obsidian";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import * as Y from "yjs";
 import { BackgroundSync } from "../files/background-sync";
+import { SessionHistory, snapshotContent } from "../files/session-history";
 
 function mockFile(path: string) {
   const f = Object.create(TFile.prototype);
@@ -35,6 +36,7 @@ function createSyncManager() {
         const awareness = {
           setLocalStateField: vi.fn(),
           setLocalState: vi.fn(),
+          getStates: vi.fn(() => new Map()),
         };
         docs.set(path, { doc, text, awareness });
       }
@@ -386,4 +388,39 @@ describe("BackgroundSync", () => {
 
     expect(vault.adapter.write).toHaveBeenCalledWith("flush.md", "pending content");
   });
+
+  it("replaceContent applies text as a local edit and writes it to disk", async () => {
+    const entries = new Map([["restore.md", { hash: "abc", size: 5, mtime: 1 }]]);
+    manifestManager = createManifestManager(entries);
+    vault.getAbstractFileByPath.mockReturnValue(mockFile("restore.md"));
+    vault.read.mockResolvedValue("current");
+    bg = new BackgroundSync(vault, syncManager, manifestManager, fileOpsManager);
+    await bg.startAll("host");
+    vault.adapter.write.mockClear();
+
+    expect(bg.replaceContent("restore.md", "earlier")).toBe(true);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(syncManager.getDoc("restore.md").text.toString()).toBe("earlier");
+    expect(vault.adapter.write).toHaveBeenCalledWith("restore.md", "earlier");
+    expect(bg.replaceContent("unshared.md", "x")).toBe(false);
+  });
+
+  it("records session history for the files the host syncs", async () => {
+    const entries = new Map([["history.md", { hash: "abc", size: 5, mtime: 1 }]]);
+    manifestManager = createManifestManager(entries);
+    vault.getAbstractFileByPath.mockReturnValue(mockFile("history.md"));
+    vault.read.mockResolvedValue("first");
+    const history = new SessionHistory(() => "Host");
+    bg = new BackgroundSync(vault, syncManager, manifestManager, fileOpsManager, history);
+    await bg.startAll("host");
+
+    bg.replaceContent("history.md", "second");
+    bg.destroy();
+
+    const versions = history.getSnapshots().map(snapshotContent);
+    expect(versions).toContain("first");
+    expect(versions).toContain("second");
+    expect(history.isRunning()).toBe(false);
+  });
 });
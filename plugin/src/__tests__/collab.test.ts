@@ -11,6 +11,7 @@ vi.mock("yjs", () => ({
 
 vi.mock("y-codemirror.next", () => ({
   yCollab: vi.fn((_text: any, _awareness: any, _opts: any) => ["yCollab-extension"]),
+  ySyncFacet: {},
 }));
 
 const reconfigureCalls: unknown[] = [];
@@ -43,7 +44,11 @@ vi.mock("@codemirror/state", () => {
   };
   return {
     Compartment: MockCompartment,
-    EditorState: { readOnly: readOnlyFacet },
+    EditorState: {
+      readOnly: readOnlyFacet,
+      transactionFilter: { of: () => "suggest-filter" },
+      transactionExtender: { of: () => "conflict-extender" },
+    },
     RangeSet: MockRangeSet,
     StateEffect: MockStateEffect,
     StateField: MockStateField,
@@ -70,6 +75,7 @@ vi.mock("@codemirror/view", () => {
     },
     GutterMarker: MockGutterMarker,
     ViewPlugin: { fromClass: (cls: unknown) => ({ extension: cls }) },
+    WidgetType: class {},
     gutter: () => "mock-gutter",
   };
 });
@@ -99,9 +105,15 @@ function createMockSyncManager(opts?: {
     insert: vi.fn(),
     delete: vi.fn(),
     toString: () => (opts?.textLength ? "remote" : ""),
+    observe: vi.fn(),
+    unobserve: vi.fn(),
   };
+  const authors = new Map<string, unknown>();
   const doc = {
+    clientID: 7,
     transact: vi.fn((fn: () => void) => fn()),
+    getArray: vi.fn(() => ({ observeDeep: vi.fn(), unobserveDeep: vi.fn() })),
+    getMap: vi.fn(() => authors),
   };
   const awareness = {
     setLocalStateField: vi.fn(),
@@ -114,6 +126,7 @@ function createMockSyncManager(opts?: {
       return { doc, text, awareness };
     }),
     waitForSync: vi.fn(async () => {}),
+    releaseDoc: vi.fn(),
     _text: text,
     _doc: doc,
     _awareness: awareness,
@@ -238,6 +251,28 @@ describe("CollabManager", () => {
       expect(lastReconfigure).toContainEqual({ readOnly: true });
     });
 
+    it("adds readOnly extension and opens the comments doc for comment permission", async () => {
+      const view = createMockView();
+      const syncManager = createMockSyncManager({ textLength: 5 });
+
+      await collab.activateForFile(view as any, "test.md", syncManager as any, "guest", "comment");
+
+      const lastReconfigure = reconfigureCalls[reconfigureCalls.length - 1] as unknown[];
+      expect(lastReconfigure).toContainEqual({ readOnly: true });
+      expect(syncManager.getDoc).toHaveBeenCalledWith("__comments__:test.md");
+    });
+
+    it("releases the comments doc when switching files", async () => {
+      const view = createMockView();
+      const syncManager = createMockSyncManager({ textLength: 5 });
+
+      await collab.activateForFile(view as any, "a.md", syncManager as any, "guest");
+      await collab.activateForFile(view as any, "b.md", syncManager as any, "guest");
+
+      expect(syncManager.releaseDoc).toHaveBeenCalledWith("__comments__:a.md");
+      expect(syncManager.releaseDoc).not.toHaveBeenCalledWith("__comments__:b.md");
+    });
+
     it("does not add readOnly extension for read-write permission", async () => {
       const view = createMockView();
       const syncManager = createMockSyncManager({ textLength: 5 });
@@ -256,6 +291,66 @@ describe("CollabManager", () => {
       expect(lastReconfigure).not.toContainEqual({ readOnly: true });
     });
 
+    it("registers editors, but not commenters, as the author of their client", async () => {
+      const view = createMockView();
+      const syncManager = createMockSyncManager({ textLength: 5 });
+      const user = { name: "Alice", color: "#ff0000", colorLight: "#ff000033", userId: "u1" };
+
+      await collab.activateForFile(
+        view as any,
+        "a.md",
+        syncManager as any,
+        "guest",
+        "comment",
+        user,
+      );
+      expect(syncManager._doc.getMap).not.toHaveBeenCalled();
+
+      await collab.activateForFile(
+        view as any,
+        "a.md",
+        syncManager as any,
+        "guest",
+        "read-write",
+        user,
+      );
+      expect(syncManager._doc.getMap().get("7")).toEqual({
+        userId: "u1",
+        name: "Alice",
+        color: "#ff0000",
+      });
+    });
+
+    it("records a guest's edits as suggestions only in suggest mode", async () => {
+      const view = createMockView();
+      const syncManager = createMockSyncManager({ textLength: 5 });
+      const user = { name: "Alice", color: "#ff0000", colorLight: "#ff000033", userId: "u1" };
+
+      collab.setSuggestMode(true);
+      await collab.activateForFile(
+        view as any,
+        "a.md",
+        syncManager as any,
+        "host",
+        "read-write",
+        user,
+      );
+      expect(ofCalls).not.toContain("suggest-filter");
+
+      await collab.activateForFile(
+        view as any,
+        "b.md",
+        syncManager as any,
+        "guest",
+        "read-write",
+        user,
+      );
+      expect(ofCalls).toContain("suggest-filter");
+
+      collab.setSuggestMode(false);
+      expect(reconfigureCalls[reconfigureCalls.length - 1]).toEqual([]);
+    });
+
     it("bails out if file switched during sync wait", async () => {
       const view = createMockView();
       const syncManager = createMockSyncManager();
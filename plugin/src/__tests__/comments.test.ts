@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import * as Y from "yjs";
+import {
+  addThread,
+  commentsDocId,
+  mentionedUsers,
+  replyToThread,
+  resolveThreads,
+  setThreadResolved,
+} from "../editor/comments";
+
+function message(text: string) {
+  return { userId: "u1", displayName: "Alice", text, createdAt: 1 };
+}
+
+function setup(content: string) {
+  const textDoc = new Y.Doc();
+  const text = textDoc.getText("content");
+  text.insert(0, content);
+  return { text, commentsDoc: new Y.Doc() };
+}
+
+describe("comment threads", () => {
+  it("keeps comments in a doc of their own per file", () => {
+    expect(commentsDocId("notes/a.md")).toBe("__comments__:notes/a.md");
+  });
+
+  it("resolves a new thread to the commented range", () => {
+    const { text, commentsDoc } = setup("hello world");
+    const id = addThread(commentsDoc, text, 6, 11, message("which world?"));
+
+    expect(resolveThreads(commentsDoc, text)).toEqual([
+      { id, from: 6, to: 11, resolved: false, messages: [message("which world?")] },
+    ]);
+  });
+
+  it("follows the commented passage through edits around it", () => {
+    const { text, commentsDoc } = setup("hello world");
+    addThread(commentsDoc, text, 6, 11, message("note"));
+
+    text.insert(0, "oh, ");
+    text.insert(text.length, "!");
+
+    const [thread] = resolveThreads(commentsDoc, text);
+    expect(text.toString().slice(thread.from, thread.to)).toBe("world");
+  });
+
+  it("syncs threads to other peers and sorts them by position", () => {
+    const { text, commentsDoc } = setup("one two three");
+    addThread(commentsDoc, text, 8, 13, message("second"));
+    addThread(commentsDoc, text, 0, 3, message("first"));
+
+    const peer = new Y.Doc();
+    Y.applyUpdate(peer, Y.encodeStateAsUpdate(commentsDoc));
+
+    expect(resolveThreads(peer, text).map((t) => t.messages[0].text)).toEqual(["first", "second"]);
+  });
+
+  it("appends replies and resolves and reopens threads", () => {
+    const { text, commentsDoc } = setup("hello world");
+    const id = addThread(commentsDoc, text, 0, 5, message("greeting?"));
+
+    expect(replyToThread(commentsDoc, id, message("yes"))).toBe(true);
+    expect(setThreadResolved(commentsDoc, id, true)).toBe(true);
+    let [thread] = resolveThreads(commentsDoc, text);
+    expect(thread.messages.map((m) => m.text)).toEqual(["greeting?", "yes"]);
+    expect(thread.resolved).toBe(true);
+
+    setThreadResolved(commentsDoc, id, false);
+    [thread] = resolveThreads(commentsDoc, text);
+    expect(thread.resolved).toBe(false);
+    expect(replyToThread(commentsDoc, "missing", message("lost"))).toBe(false);
+  });
+
+  it("finds users mentioned by display name", () => {
+    const users = [
+      { userId: "u1", displayName: "Alice" },
+      { userId: "u2", displayName: "Bob Smith" },
+      { userId: "u3", displayName: "Carol" },
+    ];
+    const mentioned = mentionedUsers("@alice and @Bob Smith, please check", users);
+    expect(mentioned.map((u) => u.userId)).toEqual(["u1", "u2"]);
+  });
+});
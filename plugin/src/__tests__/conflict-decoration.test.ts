@@ -1,16 +1,94 @@
-import { describe, expect, it } from "vitest";
-import { conflictExtension } from "../editor/conflict-decoration";
+import { EditorState } from "@codemirror/state";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import * as Y from "yjs";
+import {
+  type OverlappingEdit,
+  conflictExtension,
+  overlappingEdits,
+} from "../editor/conflict-decoration";
+
+/** The origin of edits from elsewhere, which yCollab applies from its observer of the text. */
+const REMOTE = Symbol("remote");
+
+function setup(content: string) {
+  const text = new Y.Doc().getText("content");
+  text.insert(0, content);
+  const edits: OverlappingEdit[] = [];
+  let state = EditorState.create({
+    doc: content,
+    extensions: conflictExtension(text, () => {}),
+  });
+  const apply = (spec: { changes: { from: number; to: number; insert: string } }) => {
+    const transaction = state.update(spec);
+    edits.push(...overlappingEdits(transaction));
+    state = transaction.state;
+  };
+  let received: { from: number; to: number; insert: string } | null = null;
+  text.observe((_event, transaction) => {
+    if (transaction.origin === REMOTE && received) apply({ changes: received });
+  });
+
+  /** A keystroke here, which yCollab then copies into the shared text. */
+  const typeLocally = (from: number, to: number, insert: string) => {
+    apply({ changes: { from, to, insert } });
+    text.delete(0, text.length);
+    text.insert(0, state.doc.toString());
+  };
+  /** An edit that arrived in the shared text and that yCollab applies to the editor. */
+  const receive = (from: number, to: number, insert: string) => {
+    received = { from, to, insert };
+    text.doc?.transact(() => {
+      text.delete(from, to - from);
+      text.insert(from, insert);
+    }, REMOTE);
+    received = null;
+  };
+  return { edits, typeLocally, receive, doc: () => state.doc.toString() };
+}
 
 describe("conflictExtension", () => {
-  it("returns an array of extensions", () => {
-    const ext = conflictExtension();
-    expect(Array.isArray(ext)).toBe(true);
-    expect((ext as unknown[]).length).toBeGreaterThanOrEqual(2);
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("reports a remote edit to text just typed here with the version it replaced", () => {
+    const { edits, typeLocally, receive, doc } = setup("hello world");
+    typeLocally(5, 5, " dear");
+    receive(0, 16, "goodbye");
+
+    expect(doc()).toBe("goodbye");
+    expect(edits).toEqual([{ id: expect.any(String), from: 0, to: 7, mine: "hello dear world" }]);
   });
 
-  it("returns a new instance each time", () => {
-    const ext1 = conflictExtension();
-    const ext2 = conflictExtension();
-    expect(ext1).not.toBe(ext2);
+  it("ignores remote edits elsewhere and local edits alone", () => {
+    const { edits, typeLocally, receive } = setup("hello world");
+    typeLocally(0, 0, "oh ");
+    typeLocally(3, 4, "H");
+    receive(12, 14, "W");
+
+    expect(edits).toEqual([]);
+  });
+
+  it("lets local edits age out of the overlap window", () => {
+    vi.useFakeTimers();
+    const { edits, typeLocally, receive } = setup("hello world");
+    typeLocally(5, 5, "!");
+    vi.advanceTimersByTime(2500);
+    receive(0, 6, "");
+
+    expect(edits).toEqual([]);
+  });
+
+  it("extends the same conflict while both keep editing the passage", () => {
+    const { edits, typeLocally, receive } = setup("one two three");
+    typeLocally(4, 7, "2");
+    receive(4, 5, "TWO");
+    typeLocally(7, 7, "!");
+    receive(7, 8, "");
+
+    expect(edits).toHaveLength(2);
+    expect(edits[1].id).toBe(edits[0].id);
+    // What was typed here before each remote edit, not the first remote version of it
+    expect(edits[1]).toMatchObject({ from: 4, to: 7, mine: "2!" });
   });
 });
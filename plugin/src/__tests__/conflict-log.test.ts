@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import * as Y from "yjs";
+import { recordConflict, resolveConflicts, settleConflict } from "../editor/conflict-log";
+
+const alice = { userId: "u1", displayName: "Alice" };
+
+function setup(content: string, mine: string, from: number, to: number) {
+  const text = new Y.Doc().getText("content");
+  text.insert(0, content);
+  const commentsDoc = new Y.Doc();
+  recordConflict(commentsDoc, text, alice, { id: "c1", from, to, mine });
+  return { text, commentsDoc };
+}
+
+describe("conflict log", () => {
+  it("logs overlapping edits once per id and follows the passage", () => {
+    const { text, commentsDoc } = setup("the quick fox", "slow", 4, 9);
+    expect(
+      recordConflict(commentsDoc, text, alice, { id: "c1", from: 4, to: 13, mine: "slow" }),
+    ).toBe(false);
+    text.insert(0, "See ");
+
+    const conflicts = resolveConflicts(commentsDoc, text);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ displayName: "Alice", mine: "slow" });
+    expect(text.toString().slice(conflicts[0].from, conflicts[0].to)).toBe("quick fox");
+  });
+
+  it("keeps mine, theirs or both", () => {
+    let log = setup("the quick fox", "slow", 4, 9);
+    expect(settleConflict(log.commentsDoc, log.text, "c1", "mine")).toBe(true);
+    expect(log.text.toString()).toBe("the slow fox");
+    expect(resolveConflicts(log.commentsDoc, log.text)).toEqual([]);
+
+    log = setup("the quick fox", "slow", 4, 9);
+    settleConflict(log.commentsDoc, log.text, "c1", "theirs");
+    expect(log.text.toString()).toBe("the quick fox");
+    expect(resolveConflicts(log.commentsDoc, log.text)).toEqual([]);
+
+    log = setup("one\nTWO\nthree", "two\n", 4, 8);
+    settleConflict(log.commentsDoc, log.text, "c1", "both");
+    expect(log.text.toString()).toBe("one\ntwo\nTWO\nthree");
+    expect(settleConflict(log.commentsDoc, log.text, "c1", "both")).toBe(false);
+  });
+
+  it("restores text that was deleted remotely", () => {
+    const { text, commentsDoc } = setup("hello world", " there", 5, 5);
+    settleConflict(commentsDoc, text, "c1", "mine");
+    expect(text.toString()).toBe("hello there world");
+  });
+});
@@ -45,7 +45,9 @@ function createSettings(overrides?: Partial<LiveShareSettings>): LiveShareSettin
     serverUrl: "http://localhost:3000",
     roomId: "test-room",
     token: "tok123",
+    hostToken: "",
     jwt: "",
+    refreshToken: "",
     githubUserId: "u1",
     avatarUrl: "",
     displayName: "Tester",
@@ -61,6 +63,7 @@ function createSettings(overrides?: Partial<LiveShareSettings>): LiveShareSettin
     debugLogging: false,
     debugLogPath: "live-share-debug.md",
     autoReconnect: true,
+    showAuthorship: false,
     excludePatterns: [],
     readOnlyPatterns: [],
     approvalTimeoutSeconds: 60,
@@ -576,6 +579,12 @@ describe("ControlChannel", () => {
       expect(ws.url).toContain("token=tok");
     });
 
+    it("includes the user id so invite uses can be tracked", () => {
+      channel = new CC(createSettings({ githubUserId: "" }));
+      const ws = connectAndGetWs(channel);
+      expect(ws.url).toContain("userId=test-client-id");
+    });
+
     it("includes jwt parameter when set", () => {
       channel = new CC(createSettings({ jwt: "my-jwt-token" }));
       const ws = connectAndGetWs(channel);
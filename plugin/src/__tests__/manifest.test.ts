@@ -9,7 +9,9 @@ function createSettings(overrides: Partial<LiveShareSettings> = {}): LiveShareSe
     serverUrl: "http://localhost:3000",
     roomId: "test-room",
     token: "test-token",
+    hostToken: "",
     jwt: "",
+    refreshToken: "",
     githubUserId: "",
     avatarUrl: "",
     displayName: "Test User",
@@ -25,6 +27,7 @@ function createSettings(overrides: Partial<LiveShareSettings> = {}): LiveShareSe
     debugLogging: false,
     debugLogPath: "live-share-debug.md",
     autoReconnect: true,
+    showAuthorship: false,
     excludePatterns: [],
     readOnlyPatterns: [],
     approvalTimeoutSeconds: 60,
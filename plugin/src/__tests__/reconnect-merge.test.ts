@@ -0,0 +1,79 @@
+import * as encoding from "lib0/encoding";
+import { describe, expect, it } from "vitest";
+import * as syncProtocol from "y-protocols/sync";
+import * as Y from "yjs";
+import { ReconnectMerge } from "../sync/reconnect-merge";
+
+/** A local doc and the server's copy, in sync on `content`. */
+function setup(content: string) {
+  const server = new Y.Doc();
+  server.getText("content").insert(0, content);
+  const local = new Y.Doc();
+  Y.applyUpdate(local, Y.encodeStateAsUpdate(server));
+  return { server, local };
+}
+
+/** The sync exchange on reconnect; `merge` sees the server's answer like SyncManager does. */
+function resync(merge: ReconnectMerge, docId: string, local: Y.Doc, server: Y.Doc) {
+  const encoder = encoding.createEncoder();
+  syncProtocol.writeSyncStep2(encoder, server, Y.encodeStateVector(local));
+  const message = encoding.toUint8Array(encoder);
+  merge.received(docId, message);
+  Y.applyUpdate(local, Y.encodeStateAsUpdate(server, Y.encodeStateVector(local)));
+  Y.applyUpdate(server, Y.encodeStateAsUpdate(local, Y.encodeStateVector(server)));
+}
+
+function replaceLine(doc: Y.Doc, from: string, to: string) {
+  const text = doc.getText("content");
+  const index = text.toString().indexOf(from);
+  text.delete(index, from.length);
+  text.insert(index, to);
+}
+
+describe("ReconnectMerge", () => {
+  it("marks lines both sides rewrote while disconnected", () => {
+    const { server, local } = setup("intro\nthe plan is simple\noutro\n");
+    const merge = new ReconnectMerge();
+    merge.disconnected("notes.md", local);
+
+    replaceLine(local, "the plan is simple", "the plan is bold");
+    replaceLine(server, "the plan is simple", "the plan changed");
+    merge.reconnected("notes.md", local);
+    resync(merge, "notes.md", local, server);
+
+    expect(merge.synced("notes.md", local)).toBe(1);
+    expect(local.getText("content").toString()).toBe(
+      "intro\n<<<<<<< mine\nthe plan is bold\n=======\nthe plan changed\n>>>>>>> theirs\noutro\n",
+    );
+  });
+
+  it("leaves a clean merge of different lines as it is", () => {
+    const { server, local } = setup("one\ntwo\nthree\n");
+    const merge = new ReconnectMerge();
+    merge.disconnected("notes.md", local);
+
+    replaceLine(local, "one", "ONE");
+    replaceLine(server, "three", "THREE");
+    merge.reconnected("notes.md", local);
+    resync(merge, "notes.md", local, server);
+
+    expect(merge.synced("notes.md", local)).toBe(0);
+    expect(local.getText("content").toString()).toBe("ONE\ntwo\nTHREE\n");
+  });
+
+  it("ignores docs without offline edits and structured docs", () => {
+    const { server, local } = setup("one\n");
+    const merge = new ReconnectMerge();
+    merge.disconnected("notes.md", local);
+    merge.disconnected("__comments__:notes.md", local);
+
+    replaceLine(server, "one", "uno");
+    merge.reconnected("notes.md", local);
+    merge.reconnected("__comments__:notes.md", local);
+    resync(merge, "notes.md", local, server);
+
+    expect(merge.synced("notes.md", local)).toBe(0);
+    expect(merge.synced("__comments__:notes.md", local)).toBe(0);
+    expect(local.getText("content").toString()).toBe("uno\n");
+  });
+});
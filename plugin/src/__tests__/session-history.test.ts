@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as Y from "yjs";
+import { SessionHistory, snapshotContent } from "../files/session-history";
+
+function createHandle(content: string, names: Map<number, string> = new Map()) {
+  const doc = new Y.Doc();
+  const text = doc.getText("content");
+  text.insert(0, content);
+  const awareness = {
+    getStates: () => new Map([...names].map(([clientId, name]) => [clientId, { user: { name } }])),
+  };
+  return { doc, text, awareness } as any;
+}
+
+/** Applies an edit made by another client, as a sync update would. */
+function remoteInsert(handle: { doc: Y.Doc }, clientId: number, index: number, s: string) {
+  const remote = new Y.Doc();
+  remote.clientID = clientId;
+  Y.applyUpdate(remote, Y.encodeStateAsUpdate(handle.doc));
+  remote.getText("content").insert(index, s);
+  Y.applyUpdate(handle.doc, Y.encodeStateAsUpdate(remote));
+  remote.destroy();
+}
+
+describe("SessionHistory", () => {
+  let history: SessionHistory;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    history = new SessionHistory(() => "Host", 1000);
+    history.start();
+  });
+
+  afterEach(() => {
+    history.destroy();
+    vi.useRealTimers();
+  });
+
+  it("snapshots a file when tracking starts", () => {
+    history.track("a.md", createHandle("hello"));
+
+    const [snapshot] = history.getSnapshots();
+    expect(snapshot.path).toBe("a.md");
+    expect(snapshot.authors).toEqual([]);
+    expect(snapshotContent(snapshot)).toBe("hello");
+  });
+
+  it("snapshots changed files each interval and credits their authors", () => {
+    const handle = createHandle("hello", new Map([[42, "Alice"]]));
+    history.track("a.md", handle);
+
+    vi.advanceTimersByTime(1000);
+    expect(history.getSnapshots()).toHaveLength(1);
+
+    remoteInsert(handle, 42, 5, " world");
+    handle.text.insert(0, "> ");
+    vi.advanceTimersByTime(1000);
+
+    const [latest] = history.getSnapshots();
+    expect(snapshotContent(latest)).toBe("> hello world");
+    expect(latest.authors).toEqual(["Alice", "Host"]);
+  });
+
+  it("keeps a file's history across a rename", () => {
+    const handle = createHandle("draft");
+    history.track("old.md", handle);
+    history.rename("old.md", "new.md");
+    history.track("new.md", handle);
+
+    const snapshots = history.getSnapshots();
+    expect(snapshots).toHaveLength(1);
+    expect(snapshots[0].path).toBe("new.md");
+  });
+
+  it("keeps recorded versions after stopping, until the next start", () => {
+    const handle = createHandle("one");
+    history.track("a.md", handle);
+    handle.text.insert(3, " two");
+
+    history.stop();
+    expect(history.getSnapshots().map(snapshotContent)).toEqual(["one two", "one"]);
+    expect(history.getCurrentText("a.md")).toBeNull();
+
+    history.start();
+    expect(history.getSnapshots()).toEqual([]);
+  });
+});
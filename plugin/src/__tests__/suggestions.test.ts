@@ -0,0 +1,128 @@
+import { EditorState } from "@codemirror/state";
+import { describe, expect, it } from "vitest";
+import * as Y from "yjs";
+import {
+  acceptAllSuggestions,
+  acceptSuggestion,
+  rejectAllSuggestions,
+  rejectSuggestion,
+  resolveSuggestions,
+  suggestChange,
+  suggestModeExtension,
+} from "../editor/suggestions";
+
+const alice = { userId: "u1", displayName: "Alice" };
+const bob = { userId: "u2", displayName: "Bob" };
+
+function setup(content: string) {
+  const textDoc = new Y.Doc();
+  const text = textDoc.getText("content");
+  text.insert(0, content);
+  return { text, commentsDoc: new Y.Doc() };
+}
+
+function summary(commentsDoc: Y.Doc, text: Y.Text) {
+  return resolveSuggestions(commentsDoc, text).map(({ from, to, insert, displayName }) => ({
+    from,
+    to,
+    insert,
+    displayName,
+  }));
+}
+
+describe("suggestions", () => {
+  it("records edits without changing the text", () => {
+    const { text, commentsDoc } = setup("hello world");
+    expect(suggestChange(commentsDoc, text, alice, 5, 5, ",")).toBe(5);
+    expect(suggestChange(commentsDoc, text, alice, 6, 11, "")).toBe(6);
+
+    expect(text.toString()).toBe("hello world");
+    expect(summary(commentsDoc, text)).toEqual([
+      { from: 5, to: 5, insert: ",", displayName: "Alice" },
+      { from: 6, to: 11, insert: "", displayName: "Alice" },
+    ]);
+  });
+
+  it("extends the author's own suggestion while they keep typing or deleting", () => {
+    const { text, commentsDoc } = setup("hello world");
+    suggestChange(commentsDoc, text, alice, 11, 11, "!");
+    suggestChange(commentsDoc, text, alice, 11, 11, "?");
+    // Backspace takes back the last typed character first
+    expect(suggestChange(commentsDoc, text, alice, 10, 11, "")).toBe(11);
+    // Deleting leftwards from a suggested deletion grows it
+    suggestChange(commentsDoc, text, alice, 4, 5, "");
+    suggestChange(commentsDoc, text, alice, 3, 4, "");
+    // Typing where the deletion starts turns it into a replacement
+    expect(suggestChange(commentsDoc, text, alice, 3, 3, "p")).toBe(5);
+
+    expect(summary(commentsDoc, text)).toEqual([
+      { from: 3, to: 5, insert: "p", displayName: "Alice" },
+      { from: 11, to: 11, insert: "!", displayName: "Alice" },
+    ]);
+  });
+
+  it("keeps different authors' suggestions apart", () => {
+    const { text, commentsDoc } = setup("hello");
+    suggestChange(commentsDoc, text, alice, 5, 5, "!");
+    suggestChange(commentsDoc, text, bob, 5, 5, "?");
+
+    expect(resolveSuggestions(commentsDoc, text).map((s) => s.insert)).toEqual(["!", "?"]);
+  });
+
+  it("follows the suggested passage through edits around it", () => {
+    const { text, commentsDoc } = setup("hello world");
+    suggestChange(commentsDoc, text, alice, 6, 11, "there");
+    text.insert(0, "oh, ");
+
+    const [suggestion] = resolveSuggestions(commentsDoc, text);
+    expect(text.toString().slice(suggestion.from, suggestion.to)).toBe("world");
+  });
+
+  it("applies accepted suggestions and drops rejected ones", () => {
+    const { text, commentsDoc } = setup("hello world");
+    suggestChange(commentsDoc, text, alice, 6, 11, "there");
+    suggestChange(commentsDoc, text, bob, 0, 0, "Oh, ");
+    const [first, second] = resolveSuggestions(commentsDoc, text);
+
+    expect(acceptSuggestion(commentsDoc, text, second.id)).toBe(true);
+    expect(text.toString()).toBe("hello there");
+    expect(rejectSuggestion(commentsDoc, first.id)).toBe(true);
+    expect(text.toString()).toBe("hello there");
+    expect(resolveSuggestions(commentsDoc, text)).toEqual([]);
+    expect(acceptSuggestion(commentsDoc, text, first.id)).toBe(false);
+  });
+
+  it("accepts or rejects every suggestion at once", () => {
+    const { text, commentsDoc } = setup("one two three");
+    suggestChange(commentsDoc, text, alice, 0, 3, "1");
+    suggestChange(commentsDoc, text, bob, 8, 13, "3");
+    suggestChange(commentsDoc, text, bob, 4, 4, "and ");
+
+    expect(acceptAllSuggestions(commentsDoc, text)).toBe(3);
+    expect(text.toString()).toBe("1 and two 3");
+
+    suggestChange(commentsDoc, text, alice, 0, 1, "");
+    expect(rejectAllSuggestions(commentsDoc)).toBe(1);
+    expect(text.toString()).toBe("1 and two 3");
+  });
+
+  it("turns local editor changes into suggestions but lets synced ones through", () => {
+    const { text, commentsDoc } = setup("hello");
+    let state = EditorState.create({
+      doc: "hello",
+      extensions: suggestModeExtension(text, (from, to, insert) =>
+        suggestChange(commentsDoc, text, alice, from, to, insert),
+      ),
+    });
+
+    state = state.update({ changes: { from: 5, insert: "!" } }).state;
+    expect(state.doc.toString()).toBe("hello");
+    expect(state.selection.main.head).toBe(5);
+    expect(resolveSuggestions(commentsDoc, text).map((s) => s.insert)).toEqual(["!"]);
+
+    // What yCollab applies from the shared text is already in it
+    text.insert(0, "oh ");
+    state = state.update({ changes: { from: 0, insert: "oh " } }).state;
+    expect(state.doc.toString()).toBe("oh hello");
+  });
+});
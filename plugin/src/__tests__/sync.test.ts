@@ -1,5 +1,12 @@
+import * as decoding from "lib0/decoding";
+import * as encoding from "lib0/encoding";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as syncProtocol from "y-protocols/sync";
+import * as Y from "yjs";
+import { E2ECrypto } from "../sync/crypto";
 import {
+  MUX_SNAPSHOT,
+  MUX_SNAPSHOT_REQUEST,
   MUX_SUBSCRIBE,
   MUX_SYNC_ENCRYPTED,
   decodeMuxMessage,
@@ -62,7 +69,9 @@ function makeSettings(overrides: Partial<LiveShareSettings> = {}): LiveShareSett
     serverUrl: "http://localhost:3000",
     roomId: "test-room",
     token: "test-token",
+    hostToken: "",
     jwt: "",
+    refreshToken: "",
     serverPassword: "",
     clientId: "client-1",
     githubUserId: "",
@@ -73,6 +82,7 @@ function makeSettings(overrides: Partial<LiveShareSettings> = {}): LiveShareSett
     sharedFolder: "",
     encryptionPassphrase: "",
     autoReconnect: false,
+    showAuthorship: false,
     notificationsEnabled: false,
     debugLogging: false,
     debugLogPath: "",
@@ -275,4 +285,54 @@ describe("SyncManager", () => {
 
     sm.destroy();
   });
+
+  it("answers a snapshot request with the whole doc once earlier updates are applied", async () => {
+    const e2e = new E2ECrypto("snapshot-test");
+    await e2e.init();
+    const sm = new SyncManager(makeSettings());
+    sm.setE2E(e2e);
+    sm.connect();
+
+    const handle = sm.getDoc("notes/test.md")!;
+    handle.text.insert(0, "mine");
+    const ws = mockWsInstances[0];
+    ws.simulateOpen();
+
+    const remote = new Y.Doc();
+    remote.getText("content").insert(0, "theirs ");
+    const update = encoding.createEncoder();
+    syncProtocol.writeUpdate(update, Y.encodeStateAsUpdate(remote));
+    const plain = encoding.toUint8Array(update);
+    const sealed = await e2e.encrypt(plain.slice(1));
+    const deliver = (msg: Uint8Array) =>
+      ws.onmessage?.({
+        data: (msg.buffer as ArrayBuffer).slice(msg.byteOffset, msg.byteOffset + msg.byteLength),
+      });
+    deliver(
+      encodeMuxMessage("notes/test.md", MUX_SYNC_ENCRYPTED, new Uint8Array([plain[0], ...sealed])),
+    );
+    deliver(encodeMuxMessage("notes/test.md", MUX_SNAPSHOT_REQUEST));
+
+    await vi.waitFor(() => {
+      const sent = ws.sent.map((data) => decodeMuxMessage(new Uint8Array(data)));
+      expect(sent.some((msg) => msg.msgType === MUX_SNAPSHOT)).toBe(true);
+    });
+    const snapshot = ws.sent
+      .map((data) => decodeMuxMessage(new Uint8Array(data)))
+      .find((msg) => msg.msgType === MUX_SNAPSHOT)!;
+    const decrypted = await e2e.decrypt(snapshot.payload.slice(1));
+    const restored = new Y.Doc();
+    syncProtocol.readSyncMessage(
+      decoding.createDecoder(new Uint8Array([snapshot.payload[0], ...decrypted])),
+      encoding.createEncoder(),
+      restored,
+      null,
+    );
+    expect(restored.getText("content").toString()).toBe(handle.text.toString());
+    expect(restored.getText("content").toString()).toContain("theirs");
+
+    remote.destroy();
+    restored.destroy();
+    sm.destroy();
+  });
 });
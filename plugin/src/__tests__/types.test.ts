@@ -14,6 +14,7 @@ describe("types", () => {
     expect(DEFAULT_SETTINGS.debugLogging).toBe(false);
     expect(DEFAULT_SETTINGS.debugLogPath).toBe("live-share-debug.md");
     expect(DEFAULT_SETTINGS.autoReconnect).toBe(true);
+    expect(DEFAULT_SETTINGS.showAuthorship).toBe(false);
     expect(DEFAULT_SETTINGS.readOnlyPatterns).toEqual([]);
   });
 
@@ -4,11 +4,14 @@ import {
   applyMinimalYTextUpdate,
   arrayBufferToBase64,
   base64ToArrayBuffer,
+  diffLines,
   ensureFolder,
+  isJwtExpiring,
   isTextFile,
   normalizeLineEndings,
   normalizePath,
   parseJwtPayload,
+  threeWayMerge,
   toCanonicalPath,
   toLocalPath,
   toWsUrl,
@@ -202,6 +205,91 @@ describe("applyMinimalYTextUpdate", () => {
   });
 });
 
+describe("diffLines", () => {
+  it("marks unchanged content as the same", () => {
+    expect(diffLines("a\nb", "a\nb")).toEqual([
+      { type: "same", text: "a" },
+      { type: "same", text: "b" },
+    ]);
+  });
+
+  it("lists removals before additions for a changed line", () => {
+    expect(diffLines("one\ntwo\nthree", "one\n2\nthree")).toEqual([
+      { type: "same", text: "one" },
+      { type: "removed", text: "two" },
+      { type: "added", text: "2" },
+      { type: "same", text: "three" },
+    ]);
+  });
+
+  it("keeps lines common to both sides in the middle", () => {
+    const diff = diffLines("x\na\nb\nc\ny", "x\nb\nd\nc\ny");
+    expect(diff.filter((line) => line.type !== "added").map((line) => line.text)).toEqual([
+      "x",
+      "a",
+      "b",
+      "c",
+      "y",
+    ]);
+    expect(diff.filter((line) => line.type === "added").map((line) => line.text)).toEqual(["d"]);
+    expect(diff.find((line) => line.text === "a")?.type).toBe("removed");
+  });
+
+  it("handles empty sides", () => {
+    expect(diffLines("", "new")).toEqual([
+      { type: "removed", text: "" },
+      { type: "added", text: "new" },
+    ]);
+  });
+});
+
+describe("threeWayMerge", () => {
+  const base = "title\n\nfirst\nsecond\nthird\n";
+
+  it("combines edits to different lines", () => {
+    const mine = "title\n\nfirst, edited\nsecond\nthird\n";
+    const theirs = "title\n\nfirst\nsecond\nthird, edited\n";
+    expect(threeWayMerge(base, mine, theirs)).toEqual({
+      content: "title\n\nfirst, edited\nsecond\nthird, edited\n",
+      conflicts: 0,
+    });
+  });
+
+  it("takes identical edits once", () => {
+    const both = "title\n\nfirst\n2nd\nthird\n";
+    expect(threeWayMerge(base, both, both)).toEqual({ content: both, conflicts: 0 });
+  });
+
+  it("marks edits to the same lines as a conflict", () => {
+    const mine = "title\n\nfirst\nmy second\nthird\n";
+    const theirs = "title\n\nfirst\ntheir second\nthird\n";
+    expect(threeWayMerge(base, mine, theirs)).toEqual({
+      content: [
+        "title",
+        "",
+        "first",
+        "<<<<<<< mine",
+        "my second",
+        "=======",
+        "their second",
+        ">>>>>>> theirs",
+        "third",
+        "",
+      ].join("\n"),
+      conflicts: 1,
+    });
+  });
+
+  it("keeps one side's deletion when the other left those lines alone", () => {
+    const mine = "title\n\nthird\n";
+    const theirs = "new title\n\nfirst\nsecond\nthird\n";
+    expect(threeWayMerge(base, mine, theirs)).toEqual({
+      content: "new title\n\nthird\n",
+      conflicts: 0,
+    });
+  });
+});
+
 describe("ensureFolder", () => {
   it("creates nested folders", async () => {
     const created: string[] = [];
@@ -274,6 +362,23 @@ describe("parseJwtPayload", () => {
   });
 });
 
+describe("isJwtExpiring", () => {
+  const makeJwt = (payload: Record<string, unknown>) =>
+    `${btoa("{}")}.${btoa(JSON.stringify({ sub: "1", username: "a", ...payload }))}.sig`;
+
+  it("compares the expiry against the margin", () => {
+    const token = makeJwt({ exp: 1_000 });
+    expect(isJwtExpiring(token, 60_000, 900_000)).toBe(false);
+    expect(isJwtExpiring(token, 60_000, 940_000)).toBe(true);
+    expect(isJwtExpiring(token, 0, 1_000_000)).toBe(true);
+  });
+
+  it("treats tokens without an expiry as current and garbage as expired", () => {
+    expect(isJwtExpiring(makeJwt({}), 60_000)).toBe(false);
+    expect(isJwtExpiring("garbage", 60_000)).toBe(true);
+  });
+});
+
 describe("toLocalPath / toCanonicalPath", () => {
   const savedIsWin = Platform.isWin;
 
@@ -0,0 +1,147 @@
+import type { Extension } from "@codemirror/state";
+import {
+  Decoration,
+  type DecorationSet,
+  type EditorView,
+  ViewPlugin,
+  type ViewUpdate,
+} from "@codemirror/view";
+import type * as Y from "yjs";
+
+import { HEX_COLOR_RE } from "../utils";
+
+/**
+ * Yjs records which client inserted each character, but client ids are per connection. Each
+ * editing participant records who their client id belongs to in this map of the file's doc,
+ * so text stays attributed after they reconnect or leave.
+ */
+const AUTHORS_MAP = "authors";
+
+export interface Author {
+  userId: string;
+  name: string;
+  color: string;
+}
+
+export interface AuthorSpan {
+  from: number;
+  to: number;
+  clientId: number;
+}
+
+export interface Contribution {
+  /** The author's user id, or `client:<id>` for text nobody claimed. */
+  key: string;
+  name: string;
+  color: string;
+  chars: number;
+}
+
+export function registerAuthor(doc: Y.Doc, author: Author): void {
+  const authors = doc.getMap<Author>(AUTHORS_MAP);
+  const key = String(doc.clientID);
+  const existing = authors.get(key);
+  if (
+    existing?.userId === author.userId &&
+    existing.name === author.name &&
+    existing.color === author.color
+  ) {
+    return;
+  }
+  authors.set(key, author);
+}
+
+export function registeredAuthor(doc: Y.Doc, clientId: number): Author | undefined {
+  const author = doc.getMap<Author>(AUTHORS_MAP).get(String(clientId));
+  return author && typeof author.userId === "string" ? author : undefined;
+}
+
+/** Runs of visible text in `text`, each inserted by a single client. */
+export function authorSpans(text: Y.Text): AuthorSpan[] {
+  const spans: AuthorSpan[] = [];
+  let pos = 0;
+  for (let item = text._start; item; item = item.right) {
+    if (item.deleted || !item.countable) continue;
+    const last = spans[spans.length - 1];
+    if (last && last.clientId === item.id.client && last.to === pos) {
+      last.to += item.length;
+    } else {
+      spans.push({ from: pos, to: pos + item.length, clientId: item.id.client });
+    }
+    pos += item.length;
+  }
+  return spans;
+}
+
+/** Characters of `text` per author, largest share first. */
+export function contributions(
+  text: Y.Text,
+  resolve: (clientId: number) => Author | null,
+): Contribution[] {
+  const totals = new Map<string, Contribution>();
+  for (const span of authorSpans(text)) {
+    const author = resolve(span.clientId);
+    const key = author?.userId || `client:${span.clientId}`;
+    const entry = totals.get(key) ?? {
+      key,
+      name: author?.name ?? "Unknown",
+      color: author?.color ?? "",
+      chars: 0,
+    };
+    entry.chars += span.to - span.from;
+    totals.set(key, entry);
+  }
+  return [...totals.values()].sort((a, b) => b.chars - a.chars);
+}
+
+function authorMark(author: Author | null): Decoration {
+  const name = author?.name ?? "an unknown collaborator";
+  const attributes: Record<string, string> = { title: `Written by ${name}` };
+  if (author && HEX_COLOR_RE.test(author.color)) {
+    attributes.style = `--author-color: ${author.color}`;
+  }
+  return Decoration.mark({ class: "live-share-author", attributes });
+}
+
+/**
+ * Colors the text of `text` by the collaborator who inserted it, with their name on hover.
+ * `resolve` maps a Yjs client id to its author, or null when nobody claimed it.
+ */
+export function authorshipExtension(
+  text: Y.Text,
+  resolve: (clientId: number) => Author | null,
+): Extension {
+  return ViewPlugin.fromClass(
+    class {
+      decorations: DecorationSet;
+
+      constructor(view: EditorView) {
+        this.decorations = this.build(view);
+      }
+
+      update(update: ViewUpdate) {
+        if (update.docChanged) {
+          this.decorations = this.build(update.view);
+        }
+      }
+
+      private build(view: EditorView): DecorationSet {
+        const length = view.state.doc.length;
+        const marks = new Map<number, Decoration>();
+        const ranges = [];
+        for (const span of authorSpans(text)) {
+          // The editor may briefly lag behind the Y.Text while a remote update applies
+          if (span.to > length) break;
+          let mark = marks.get(span.clientId);
+          if (!mark) {
+            mark = authorMark(resolve(span.clientId));
+            marks.set(span.clientId, mark);
+          }
+          ranges.push(mark.range(span.from, span.to));
+        }
+        return Decoration.set(ranges);
+      }
+    },
+    { decorations: (plugin) => plugin.decorations },
+  );
+}
@@ -8,19 +8,105 @@ import * as Y from "yjs";
 import type { SyncManager } from "../sync/sync";
 import type { Permission, SessionRole } from "../types";
 import { applyMinimalYTextUpdate, normalizeLineEndings } from "../utils";
-import { conflictExtension } from "./conflict-decoration";
+import {
+  type Author,
+  type Contribution,
+  authorshipExtension,
+  contributions,
+  registerAuthor,
+  registeredAuthor,
+} from "./authorship";
+import {
+  type CommentMessage,
+  type CommentThread,
+  addThread,
+  commentsDocId,
+  commentsExtension,
+  observeThreads,
+  replyToThread,
+  resolveThreads,
+  setThreadResolved,
+} from "./comments";
+import { type OverlappingEdit, conflictExtension } from "./conflict-decoration";
+import {
+  type ConflictChoice,
+  type EditConflict,
+  observeConflicts,
+  recordConflict,
+  resolveConflicts,
+  settleConflict,
+} from "./conflict-log";
+import {
+  type Suggestion,
+  acceptAllSuggestions,
+  acceptSuggestion,
+  observeSuggestions,
+  rejectAllSuggestions,
+  rejectSuggestion,
+  resolveSuggestions,
+  suggestChange,
+  suggestModeExtension,
+  suggestionsExtension,
+} from "./suggestions";
+
+const CONTRIBUTIONS_DEBOUNCE_MS = 1000;
 
 export interface CursorUser {
   name: string;
   color: string;
   colorLight: string;
+  /** Lets others attribute this user's text to them; see `registerAuthor`. */
+  userId?: string;
+}
+
+/** The comment threads and suggested edits of the shared file in the editor. */
+export interface ActiveComments {
+  path: string;
+  content: string;
+  threads: CommentThread[];
+  suggestions: Suggestion[];
+}
+
+/** The logged overlapping edits of the shared file in the editor. */
+export interface ActiveConflicts {
+  path: string;
+  content: string;
+  conflicts: EditConflict[];
+}
+
+/** Who wrote how much of the shared file in the editor. */
+export interface ActiveContributions {
+  path: string;
+  contributions: Contribution[];
+}
+
+interface OpenComments {
+  docId: string;
+  doc: Y.Doc;
+  syncManager: SyncManager;
+  unobserve: () => void;
 }
 
 export class CollabManager {
   private compartment = new Compartment();
+  private authorshipCompartment = new Compartment();
+  private showAuthorship = false;
+  private lookupAuthor: ((userId: string) => Omit<Author, "userId"> | null) | null = null;
+  private onContributionsChange: (() => void) | null = null;
+  private contributionsTimer: ReturnType<typeof setTimeout> | null = null;
+  private unobserveContributions: (() => void) | null = null;
+  private suggestCompartment = new Compartment();
+  private suggestMode = false;
+  /** Set while the active file may be edited by a guest, the only ones who suggest. */
+  private suggestAuthor: CursorUser | null = null;
   private currentPath: string | null = null;
   private currentView: EditorView | null = null;
   private currentAwareness: awarenessProtocol.Awareness | null = null;
+  private currentText: Y.Text | null = null;
+  private comments: OpenComments | null = null;
+  private onCommentsChange: (() => void) | null = null;
+  private onSelectThread: ((id: string) => void) | null = null;
+  private onConflict: ((path: string) => void) | null = null;
   private activationGen = 0;
 
   getBaseExtension(): Extension {
@@ -51,6 +137,9 @@ export class CollabManager {
         }
       }
       this.currentAwareness = null;
+      this.currentText = null;
+      this.stopContributionUpdates();
+      this.releaseComments();
     }
     this.currentPath = filePath;
     this.currentView = view;
@@ -98,20 +187,47 @@ export class CollabManager {
     }
 
     this.currentAwareness = docHandle.awareness;
+    this.currentText = docHandle.text;
     if (cursorUser) {
       docHandle.awareness.setLocalStateField("user", cursorUser);
+      if (cursorUser.userId && permission !== "read-only" && permission !== "comment") {
+        registerAuthor(docHandle.doc, {
+          userId: cursorUser.userId,
+          name: cursorUser.name,
+          color: cursorUser.color,
+        });
+      }
     }
     const collabExt = yCollab(docHandle.text, docHandle.awareness, {
       undoManager: false,
     });
     const extensions: Extension[] = Array.isArray(collabExt) ? [...collabExt] : [collabExt];
-    extensions.push(conflictExtension());
-    if (permission === "read-only") {
+    extensions.push(
+      conflictExtension(docHandle.text, (edit) => this.logConflict(filePath, edit, cursorUser)),
+    );
+    extensions.push(this.authorshipCompartment.of(this.authorship()));
+    const comments = this.openComments(syncManager, filePath);
+    if (comments) {
+      extensions.push(
+        commentsExtension(comments, docHandle.text, (id) => this.onSelectThread?.(id)),
+      );
+    }
+    if (permission === "read-only" || permission === "comment") {
       extensions.push(EditorState.readOnly.of(true));
     }
+    this.suggestAuthor =
+      role === "guest" && permission !== "read-only" && permission !== "comment"
+        ? (cursorUser ?? null)
+        : null;
+    if (comments) {
+      extensions.push(suggestionsExtension(comments, docHandle.text));
+      extensions.push(this.suggestCompartment.of(this.suggestFilter()));
+    }
     view.dispatch({
       effects: this.compartment.reconfigure(extensions),
     });
+    this.onCommentsChange?.();
+    this.watchContributions(docHandle.text);
 
     const selection = view.state.selection.main;
     const anchor = Y.createRelativePositionFromTypeIndex(docHandle.text, selection.anchor);
@@ -119,12 +235,277 @@ export class CollabManager {
     docHandle.awareness.setLocalStateField("cursor", { anchor, head });
   }
 
+  /**
+   * In suggest mode a guest's edits to shared files are recorded as suggestions for the host
+   * to accept or reject instead of changing the text.
+   */
+  setSuggestMode(enabled: boolean) {
+    if (enabled === this.suggestMode) return;
+    this.suggestMode = enabled;
+    if (!this.currentView || !this.comments) return;
+    try {
+      this.currentView.dispatch({
+        effects: this.suggestCompartment.reconfigure(this.suggestFilter()),
+      });
+    } catch {
+      // View may have been destroyed
+    }
+  }
+
+  isSuggestMode(): boolean {
+    return this.suggestMode;
+  }
+
+  acceptSuggestion(id: string): boolean {
+    if (!this.comments || !this.currentText) return false;
+    return acceptSuggestion(this.comments.doc, this.currentText, id);
+  }
+
+  rejectSuggestion(id: string): boolean {
+    if (!this.comments) return false;
+    return rejectSuggestion(this.comments.doc, id);
+  }
+
+  /** Accepts every suggestion in the active file; returns how many were applied. */
+  acceptAllSuggestions(): number {
+    if (!this.comments || !this.currentText) return 0;
+    return acceptAllSuggestions(this.comments.doc, this.currentText);
+  }
+
+  rejectAllSuggestions(): number {
+    if (!this.comments) return 0;
+    return rejectAllSuggestions(this.comments.doc);
+  }
+
+  private suggestFilter(): Extension {
+    const comments = this.comments;
+    const text = this.currentText;
+    const author = this.suggestAuthor;
+    if (!this.suggestMode || !comments || !text || !author?.userId) return [];
+    const suggester = { userId: author.userId, displayName: author.name };
+    return suggestModeExtension(text, (from, to, insert) =>
+      suggestChange(comments.doc, text, suggester, from, to, insert),
+    );
+  }
+
+  /** Called with the file's path when an overlapping edit starts a new entry in its log. */
+  setConflictHandler(handler: (path: string) => void) {
+    this.onConflict = handler;
+  }
+
+  getActiveConflicts(): ActiveConflicts | null {
+    if (!this.comments || !this.currentPath || !this.currentText) return null;
+    return {
+      path: this.currentPath,
+      content: this.currentText.toString(),
+      conflicts: resolveConflicts(this.comments.doc, this.currentText),
+    };
+  }
+
+  settleConflict(id: string, choice: ConflictChoice): boolean {
+    if (!this.comments || !this.currentText) return false;
+    return settleConflict(this.comments.doc, this.currentText, id, choice);
+  }
+
+  /** Selects the contested passage in the editor and scrolls it into view. */
+  revealConflict(id: string): boolean {
+    const conflict = this.getActiveConflicts()?.conflicts.find((c) => c.id === id);
+    if (!conflict || !this.currentView) return false;
+    const to = Math.min(conflict.to, this.currentView.state.doc.length);
+    this.currentView.dispatch({
+      selection: { anchor: conflict.from, head: to },
+      scrollIntoView: true,
+    });
+    this.currentView.focus();
+    return true;
+  }
+
+  /** Logs the overlapped edit under the name of the user who made it, this one. */
+  private logConflict(path: string, edit: OverlappingEdit, user?: CursorUser) {
+    const comments = this.comments;
+    const text = this.currentText;
+    if (!comments || !text || !user?.userId || path !== this.currentPath) return;
+    const author = { userId: user.userId, displayName: user.name };
+    if (recordConflict(comments.doc, text, author, edit)) this.onConflict?.(path);
+  }
+
+  /** Maps a user id to their current name and cursor color, for attributing text. */
+  setAuthorLookup(lookup: (userId: string) => Omit<Author, "userId"> | null) {
+    this.lookupAuthor = lookup;
+  }
+
+  /** Called, debounced, when the active file's text changes or another file becomes active. */
+  setContributionsChangeHandler(handler: () => void) {
+    this.onContributionsChange = handler;
+  }
+
+  setAuthorshipVisible(visible: boolean) {
+    if (visible === this.showAuthorship) return;
+    this.showAuthorship = visible;
+    if (!this.currentView || !this.currentText) return;
+    try {
+      this.currentView.dispatch({
+        effects: this.authorshipCompartment.reconfigure(this.authorship()),
+      });
+    } catch {
+      // View may have been destroyed
+    }
+  }
+
+  getContributions(): ActiveContributions | null {
+    const text = this.currentText;
+    if (!text || !this.currentPath) return null;
+    return {
+      path: this.currentPath,
+      contributions: contributions(text, (clientId) => this.resolveAuthor(clientId)),
+    };
+  }
+
+  private authorship(): Extension {
+    const text = this.currentText;
+    if (!this.showAuthorship || !text) return [];
+    return authorshipExtension(text, (clientId) => this.resolveAuthor(clientId));
+  }
+
+  /**
+   * Prefers the author's current name and color, then what they registered in the doc, then
+   * the cursor label of a client that is connected but never registered.
+   */
+  private resolveAuthor(clientId: number): Author | null {
+    const doc = this.currentText?.doc;
+    if (!doc) return null;
+    const registered = registeredAuthor(doc, clientId);
+    const cursor = this.currentAwareness?.getStates().get(clientId)?.user as
+      | Partial<CursorUser>
+      | undefined;
+    const userId = registered?.userId ?? cursor?.userId;
+    const current = userId ? this.lookupAuthor?.(userId) : null;
+    if (userId && current) return { userId, ...current };
+    if (registered) return registered;
+    if (typeof cursor?.name === "string") {
+      return { userId: userId ?? "", name: cursor.name, color: cursor.color ?? "" };
+    }
+    return null;
+  }
+
+  private watchContributions(text: Y.Text) {
+    this.stopContributionUpdates();
+    const observer = () => {
+      if (this.contributionsTimer) clearTimeout(this.contributionsTimer);
+      this.contributionsTimer = setTimeout(() => {
+        this.contributionsTimer = null;
+        this.onContributionsChange?.();
+      }, CONTRIBUTIONS_DEBOUNCE_MS);
+    };
+    text.observe(observer);
+    this.unobserveContributions = () => text.unobserve(observer);
+    this.onContributionsChange?.();
+  }
+
+  private stopContributionUpdates() {
+    this.unobserveContributions?.();
+    this.unobserveContributions = null;
+    if (this.contributionsTimer) {
+      clearTimeout(this.contributionsTimer);
+      this.contributionsTimer = null;
+    }
+  }
+
+  /**
+   * Called when the active file's threads, suggestions or conflict log change or another shared
+   * file becomes active.
+   */
+  setCommentsChangeHandler(handler: () => void) {
+    this.onCommentsChange = handler;
+  }
+
+  /** Called when a thread's gutter marker is clicked. */
+  setThreadSelectHandler(handler: (id: string) => void) {
+    this.onSelectThread = handler;
+  }
+
+  getActiveComments(): ActiveComments | null {
+    if (!this.comments || !this.currentPath || !this.currentText) return null;
+    return {
+      path: this.currentPath,
+      content: this.currentText.toString(),
+      threads: resolveThreads(this.comments.doc, this.currentText),
+      suggestions: resolveSuggestions(this.comments.doc, this.currentText),
+    };
+  }
+
+  /**
+   * Starts a comment thread on the selection in the active shared file. Returns the thread id,
+   * or null when nothing is selected or no shared file is active.
+   */
+  addComment(message: Omit<CommentMessage, "createdAt">): string | null {
+    if (!this.comments || !this.currentView || !this.currentText) return null;
+    const { from, to } = this.currentView.state.selection.main;
+    if (from === to) return null;
+    return addThread(this.comments.doc, this.currentText, from, to, {
+      ...message,
+      createdAt: Date.now(),
+    });
+  }
+
+  replyToThread(id: string, message: Omit<CommentMessage, "createdAt">): boolean {
+    if (!this.comments) return false;
+    return replyToThread(this.comments.doc, id, { ...message, createdAt: Date.now() });
+  }
+
+  setThreadResolved(id: string, resolved: boolean): boolean {
+    if (!this.comments) return false;
+    return setThreadResolved(this.comments.doc, id, resolved);
+  }
+
+  /** Selects the thread's passage in the editor and scrolls it into view. */
+  revealThread(id: string): boolean {
+    const thread = this.getActiveComments()?.threads.find((t) => t.id === id);
+    if (!thread || !this.currentView) return false;
+    const to = Math.min(thread.to, this.currentView.state.doc.length);
+    this.currentView.dispatch({
+      selection: { anchor: thread.from, head: to },
+      scrollIntoView: true,
+    });
+    this.currentView.focus();
+    return true;
+  }
+
+  private openComments(syncManager: SyncManager, filePath: string): Y.Doc | null {
+    const docId = commentsDocId(filePath);
+    if (this.comments?.docId === docId) return this.comments.doc;
+    this.releaseComments();
+    const handle = syncManager.getDoc(docId);
+    if (!handle) return null;
+    const unobserveThreads = observeThreads(handle.doc, () => this.onCommentsChange?.());
+    const unobserveSuggestions = observeSuggestions(handle.doc, () => this.onCommentsChange?.());
+    const unobserveConflicts = observeConflicts(handle.doc, () => this.onCommentsChange?.());
+    const unobserve = () => {
+      unobserveThreads();
+      unobserveSuggestions();
+      unobserveConflicts();
+    };
+    this.comments = { docId, doc: handle.doc, syncManager, unobserve };
+    return handle.doc;
+  }
+
+  private releaseComments() {
+    if (!this.comments) return;
+    this.comments.unobserve();
+    this.comments.syncManager.releaseDoc(this.comments.docId);
+    this.comments = null;
+    this.onCommentsChange?.();
+  }
+
   deactivateAll(view: EditorView) {
     this.activationGen++;
     if (this.currentAwareness) {
       this.currentAwareness.setLocalState(null);
       this.currentAwareness = null;
     }
+    this.currentText = null;
+    this.stopContributionUpdates();
+    this.releaseComments();
     this.currentPath = null;
     this.currentView = null;
     view.dispatch({ effects: this.compartment.reconfigure([]) });
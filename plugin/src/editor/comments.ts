@@ -0,0 +1,263 @@
+import {
+  type EditorState,
+  type Extension,
+  RangeSet,
+  StateEffect,
+  StateField,
+} from "@codemirror/state";
+import {
+  Decoration,
+  type DecorationSet,
+  EditorView,
+  GutterMarker,
+  ViewPlugin,
+  gutter,
+} from "@codemirror/view";
+import * as Y from "yjs";
+
+/**
+ * Each shared file's comment threads live in a doc of their own, so a comment-only user can
+ * write them while the server rejects their updates to the file's text.
+ */
+export const COMMENTS_DOC_PREFIX = "__comments__:";
+
+export interface CommentMessage {
+  userId: string;
+  displayName: string;
+  text: string;
+  createdAt: number;
+}
+
+/** A thread with its anchors resolved to offsets in the current text. */
+export interface CommentThread {
+  id: string;
+  from: number;
+  to: number;
+  resolved: boolean;
+  messages: CommentMessage[];
+}
+
+export function commentsDocId(path: string): string {
+  return COMMENTS_DOC_PREFIX + path;
+}
+
+function threadsOf(commentsDoc: Y.Doc): Y.Array<Y.Map<unknown>> {
+  return commentsDoc.getArray("threads");
+}
+
+/**
+ * Starts a thread on `from`..`to` of `text`. The range is stored as relative positions, so it
+ * follows the passage while others edit around it.
+ */
+export function addThread(
+  commentsDoc: Y.Doc,
+  text: Y.Text,
+  from: number,
+  to: number,
+  message: CommentMessage,
+): string {
+  const id = crypto.randomUUID();
+  const messages = new Y.Array<CommentMessage>();
+  messages.push([message]);
+  const thread = new Y.Map<unknown>();
+  thread.set("id", id);
+  thread.set("from", Y.encodeRelativePosition(Y.createRelativePositionFromTypeIndex(text, from)));
+  // Bound to the last commented character, so typing right after the range stays outside it
+  thread.set("to", Y.encodeRelativePosition(Y.createRelativePositionFromTypeIndex(text, to, -1)));
+  thread.set("messages", messages);
+  thread.set("resolved", false);
+  threadsOf(commentsDoc).push([thread]);
+  return id;
+}
+
+/** Calls `listener` whenever a thread is added, answered or resolved. */
+export function observeThreads(commentsDoc: Y.Doc, listener: () => void): () => void {
+  const threads = threadsOf(commentsDoc);
+  const observer = () => listener();
+  threads.observeDeep(observer);
+  return () => threads.unobserveDeep(observer);
+}
+
+function findThread(commentsDoc: Y.Doc, id: string): Y.Map<unknown> | undefined {
+  return threadsOf(commentsDoc)
+    .toArray()
+    .find((thread) => thread.get("id") === id);
+}
+
+export function replyToThread(commentsDoc: Y.Doc, id: string, message: CommentMessage): boolean {
+  const messages = findThread(commentsDoc, id)?.get("messages");
+  if (!(messages instanceof Y.Array)) return false;
+  messages.push([message]);
+  return true;
+}
+
+export function setThreadResolved(commentsDoc: Y.Doc, id: string, resolved: boolean): boolean {
+  const thread = findThread(commentsDoc, id);
+  if (!thread) return false;
+  thread.set("resolved", resolved);
+  return true;
+}
+
+/** Users named as `@Display Name` in `text`, matched case-insensitively. */
+export function mentionedUsers<T extends { userId: string; displayName: string }>(
+  text: string,
+  users: Iterable<T>,
+): T[] {
+  const lower = text.toLowerCase();
+  return [...users].filter(
+    (user) => user.displayName && lower.includes(`@${user.displayName.toLowerCase()}`),
+  );
+}
+
+function absoluteIndex(value: unknown, textDoc: Y.Doc): number | null {
+  if (!(value instanceof Uint8Array)) return null;
+  const position = Y.createAbsolutePositionFromRelativePosition(
+    Y.decodeRelativePosition(value),
+    textDoc,
+  );
+  return position ? position.index : null;
+}
+
+/** Threads whose anchors resolve in `text`, in document order. */
+export function resolveThreads(commentsDoc: Y.Doc, text: Y.Text): CommentThread[] {
+  const textDoc = text.doc;
+  if (!textDoc) return [];
+  const threads: CommentThread[] = [];
+  for (const thread of threadsOf(commentsDoc)) {
+    const from = absoluteIndex(thread.get("from"), textDoc);
+    const to = absoluteIndex(thread.get("to"), textDoc);
+    if (from === null || to === null) continue;
+    const messages = thread.get("messages");
+    threads.push({
+      id: String(thread.get("id")),
+      from: Math.min(from, to),
+      to: Math.max(from, to),
+      resolved: thread.get("resolved") === true,
+      messages: messages instanceof Y.Array ? (messages.toArray() as CommentMessage[]) : [],
+    });
+  }
+  return threads.sort((a, b) => a.from - b.from);
+}
+
+const setThreadsEffect = StateEffect.define<CommentThread[]>();
+
+/** Resolved threads keep their anchors but are only listed in the comments view. */
+function threadDecorations(threads: CommentThread[], docLength: number): DecorationSet {
+  return Decoration.set(
+    threads
+      .filter((thread) => !thread.resolved && thread.from < thread.to && thread.to <= docLength)
+      .map((thread) =>
+        Decoration.mark({
+          class: "live-share-comment",
+          threadId: thread.id,
+          attributes: {
+            title: thread.messages.map((m) => `${m.displayName}: ${m.text}`).join("\n"),
+          },
+        }).range(thread.from, thread.to),
+      ),
+    true,
+  );
+}
+
+const commentField = StateField.define<DecorationSet>({
+  create() {
+    return Decoration.none;
+  },
+  update(decorations, transaction) {
+    let next = decorations.map(transaction.changes);
+    for (const effect of transaction.effects) {
+      if (effect.is(setThreadsEffect)) {
+        next = threadDecorations(effect.value, transaction.state.doc.length);
+      }
+    }
+    return next;
+  },
+  provide: (field) => EditorView.decorations.from(field),
+});
+
+class CommentGutterMarker extends GutterMarker {
+  constructor(readonly count: number) {
+    super();
+  }
+
+  override eq(other: GutterMarker): boolean {
+    return other instanceof CommentGutterMarker && other.count === this.count;
+  }
+
+  override toDOM(): Node {
+    const el = document.createElement("div");
+    el.className = "live-share-comment-marker";
+    el.textContent = this.count > 1 ? String(this.count) : "";
+    el.title = this.count > 1 ? `${this.count} comments` : "Comment";
+    return el;
+  }
+}
+
+/** Thread ids whose highlight starts on each line, keyed by line start. */
+function threadsByLine(state: EditorState): Map<number, string[]> {
+  const lines = new Map<number, string[]>();
+  const cursor = state.field(commentField).iter();
+  for (; cursor.value; cursor.next()) {
+    const lineStart = state.doc.lineAt(cursor.from).from;
+    const ids = lines.get(lineStart) ?? [];
+    ids.push(cursor.value.spec.threadId as string);
+    lines.set(lineStart, ids);
+  }
+  return lines;
+}
+
+function commentGutter(onSelectThread?: (id: string) => void): Extension {
+  return gutter({
+    class: "live-share-comment-gutter",
+    markers: (view) =>
+      RangeSet.of(
+        [...threadsByLine(view.state)].map(([lineStart, ids]) =>
+          new CommentGutterMarker(ids.length).range(lineStart),
+        ),
+      ),
+    domEventHandlers: {
+      click: (view, line) => {
+        const id = threadsByLine(view.state).get(line.from)?.[0];
+        if (!id || !onSelectThread) return false;
+        onSelectThread(id);
+        return true;
+      },
+    },
+  });
+}
+
+/**
+ * Highlights the open threads in `commentsDoc` and marks their first lines in a gutter;
+ * clicking a marker passes the thread to `onSelectThread`. Anchors are resolved again
+ * whenever a thread changes; text edits in between only shift the existing highlights.
+ */
+export function commentsExtension(
+  commentsDoc: Y.Doc,
+  text: Y.Text,
+  onSelectThread?: (id: string) => void,
+): Extension {
+  const plugin = ViewPlugin.fromClass(
+    class {
+      private threads = threadsOf(commentsDoc);
+      private destroyed = false;
+      private observer = () => this.refresh();
+
+      constructor(private view: EditorView) {
+        this.threads.observeDeep(this.observer);
+        // The view cannot take a transaction while it is still applying this extension
+        queueMicrotask(() => this.refresh());
+      }
+
+      private refresh() {
+        if (this.destroyed) return;
+        this.view.dispatch({ effects: setThreadsEffect.of(resolveThreads(commentsDoc, text)) });
+      }
+
+      destroy() {
+        this.destroyed = true;
+        this.threads.unobserveDeep(this.observer);
+      }
+    },
+  );
+  return [commentField, commentGutter(onSelectThread), plugin];
+}
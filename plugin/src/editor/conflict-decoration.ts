@@ -1,15 +1,31 @@
-import { type Extension, StateEffect, StateField, Transaction } from "@codemirror/state";
 import {
-  Decoration,
-  type DecorationSet,
-  EditorView,
-  ViewPlugin,
-  type ViewUpdate,
-} from "@codemirror/view";
+  EditorState,
+  type Extension,
+  StateEffect,
+  StateField,
+  type Text,
+  type Transaction,
+} from "@codemirror/state";
+import { Decoration, type DecorationSet, EditorView, ViewPlugin } from "@codemirror/view";
+import { ySyncFacet } from "y-codemirror.next";
+import type * as Y from "yjs";
 
 const OVERLAP_WINDOW_MS = 2000;
 const DECORATION_LIFETIME_MS = 5000;
 
+/**
+ * A passage that a remote edit changed while it was being edited here, with what it said here
+ * before. Further overlapping edits within the window extend it and keep its id.
+ */
+export interface OverlappingEdit {
+  id: string;
+  /** The passage in the doc after the remote edit. */
+  from: number;
+  to: number;
+  /** The passage as it read here before the remote edits. */
+  mine: string;
+}
+
 interface EditRegion {
   from: number;
   to: number;
@@ -22,148 +38,260 @@ interface ConflictMark {
   expiry: number;
 }
 
+interface OpenConflict extends OverlappingEdit {
+  timestamp: number;
+}
+
+interface ConflictState {
+  localEdits: EditRegion[];
+  open: OpenConflict[];
+  marks: ConflictMark[];
+  decorations: DecorationSet;
+}
+
 const addConflictEffect = StateEffect.define<ConflictMark>();
 const clearExpiredEffect = StateEffect.define<number>();
 const setLocalEditsEffect = StateEffect.define<EditRegion[]>();
+const setOpenConflictsEffect = StateEffect.define<OpenConflict[]>();
+const overlappingEditsEffect = StateEffect.define<OverlappingEdit[]>();
+
+/** The Yjs transaction each doc is telling its observers about, while it does. */
+const observedTransactions = new WeakMap<Y.Doc, ObservedTransaction>();
+
+interface ObservedTransaction {
+  current: Y.Transaction | null;
+}
 
 const conflictMark = Decoration.mark({
   class: "live-share-conflict",
 });
 
-const conflictField = StateField.define<{
-  localEdits: EditRegion[];
-  marks: ConflictMark[];
-  decorations: DecorationSet;
-}>({
-  create() {
-    return { localEdits: [], marks: [], decorations: Decoration.none };
-  },
-  update(state, transaction) {
-    let { localEdits, marks } = state;
-    let changed = false;
-
-    if (transaction.docChanged) {
-      marks = marks.map((mark) => {
-        const from = transaction.changes.mapPos(mark.from, 1);
-        const to = transaction.changes.mapPos(mark.to, -1);
-        return { ...mark, from: Math.min(from, to), to: Math.max(from, to) };
-      });
-      localEdits = localEdits.map((edit) => {
-        const from = transaction.changes.mapPos(edit.from, 1);
-        const to = transaction.changes.mapPos(edit.to, -1);
-        return { ...edit, from: Math.min(from, to), to: Math.max(from, to) };
-      });
-      changed = true;
-    }
+function mapRange<T extends { from: number; to: number }>(range: T, transaction: Transaction): T {
+  const from = transaction.changes.mapPos(range.from, 1);
+  const to = transaction.changes.mapPos(range.to, -1);
+  return { ...range, from: Math.min(from, to), to: Math.max(from, to) };
+}
+
+function createConflictField() {
+  return StateField.define<ConflictState>({
+    create() {
+      return { localEdits: [], open: [], marks: [], decorations: Decoration.none };
+    },
+    update(state, transaction) {
+      let { localEdits, open, marks } = state;
+      let changed = false;
 
-    for (const effect of transaction.effects) {
-      if (effect.is(addConflictEffect)) {
-        marks = [...marks, effect.value];
+      if (transaction.docChanged) {
+        marks = marks.map((mark) => mapRange(mark, transaction));
+        localEdits = localEdits.map((edit) => mapRange(edit, transaction));
+        open = open.map((conflict) => mapRange(conflict, transaction));
         changed = true;
       }
-      if (effect.is(clearExpiredEffect)) {
-        const now = effect.value;
-        const before = marks.length;
-        marks = marks.filter((m) => m.expiry > now);
-        if (marks.length !== before) changed = true;
-      }
-      if (effect.is(setLocalEditsEffect)) {
-        localEdits = effect.value;
-        changed = true;
+
+      for (const effect of transaction.effects) {
+        if (effect.is(addConflictEffect)) {
+          marks = [...marks, effect.value];
+          changed = true;
+        }
+        if (effect.is(clearExpiredEffect)) {
+          const now = effect.value;
+          const before = marks.length;
+          marks = marks.filter((m) => m.expiry > now);
+          if (marks.length !== before) changed = true;
+        }
+        if (effect.is(setLocalEditsEffect)) {
+          localEdits = effect.value;
+          changed = true;
+        }
+        if (effect.is(setOpenConflictsEffect)) {
+          open = effect.value;
+          changed = true;
+        }
       }
-    }
 
-    if (!changed) return state;
+      if (!changed) return state;
 
-    const decorations = Decoration.set(
-      marks
-        .filter((mark) => mark.from < mark.to)
-        .map((mark) => conflictMark.range(mark.from, mark.to))
-        .sort((a, b) => a.from - b.from),
-    );
-    return { localEdits, marks, decorations };
-  },
-  provide: (field) => EditorView.decorations.from(field, (state) => state.decorations),
-});
+      const decorations = Decoration.set(
+        marks
+          .filter((mark) => mark.from < mark.to)
+          .map((mark) => conflictMark.range(mark.from, mark.to))
+          .sort((a, b) => a.from - b.from),
+      );
+      return { localEdits, open, marks, decorations };
+    },
+    provide: (field) => EditorView.decorations.from(field, (state) => state.decorations),
+  });
+}
 
-function isLocalTransaction(transaction: Transaction): boolean {
-  const annotation = transaction.annotation(Transaction.remote);
-  return annotation !== true;
+function observeTransactions(doc: Y.Doc): ObservedTransaction {
+  let observed = observedTransactions.get(doc);
+  if (!observed) {
+    const tracked: ObservedTransaction = { current: null };
+    doc.on("beforeObserverCalls", (transaction) => {
+      tracked.current = transaction;
+    });
+    doc.on("afterTransaction", () => {
+      tracked.current = null;
+    });
+    observedTransactions.set(doc, tracked);
+    observed = tracked;
+  }
+  return observed;
 }
 
-const conflictPlugin = ViewPlugin.fromClass(
-  class {
-    private cleanupTimer: ReturnType<typeof setInterval> | null = null;
+/**
+ * yCollab applies remote edits to the editor from its observer of the text, for Yjs
+ * transactions it did not make itself; local edits reach the text with its config as origin.
+ */
+function isLocalTransaction(
+  transaction: Transaction,
+  observed: ObservedTransaction | null,
+): boolean {
+  const current = observed?.current;
+  return !current || current.origin === transaction.startState.facet(ySyncFacet);
+}
+
+/**
+ * The passage `from`..`to` of `doc` as it read here before the remote edits, taking the
+ * saved version of each open conflict it takes in.
+ */
+function mineBefore(doc: Text, from: number, to: number, merged: OpenConflict[]): string {
+  let mine = "";
+  let pos = from;
+  for (const conflict of merged) {
+    if (conflict.from < pos) continue;
+    mine += doc.sliceString(pos, conflict.from) + conflict.mine;
+    pos = conflict.to;
+  }
+  return mine + doc.sliceString(pos, to);
+}
 
-    constructor(private view: EditorView) {
-      this.startCleanup();
+/**
+ * Finds where a remote transaction changed text edited here within the window. Returns the
+ * effects that flash and remember those passages and carry the overlapping edits they amount to.
+ */
+function detectConflicts(
+  transaction: Transaction,
+  state: ConflictState,
+  now: number,
+): StateEffect<unknown>[] {
+  const localEdits = state.localEdits.filter((edit) => now - edit.timestamp < OVERLAP_WINDOW_MS);
+  let open = state.open.filter((conflict) => now - conflict.timestamp < OVERLAP_WINDOW_MS);
+  const doc = transaction.startState.doc;
+  const touched: OpenConflict[] = [];
+
+  transaction.changes.iterChangedRanges((fromA, toA) => {
+    const overlapping = localEdits.filter((edit) => fromA < edit.to && toA > edit.from);
+    if (overlapping.length === 0) return;
+    let from = Math.min(fromA, ...overlapping.map((edit) => edit.from));
+    let to = Math.max(toA, ...overlapping.map((edit) => edit.to));
+    const merged = open
+      .filter((conflict) => conflict.from <= to && conflict.to >= from)
+      .sort((a, b) => a.from - b.from);
+    for (const conflict of merged) {
+      from = Math.min(from, conflict.from);
+      to = Math.max(to, conflict.to);
     }
+    const conflict: OpenConflict = {
+      id: merged[0]?.id ?? crypto.randomUUID(),
+      from,
+      to,
+      mine: mineBefore(doc, from, to, merged),
+      timestamp: now,
+    };
+    open = [...open.filter((other) => !merged.includes(other)), conflict];
+    touched.push(conflict);
+  });
+
+  if (touched.length === 0) return [];
+
+  // Widen rather than shrink when moving the passages into the doc after the transaction
+  const mapped = open.map((conflict) => ({
+    ...conflict,
+    from: transaction.changes.mapPos(conflict.from, -1),
+    to: transaction.changes.mapPos(conflict.to, 1),
+  }));
+  const edits = mapped
+    .filter((conflict) => touched.some((other) => other.id === conflict.id))
+    .map(({ id, from, to, mine }) => ({ id, from, to, mine }));
+  const effects: StateEffect<unknown>[] = [
+    setOpenConflictsEffect.of(mapped),
+    overlappingEditsEffect.of(edits),
+  ];
+  for (const edit of edits) {
+    effects.push(
+      addConflictEffect.of({ from: edit.from, to: edit.to, expiry: now + DECORATION_LIFETIME_MS }),
+    );
+  }
+  return effects;
+}
 
-    update(update: ViewUpdate) {
-      if (!update.docChanged) return;
-      const now = Date.now();
-      const state = update.view.state.field(conflictField);
-
-      for (const transaction of update.transactions) {
-        if (!transaction.docChanged) continue;
-
-        if (isLocalTransaction(transaction)) {
-          const newEdits = [...state.localEdits];
-          transaction.changes.iterChangedRanges((_fromA, _toA, fromB, toB) => {
-            newEdits.push({ from: fromB, to: toB, timestamp: now });
-          });
-          const cutoff = now - OVERLAP_WINDOW_MS;
-          const filtered = newEdits.filter((edit) => edit.timestamp > cutoff);
-          update.view.dispatch({ effects: setLocalEditsEffect.of(filtered) });
-        } else {
-          const recentLocal = state.localEdits.filter(
-            (edit) => now - edit.timestamp < OVERLAP_WINDOW_MS,
-          );
-          if (recentLocal.length === 0) continue;
-
-          const effects: StateEffect<ConflictMark>[] = [];
-          transaction.changes.iterChangedRanges((_fromA, _toA, fromB, toB) => {
-            for (const local of recentLocal) {
-              if (fromB < local.to && toB > local.from) {
-                const overlapFrom = Math.max(fromB, local.from);
-                const overlapTo = Math.min(toB, local.to);
-                if (overlapFrom < overlapTo) {
-                  effects.push(
-                    addConflictEffect.of({
-                      from: overlapFrom,
-                      to: overlapTo,
-                      expiry: now + DECORATION_LIFETIME_MS,
-                    }),
-                  );
-                }
-              }
-            }
-          });
-
-          if (effects.length > 0) {
-            update.view.dispatch({ effects });
-          }
+function cleanupPlugin(field: StateField<ConflictState>) {
+  return ViewPlugin.fromClass(
+    class {
+      private cleanupTimer: ReturnType<typeof setInterval> | null = null;
+
+      constructor(private view: EditorView) {
+        this.cleanupTimer = setInterval(() => {
+          const state = this.view.state.field(field, false);
+          if (!state || state.marks.length === 0) return;
+          this.view.dispatch({ effects: clearExpiredEffect.of(Date.now()) });
+        }, 1000);
+      }
+
+      destroy() {
+        if (this.cleanupTimer) {
+          clearInterval(this.cleanupTimer);
+          this.cleanupTimer = null;
         }
       }
-    }
+    },
+  );
+}
 
-    private startCleanup() {
-      this.cleanupTimer = setInterval(() => {
-        const state = this.view.state.field(conflictField, false);
-        if (!state || state.marks.length === 0) return;
-        this.view.dispatch({ effects: clearExpiredEffect.of(Date.now()) });
-      }, 1000);
-    }
+/** The overlapping edits a remote transaction amounted to, as found while building it. */
+export function overlappingEdits(transaction: Transaction): OverlappingEdit[] {
+  const edits: OverlappingEdit[] = [];
+  for (const effect of transaction.effects) {
+    if (effect.is(overlappingEditsEffect)) edits.push(...effect.value);
+  }
+  return edits;
+}
 
-    destroy() {
-      if (this.cleanupTimer) {
-        clearInterval(this.cleanupTimer);
-        this.cleanupTimer = null;
-      }
+/**
+ * Flashes passages of `text` that a collaborator changed while they were being edited here,
+ * and hands each one to `onConflict` with the version it replaced, so the edit is not lost
+ * when nobody was looking. `onConflict` runs once the editor has applied the transaction.
+ */
+export function conflictExtension(
+  text: Y.Text,
+  onConflict: (edit: OverlappingEdit) => void,
+): Extension {
+  const field = createConflictField();
+  const observed = text.doc ? observeTransactions(text.doc) : null;
+  const extender = EditorState.transactionExtender.of((transaction) => {
+    if (!transaction.docChanged) return null;
+    const state = transaction.startState.field(field, false);
+    if (!state) return null;
+    const now = Date.now();
+
+    if (isLocalTransaction(transaction, observed)) {
+      const edits = state.localEdits
+        .filter((edit) => now - edit.timestamp < OVERLAP_WINDOW_MS)
+        .map((edit) => mapRange(edit, transaction));
+      transaction.changes.iterChangedRanges((_fromA, _toA, fromB, toB) => {
+        edits.push({ from: fromB, to: toB, timestamp: now });
+      });
+      return { effects: setLocalEditsEffect.of(edits) };
     }
-  },
-);
 
-export function conflictExtension(): Extension {
-  return [conflictField, conflictPlugin];
+    const effects = detectConflicts(transaction, state, now);
+    return effects.length > 0 ? { effects } : null;
+  });
+  const reporter = EditorView.updateListener.of((update) => {
+    for (const transaction of update.transactions) {
+      for (const edit of overlappingEdits(transaction)) onConflict(edit);
+    }
+  });
+  return [field, extender, reporter, cleanupPlugin(field)];
 }
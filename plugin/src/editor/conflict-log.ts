@@ -0,0 +1,144 @@
+import * as Y from "yjs";
+
+import type { OverlappingEdit } from "./conflict-decoration";
+
+/**
+ * Overlapping edits are logged next to the comment threads in each file's comments doc, so
+ * they stay with the file until someone picks a version, whoever was looking at the time.
+ */
+const CONFLICTS_ARRAY = "conflicts";
+
+/** Which version of a contested passage to keep; "both" keeps the logged one first. */
+export type ConflictChoice = "mine" | "theirs" | "both";
+
+export interface ConflictAuthor {
+  userId: string;
+  displayName: string;
+}
+
+/**
+ * A passage a collaborator changed while the author was editing it, resolved to offsets in
+ * the current text. `mine` is the author's version from before; the text there is theirs.
+ */
+export interface EditConflict extends ConflictAuthor {
+  id: string;
+  from: number;
+  to: number;
+  mine: string;
+  createdAt: number;
+}
+
+function conflictsOf(commentsDoc: Y.Doc): Y.Array<Y.Map<unknown>> {
+  return commentsDoc.getArray(CONFLICTS_ARRAY);
+}
+
+function anchor(text: Y.Text, index: number, assoc?: number): Uint8Array {
+  return Y.encodeRelativePosition(Y.createRelativePositionFromTypeIndex(text, index, assoc));
+}
+
+function absoluteIndex(value: unknown, textDoc: Y.Doc): number | null {
+  if (!(value instanceof Uint8Array)) return null;
+  const position = Y.createAbsolutePositionFromRelativePosition(
+    Y.decodeRelativePosition(value),
+    textDoc,
+  );
+  return position ? position.index : null;
+}
+
+function indexOf(commentsDoc: Y.Doc, id: string): number {
+  return conflictsOf(commentsDoc)
+    .toArray()
+    .findIndex((conflict) => conflict.get("id") === id);
+}
+
+/** Conflicts whose anchors resolve in `text`, in document order. */
+export function resolveConflicts(commentsDoc: Y.Doc, text: Y.Text): EditConflict[] {
+  const textDoc = text.doc;
+  if (!textDoc) return [];
+  const conflicts: EditConflict[] = [];
+  for (const conflict of conflictsOf(commentsDoc)) {
+    const from = absoluteIndex(conflict.get("from"), textDoc);
+    const to = absoluteIndex(conflict.get("to"), textDoc);
+    if (from === null || to === null) continue;
+    conflicts.push({
+      id: String(conflict.get("id")),
+      userId: String(conflict.get("userId")),
+      displayName: String(conflict.get("displayName")),
+      from: Math.min(from, to),
+      to: Math.max(from, to),
+      mine: String(conflict.get("mine") ?? ""),
+      createdAt: Number(conflict.get("createdAt")),
+    });
+  }
+  return conflicts.sort((a, b) => a.from - b.from || a.createdAt - b.createdAt);
+}
+
+/** Calls `listener` whenever a conflict is logged, extended or settled. */
+export function observeConflicts(commentsDoc: Y.Doc, listener: () => void): () => void {
+  const conflicts = conflictsOf(commentsDoc);
+  const observer = () => listener();
+  conflicts.observeDeep(observer);
+  return () => conflicts.unobserveDeep(observer);
+}
+
+/**
+ * Logs `edit` as a conflict of `author`'s, or updates the entry with its id when further
+ * overlapping edits widened it. Returns true when a new entry was added.
+ */
+export function recordConflict(
+  commentsDoc: Y.Doc,
+  text: Y.Text,
+  author: ConflictAuthor,
+  edit: OverlappingEdit,
+): boolean {
+  if (edit.to > text.length) return false;
+  const array = conflictsOf(commentsDoc);
+  const index = indexOf(commentsDoc, edit.id);
+  const conflict = index === -1 ? new Y.Map<unknown>() : array.get(index);
+  commentsDoc.transact(() => {
+    // An empty passage, where theirs deleted what was mine, keeps a single anchor
+    const start = anchor(text, edit.from);
+    conflict.set("mine", edit.mine);
+    conflict.set("from", start);
+    conflict.set("to", edit.to > edit.from ? anchor(text, edit.to, -1) : start);
+    if (index !== -1) return;
+    conflict.set("id", edit.id);
+    conflict.set("userId", author.userId);
+    conflict.set("displayName", author.displayName);
+    conflict.set("createdAt", Date.now());
+    array.push([conflict]);
+  });
+  return index === -1;
+}
+
+/** The text "keep both" leaves: `mine` on the lines before `theirs`. */
+function keepBoth(mine: string, theirs: string): string {
+  if (!mine || !theirs) return mine + theirs;
+  return mine.endsWith("\n") ? mine + theirs : `${mine}\n${theirs}`;
+}
+
+/**
+ * Replaces the contested passage with the chosen version and removes the conflict from the
+ * log. Keeping theirs leaves the text as it is.
+ */
+export function settleConflict(
+  commentsDoc: Y.Doc,
+  text: Y.Text,
+  id: string,
+  choice: ConflictChoice,
+): boolean {
+  const conflict = resolveConflicts(commentsDoc, text).find((c) => c.id === id);
+  if (!conflict || !text.doc) return false;
+  const theirs = text.toString().slice(conflict.from, conflict.to);
+  const keep = choice === "mine" ? conflict.mine : keepBoth(conflict.mine, theirs);
+  if (choice !== "theirs" && keep !== theirs) {
+    text.doc.transact(() => {
+      if (conflict.to > conflict.from) text.delete(conflict.from, conflict.to - conflict.from);
+      if (keep) text.insert(conflict.from, keep);
+    });
+  }
+  const index = indexOf(commentsDoc, id);
+  if (index === -1) return false;
+  conflictsOf(commentsDoc).delete(index);
+  return true;
+}
@@ -0,0 +1,312 @@
+import { EditorState, type Extension, StateEffect, StateField, type Text } from "@codemirror/state";
+import {
+  Decoration,
+  type DecorationSet,
+  EditorView,
+  ViewPlugin,
+  WidgetType,
+} from "@codemirror/view";
+import * as Y from "yjs";
+
+/**
+ * Suggestions live next to the comment threads in each file's comments doc, so they sync with
+ * the file but leave its text alone until the host accepts them.
+ */
+const SUGGESTIONS_ARRAY = "suggestions";
+
+export interface SuggestionAuthor {
+  userId: string;
+  displayName: string;
+}
+
+/** A proposed replacement of `from`..`to` by `insert`, resolved to offsets in the current text. */
+export interface Suggestion extends SuggestionAuthor {
+  id: string;
+  from: number;
+  to: number;
+  insert: string;
+  createdAt: number;
+}
+
+function suggestionsOf(commentsDoc: Y.Doc): Y.Array<Y.Map<unknown>> {
+  return commentsDoc.getArray(SUGGESTIONS_ARRAY);
+}
+
+function anchor(text: Y.Text, index: number, assoc?: number): Uint8Array {
+  return Y.encodeRelativePosition(Y.createRelativePositionFromTypeIndex(text, index, assoc));
+}
+
+/** Anchors the range like comment threads do; an empty range keeps a single anchor. */
+function setRange(suggestion: Y.Map<unknown>, text: Y.Text, from: number, to: number) {
+  const start = anchor(text, from);
+  suggestion.set("from", start);
+  suggestion.set("to", to > from ? anchor(text, to, -1) : start);
+}
+
+function absoluteIndex(value: unknown, textDoc: Y.Doc): number | null {
+  if (!(value instanceof Uint8Array)) return null;
+  const position = Y.createAbsolutePositionFromRelativePosition(
+    Y.decodeRelativePosition(value),
+    textDoc,
+  );
+  return position ? position.index : null;
+}
+
+/** Suggestions whose anchors resolve in `text`, in document order. */
+export function resolveSuggestions(commentsDoc: Y.Doc, text: Y.Text): Suggestion[] {
+  const textDoc = text.doc;
+  if (!textDoc) return [];
+  const suggestions: Suggestion[] = [];
+  for (const suggestion of suggestionsOf(commentsDoc)) {
+    const from = absoluteIndex(suggestion.get("from"), textDoc);
+    const to = absoluteIndex(suggestion.get("to"), textDoc);
+    if (from === null || to === null) continue;
+    suggestions.push({
+      id: String(suggestion.get("id")),
+      userId: String(suggestion.get("userId")),
+      displayName: String(suggestion.get("displayName")),
+      from: Math.min(from, to),
+      to: Math.max(from, to),
+      insert: String(suggestion.get("insert") ?? ""),
+      createdAt: Number(suggestion.get("createdAt")),
+    });
+  }
+  return suggestions.sort((a, b) => a.from - b.from || a.createdAt - b.createdAt);
+}
+
+/** Calls `listener` whenever a suggestion is made, extended, accepted or rejected. */
+export function observeSuggestions(commentsDoc: Y.Doc, listener: () => void): () => void {
+  const suggestions = suggestionsOf(commentsDoc);
+  const observer = () => listener();
+  suggestions.observeDeep(observer);
+  return () => suggestions.unobserveDeep(observer);
+}
+
+function indexOf(commentsDoc: Y.Doc, id: string): number {
+  return suggestionsOf(commentsDoc)
+    .toArray()
+    .findIndex((suggestion) => suggestion.get("id") === id);
+}
+
+/**
+ * Records an edit of `text` as a suggestion by `author` instead of applying it, and returns
+ * where the cursor belongs afterwards. Typing or deleting at the edge of one of the author's
+ * own suggestions extends it, so a burst of keystrokes becomes one suggestion.
+ */
+export function suggestChange(
+  commentsDoc: Y.Doc,
+  text: Y.Text,
+  author: SuggestionAuthor,
+  from: number,
+  to: number,
+  insert: string,
+): number {
+  const own = resolveSuggestions(commentsDoc, text).filter((s) => s.userId === author.userId);
+  const array = suggestionsOf(commentsDoc);
+
+  if (from === to) {
+    // Typing where a suggested deletion starts makes it a replacement
+    const extended = own.find(
+      (s) => s.to === from || (s.from === from && s.to > s.from && !s.insert),
+    );
+    if (extended) {
+      array.get(indexOf(commentsDoc, extended.id)).set("insert", extended.insert + insert);
+      return extended.to;
+    }
+  } else if (!insert) {
+    // Backspace behind a suggested insertion takes back what was typed before deleting text
+    const typed = own.find((s) => s.to === to && s.insert);
+    if (typed) {
+      const suggestion = array.get(indexOf(commentsDoc, typed.id));
+      const taken = Math.min(to - from, typed.insert.length);
+      const remaining = to - from - taken;
+      const start = Math.min(typed.from, to - remaining);
+      commentsDoc.transact(() => {
+        suggestion.set("insert", typed.insert.slice(0, typed.insert.length - taken));
+        if (start !== typed.from) setRange(suggestion, text, start, typed.to);
+      });
+      if (start === typed.to && taken === typed.insert.length) {
+        array.delete(indexOf(commentsDoc, typed.id));
+      }
+      return remaining > 0 ? start : to;
+    }
+    const adjacent = own.find((s) => to >= s.from && from <= s.to);
+    if (adjacent) {
+      const suggestion = array.get(indexOf(commentsDoc, adjacent.id));
+      setRange(suggestion, text, Math.min(from, adjacent.from), Math.max(to, adjacent.to));
+      return from;
+    }
+  }
+
+  const suggestion = new Y.Map<unknown>();
+  suggestion.set("id", crypto.randomUUID());
+  suggestion.set("userId", author.userId);
+  suggestion.set("displayName", author.displayName);
+  suggestion.set("insert", insert);
+  suggestion.set("createdAt", Date.now());
+  setRange(suggestion, text, from, to);
+  array.push([suggestion]);
+  return insert ? to : from;
+}
+
+/** Applies the suggestion to `text` and removes it. */
+export function acceptSuggestion(commentsDoc: Y.Doc, text: Y.Text, id: string): boolean {
+  const suggestion = resolveSuggestions(commentsDoc, text).find((s) => s.id === id);
+  if (!suggestion || !text.doc) return false;
+  text.doc.transact(() => {
+    if (suggestion.to > suggestion.from)
+      text.delete(suggestion.from, suggestion.to - suggestion.from);
+    if (suggestion.insert) text.insert(suggestion.from, suggestion.insert);
+  });
+  return rejectSuggestion(commentsDoc, id);
+}
+
+/** Removes the suggestion without touching the text. */
+export function rejectSuggestion(commentsDoc: Y.Doc, id: string): boolean {
+  const index = indexOf(commentsDoc, id);
+  if (index === -1) return false;
+  suggestionsOf(commentsDoc).delete(index);
+  return true;
+}
+
+/** Accepts every suggestion on `text`, last first, and returns how many were applied. */
+export function acceptAllSuggestions(commentsDoc: Y.Doc, text: Y.Text): number {
+  let accepted = 0;
+  for (const suggestion of resolveSuggestions(commentsDoc, text).reverse()) {
+    if (acceptSuggestion(commentsDoc, text, suggestion.id)) accepted++;
+  }
+  return accepted;
+}
+
+export function rejectAllSuggestions(commentsDoc: Y.Doc): number {
+  const array = suggestionsOf(commentsDoc);
+  const count = array.length;
+  if (count > 0) array.delete(0, count);
+  return count;
+}
+
+function describe(suggestion: Suggestion): string {
+  if (!suggestion.insert) return `${suggestion.displayName} suggested deleting this`;
+  if (suggestion.to > suggestion.from) return `${suggestion.displayName} suggested replacing this`;
+  return `${suggestion.displayName} suggested inserting this`;
+}
+
+class InsertionWidget extends WidgetType {
+  constructor(
+    readonly insert: string,
+    readonly title: string,
+  ) {
+    super();
+  }
+
+  override eq(other: WidgetType): boolean {
+    return (
+      other instanceof InsertionWidget && other.insert === this.insert && other.title === this.title
+    );
+  }
+
+  override toDOM(): HTMLElement {
+    const el = document.createElement("span");
+    el.className = "live-share-suggestion-insert";
+    el.textContent = this.insert;
+    el.title = this.title;
+    return el;
+  }
+}
+
+const setSuggestionsEffect = StateEffect.define<Suggestion[]>();
+
+/** Suggested deletions are struck through; suggested text shows after them, underlined. */
+function suggestionDecorations(suggestions: Suggestion[], docLength: number): DecorationSet {
+  const ranges = [];
+  for (const suggestion of suggestions) {
+    if (suggestion.to > docLength) continue;
+    const title = describe(suggestion);
+    if (suggestion.to > suggestion.from) {
+      ranges.push(
+        Decoration.mark({
+          class: "live-share-suggestion-delete",
+          attributes: { title },
+        }).range(suggestion.from, suggestion.to),
+      );
+    }
+    if (suggestion.insert) {
+      ranges.push(
+        Decoration.widget({
+          widget: new InsertionWidget(suggestion.insert, title),
+          side: -1,
+        }).range(suggestion.to),
+      );
+    }
+  }
+  return Decoration.set(ranges, true);
+}
+
+const suggestionField = StateField.define<DecorationSet>({
+  create() {
+    return Decoration.none;
+  },
+  update(decorations, transaction) {
+    let next = decorations.map(transaction.changes);
+    for (const effect of transaction.effects) {
+      if (effect.is(setSuggestionsEffect)) {
+        next = suggestionDecorations(effect.value, transaction.state.doc.length);
+      }
+    }
+    return next;
+  },
+  provide: (field) => EditorView.decorations.from(field),
+});
+
+/** Shows the suggestions in `commentsDoc` inline as redlines. */
+export function suggestionsExtension(commentsDoc: Y.Doc, text: Y.Text): Extension {
+  const plugin = ViewPlugin.fromClass(
+    class {
+      private suggestions = suggestionsOf(commentsDoc);
+      private destroyed = false;
+      // Suggest mode records suggestions from inside a transaction, so redraw once it is done
+      private observer = () => queueMicrotask(() => this.refresh());
+
+      constructor(private view: EditorView) {
+        this.suggestions.observeDeep(this.observer);
+        queueMicrotask(() => this.refresh());
+      }
+
+      private refresh() {
+        if (this.destroyed) return;
+        this.view.dispatch({
+          effects: setSuggestionsEffect.of(resolveSuggestions(commentsDoc, text)),
+        });
+      }
+
+      destroy() {
+        this.destroyed = true;
+        this.suggestions.unobserveDeep(this.observer);
+      }
+    },
+  );
+  return [suggestionField, plugin];
+}
+
+function differsFrom(doc: Text, text: Y.Text): boolean {
+  return doc.length !== text.length || doc.toString() !== text.toString();
+}
+
+/**
+ * Turns local edits into suggestions: `suggest` records each change and returns where the
+ * cursor goes, and the edit itself is dropped. Remote edits that yCollab applies leave the
+ * editor matching `text`, which is how they are told apart.
+ */
+export function suggestModeExtension(
+  text: Y.Text,
+  suggest: (from: number, to: number, insert: string) => number,
+): Extension {
+  return EditorState.transactionFilter.of((transaction) => {
+    if (!transaction.docChanged || !differsFrom(transaction.newDoc, text)) return transaction;
+    const cursors: number[] = [];
+    transaction.changes.iterChanges((fromA, toA, _fromB, _toB, inserted) => {
+      cursors.push(suggest(fromA, toA, inserted.toString()));
+    });
+    return cursors.length === 1 ? { selection: { anchor: cursors[0] } } : [];
+  });
+}
@@ -1,7 +1,7 @@
 import { Notice, type Vault } from "obsidian";
 import type * as Y from "yjs";
 
-import type { SyncManager } from "../sync/sync";
+import type { DocHandle, SyncManager } from "../sync/sync";
 import type { SessionRole } from "../types";
 import {
   VAULT_EVENT_SETTLE_MS,
@@ -16,6 +16,7 @@ import {
 } from "../utils";
 import type { FileOpsManager } from "./file-ops";
 import type { ManifestManager } from "./manifest";
+import type { SessionHistory } from "./session-history";
 
 const DEBOUNCE_MS = 1000;
 
@@ -37,6 +38,7 @@ export class BackgroundSync {
     private syncManager: SyncManager,
     private manifestManager: ManifestManager,
     private fileOpsManager: FileOpsManager,
+    private history?: SessionHistory,
   ) {}
 
   isRunning(): boolean {
@@ -46,6 +48,7 @@ export class BackgroundSync {
   async startAll(role: SessionRole): Promise<void> {
     this.running = true;
     this.role = role;
+    if (role === "host") this.history?.start();
     const entries = this.manifestManager.getEntries();
     for (const [path, entry] of entries) {
       if (!isTextFile(path) || entry.binary) continue;
@@ -124,7 +127,7 @@ export class BackgroundSync {
 
       if (this.cancelledSubscribes.has(path)) return;
 
-      this.attachObserver(path, docHandle.text);
+      this.attachObserver(path, docHandle);
     } finally {
       this.subscribing.delete(path);
       this.cancelledSubscribes.delete(path);
@@ -139,6 +142,7 @@ export class BackgroundSync {
       unobserve();
       this.observers.delete(path);
     }
+    this.history?.untrack(path);
   }
 
   setActiveFile(rawPath: string | null): void {
@@ -181,6 +185,7 @@ export class BackgroundSync {
       unobserve();
       this.observers.delete(path);
     }
+    this.history?.untrack(path);
     this.syncManager.releaseDoc(path);
   }
 
@@ -198,6 +203,7 @@ export class BackgroundSync {
       unobserve();
       this.observers.delete(normOld);
     }
+    this.history?.rename(normOld, normNew);
     this.syncManager.releaseDoc(normOld);
 
     if (this.activeFile === normOld) {
@@ -236,7 +242,7 @@ export class BackgroundSync {
         }
       }
 
-      this.attachObserver(normNew, docHandle.text);
+      this.attachObserver(normNew, docHandle);
     } finally {
       this.subscribing.delete(normNew);
     }
@@ -263,6 +269,20 @@ export class BackgroundSync {
     }
   }
 
+  /**
+   * Replaces a shared file's text as a local edit, which collaborators receive like any other,
+   * and writes it to disk unless the editor has the file open and saves it itself.
+   */
+  replaceContent(rawPath: string, content: string): boolean {
+    const path = toCanonicalPath(normalizePath(rawPath));
+    if (!this.observers.has(path)) return false;
+    const docHandle = this.syncManager.getDoc(path);
+    if (!docHandle) return false;
+    applyMinimalYTextUpdate(docHandle.doc, docHandle.text, content);
+    if (path !== this.collabBoundFile) void this.writeToDisk(path, content);
+    return true;
+  }
+
   isRecentDiskWrite(rawPath: string): boolean {
     return this.recentDiskWrites.has(toCanonicalPath(normalizePath(rawPath)));
   }
@@ -273,10 +293,12 @@ export class BackgroundSync {
     for (const path of [...this.writeTimers.keys()]) {
       this.flushWrite(path);
     }
-    for (const [, unobserve] of this.observers) {
+    for (const [path, unobserve] of this.observers) {
       unobserve();
+      this.history?.untrack(path);
     }
     this.observers.clear();
+    this.history?.stop();
     this.cancelledSubscribes.clear();
     this.activeFile = null;
     this.collabBoundFile = null;
@@ -284,7 +306,8 @@ export class BackgroundSync {
     this.lastWrittenContent.clear();
   }
 
-  private attachObserver(path: string, text: Y.Text): void {
+  private attachObserver(path: string, docHandle: DocHandle): void {
+    const { text } = docHandle;
     const observer = (_event: Y.YTextEvent, transaction: Y.Transaction) => {
       if (transaction.local) return;
       if (path === this.collabBoundFile) return;
@@ -292,6 +315,7 @@ export class BackgroundSync {
     };
     text.observe(observer);
     this.observers.set(path, () => text.unobserve(observer));
+    this.history?.track(path, docHandle);
   }
 
   private flushWrite(path: string): void {
@@ -12,7 +12,7 @@ import {
 } from "../utils";
 import type { FileOpsManager } from "./file-ops";
 
-const CANVAS_DOC_PREFIX = "__canvas__:";
+export const CANVAS_DOC_PREFIX = "__canvas__:";
 const DEBOUNCE_MS = 1000;
 
 interface CanvasData {
@@ -0,0 +1,174 @@
+import * as Y from "yjs";
+
+import type { DocHandle } from "../sync/sync";
+
+const SNAPSHOT_INTERVAL_MS = 60_000;
+const MAX_SNAPSHOTS_PER_FILE = 50;
+
+export interface HistorySnapshot {
+  id: string;
+  path: string;
+  createdAt: number;
+  /** Display names of everyone whose edits went into this version since the previous one. */
+  authors: string[];
+  /** The doc's full state, as `Y.encodeStateAsUpdate` returns it. */
+  update: Uint8Array;
+}
+
+interface TrackedDoc {
+  handle: DocHandle;
+  authors: Set<string>;
+  dirty: boolean;
+  unobserve: () => void;
+}
+
+/** The text a snapshot held. */
+export function snapshotContent(snapshot: HistorySnapshot): string {
+  const doc = new Y.Doc();
+  Y.applyUpdate(doc, snapshot.update);
+  const content = doc.getText("content").toString();
+  doc.destroy();
+  return content;
+}
+
+/**
+ * Keeps versions of the shared files the host syncs in the background. Each file gets a
+ * snapshot when tracking starts and then one per interval in which it changed, naming the
+ * collaborators whose edits it contains. History lasts until the next session starts.
+ */
+export class SessionHistory {
+  private tracked = new Map<string, TrackedDoc>();
+  private snapshots = new Map<string, HistorySnapshot[]>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private onChange: (() => void) | null = null;
+
+  constructor(
+    private getLocalName: () => string,
+    private intervalMs = SNAPSHOT_INTERVAL_MS,
+  ) {}
+
+  setChangeHandler(handler: () => void): void {
+    this.onChange = handler;
+  }
+
+  /** Forgets the previous session's history and starts taking snapshots. */
+  start(): void {
+    this.stop();
+    this.snapshots.clear();
+    this.timer = setInterval(() => this.snapshotChanged(), this.intervalMs);
+    this.onChange?.();
+  }
+
+  /** Stops taking snapshots; what was recorded stays available. */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.snapshotChanged();
+    for (const path of [...this.tracked.keys()]) this.untrack(path);
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  track(path: string, handle: DocHandle): void {
+    if (!this.timer || this.tracked.has(path)) return;
+    const entry: TrackedDoc = {
+      handle,
+      authors: new Set(),
+      dirty: false,
+      unobserve: () => {},
+    };
+    const observer = (_event: Y.YTextEvent, transaction: Y.Transaction) => {
+      for (const name of this.authorsOf(handle, transaction)) entry.authors.add(name);
+      entry.dirty = true;
+    };
+    handle.text.observe(observer);
+    entry.unobserve = () => handle.text.unobserve(observer);
+    this.tracked.set(path, entry);
+    if (!this.snapshots.has(path)) this.takeSnapshot(path, entry);
+  }
+
+  untrack(path: string): void {
+    const entry = this.tracked.get(path);
+    if (!entry) return;
+    if (entry.dirty) this.takeSnapshot(path, entry);
+    entry.unobserve();
+    this.tracked.delete(path);
+  }
+
+  /** Carries a file's history over to its new path. Call before tracking `newPath`. */
+  rename(oldPath: string, newPath: string): void {
+    this.untrack(oldPath);
+    const snapshots = this.snapshots.get(oldPath);
+    if (!snapshots) return;
+    this.snapshots.delete(oldPath);
+    this.snapshots.set(
+      newPath,
+      snapshots.map((snapshot) => ({ ...snapshot, path: newPath })),
+    );
+    this.onChange?.();
+  }
+
+  /** All snapshots, newest first. */
+  getSnapshots(): HistorySnapshot[] {
+    return [...this.snapshots.values()]
+      .flatMap((snapshots) => [...snapshots].reverse())
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  getSnapshot(id: string): HistorySnapshot | undefined {
+    return this.getSnapshots().find((snapshot) => snapshot.id === id);
+  }
+
+  /** The live text of a tracked file, or null once it is no longer shared. */
+  getCurrentText(path: string): Y.Text | null {
+    return this.tracked.get(path)?.handle.text ?? null;
+  }
+
+  snapshotChanged(): void {
+    for (const [path, entry] of this.tracked) {
+      if (entry.dirty) this.takeSnapshot(path, entry);
+    }
+  }
+
+  destroy(): void {
+    this.stop();
+    this.snapshots.clear();
+    this.onChange = null;
+  }
+
+  private takeSnapshot(path: string, entry: TrackedDoc): void {
+    const snapshots = this.snapshots.get(path) ?? [];
+    snapshots.push({
+      id: crypto.randomUUID(),
+      path,
+      createdAt: Date.now(),
+      authors: [...entry.authors].sort(),
+      update: Y.encodeStateAsUpdate(entry.handle.doc),
+    });
+    if (snapshots.length > MAX_SNAPSHOTS_PER_FILE) snapshots.shift();
+    this.snapshots.set(path, snapshots);
+    entry.authors.clear();
+    entry.dirty = false;
+    this.onChange?.();
+  }
+
+  /** Names the clients whose clocks the transaction advanced, as their cursors label them. */
+  private authorsOf(handle: DocHandle, transaction: Y.Transaction): string[] {
+    const names: string[] = [];
+    const states = handle.awareness.getStates();
+    for (const [clientId, clock] of transaction.afterState) {
+      if (transaction.beforeState.get(clientId) === clock) continue;
+      if (clientId === handle.doc.clientID) {
+        names.push(this.getLocalName());
+        continue;
+      }
+      const user = states.get(clientId)?.user as { name?: unknown } | undefined;
+      if (typeof user?.name === "string") names.push(user.name);
+    }
+    return names;
+  }
+}
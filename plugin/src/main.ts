@@ -4,12 +4,14 @@ import { MarkdownView, Menu, Notice, Plugin, TFile, requestUrl } from "obsidian"
 import { minimatch } from "minimatch";
 import { DebugLogger } from "./debug-logger";
 import { CollabManager } from "./editor/collab";
+import { mentionedUsers } from "./editor/comments";
 import { BackgroundSync } from "./files/background-sync";
-import { CanvasSync } from "./files/canvas-sync";
+import { CANVAS_DOC_PREFIX, CanvasSync } from "./files/canvas-sync";
 
 import { ExclusionManager } from "./files/exclusion";
 import { FileOpsManager } from "./files/file-ops";
 import { ManifestManager } from "./files/manifest";
+import { SessionHistory, snapshotContent } from "./files/session-history";
 import { registerVaultEvents } from "./files/vault-events";
 import { AuthManager } from "./session/auth";
 import { registerCommands } from "./session/commands";
@@ -21,23 +23,36 @@ import { registerControlHandlers } from "./sync/control-handlers";
 import { ControlChannel } from "./sync/control-ws";
 import { E2ECrypto } from "./sync/crypto";
 import { SyncManager } from "./sync/sync";
-import { DEFAULT_SETTINGS, type LiveShareSettings } from "./types";
+import { DEFAULT_SETTINGS, type LiveShareSettings, type Permission } from "./types";
 
 import { AuditLogModal } from "./ui/audit-modal";
+import { COMMENTS_VIEW_TYPE, CommentsView } from "./ui/comments-view";
+import { CONFLICTS_VIEW_TYPE, ConflictsView } from "./ui/conflicts-view";
+import { DiffModal } from "./ui/diff-modal";
 
 import { ExplorerIndicators } from "./ui/explorer-indicators";
+import { HISTORY_VIEW_TYPE, HistoryView } from "./ui/history-view";
 import { ConfirmModal, PromptModal } from "./ui/modals";
 import { LiveShareSettingTab } from "./ui/settings";
 import {
   VAULT_EVENT_SETTLE_MS,
+  diffLines,
   ensureFolder,
+  getFileByPath,
   isTextFile,
+  normalizeLineEndings,
   normalizePath,
-  parseJwtPayload,
   toCanonicalPath,
   toLocalPath,
 } from "./utils";
 
+/** The presence panel's permission toggle steps through these. */
+const NEXT_PERMISSION: Record<Permission, Permission> = {
+  "read-write": "comment",
+  comment: "read-only",
+  "read-only": "read-write",
+};
+
 function getCmView(view: MarkdownView): EditorView | undefined {
   return (view.editor as unknown as { cm?: EditorView }).cm;
 }
@@ -52,6 +67,7 @@ export default class LiveSharePlugin extends Plugin {
   authManager!: AuthManager;
   exclusionManager!: ExclusionManager;
   backgroundSync!: BackgroundSync;
+  sessionHistory!: SessionHistory;
   connectionState!: ConnectionStateManager;
   logger!: DebugLogger;
 
@@ -60,6 +76,8 @@ export default class LiveSharePlugin extends Plugin {
   controlChannel: ControlChannel | null = null;
   remoteUsers = new Map<string, PresenceUser>();
   remoteReadOnlyPatterns: string[] = [];
+  /** Globs the host still lets this read-only guest edit. */
+  writePaths: string[] = [];
   presenceManager: PresenceManager | null = null;
   private connectionStateUnsub: (() => void) | null = null;
   statusBarEl!: HTMLElement;
@@ -68,6 +86,8 @@ export default class LiveSharePlugin extends Plugin {
   private currentScrollListener: (() => void) | null = null;
   muxConnected = false;
   controlConnected = false;
+  /** Granted by the host for this session: may approve joins, kick and set permissions. */
+  isCoHost = false;
   private manifestHandlerQueue: Promise<void> = Promise.resolve();
 
   updateOnlineState() {
@@ -174,7 +194,7 @@ export default class LiveSharePlugin extends Plugin {
     });
   }
 
-  private get userId(): string {
+  get userId(): string {
     return this.settings.githubUserId || this.settings.clientId;
   }
 
@@ -208,15 +228,19 @@ export default class LiveSharePlugin extends Plugin {
     this.sessionManager = new SessionManager(this);
     this.manifestManager = new ManifestManager(this.app.vault, this.settings);
     this.authManager = new AuthManager(this);
+    this.authManager.scheduleRefresh();
     this.exclusionManager = new ExclusionManager();
     this.exclusionManager.setConfigDir(this.app.vault.configDir);
     this.exclusionManager.setPatterns(this.settings.excludePatterns);
     this.manifestManager.setExclusionManager(this.exclusionManager);
+    this.sessionHistory = new SessionHistory(() => this.settings.displayName);
+    this.sessionHistory.setChangeHandler(() => this.refreshHistoryView());
     this.backgroundSync = new BackgroundSync(
       this.app.vault,
       this.syncManager,
       this.manifestManager,
       this.fileOpsManager,
+      this.sessionHistory,
     );
     this.connectionState = new ConnectionStateManager();
     this.logger = new DebugLogger(
@@ -240,9 +264,54 @@ export default class LiveSharePlugin extends Plugin {
       view.setFollowHandler((userId) => this.presenceManager?.followUser(userId));
       view.setKickHandler((userId) => void this.kickUser(userId));
       view.setSummonHandler((userId) => this.summonUser(userId));
-      view.setPermissionHandler((userId) => this.setUserPermission(userId));
+      view.setPermissionHandler((userId) => void this.setUserPermission(userId));
+      view.setCoHostHandler((userId) => this.toggleCoHost(userId));
+      return view;
+    });
+
+    this.registerView(COMMENTS_VIEW_TYPE, (leaf) => {
+      const view = new CommentsView(leaf);
+      view.setRevealHandler((id) => this.collabManager.revealThread(id));
+      view.setReplyHandler((id) => void this.replyToThread(id));
+      view.setResolveHandler((id, resolved) => this.collabManager.setThreadResolved(id, resolved));
+      view.setAcceptHandler((id) => void this.acceptSuggestions(id));
+      view.setRejectHandler((id) => void this.rejectSuggestions(id));
       return view;
     });
+    this.registerView(CONFLICTS_VIEW_TYPE, (leaf) => {
+      const view = new ConflictsView(leaf);
+      view.setRevealHandler((id) => this.collabManager.revealConflict(id));
+      view.setSettleHandler((id, choice) => {
+        if (this.canEdit()) this.collabManager.settleConflict(id, choice);
+      });
+      return view;
+    });
+    this.registerView(HISTORY_VIEW_TYPE, (leaf) => {
+      const view = new HistoryView(leaf);
+      view.setDiffHandler((id) => void this.showHistoryDiff(id));
+      view.setRestoreHandler((id) => void this.restoreSnapshot(id));
+      return view;
+    });
+    this.collabManager.setCommentsChangeHandler(() => {
+      this.refreshCommentsView();
+      this.refreshConflictsView();
+    });
+    this.collabManager.setConflictHandler((path) => {
+      this.logger.log("sync", `a remote edit overlapped a local one in ${path}`);
+      this.notify(
+        `Live Share: someone changed text you were editing in ${path}, both versions are in the conflicts panel`,
+      );
+    });
+    this.collabManager.setThreadSelectHandler((id) => void this.activateCommentsView(id));
+    this.collabManager.setAuthorshipVisible(this.settings.showAuthorship);
+    this.collabManager.setAuthorLookup((userId) => {
+      if (userId === this.userId) {
+        return { name: this.settings.displayName, color: this.settings.cursorColor };
+      }
+      const user = this.remoteUsers.get(userId);
+      return user ? { name: user.displayName, color: user.cursorColor } : null;
+    });
+    this.collabManager.setContributionsChangeHandler(() => this.refreshPresenceView());
 
     const ribbonEl = this.addRibbonIcon("users", "Collaborators", () => {
       void this.activatePresenceView();
@@ -260,19 +329,8 @@ export default class LiveSharePlugin extends Plugin {
     this.registerObsidianProtocolHandler("live-share-auth", async (params) => {
       const token = params.token;
       if (!token) return;
-      if (this.authManager.completeAuth(token)) return;
-      try {
-        const payload = parseJwtPayload(token);
-        this.settings.jwt = token;
-        this.settings.githubUserId = payload.sub;
-        this.settings.displayName =
-          (payload.displayName || payload.username || "").trim() || "Anonymous";
-        this.settings.avatarUrl = payload.avatar || "";
-        await this.saveSettings();
-        new Notice(`Live Share: authenticated as ${this.settings.displayName}`);
-      } catch {
-        new Notice("Live Share: invalid auth token");
-      }
+      if (this.authManager.completeAuth(token, params.refresh)) return;
+      await this.authManager.signIn(token, params.refresh);
     });
 
     this.registerObsidianProtocolHandler("live-share", (params) => {
@@ -355,6 +413,7 @@ export default class LiveSharePlugin extends Plugin {
     this.manifestManager.updateSettings(this.settings);
     this.logger.updateSettings(this.settings.debugLogging, this.settings.debugLogPath);
     this.exclusionManager.setPatterns(this.settings.excludePatterns);
+    this.collabManager.setAuthorshipVisible(this.settings.showAuthorship);
   }
 
   notify(msg: string): void {
@@ -363,6 +422,10 @@ export default class LiveSharePlugin extends Plugin {
     }
   }
 
+  notifyWriteDenied(path: string): void {
+    new Notice(`Live Share: ${path} is read-only, your changes were not shared`);
+  }
+
   public promptText(placeholder: string): Promise<string | null> {
     return new Promise((resolve) => {
       const modal = new PromptModal(this.app, placeholder, resolve);
@@ -409,6 +472,9 @@ export default class LiveSharePlugin extends Plugin {
     this.removeScrollListener();
     this.remoteUsers.clear();
     this.remoteReadOnlyPatterns = [];
+    this.writePaths = [];
+    this.isCoHost = false;
+    this.collabManager.setSuggestMode(false);
     this.refreshPresenceView();
     this.fileOpsManager.clearPendingChunks();
     this.manifestManager.destroy();
@@ -573,6 +639,26 @@ export default class LiveSharePlugin extends Plugin {
       this.muxConnected = connected;
       this.updateOnlineState();
     });
+    this.syncManager.onWriteDenied((docId) => {
+      const path = docId.startsWith(CANVAS_DOC_PREFIX)
+        ? docId.slice(CANVAS_DOC_PREFIX.length)
+        : docId;
+      this.notifyWriteDenied(path);
+    });
+    this.syncManager.onStoreFailed((docId) => {
+      const path = docId.startsWith(CANVAS_DOC_PREFIX)
+        ? docId.slice(CANVAS_DOC_PREFIX.length)
+        : docId;
+      this.logger.log("sync", `server could not store encrypted changes to ${path}`);
+      new Notice(
+        `Live Share: the server could not store your changes to ${path}, guests joining later may miss them`,
+      );
+    });
+    this.syncManager.onMergeConflict((path, conflicts) => {
+      this.logger.log("sync", `offline edits to ${path} conflicted in ${conflicts} places`);
+      const marked = conflicts === 1 ? "1 conflict is" : `${conflicts} conflicts are`;
+      new Notice(`Live Share: ${path} also changed while you were offline, ${marked} marked`);
+    });
 
     if (this.controlChannel) {
       this.controlChannel.destroy();
@@ -617,8 +703,7 @@ export default class LiveSharePlugin extends Plugin {
         this.controlConnected = false;
         this.updateOnlineState();
         this.connectionState.transition({ type: "auth-expired" });
-        new Notice("Live Share: authentication required - sign in via settings");
-        void this.endSession();
+        void this.recoverAuth();
       } else {
         this.controlConnected = false;
         this.updateOnlineState();
@@ -649,6 +734,7 @@ export default class LiveSharePlugin extends Plugin {
       getAvatarUrl: () => this.settings.avatarUrl,
       getCursorColor: () => this.settings.cursorColor,
       getRole: () => this.settings.role ?? "guest",
+      getIsCoHost: () => this.isCoHost,
       getCurrentFile: () => {
         const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
         return activeView?.file?.path ?? "";
@@ -706,6 +792,9 @@ export default class LiveSharePlugin extends Plugin {
     this.backgroundSync.setActiveFile(sharedPath);
     this.backgroundSync.setCollabBoundFile(null);
     let effectivePermission = this.settings.permission;
+    if (sharedPath && this.writePaths.some((p) => minimatch(sharedPath, p))) {
+      effectivePermission = "read-write";
+    }
     if (
       sharedPath &&
       this.settings.role === "guest" &&
@@ -724,6 +813,7 @@ export default class LiveSharePlugin extends Plugin {
           name: this.settings.displayName,
           color: this.settings.cursorColor,
           colorLight: `${this.settings.cursorColor}33`,
+          userId: this.userId,
         },
       )
       .then(() => {
@@ -876,13 +966,133 @@ export default class LiveSharePlugin extends Plugin {
       view.updateState(
         this.remoteUsers,
         this.settings.role === "host",
+        this.isCoHost,
         this.presenceManager?.getFollowTarget() ?? null,
+        this.collabManager.getContributions(),
       );
     }
   }
 
+  async activateCommentsView(selectedThreadId: string | null = null) {
+    const existing = this.app.workspace.getLeavesOfType(COMMENTS_VIEW_TYPE);
+    if (existing.length > 0) {
+      this.app.workspace.revealLeaf(existing[0]);
+    } else {
+      const leaf = this.app.workspace.getRightLeaf(false);
+      if (!leaf) return;
+      await leaf.setViewState({ type: COMMENTS_VIEW_TYPE, active: true });
+      this.app.workspace.revealLeaf(leaf);
+    }
+    this.refreshCommentsView(selectedThreadId);
+  }
+
+  refreshCommentsView(selectedThreadId: string | null = null) {
+    const comments = this.collabManager.getActiveComments();
+    for (const leaf of this.app.workspace.getLeavesOfType(COMMENTS_VIEW_TYPE)) {
+      (leaf.view as CommentsView).updateState(comments, this.canComment(), selectedThreadId, {
+        userId: this.userId,
+        isHost: this.settings.role === "host",
+      });
+    }
+  }
+
+  async activateConflictsView() {
+    const existing = this.app.workspace.getLeavesOfType(CONFLICTS_VIEW_TYPE);
+    if (existing.length > 0) {
+      this.app.workspace.revealLeaf(existing[0]);
+    } else {
+      const leaf = this.app.workspace.getRightLeaf(false);
+      if (!leaf) return;
+      await leaf.setViewState({ type: CONFLICTS_VIEW_TYPE, active: true });
+      this.app.workspace.revealLeaf(leaf);
+    }
+    this.refreshConflictsView();
+  }
+
+  refreshConflictsView() {
+    const conflicts = this.collabManager.getActiveConflicts();
+    for (const leaf of this.app.workspace.getLeavesOfType(CONFLICTS_VIEW_TYPE)) {
+      (leaf.view as ConflictsView).updateState(conflicts, this.canEdit(), this.userId);
+    }
+  }
+
+  async activateHistoryView() {
+    const existing = this.app.workspace.getLeavesOfType(HISTORY_VIEW_TYPE);
+    if (existing.length > 0) {
+      this.app.workspace.revealLeaf(existing[0]);
+    } else {
+      const leaf = this.app.workspace.getRightLeaf(false);
+      if (!leaf) return;
+      await leaf.setViewState({ type: HISTORY_VIEW_TYPE, active: true });
+      this.app.workspace.revealLeaf(leaf);
+    }
+    this.refreshHistoryView();
+  }
+
+  refreshHistoryView() {
+    const snapshots = this.sessionHistory.getSnapshots();
+    const canRestore = this.sessionHistory.isRunning();
+    for (const leaf of this.app.workspace.getLeavesOfType(HISTORY_VIEW_TYPE)) {
+      (leaf.view as HistoryView).updateState(snapshots, canRestore);
+    }
+  }
+
+  /** The shared file's live text while it is synced, otherwise what is on disk. */
+  private async readSharedContent(path: string): Promise<string> {
+    const text = this.sessionHistory.getCurrentText(path);
+    if (text) return text.toString();
+    const file = getFileByPath(this.app.vault, toLocalPath(path));
+    return file ? normalizeLineEndings(await this.app.vault.read(file)) : "";
+  }
+
+  async showHistoryDiff(id: string) {
+    const snapshot = this.sessionHistory.getSnapshot(id);
+    if (!snapshot) return;
+    const current = await this.readSharedContent(snapshot.path);
+    const time = new Date(snapshot.createdAt).toLocaleTimeString();
+    new DiffModal(
+      this.app,
+      `${snapshot.path}: ${time} to now`,
+      diffLines(snapshotContent(snapshot), current),
+      this.sessionHistory.isRunning()
+        ? { label: "Restore this version", run: () => void this.restoreSnapshot(id) }
+        : undefined,
+    ).open();
+  }
+
+  async restoreSnapshot(id: string) {
+    const snapshot = this.sessionHistory.getSnapshot(id);
+    if (!snapshot) return;
+    const time = new Date(snapshot.createdAt).toLocaleTimeString();
+    const confirmed = await this.confirm(
+      `Restore ${snapshot.path} to its version from ${time}? Everyone in the session sees the change.`,
+    );
+    if (!confirmed) return;
+    if (this.backgroundSync.replaceContent(snapshot.path, snapshotContent(snapshot))) {
+      this.notify(`Live Share: restored ${snapshot.path} to ${time}`);
+    } else {
+      new Notice(`Live Share: ${snapshot.path} is no longer shared`);
+    }
+  }
+
+  /** Comment-only users can comment; read-only users can only read the threads. */
+  canComment(): boolean {
+    return this.settings.role === "host" || this.settings.permission !== "read-only";
+  }
+
+  canEdit(): boolean {
+    return (
+      this.settings.role === "host" ||
+      (this.settings.permission !== "read-only" && this.settings.permission !== "comment")
+    );
+  }
+
+  canModerate(): boolean {
+    return this.settings.role === "host" || this.isCoHost;
+  }
+
   async kickUser(userId: string) {
-    if (this.settings.role !== "host" || !this.controlChannel) return;
+    if (!this.canModerate() || !this.controlChannel) return;
     const user = this.remoteUsers.get(userId);
     const name = user?.displayName ?? userId;
     const confirmed = await this.confirm(`Kick ${name} from the session?`);
@@ -894,32 +1104,153 @@ export default class LiveSharePlugin extends Plugin {
     this.notify(`Live Share: kicked ${name}`);
   }
 
-  setUserPermission(userId: string) {
-    if (this.settings.role !== "host" || !this.controlChannel) return;
+  async setUserPermission(userId: string) {
+    if (!this.canModerate() || !this.controlChannel) return;
     const user = this.remoteUsers.get(userId);
     if (!user) return;
     const currentPermission = user.permission ?? "read-write";
-    const newPermission = currentPermission === "read-write" ? "read-only" : "read-write";
-    this.controlChannel.send({
+    const newPermission = NEXT_PERMISSION[currentPermission];
+    let writePaths: string[] = [];
+    if (newPermission === "read-only") {
+      const value = await this.promptText(
+        "Paths they can still edit, e.g. drafts/alice/** (optional, comma-separated)",
+      );
+      writePaths = (value ?? "")
+        .split(",")
+        .map((p) => p.trim())
+        .filter(Boolean);
+    }
+    this.controlChannel?.send({
       type: "set-permission",
       userId,
       permission: newPermission,
+      writePaths,
     });
     user.permission = newPermission;
+    user.writePaths = writePaths;
     this.refreshPresenceView();
-    this.notify(`Live Share: set ${user.displayName} to ${newPermission}`);
+    const granted = writePaths.length > 0 ? `, except ${writePaths.join(", ")}` : "";
+    this.notify(`Live Share: set ${user.displayName} to ${newPermission}${granted}`);
+  }
+
+  async addComment() {
+    const text = await this.promptText("Comment");
+    if (!text?.trim()) return;
+    const id = this.collabManager.addComment({
+      userId: this.userId,
+      displayName: this.settings.displayName,
+      text: text.trim(),
+    });
+    if (!id) {
+      new Notice("Live Share: select text in a shared note to comment on");
+      return;
+    }
+    this.sendMentions(id, text);
+  }
+
+  toggleSuggestMode() {
+    const enabled = !this.collabManager.isSuggestMode();
+    this.collabManager.setSuggestMode(enabled);
+    new Notice(
+      enabled
+        ? "Live Share: suggestion mode on, your edits are proposed to the host"
+        : "Live Share: suggestion mode off",
+    );
+  }
+
+  /** Accepts one suggestion, or with `id` null and after confirming, all in the active note. */
+  async acceptSuggestions(id: string | null) {
+    if (this.settings.role !== "host") return;
+    if (id) {
+      this.collabManager.acceptSuggestion(id);
+      return;
+    }
+    const count = this.collabManager.getActiveComments()?.suggestions.length ?? 0;
+    if (count === 0) return;
+    if (!(await this.confirm(`Accept all ${count} suggestions in this note?`))) return;
+    const accepted = this.collabManager.acceptAllSuggestions();
+    this.notify(`Live Share: accepted ${accepted} suggestion${accepted === 1 ? "" : "s"}`);
+  }
+
+  /** Like `acceptSuggestions`; guests may only withdraw their own suggestions. */
+  async rejectSuggestions(id: string | null) {
+    if (id) {
+      const suggestion = this.collabManager
+        .getActiveComments()
+        ?.suggestions.find((s) => s.id === id);
+      if (this.settings.role !== "host" && suggestion?.userId !== this.userId) return;
+      this.collabManager.rejectSuggestion(id);
+      return;
+    }
+    if (this.settings.role !== "host") return;
+    const count = this.collabManager.getActiveComments()?.suggestions.length ?? 0;
+    if (count === 0) return;
+    if (!(await this.confirm(`Reject all ${count} suggestions in this note?`))) return;
+    const rejected = this.collabManager.rejectAllSuggestions();
+    this.notify(`Live Share: rejected ${rejected} suggestion${rejected === 1 ? "" : "s"}`);
+  }
+
+  async replyToThread(id: string) {
+    const text = await this.promptText("Reply");
+    if (!text?.trim()) return;
+    const replied = this.collabManager.replyToThread(id, {
+      userId: this.userId,
+      displayName: this.settings.displayName,
+      text: text.trim(),
+    });
+    if (replied) this.sendMentions(id, text);
+  }
+
+  /** Points everyone named as `@Display Name` in `text` at the thread. */
+  private sendMentions(threadId: string, text: string) {
+    const comments = this.collabManager.getActiveComments();
+    const thread = comments?.threads.find((t) => t.id === threadId);
+    if (!comments || !thread || !this.controlChannel) return;
+    const before = comments.content.slice(0, thread.from).split("\n");
+    for (const user of mentionedUsers(text, this.remoteUsers.values())) {
+      if (user.userId === this.userId) continue;
+      this.controlChannel.send({
+        type: "comment-mention",
+        fromUserId: this.userId,
+        fromDisplayName: this.settings.displayName,
+        targetUserId: user.userId,
+        filePath: comments.path,
+        line: before.length - 1,
+        ch: before[before.length - 1].length,
+      });
+    }
+  }
+
+  toggleCoHost(userId: string) {
+    if (this.settings.role !== "host" || !this.controlChannel) return;
+    const user = this.remoteUsers.get(userId);
+    if (!user) return;
+    const coHost = !user.isCoHost;
+    this.controlChannel.send({ type: "set-co-host", userId, coHost });
+    user.isCoHost = coHost;
+    this.refreshPresenceView();
+    this.notify(
+      coHost
+        ? `Live Share: ${user.displayName} is now a co-host`
+        : `Live Share: ${user.displayName} is no longer a co-host`,
+    );
   }
 
   async fetchAuditLog() {
     if (!this.settings.serverUrl || !this.settings.roomId || !this.settings.token) return;
     try {
-      const url = `${this.settings.serverUrl}/rooms/${this.settings.roomId}/logs?limit=100`;
+      const base = `${this.settings.serverUrl}/rooms/${this.settings.roomId}/logs`;
       const headers: Record<string, string> = {
         Authorization: `Bearer ${this.settings.token}`,
       };
       if (this.settings.serverPassword) headers["X-Server-Password"] = this.settings.serverPassword;
-      const res = await requestUrl({ url, headers });
-      new AuditLogModal(this.app, res.json).open();
+      const res = await requestUrl({ url: `${base}?limit=100`, headers });
+      // Older servers have no verify endpoint; the modal then says so
+      const verification = await requestUrl({ url: `${base}/verify`, headers }).then(
+        (verify) => verify.json,
+        () => undefined,
+      );
+      new AuditLogModal(this.app, res.json, verification).open();
     } catch {
       new Notice("Live Share: failed to fetch audit log");
     }
@@ -945,6 +1276,18 @@ export default class LiveSharePlugin extends Plugin {
     this.onActiveFileChange();
   }
 
+  /** The server turned the connection away, which may only mean the access token expired. */
+  async recoverAuth() {
+    if (this.authManager.needsRefresh && (await this.authManager.refresh())) {
+      this.logger.log("session", "access token refreshed, reconnecting");
+      this.connectionState.transition({ type: "connect" });
+      this.controlChannel?.connect();
+      return;
+    }
+    new Notice("Live Share: authentication required - sign in via settings");
+    void this.endSession();
+  }
+
   async reloadFromHost() {
     if (!this.controlChannel) return;
     this.notify("Live Share: reloading all files from host...");
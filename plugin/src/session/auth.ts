@@ -1,19 +1,50 @@
-import { Notice } from "obsidian";
+import { Notice, requestUrl } from "obsidian";
 import type LiveSharePlugin from "../main";
-import { PromptModal } from "../ui/modals";
-import { parseJwtPayload } from "../utils";
+import { PromptModal, ProviderPickerModal } from "../ui/modals";
+import { isJwtExpiring, parseJwtPayload } from "../utils";
+
+export interface AuthProviderInfo {
+  id: string;
+  name: string;
+}
+
+interface TokenPair {
+  token: string;
+  refreshToken: string;
+}
+
+// Servers from before the provider list only offer GitHub
+const LEGACY_PROVIDERS: AuthProviderInfo[] = [{ id: "github", name: "GitHub" }];
+/** Access tokens are renewed this long before they expire. */
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+const REFRESH_RETRY_MS = 60 * 1000;
+// Timers longer than ~24.8 days overflow, so long waits are split up
+const MAX_TIMER_MS = 24 * 60 * 60 * 1000;
 
 export class AuthManager {
   private pendingModal: PromptModal | null = null;
+  private pendingRefreshToken = "";
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private refreshing: Promise<boolean> | null = null;
 
-  constructor(private plugin: LiveSharePlugin) {}
+  constructor(private plugin: LiveSharePlugin) {
+    plugin.register(() => this.cancelRefresh());
+  }
 
   get isAuthenticated(): boolean {
     return !!this.plugin.settings.jwt;
   }
 
-  completeAuth(jwt: string): boolean {
+  /** Whether the access token has expired, or is about to, and a refresh may renew it. */
+  get needsRefresh(): boolean {
+    const { jwt, refreshToken } = this.plugin.settings;
+    return !!jwt && !!refreshToken && isJwtExpiring(jwt, REFRESH_MARGIN_MS);
+  }
+
+  /** Hands tokens from the login page to a pending login; returns false if none is waiting. */
+  completeAuth(jwt: string, refreshToken = ""): boolean {
     if (this.pendingModal) {
+      this.pendingRefreshToken = refreshToken;
       this.pendingModal.closeWithValue(jwt);
       this.pendingModal = null;
       return true;
@@ -21,9 +52,32 @@ export class AuthManager {
     return false;
   }
 
+  async fetchProviders(): Promise<AuthProviderInfo[]> {
+    const serverUrl = this.plugin.settings.serverUrl.replace(/\/+$/, "");
+    try {
+      const res = await requestUrl({ url: `${serverUrl}/auth/providers` });
+      return Array.isArray(res.json) ? res.json : LEGACY_PROVIDERS;
+    } catch {
+      return LEGACY_PROVIDERS;
+    }
+  }
+
   async authenticate(): Promise<boolean> {
+    const providers = await this.fetchProviders();
+    if (providers.length === 0) {
+      new Notice("Live Share: the server has no login providers configured");
+      return false;
+    }
+    if (providers.length === 1) return this.authenticateWith(providers[0]);
+    const provider = await new Promise<AuthProviderInfo>((resolve) => {
+      new ProviderPickerModal(this.plugin.app, providers, resolve).open();
+    });
+    return this.authenticateWith(provider);
+  }
+
+  private async authenticateWith(provider: AuthProviderInfo): Promise<boolean> {
     const serverUrl = this.plugin.settings.serverUrl.replace(/\/+$/, "");
-    window.open(`${serverUrl}/auth/github?state=${Date.now()}`);
+    window.open(`${serverUrl}/auth/${encodeURIComponent(provider.id)}`);
 
     const jwt = await new Promise<string | null>((resolve) => {
       const modal = new PromptModal(
@@ -38,25 +92,126 @@ export class AuthManager {
       modal.open();
     });
     if (!jwt) return false;
+    const refreshToken = this.pendingRefreshToken;
+    this.pendingRefreshToken = "";
+    return this.signIn(jwt, refreshToken);
+  }
 
+  /**
+   * Stores the tokens from a completed login. The login page's copy field holds the
+   * refresh token, so a pasted one is exchanged for an access token first.
+   */
+  async signIn(token: string, refreshToken = ""): Promise<boolean> {
+    let tokens: TokenPair | null = { token, refreshToken };
     try {
-      const payload = parseJwtPayload(jwt);
-      this.plugin.settings.jwt = jwt;
-      this.plugin.settings.githubUserId = payload.sub;
-      this.plugin.settings.displayName =
-        (payload.displayName || payload.username || "").trim() || "Anonymous";
-      this.plugin.settings.avatarUrl = payload.avatar || "";
-      await this.plugin.saveSettings();
-      new Notice(`Live Share: authenticated as ${this.plugin.settings.displayName}`);
-      return true;
+      if (parseJwtPayload(token).typ === "refresh") tokens = await this.requestTokens(token);
+      if (!tokens) throw new Error("refresh token rejected");
+      await this.storeTokens(tokens);
     } catch {
       new Notice("Live Share: invalid auth token");
       return false;
     }
+    new Notice(`Live Share: authenticated as ${this.plugin.settings.displayName}`);
+    return true;
+  }
+
+  /**
+   * Renews the access token with the stored refresh token. Concurrent callers share one
+   * request; a rejected refresh token is forgotten so it is not retried.
+   */
+  refresh(): Promise<boolean> {
+    if (!this.plugin.settings.refreshToken) return Promise.resolve(false);
+    this.refreshing ??= this.requestTokens(this.plugin.settings.refreshToken)
+      .then(async (tokens) => {
+        if (!tokens) return false;
+        await this.storeTokens(tokens);
+        return true;
+      })
+      .finally(() => {
+        this.refreshing = null;
+      });
+    return this.refreshing;
+  }
+
+  /** Arms a timer that refreshes the access token shortly before it expires. */
+  scheduleRefresh(delayMs?: number): void {
+    this.cancelRefresh();
+    const { jwt, refreshToken } = this.plugin.settings;
+    if (!jwt || !refreshToken) return;
+    let delay = delayMs;
+    if (delay === undefined) {
+      const exp = this.tokenExpiry(jwt);
+      if (exp === null) return;
+      delay = Math.max(exp - REFRESH_MARGIN_MS - Date.now(), 0);
+    }
+    this.refreshTimer = setTimeout(
+      () => {
+        this.refreshTimer = null;
+        if (!this.needsRefresh) {
+          this.scheduleRefresh();
+          return;
+        }
+        void this.refresh().then((ok) => {
+          // Network trouble: try again shortly, as long as the refresh token was not rejected
+          if (!ok && this.plugin.settings.refreshToken) this.scheduleRefresh(REFRESH_RETRY_MS);
+        });
+      },
+      Math.min(delay, MAX_TIMER_MS),
+    );
+  }
+
+  private cancelRefresh() {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = null;
+  }
+
+  private tokenExpiry(jwt: string): number | null {
+    try {
+      const exp = parseJwtPayload(jwt).exp;
+      return typeof exp === "number" ? exp * 1000 : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Returns null when the server rejects the refresh token or cannot be reached. */
+  private async requestTokens(refreshToken: string): Promise<TokenPair | null> {
+    const serverUrl = this.plugin.settings.serverUrl.replace(/\/+$/, "");
+    try {
+      const res = await requestUrl({
+        url: `${serverUrl}/auth/refresh`,
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refreshToken }),
+        throw: false,
+      });
+      if (res.status === 401 && refreshToken === this.plugin.settings.refreshToken) {
+        this.plugin.settings.refreshToken = "";
+        await this.plugin.saveSettings();
+      }
+      if (res.status >= 400) return null;
+      return res.json as TokenPair;
+    } catch {
+      return null;
+    }
+  }
+
+  private async storeTokens({ token, refreshToken }: TokenPair) {
+    const payload = parseJwtPayload(token);
+    this.plugin.settings.jwt = token;
+    this.plugin.settings.refreshToken = refreshToken;
+    this.plugin.settings.githubUserId = payload.sub;
+    this.plugin.settings.displayName =
+      (payload.displayName || payload.username || "").trim() || "Anonymous";
+    this.plugin.settings.avatarUrl = payload.avatar || "";
+    await this.plugin.saveSettings();
+    this.scheduleRefresh();
   }
 
   async logout(): Promise<void> {
+    this.cancelRefresh();
     this.plugin.settings.jwt = "";
+    this.plugin.settings.refreshToken = "";
     this.plugin.settings.githubUserId = "";
     this.plugin.settings.displayName = "Anonymous";
     this.plugin.settings.avatarUrl = "";
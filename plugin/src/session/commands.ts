@@ -1,6 +1,7 @@
 import { MarkdownView } from "obsidian";
 
 import type LiveSharePlugin from "../main";
+import { InviteModal } from "../ui/invite-modal";
 import { UserPickerModal } from "../ui/modals";
 import { normalizePath, toCanonicalPath } from "../utils";
 
@@ -63,7 +64,7 @@ export function registerCommands(plugin: LiveSharePlugin): void {
 
   plugin.addCommand({
     id: "log-in",
-    name: "Log in with GitHub",
+    name: "Log in",
     callback: () => void plugin.authManager.authenticate(),
   });
 
@@ -114,6 +115,79 @@ export function registerCommands(plugin: LiveSharePlugin): void {
     },
   });
 
+  plugin.addCommand({
+    id: "add-comment",
+    name: "Add comment",
+    checkCallback: (checking) => {
+      if (!plugin.sessionManager.isActive || !plugin.canComment()) return false;
+      if (checking) return true;
+      void plugin.addComment();
+    },
+  });
+
+  plugin.addCommand({
+    id: "show-comments",
+    name: "Show comments panel",
+    callback: () => void plugin.activateCommentsView(),
+  });
+
+  plugin.addCommand({
+    id: "show-conflicts",
+    name: "Show conflicts panel",
+    callback: () => void plugin.activateConflictsView(),
+  });
+
+  plugin.addCommand({
+    id: "toggle-suggest-mode",
+    name: "Toggle suggestion mode",
+    checkCallback: (checking) => {
+      if (plugin.settings.role !== "guest" || !plugin.sessionManager.isActive) return false;
+      if (checking) return true;
+      plugin.toggleSuggestMode();
+    },
+  });
+
+  plugin.addCommand({
+    id: "accept-all-suggestions",
+    name: "Accept all suggestions in this note",
+    checkCallback: (checking) => {
+      if (plugin.settings.role !== "host") return false;
+      if (!plugin.collabManager.getActiveComments()?.suggestions.length) return false;
+      if (checking) return true;
+      void plugin.acceptSuggestions(null);
+    },
+  });
+
+  plugin.addCommand({
+    id: "reject-all-suggestions",
+    name: "Reject all suggestions in this note",
+    checkCallback: (checking) => {
+      if (plugin.settings.role !== "host") return false;
+      if (!plugin.collabManager.getActiveComments()?.suggestions.length) return false;
+      if (checking) return true;
+      void plugin.rejectSuggestions(null);
+    },
+  });
+
+  plugin.addCommand({
+    id: "toggle-authorship",
+    name: "Toggle authorship highlighting",
+    callback: () => {
+      plugin.settings.showAuthorship = !plugin.settings.showAuthorship;
+      void plugin.saveSettings();
+    },
+  });
+
+  plugin.addCommand({
+    id: "show-history",
+    name: "Show session history",
+    checkCallback: (checking) => {
+      if (plugin.settings.role !== "host") return false;
+      if (checking) return true;
+      void plugin.activateHistoryView();
+    },
+  });
+
   plugin.addCommand({
     id: "reload-from-host",
     name: "Reload all files from host",
@@ -165,6 +239,26 @@ export function registerCommands(plugin: LiveSharePlugin): void {
     },
   });
 
+  plugin.addCommand({
+    id: "manage-invites",
+    name: "Manage invite links",
+    checkCallback: (checking) => {
+      if (plugin.settings.role !== "host" || !plugin.sessionManager.isActive) return false;
+      if (checking) return true;
+      new InviteModal(plugin.app, plugin.sessionManager).open();
+    },
+  });
+
+  plugin.addCommand({
+    id: "rotate-token",
+    name: "Rotate room token",
+    checkCallback: (checking) => {
+      if (plugin.settings.role !== "host" || !plugin.sessionManager.isActive) return false;
+      if (checking) return true;
+      plugin.controlChannel?.send({ type: "rotate-token" });
+    },
+  });
+
   plugin.addCommand({
     id: "show-audit-log",
     name: "Show audit log",
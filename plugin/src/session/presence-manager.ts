@@ -8,6 +8,7 @@ export interface PresenceContext {
   getAvatarUrl(): string;
   getCursorColor(): string;
   getRole(): string;
+  getIsCoHost(): boolean;
   getCurrentFile(): string;
   getScrollTop(): number;
   getCursorLine(): number;
@@ -69,6 +70,7 @@ export class PresenceManager {
       scrollTop: this.ctx.getScrollTop(),
       line: this.ctx.getCursorLine(),
       isHost: this.ctx.getRole() === "host",
+      isCoHost: this.ctx.getIsCoHost(),
     });
   }
 
@@ -126,6 +128,7 @@ export class PresenceManager {
     const existing = remoteUsers.get(user.userId);
     if (existing?.permission && !user.permission) {
       user.permission = existing.permission;
+      user.writePaths = existing.writePaths;
     }
     remoteUsers.set(user.userId, user);
     this.ctx.refreshPresenceView();
@@ -1,5 +1,6 @@
 import { ExtraButtonComponent, ItemView, setIcon } from "obsidian";
 
+import type { ActiveContributions } from "../editor/collab";
 import type { Permission } from "../types";
 import { HEX_COLOR_RE } from "../utils";
 
@@ -13,18 +14,30 @@ export interface PresenceUser {
   avatarUrl?: string;
   scrollTop?: number;
   isHost?: boolean;
+  isCoHost?: boolean;
   line?: number;
   permission?: Permission;
+  writePaths?: string[];
 }
 
+/** What the permission button offers next, matching the order the plugin steps through. */
+const PERMISSION_TOGGLE: Record<Permission, { icon: string; tooltip: string }> = {
+  "read-write": { icon: "message-square", tooltip: "Make comment-only" },
+  comment: { icon: "lock", tooltip: "Make read-only" },
+  "read-only": { icon: "unlock", tooltip: "Make read-write" },
+};
+
 export class PresenceView extends ItemView {
   private users = new Map<string, PresenceUser>();
   private onFollowRequest: ((userId: string) => void) | null = null;
   private onKickRequest: ((userId: string) => void) | null = null;
   private onSummonRequest: ((userId: string) => void) | null = null;
   private onSetPermissionRequest: ((userId: string) => void) | null = null;
+  private onSetCoHostRequest: ((userId: string) => void) | null = null;
   private isHost = false;
+  private isCoHost = false;
   private followedUserId: string | null = null;
+  private contributions: ActiveContributions | null = null;
 
   getViewType(): string {
     return PRESENCE_VIEW_TYPE;
@@ -54,14 +67,22 @@ export class PresenceView extends ItemView {
     this.onSetPermissionRequest = handler;
   }
 
+  setCoHostHandler(handler: (userId: string) => void): void {
+    this.onSetCoHostRequest = handler;
+  }
+
   updateState(
     users: Map<string, PresenceUser>,
     isHost: boolean,
+    isCoHost: boolean,
     followedUserId: string | null,
+    contributions: ActiveContributions | null = null,
   ): void {
     this.users = users;
     this.isHost = isHost;
+    this.isCoHost = isCoHost;
     this.followedUserId = followedUserId;
+    this.contributions = contributions;
     this.render();
   }
 
@@ -96,6 +117,7 @@ export class PresenceView extends ItemView {
         text: "No collaborators connected",
         cls: "live-share-presence-empty-text",
       });
+      this.renderContributions();
       return;
     }
 
@@ -156,12 +178,22 @@ export class PresenceView extends ItemView {
           text: "Host",
           cls: "live-share-badge mod-host",
         });
+      } else if (user.isCoHost) {
+        nameRow.createEl("span", {
+          text: "Co-host",
+          cls: "live-share-badge mod-cohost",
+        });
       }
       if (user.permission === "read-only") {
         nameRow.createEl("span", {
           text: "Read-only",
           cls: "live-share-badge mod-readonly",
         });
+      } else if (user.permission === "comment") {
+        nameRow.createEl("span", {
+          text: "Comment only",
+          cls: "live-share-badge mod-comment",
+        });
       }
 
       if (user.currentFile) {
@@ -170,6 +202,12 @@ export class PresenceView extends ItemView {
           cls: "live-share-user-file",
         });
       }
+      if (user.permission === "read-only" && user.writePaths?.length) {
+        info.createEl("div", {
+          text: `Can edit ${user.writePaths.join(", ")}`,
+          cls: "live-share-user-file",
+        });
+      }
 
       const actions = row.createEl("div", {
         cls: "live-share-user-actions",
@@ -183,21 +221,31 @@ export class PresenceView extends ItemView {
         this.onFollowRequest?.(userId);
       });
 
-      if (this.isHost) {
-        const isReadOnly = user.permission === "read-only";
+      // Co-hosts moderate guests, but the server ignores anything they aim at the host
+      if (this.isHost || (this.isCoHost && !user.isHost)) {
+        const toggle = PERMISSION_TOGGLE[user.permission ?? "read-write"];
         new ExtraButtonComponent(actions)
-          .setIcon(isReadOnly ? "unlock" : "lock")
-          .setTooltip(isReadOnly ? "Make read-write" : "Make read-only")
+          .setIcon(toggle.icon)
+          .setTooltip(toggle.tooltip)
           .extraSettingsEl.addEventListener("click", () => {
             this.onSetPermissionRequest?.(userId);
           });
 
-        new ExtraButtonComponent(actions)
-          .setIcon("compass")
-          .setTooltip("Summon here")
-          .extraSettingsEl.addEventListener("click", () => {
-            this.onSummonRequest?.(userId);
-          });
+        if (this.isHost) {
+          new ExtraButtonComponent(actions)
+            .setIcon(user.isCoHost ? "shield-off" : "shield")
+            .setTooltip(user.isCoHost ? "Remove co-host" : "Make co-host")
+            .extraSettingsEl.addEventListener("click", () => {
+              this.onSetCoHostRequest?.(userId);
+            });
+
+          new ExtraButtonComponent(actions)
+            .setIcon("compass")
+            .setTooltip("Summon here")
+            .extraSettingsEl.addEventListener("click", () => {
+              this.onSummonRequest?.(userId);
+            });
+        }
 
         const kickBtn = new ExtraButtonComponent(actions)
           .setIcon("x")
@@ -208,5 +256,32 @@ export class PresenceView extends ItemView {
         });
       }
     }
+
+    this.renderContributions();
+  }
+
+  private renderContributions() {
+    const { contributions } = this;
+    if (!contributions) return;
+    const total = contributions.contributions.reduce((sum, entry) => sum + entry.chars, 0);
+    if (total === 0) return;
+
+    const section = this.contentEl.createEl("div", { cls: "live-share-contributions" });
+    section.createEl("div", {
+      text: `Contributions to ${contributions.path}`,
+      cls: "live-share-contributions-heading",
+    });
+    for (const entry of contributions.contributions) {
+      const row = section.createEl("div", { cls: "live-share-contribution" });
+      const dot = row.createEl("span", { cls: "live-share-contribution-dot" });
+      if (HEX_COLOR_RE.test(entry.color)) {
+        dot.setCssProps({ "--user-color": entry.color });
+      }
+      row.createEl("span", { text: entry.name, cls: "live-share-user-name" });
+      row.createEl("span", {
+        text: `${Math.round((entry.chars / total) * 100)}%`,
+        cls: "live-share-contribution-share",
+      });
+    }
   }
 }
@@ -1,6 +1,7 @@
 import { Notice, requestUrl } from "obsidian";
 
 import type LiveSharePlugin from "../main";
+import type { Permission } from "../types";
 
 interface InvitePayload {
   s: string;
@@ -10,6 +11,22 @@ interface InvitePayload {
   p?: string;
 }
 
+export interface InviteInfo {
+  id: string;
+  token: string;
+  permission: Permission;
+  createdAt: number;
+  expiresAt: number;
+  maxUses: number;
+  redeemedBy: string[];
+}
+
+export interface InviteOptions {
+  expiresIn: number;
+  maxUses: number;
+  permission: Permission;
+}
+
 function generatePassphrase(): string {
   const bytes = crypto.getRandomValues(new Uint8Array(16));
   return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
@@ -27,7 +44,7 @@ export class SessionManager {
     };
     if (settings.serverPassword) headers["X-Server-Password"] = settings.serverPassword;
 
-    let roomData: { id: string; token: string; name: string };
+    let roomData: { id: string; token: string; hostToken: string; name: string };
     try {
       const createResponse = await requestUrl({
         url: `${baseUrl}/rooms`,
@@ -53,6 +70,7 @@ export class SessionManager {
 
     settings.roomId = roomData.id;
     settings.token = roomData.token;
+    settings.hostToken = roomData.hostToken;
     settings.role = "host";
     settings.encryptionPassphrase = generatePassphrase();
     await this.plugin.saveSettings();
@@ -77,12 +95,17 @@ export class SessionManager {
     };
     if (serverPassword) joinHeaders["X-Server-Password"] = serverPassword;
 
+    // Invites hand each new user a pass of their own to reconnect with
+    let pass: string | undefined;
     try {
       const joinResponse = await requestUrl({
         url: `${baseUrl}/rooms/${parsedInvite.r}/join`,
         method: "POST",
         headers: joinHeaders,
-        body: JSON.stringify({ token: parsedInvite.t }),
+        body: JSON.stringify({
+          token: parsedInvite.t,
+          userId: settings.githubUserId || settings.clientId,
+        }),
         throw: false,
       });
       if (joinResponse.status >= 400) {
@@ -90,6 +113,7 @@ export class SessionManager {
         new Notice(`Live Share: ${errMsg}`);
         return false;
       }
+      pass = joinResponse.json?.pass;
     } catch {
       new Notice("Live Share: cannot reach server");
       return false;
@@ -97,7 +121,8 @@ export class SessionManager {
 
     settings.serverUrl = parsedInvite.s;
     settings.roomId = parsedInvite.r;
-    settings.token = parsedInvite.t;
+    settings.token = pass ?? parsedInvite.t;
+    settings.hostToken = "";
     settings.encryptionPassphrase = parsedInvite.e ?? "";
     if (parsedInvite.p) settings.serverPassword = parsedInvite.p;
     settings.role = "guest";
@@ -129,6 +154,7 @@ export class SessionManager {
 
     settings.roomId = "";
     settings.token = "";
+    settings.hostToken = "";
     settings.encryptionPassphrase = "";
     settings.role = null;
     settings.permission = "read-write";
@@ -139,9 +165,9 @@ export class SessionManager {
     return this.plugin.settings.role !== null;
   }
 
-  async copyInvite(): Promise<void> {
+  async copyInvite(token = this.plugin.settings.token): Promise<void> {
     const { settings } = this.plugin;
-    if (!settings.roomId || !settings.token) {
+    if (!settings.roomId || !token) {
       new Notice("Live Share: no active session");
       return;
     }
@@ -149,7 +175,7 @@ export class SessionManager {
     const payload: InvitePayload = {
       s: settings.serverUrl,
       r: settings.roomId,
-      t: settings.token,
+      t: token,
       e: settings.encryptionPassphrase || undefined,
       p: settings.serverPassword || undefined,
     };
@@ -157,6 +183,57 @@ export class SessionManager {
     await navigator.clipboard.writeText(invite);
     new Notice("Live Share: invite link copied to clipboard");
   }
+
+  /** Mints a scoped invite on the server and copies its link. */
+  async createInvite(options: InviteOptions): Promise<boolean> {
+    const res = await this.inviteRequest("POST", "", options);
+    if (!res) return false;
+    await this.copyInvite((res.json as InviteInfo).token);
+    return true;
+  }
+
+  async listInvites(): Promise<InviteInfo[] | null> {
+    const res = await this.inviteRequest("GET", "");
+    return res ? (res.json as InviteInfo[]) : null;
+  }
+
+  async revokeInvite(inviteId: string): Promise<boolean> {
+    return (await this.inviteRequest("DELETE", `/${encodeURIComponent(inviteId)}`)) !== null;
+  }
+
+  private async inviteRequest(method: string, path: string, body?: InviteOptions) {
+    const { settings } = this.plugin;
+    // Invites are host-only, so the room token every guest holds is not enough
+    const hostAuth = settings.hostToken || settings.jwt;
+    if (settings.role !== "host" || !settings.roomId || !hostAuth) {
+      new Notice("Live Share: no active session");
+      return null;
+    }
+    const baseUrl = settings.serverUrl.replace(/\/+$/, "");
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${hostAuth}`,
+    };
+    if (settings.serverPassword) headers["X-Server-Password"] = settings.serverPassword;
+    try {
+      const res = await requestUrl({
+        url: `${baseUrl}/rooms/${settings.roomId}/invites${path}`,
+        method,
+        headers,
+        body: body ? JSON.stringify(body) : undefined,
+        throw: false,
+      });
+      if (res.status >= 400) {
+        const errMsg = res.json?.error ?? "unknown error";
+        new Notice(`Live Share: ${errMsg}`);
+        return null;
+      }
+      return res;
+    } catch {
+      new Notice("Live Share: cannot reach server");
+      return null;
+    }
+  }
 }
 
 export function parseInvite(raw: string): InvitePayload | null {
@@ -22,6 +22,15 @@ const CONTROL_TO_CHUNK = Object.fromEntries(
   keyof typeof CHUNK_TO_CONTROL
 >;
 
+function applyRemoteReadOnlyPatterns(plugin: LiveSharePlugin, patterns: string[]): void {
+  plugin.remoteReadOnlyPatterns = patterns;
+  const readOnlyPaths = plugin.app.vault
+    .getFiles()
+    .map((f) => toCanonicalPath(normalizePath(f.path)))
+    .filter((p) => patterns.some((pat) => minimatch(p, pat)));
+  plugin.explorerIndicators?.update(readOnlyPaths);
+}
+
 export function registerControlHandlers(plugin: LiveSharePlugin): void {
   const channel = plugin.controlChannel;
   if (!channel) return;
@@ -119,12 +128,17 @@ export function registerControlHandlers(plugin: LiveSharePlugin): void {
     if (msg.userId) plugin.presenceManager?.handlePresenceLeave(msg.userId);
   });
 
+  // Open requests by user id, so one moderator's answer closes everyone else's prompt
+  const approvalModals = new Map<string, ApprovalModal>();
+
   channel.on("join-request", (msg) => {
-    if (plugin.settings.role !== "host") return;
-    new ApprovalModal(
+    if (!plugin.canModerate()) return;
+    approvalModals.get(msg.userId)?.dismiss();
+    const modal = new ApprovalModal(
       plugin.app,
       msg,
       (approved, permission) => {
+        approvalModals.delete(msg.userId);
         plugin.controlChannel?.send({
           type: "join-response",
           userId: msg.userId,
@@ -137,7 +151,18 @@ export function registerControlHandlers(plugin: LiveSharePlugin): void {
         }
       },
       plugin.settings.approvalTimeoutSeconds,
-    ).open();
+    );
+    approvalModals.set(msg.userId, modal);
+    modal.open();
+  });
+
+  channel.on("join-request-resolved", (msg) => {
+    const modal = approvalModals.get(msg.userId);
+    if (!modal) return;
+    approvalModals.delete(msg.userId);
+    modal.dismiss();
+    const name = msg.displayName || "another moderator";
+    plugin.notify(`Live Share: ${name} ${msg.approved ? "approved" : "denied"} the join request`);
   });
 
   channel.on("join-response", (msg) => {
@@ -154,13 +179,10 @@ export function registerControlHandlers(plugin: LiveSharePlugin): void {
     if (msg.permission) {
       plugin.settings.permission = msg.permission;
     }
+    plugin.isCoHost = msg.isCoHost === true;
+    plugin.writePaths = msg.writePaths ?? [];
     if (msg.readOnlyPatterns) {
-      plugin.remoteReadOnlyPatterns = msg.readOnlyPatterns;
-      const readOnlyPaths = plugin.app.vault
-        .getFiles()
-        .map((f) => toCanonicalPath(normalizePath(f.path)))
-        .filter((p) => msg.readOnlyPatterns?.some((pat) => minimatch(p, pat)));
-      plugin.explorerIndicators?.update(readOnlyPaths);
+      applyRemoteReadOnlyPatterns(plugin, msg.readOnlyPatterns);
     }
     plugin.controlConnected = true;
     plugin.updateOnlineState();
@@ -169,14 +191,64 @@ export function registerControlHandlers(plugin: LiveSharePlugin): void {
 
   channel.on("permission-update", (msg) => {
     plugin.settings.permission = msg.permission;
+    plugin.writePaths = msg.writePaths ?? [];
+    plugin.onActiveFileChange();
+    const granted = plugin.writePaths.length > 0 ? `, except ${plugin.writePaths.join(", ")}` : "";
+    plugin.notify(`Live Share: your permission was changed to ${msg.permission}${granted}`);
+  });
+
+  channel.on("co-host-update", (msg) => {
+    if (msg.userId === plugin.userId) {
+      plugin.isCoHost = msg.coHost;
+      plugin.presenceManager?.broadcastPresence();
+      new Notice(
+        msg.coHost
+          ? "Live Share: you are now a co-host and can approve joins, kick and set permissions"
+          : "Live Share: you are no longer a co-host",
+      );
+    } else {
+      const user = plugin.remoteUsers.get(msg.userId);
+      if (user) user.isCoHost = msg.coHost;
+    }
+    plugin.refreshPresenceView();
+  });
+
+  channel.on("room-updated", (msg) => {
+    if (plugin.settings.role !== "guest" || !msg.readOnlyPatterns) return;
+    applyRemoteReadOnlyPatterns(plugin, msg.readOnlyPatterns);
     plugin.onActiveFileChange();
-    plugin.notify(`Live Share: your permission was changed to ${msg.permission}`);
+  });
+
+  channel.on("room-expiring", (msg) => {
+    const time = new Date(msg.expiresAt).toLocaleString();
+    new Notice(`Live Share: this session will expire at ${time} unless there is activity`);
+  });
+
+  channel.on("room-expired", () => {
+    new Notice("Live Share: the session expired after being idle");
+    void plugin.endSession();
+  });
+
+  channel.on("write-denied", (msg) => {
+    plugin.notifyWriteDenied(msg.path);
+  });
+
+  channel.on("token-rotated", (msg) => {
+    plugin.settings.token = msg.token;
+    void plugin.saveSettings();
+    if (plugin.settings.role === "host") {
+      new Notice("Live Share: room token rotated. Copy the invite link again to share it");
+    }
   });
 
   channel.on("focus-request", (msg) => {
     showFocusNotification(plugin, msg);
   });
 
+  channel.on("comment-mention", (msg) => {
+    showFocusNotification(plugin, msg);
+  });
+
   channel.on("summon", (msg) => {
     const file = plugin.app.vault.getAbstractFileByPath(toLocalPath(msg.filePath));
     if (file instanceof TFile) {
@@ -253,6 +325,7 @@ export function registerControlHandlers(plugin: LiveSharePlugin): void {
   channel.on("host-transfer-complete", () => {
     plugin.settings.role = "host";
     plugin.settings.permission = "read-write";
+    plugin.writePaths = [];
     void plugin
       .saveSettings()
       .then(() => plugin.backgroundSync.startAll("host"))
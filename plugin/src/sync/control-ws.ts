@@ -69,6 +69,8 @@ export class ControlChannel {
     const wsUrl = toWsUrl(this.settings.serverUrl);
     let url = `${wsUrl}/control/${encodeURIComponent(this.settings.roomId)}?token=${encodeURIComponent(this.settings.token)}`;
     if (this.settings.jwt) url += `&jwt=${encodeURIComponent(this.settings.jwt)}`;
+    const userId = this.settings.githubUserId || this.settings.clientId;
+    if (userId) url += `&userId=${encodeURIComponent(userId)}`;
     if (this.settings.serverPassword)
       url += `&password=${encodeURIComponent(this.settings.serverPassword)}`;
 
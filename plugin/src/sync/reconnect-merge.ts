@@ -0,0 +1,101 @@
+import * as decoding from "lib0/decoding";
+import * as encoding from "lib0/encoding";
+import * as syncProtocol from "y-protocols/sync";
+import * as Y from "yjs";
+
+import { applyMinimalYTextUpdate, threeWayMerge } from "../utils";
+
+/** Comments, canvases and the manifest hold structured data that text markers would break. */
+const STRUCTURED_DOC_PREFIXES = ["__comments__:", "__canvas__:", "__manifest__"];
+
+interface OfflineDoc {
+  /** The text as it was last synced. */
+  base: string;
+  /** The last synced doc, which also receives the sync messages that arrive on reconnect. */
+  theirs: Y.Doc;
+  /** The local text when the connection came back, or null before then. */
+  mine: string | null;
+}
+
+function holdsText(docId: string): boolean {
+  if (STRUCTURED_DOC_PREFIXES.some((prefix) => docId.startsWith(prefix))) return false;
+  return !docId.endsWith(".canvas");
+}
+
+/**
+ * Yjs merges edits made while disconnected character by character, which interleaves two
+ * rewrites of the same sentence without telling anyone. This keeps the last synced text of
+ * each file while the connection is down and, once it has synced again, redoes the merge line
+ * by line: edits to different lines are combined, and edits that collide are put between
+ * conflict markers in the note.
+ */
+export class ReconnectMerge {
+  private offline = new Map<string, OfflineDoc>();
+
+  /** Call when the connection drops, for each doc that was in sync until then. */
+  disconnected(docId: string, doc: Y.Doc): void {
+    if (!holdsText(docId) || this.offline.has(docId)) return;
+    const theirs = new Y.Doc();
+    Y.applyUpdate(theirs, Y.encodeStateAsUpdate(doc));
+    this.offline.set(docId, {
+      base: doc.getText("content").toString(),
+      theirs,
+      mine: null,
+    });
+  }
+
+  /** Call when the connection is back, before the sync exchange starts. */
+  reconnected(docId: string, doc: Y.Doc): void {
+    const entry = this.offline.get(docId);
+    if (!entry || entry.mine !== null) return;
+    const mine = doc.getText("content").toString();
+    if (mine === entry.base) {
+      // Nothing was edited offline, so whatever arrives can be taken as is
+      this.forget(docId);
+      return;
+    }
+    entry.mine = mine;
+  }
+
+  /**
+   * Call with each sync message received for the doc until it is in sync. Replaying them on
+   * the last synced doc leaves it with only the remote side of the changes; the updates the
+   * live doc emits would not do, as they skip deletions it already made offline.
+   */
+  received(docId: string, message: Uint8Array): void {
+    const entry = this.offline.get(docId);
+    if (!entry || entry.mine === null) return;
+    syncProtocol.readSyncMessage(
+      decoding.createDecoder(message),
+      encoding.createEncoder(),
+      entry.theirs,
+      null,
+    );
+  }
+
+  /**
+   * Call once the doc is in sync again. Rewrites its text as the line merge of the offline
+   * edits with what changed remotely meanwhile, and returns the number of conflicts marked.
+   */
+  synced(docId: string, doc: Y.Doc): number {
+    const entry = this.offline.get(docId);
+    if (!entry || entry.mine === null) return 0;
+    const theirs = entry.theirs.getText("content").toString();
+    this.forget(docId);
+    if (theirs === entry.base) return 0;
+
+    const merged = threeWayMerge(entry.base, entry.mine, theirs);
+    const text = doc.getText("content");
+    if (merged.content !== text.toString()) {
+      applyMinimalYTextUpdate(doc, text, merged.content);
+    }
+    return merged.conflicts;
+  }
+
+  forget(docId: string): void {
+    const entry = this.offline.get(docId);
+    if (!entry) return;
+    entry.theirs.destroy();
+    this.offline.delete(docId);
+  }
+}
@@ -10,15 +10,20 @@ import type { E2ECrypto } from "./crypto";
 import {
   MUX_AWARENESS,
   MUX_AWARENESS_ENCRYPTED,
+  MUX_SNAPSHOT,
+  MUX_SNAPSHOT_REQUEST,
+  MUX_STORE_FAILED,
   MUX_SUBSCRIBE,
   MUX_SUBSCRIBED,
   MUX_SYNC,
   MUX_SYNC_ENCRYPTED,
   MUX_SYNC_REQUEST,
   MUX_UNSUBSCRIBE,
+  MUX_WRITE_DENIED,
   decodeMuxMessage,
   encodeMuxMessage,
 } from "./mux-protocol";
+import { ReconnectMerge } from "./reconnect-merge";
 
 const SYNC_STEP2 = 1;
 const RECONNECT_BASE_MS = 100;
@@ -51,9 +56,16 @@ export class SyncManager {
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private e2e: E2ECrypto | null = null;
   private sendQueue: Promise<void> = Promise.resolve();
+  /** Encrypted sync messages are decrypted and applied one at a time, in arrival order. */
+  private receiveQueue: Promise<void> = Promise.resolve();
   private isDestroyed = false;
   private onMaxReconnectCallback: (() => void) | null = null;
   private onConnectionChangeCallback: ((connected: boolean) => void) | null = null;
+  private onWriteDeniedCallback: ((docId: string) => void) | null = null;
+  private onStoreFailedCallback: ((docId: string) => void) | null = null;
+  private storeFailedDocs = new Set<string>();
+  private onMergeConflictCallback: ((docId: string, conflicts: number) => void) | null = null;
+  private reconnectMerge = new ReconnectMerge();
 
   constructor(settings: LiveShareSettings) {
     this.settings = settings;
@@ -71,6 +83,20 @@ export class SyncManager {
     this.onConnectionChangeCallback = callback;
   }
 
+  onWriteDenied(callback: (docId: string) => void): void {
+    this.onWriteDeniedCallback = callback;
+  }
+
+  /** Called when edits made offline collided with remote ones and were marked in the text. */
+  /** Called once per doc when the server could not store an encrypted update to it. */
+  onStoreFailed(callback: (docId: string) => void): void {
+    this.onStoreFailedCallback = callback;
+  }
+
+  onMergeConflict(callback: (docId: string, conflicts: number) => void): void {
+    this.onMergeConflictCallback = callback;
+  }
+
   updateSettings(settings: LiveShareSettings) {
     this.settings = settings;
   }
@@ -181,6 +207,7 @@ export class SyncManager {
 
     this.synced.delete(filePath);
     this.syncListeners.delete(filePath);
+    this.reconnectMerge.forget(filePath);
   }
 
   waitForSync(rawPath: string, timeoutMs = 10_000): Promise<void> {
@@ -234,8 +261,9 @@ export class SyncManager {
     ws.onopen = () => {
       this.isConnected = true;
       this.reconnectAttempts = 0;
-      for (const filePath of this.docs.keys()) {
+      for (const [filePath, doc] of this.docs) {
         this.synced.set(filePath, false);
+        this.reconnectMerge.reconnected(filePath, doc);
         this.sendSubscribe(filePath);
       }
       this.onConnectionChangeCallback?.(true);
@@ -250,7 +278,8 @@ export class SyncManager {
       this.ws = null;
       this.isConnected = false;
       this.onConnectionChangeCallback?.(false);
-      for (const filePath of this.docs.keys()) {
+      for (const [filePath, doc] of this.docs) {
+        if (this.synced.get(filePath)) this.reconnectMerge.disconnected(filePath, doc);
         this.setSynced(filePath, false);
       }
       if (this.shouldConnect) {
@@ -292,7 +321,11 @@ export class SyncManager {
         this.handleSync(docId, payload);
         break;
       case MUX_SYNC_ENCRYPTED:
-        void this.handleSyncEncrypted(docId, payload);
+        this.receiveQueue = this.receiveQueue.then(() => this.handleSyncEncrypted(docId, payload));
+        break;
+      case MUX_SNAPSHOT_REQUEST:
+        // Answered once every update received before the request is in the doc
+        this.receiveQueue = this.receiveQueue.then(() => this.sendSnapshot(docId));
         break;
       case MUX_SYNC_REQUEST:
         this.handleSyncRequest(docId);
@@ -303,6 +336,15 @@ export class SyncManager {
       case MUX_AWARENESS_ENCRYPTED:
         void this.handleAwarenessEncrypted(docId, payload);
         break;
+      case MUX_WRITE_DENIED:
+        this.onWriteDeniedCallback?.(docId);
+        break;
+      case MUX_STORE_FAILED:
+        if (!this.storeFailedDocs.has(docId)) {
+          this.storeFailedDocs.add(docId);
+          this.onStoreFailedCallback?.(docId);
+        }
+        break;
     }
   }
 
@@ -341,6 +383,7 @@ export class SyncManager {
     const decoder = decoding.createDecoder(payload);
     const syncEncoder = encoding.createEncoder();
     const msgType = decoding.peekVarUint(decoder);
+    this.reconnectMerge.received(docId, payload);
 
     syncProtocol.readSyncMessage(decoder, syncEncoder, doc, this);
 
@@ -380,6 +423,18 @@ export class SyncManager {
     }
   }
 
+  /** Sends the whole doc for the server to replace its encrypted update log with. */
+  private sendSnapshot(docId: string): void {
+    const doc = this.docs.get(docId);
+    if (!doc || !this.e2e?.enabled) return;
+    const encoder = encoding.createEncoder();
+    syncProtocol.writeUpdate(encoder, Y.encodeStateAsUpdate(doc));
+    const snapshot = encoding.toUint8Array(encoder);
+    this.sendQueue = this.sendQueue.then(() =>
+      this.sendEncryptedSync(docId, snapshot, MUX_SNAPSHOT),
+    );
+  }
+
   private async handleAwarenessEncrypted(docId: string, payload: Uint8Array): Promise<void> {
     if (!this.e2e?.enabled) {
       // Received encrypted awareness but we don't have E2E - drop
@@ -397,6 +452,9 @@ export class SyncManager {
     const prev = this.synced.get(docId);
     this.synced.set(docId, value);
     if (value && !prev) {
+      const doc = this.docs.get(docId);
+      const conflicts = doc ? this.reconnectMerge.synced(docId, doc) : 0;
+      if (conflicts > 0) this.onMergeConflictCallback?.(docId, conflicts);
       const listeners = this.syncListeners.get(docId);
       if (listeners) {
         for (const listener of listeners) {
@@ -425,7 +483,11 @@ export class SyncManager {
     }
   }
 
-  private async sendEncryptedSync(docId: string, payload: Uint8Array): Promise<void> {
+  private async sendEncryptedSync(
+    docId: string,
+    payload: Uint8Array,
+    muxType = MUX_SYNC_ENCRYPTED,
+  ): Promise<void> {
     if (!this.e2e || this.ws?.readyState !== WebSocket.OPEN) return;
     try {
       const syncType = payload[0];
@@ -435,7 +497,7 @@ export class SyncManager {
       result[0] = syncType;
       result.set(encrypted, 1);
       if (this.ws?.readyState === WebSocket.OPEN) {
-        this.ws.send(encodeMuxMessage(docId, MUX_SYNC_ENCRYPTED, result));
+        this.ws.send(encodeMuxMessage(docId, muxType, result));
       }
     } catch {
       // Do not fall back to unencrypted - drop the message to preserve E2E guarantee
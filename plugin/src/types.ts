@@ -1,12 +1,16 @@
 export type SessionRole = "host" | "guest" | null;
 
-export type Permission = "read-write" | "read-only";
+export type Permission = "read-write" | "comment" | "read-only";
 
 export interface LiveShareSettings {
   serverUrl: string;
   roomId: string;
   token: string;
+  /** Proves this client is host to the server's host-only endpoints; set only while hosting. */
+  hostToken: string;
   jwt: string;
+  /** Renews `jwt` through the server's `/auth/refresh`. */
+  refreshToken: string;
   githubUserId: string;
   avatarUrl: string;
   displayName: string;
@@ -22,6 +26,7 @@ export interface LiveShareSettings {
   debugLogging: boolean;
   debugLogPath: string;
   autoReconnect: boolean;
+  showAuthorship: boolean;
   excludePatterns: string[];
   readOnlyPatterns: string[];
   approvalTimeoutSeconds: number;
@@ -31,7 +36,9 @@ export const DEFAULT_SETTINGS: LiveShareSettings = {
   serverUrl: "http://localhost:3000",
   roomId: "",
   token: "",
+  hostToken: "",
   jwt: "",
+  refreshToken: "",
   githubUserId: "",
   avatarUrl: "",
   displayName: "Anonymous",
@@ -47,6 +54,7 @@ export const DEFAULT_SETTINGS: LiveShareSettings = {
   debugLogging: false,
   debugLogPath: "live-share-debug.md",
   autoReconnect: true,
+  showAuthorship: false,
   excludePatterns: [],
   readOnlyPatterns: [],
   approvalTimeoutSeconds: 60,
@@ -165,6 +173,7 @@ export interface PresenceUpdateMessage {
   avatarUrl?: string;
   scrollTop?: number;
   isHost?: boolean;
+  isCoHost?: boolean;
   line?: number;
   permission?: Permission;
 }
@@ -188,7 +197,18 @@ export interface JoinResponseMessage {
   approved: boolean;
   permission?: Permission;
   readOnlyPatterns?: string[];
+  /** Globs a read-only guest may still edit. */
+  writePaths?: string[];
   isHost?: boolean;
+  isCoHost?: boolean;
+}
+
+/** Tells the other moderators that someone already answered a join request. */
+export interface JoinRequestResolvedMessage {
+  type: "join-request-resolved";
+  userId: string;
+  approved: boolean;
+  displayName?: string;
 }
 
 export interface KickMessage {
@@ -204,11 +224,26 @@ export interface SetPermissionMessage {
   type: "set-permission";
   userId: string;
   permission: Permission;
+  /** With read-only, globs the user may still edit. */
+  writePaths?: string[];
 }
 
 export interface PermissionUpdateMessage {
   type: "permission-update";
   permission: Permission;
+  writePaths?: string[];
+}
+
+export interface SetCoHostMessage {
+  type: "set-co-host";
+  userId: string;
+  coHost: boolean;
+}
+
+export interface CoHostUpdateMessage {
+  type: "co-host-update";
+  userId: string;
+  coHost: boolean;
 }
 
 export interface FocusRequestMessage {
@@ -230,6 +265,17 @@ export interface SummonMessage {
   ch: number;
 }
 
+/** Sent to each collaborator named in a comment; the server routes it to `targetUserId`. */
+export interface CommentMentionMessage {
+  type: "comment-mention";
+  fromUserId: string;
+  fromDisplayName: string;
+  targetUserId: string;
+  filePath: string;
+  line: number;
+  ch: number;
+}
+
 export interface PresentStartMessage {
   type: "present-start";
   userId: string;
@@ -292,6 +338,38 @@ export interface HostChangedMessage {
   displayName: string;
 }
 
+export interface RoomUpdatedMessage {
+  type: "room-updated";
+  name?: string;
+  requireApproval?: boolean;
+  readOnlyPatterns?: string[];
+  defaultPermission?: Permission;
+}
+
+export interface RoomExpiringMessage {
+  type: "room-expiring";
+  expiresAt: number;
+}
+
+export interface RoomExpiredMessage {
+  type: "room-expired";
+}
+
+export interface RotateTokenMessage {
+  type: "rotate-token";
+}
+
+export interface TokenRotatedMessage {
+  type: "token-rotated";
+  token: string;
+}
+
+/** The server dropped a file operation on a read-only path. */
+export interface WriteDeniedMessage {
+  type: "write-denied";
+  path: string;
+}
+
 export type ControlMessage =
   | FileOpMessage
   | ChunkStartMessage
@@ -302,12 +380,16 @@ export type ControlMessage =
   | PresenceLeaveMessage
   | JoinRequestMessage
   | JoinResponseMessage
+  | JoinRequestResolvedMessage
   | KickMessage
   | KickedMessage
   | SetPermissionMessage
   | PermissionUpdateMessage
+  | SetCoHostMessage
+  | CoHostUpdateMessage
   | FocusRequestMessage
   | SummonMessage
+  | CommentMentionMessage
   | PresentStartMessage
   | PresentStopMessage
   | SyncRequestMessage
@@ -319,7 +401,13 @@ export type ControlMessage =
   | HostTransferDeclineMessage
   | HostTransferCompleteMessage
   | HostDisconnectedMessage
-  | HostChangedMessage;
+  | HostChangedMessage
+  | RoomUpdatedMessage
+  | RoomExpiringMessage
+  | RoomExpiredMessage
+  | RotateTokenMessage
+  | TokenRotatedMessage
+  | WriteDeniedMessage;
 
 export type ControlMessageType = ControlMessage["type"];
 
@@ -333,12 +421,16 @@ export interface ControlMessageMap {
   "presence-leave": PresenceLeaveMessage;
   "join-request": JoinRequestMessage;
   "join-response": JoinResponseMessage;
+  "join-request-resolved": JoinRequestResolvedMessage;
   kick: KickMessage;
   kicked: KickedMessage;
   "set-permission": SetPermissionMessage;
   "permission-update": PermissionUpdateMessage;
+  "set-co-host": SetCoHostMessage;
+  "co-host-update": CoHostUpdateMessage;
   "focus-request": FocusRequestMessage;
   summon: SummonMessage;
+  "comment-mention": CommentMentionMessage;
   "present-start": PresentStartMessage;
   "present-stop": PresentStopMessage;
   "sync-request": SyncRequestMessage;
@@ -351,4 +443,10 @@ export interface ControlMessageMap {
   "host-transfer-complete": HostTransferCompleteMessage;
   "host-disconnected": HostDisconnectedMessage;
   "host-changed": HostChangedMessage;
+  "room-updated": RoomUpdatedMessage;
+  "room-expiring": RoomExpiringMessage;
+  "room-expired": RoomExpiredMessage;
+  "rotate-token": RotateTokenMessage;
+  "token-rotated": TokenRotatedMessage;
+  "write-denied": WriteDeniedMessage;
 }
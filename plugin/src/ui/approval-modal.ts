@@ -40,12 +40,12 @@ export class ApprovalModal extends Modal {
       }
     }
     const nameEl = info.createEl("p");
-    nameEl.appendText(`${this.request.displayName} wants to join your session.`);
+    nameEl.appendText(`${this.request.displayName} wants to join the session.`);
 
     if (this.request.verified) {
       const badge = info.createEl("p", { cls: "live-share-approval-verified" });
       badge.createEl("span", {
-        text: "GitHub verified",
+        text: "Verified",
         cls: "live-share-verified-badge",
       });
     } else {
@@ -95,6 +95,15 @@ export class ApprovalModal extends Modal {
       this.close();
     });
 
+    const approveComment = buttons.createEl("button", {
+      text: "Approve (comment only)",
+    });
+    approveComment.addEventListener("click", () => {
+      this.hasDecided = true;
+      this.onDecision(true, "comment");
+      this.close();
+    });
+
     const deny = buttons.createEl("button", { text: "Deny" });
     deny.addEventListener("click", () => {
       this.hasDecided = true;
@@ -103,6 +112,12 @@ export class ApprovalModal extends Modal {
     });
   }
 
+  /** Closes without answering, because another moderator already did. */
+  dismiss() {
+    this.hasDecided = true;
+    this.close();
+  }
+
   override onClose() {
     if (this.countdownTimer) {
       clearInterval(this.countdownTimer);
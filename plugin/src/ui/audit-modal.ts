@@ -1,4 +1,4 @@
-import { type App, Modal } from "obsidian";
+import { type App, Modal, Setting } from "obsidian";
 
 interface AuditEntry {
   timestamp: number;
@@ -6,12 +6,37 @@ interface AuditEntry {
   userId: string;
   displayName: string;
   details?: string;
+  seq?: number;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  checked: number;
+  unchained: number;
+  brokenAt?: { seq?: number; timestamp: number; reason: string };
+}
+
+const EVENT_GROUPS: Record<string, string[]> = {
+  Membership: ["join", "rejoin", "join-denied", "leave", "kick", "rate-limited"],
+  Files: ["file-op", "write-denied"],
+  Permissions: ["permission-change", "co-host-change", "token-rotated"],
+  Host: ["host-transfer-offer", "host-transfer-decline", "host-transfer", "session-end"],
+};
+
+function groupOf(event: string): string {
+  for (const [group, events] of Object.entries(EVENT_GROUPS)) {
+    if (events.includes(event)) return group;
+  }
+  return "Other";
 }
 
 export class AuditLogModal extends Modal {
+  private filter = "all";
+
   constructor(
     app: App,
     private entries: AuditEntry[],
+    private verification?: AuditVerification,
   ) {
     super(app);
   }
@@ -20,23 +45,84 @@ export class AuditLogModal extends Modal {
     const { contentEl } = this;
     contentEl.empty();
     contentEl.createEl("h2", { text: "Audit log" });
+    this.renderVerification(contentEl);
 
     if (this.entries.length === 0) {
       contentEl.createEl("p", { text: "No audit log entries." });
       return;
     }
 
-    const list = contentEl.createDiv({ cls: "live-share-audit-list" });
+    const events = [...new Set(this.entries.map((entry) => entry.event))].sort();
+    new Setting(contentEl).setName("Show").addDropdown((dropdown) => {
+      dropdown.addOption("all", "All events");
+      for (const event of events) dropdown.addOption(event, event);
+      dropdown.setValue(this.filter).onChange((value) => {
+        this.filter = value;
+        this.renderEntries();
+      });
+    });
+    contentEl.createDiv({ cls: "live-share-audit-list" });
+    this.renderEntries();
+  }
+
+  private renderEntries() {
+    const list = this.contentEl.querySelector<HTMLElement>(".live-share-audit-list");
+    if (!list) return;
+    list.empty();
+
+    const groups = new Map<string, AuditEntry[]>();
     for (const entry of this.entries) {
-      const item = list.createDiv({ cls: "live-share-audit-item" });
-      const date = new Date(entry.timestamp);
-      const time = date.toLocaleString();
-      const name = entry.displayName || entry.userId;
-      const detail = entry.details ? ` (${entry.details})` : "";
-      item.createEl("span", {
-        text: `${time} - ${entry.event}: ${name}${detail}`,
+      if (this.filter !== "all" && entry.event !== this.filter) continue;
+      const group = groupOf(entry.event);
+      let grouped = groups.get(group);
+      if (!grouped) {
+        grouped = [];
+        groups.set(group, grouped);
+      }
+      grouped.push(entry);
+    }
+    // Keep the fixed group order; entries stay newest first within each group
+    const order = [...Object.keys(EVENT_GROUPS), "Other"];
+    for (const group of order) {
+      const entries = groups.get(group);
+      if (!entries) continue;
+      list.createEl("h3", { text: `${group} (${entries.length})` });
+      for (const entry of entries) {
+        const item = list.createDiv({ cls: "live-share-audit-item" });
+        const date = new Date(entry.timestamp);
+        const time = date.toLocaleString();
+        const name = entry.displayName || entry.userId;
+        const detail = entry.details ? ` (${entry.details})` : "";
+        item.createEl("span", {
+          text: `${time} - ${entry.event}: ${name}${detail}`,
+        });
+      }
+    }
+  }
+
+  private renderVerification(el: HTMLElement) {
+    const result = this.verification;
+    if (!result) {
+      el.createEl("p", {
+        text: "Could not verify the log's integrity.",
+        cls: "live-share-audit-unverified",
       });
+      return;
+    }
+    if (result.valid) {
+      el.createEl("p", {
+        text: `Integrity verified (${result.checked} entries).`,
+        cls: "live-share-audit-verified",
+      });
+      return;
     }
+    const broken = result.brokenAt;
+    const at = broken?.seq !== undefined ? `entry #${broken.seq}` : "an entry";
+    const when = broken ? ` at ${new Date(broken.timestamp).toLocaleString()}` : "";
+    el.createEl("p", {
+      text: `Integrity check failed: ${broken?.reason ?? "chain broken"} (${at}${when}).`,
+      cls: "live-share-audit-broken",
+    });
   }
 
   override onClose() {
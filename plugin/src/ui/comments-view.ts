@@ -0,0 +1,251 @@
+import { ExtraButtonComponent, ItemView, setIcon } from "obsidian";
+
+import type { ActiveComments } from "../editor/collab";
+import type { CommentThread } from "../editor/comments";
+import type { Suggestion } from "../editor/suggestions";
+
+export const COMMENTS_VIEW_TYPE = "live-share-comments";
+
+const QUOTE_LENGTH = 80;
+
+/** The host accepts or rejects suggestions; their authors may withdraw them. */
+export interface SuggestionReviewer {
+  userId: string;
+  isHost: boolean;
+}
+
+function truncate(text: string): string {
+  return text.length > QUOTE_LENGTH ? `${text.slice(0, QUOTE_LENGTH)}…` : text;
+}
+
+export class CommentsView extends ItemView {
+  private comments: ActiveComments | null = null;
+  private selectedThreadId: string | null = null;
+  private showResolved = false;
+  private canComment = false;
+  private reviewer: SuggestionReviewer = { userId: "", isHost: false };
+  private onRevealRequest: ((id: string) => void) | null = null;
+  private onReplyRequest: ((id: string) => void) | null = null;
+  private onResolveRequest: ((id: string, resolved: boolean) => void) | null = null;
+  private onAcceptRequest: ((id: string | null) => void) | null = null;
+  private onRejectRequest: ((id: string | null) => void) | null = null;
+
+  getViewType(): string {
+    return COMMENTS_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return "Comments";
+  }
+
+  getIcon(): string {
+    return "message-square";
+  }
+
+  setRevealHandler(handler: (id: string) => void): void {
+    this.onRevealRequest = handler;
+  }
+
+  setReplyHandler(handler: (id: string) => void): void {
+    this.onReplyRequest = handler;
+  }
+
+  setResolveHandler(handler: (id: string, resolved: boolean) => void): void {
+    this.onResolveRequest = handler;
+  }
+
+  /** Called with a suggestion id, or null to accept every suggestion in the note. */
+  setAcceptHandler(handler: (id: string | null) => void): void {
+    this.onAcceptRequest = handler;
+  }
+
+  /** Called with a suggestion id, or null to reject every suggestion in the note. */
+  setRejectHandler(handler: (id: string | null) => void): void {
+    this.onRejectRequest = handler;
+  }
+
+  updateState(
+    comments: ActiveComments | null,
+    canComment: boolean,
+    selectedThreadId: string | null = null,
+    reviewer: SuggestionReviewer = { userId: "", isHost: false },
+  ): void {
+    this.comments = comments;
+    this.canComment = canComment;
+    this.reviewer = reviewer;
+    if (selectedThreadId) this.selectedThreadId = selectedThreadId;
+    if (
+      selectedThreadId &&
+      comments?.threads.find((thread) => thread.id === selectedThreadId)?.resolved
+    ) {
+      this.showResolved = true;
+    }
+    this.render();
+  }
+
+  override onOpen(): Promise<void> {
+    this.render();
+    return Promise.resolve();
+  }
+
+  override onClose(): Promise<void> {
+    this.contentEl.empty();
+    return Promise.resolve();
+  }
+
+  private render() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("live-share-comments-panel");
+
+    const threads = (this.comments?.threads ?? []).filter(
+      (thread) => this.showResolved || !thread.resolved,
+    );
+    const resolvedCount = (this.comments?.threads ?? []).filter((t) => t.resolved).length;
+
+    if (this.comments) {
+      const header = contentEl.createEl("div", { cls: "live-share-comments-header" });
+      header.createEl("span", { text: this.comments.path, cls: "live-share-user-file" });
+      if (resolvedCount > 0) {
+        new ExtraButtonComponent(header)
+          .setIcon(this.showResolved ? "eye-off" : "eye")
+          .setTooltip(this.showResolved ? "Hide resolved" : `Show ${resolvedCount} resolved`)
+          .extraSettingsEl.addEventListener("click", () => {
+            this.showResolved = !this.showResolved;
+            this.render();
+          });
+      }
+    }
+
+    const suggestions = this.comments?.suggestions ?? [];
+    if (suggestions.length > 0) {
+      this.renderSuggestions(contentEl, suggestions, this.comments?.content ?? "");
+    }
+
+    if (threads.length === 0 && suggestions.length === 0) {
+      const empty = contentEl.createEl("div", {
+        cls: "live-share-presence-empty",
+      });
+      const iconEl = empty.createEl("div", {
+        cls: "live-share-presence-empty-icon",
+      });
+      setIcon(iconEl, "message-square");
+      empty.createEl("div", {
+        text: this.comments ? "No open comments in this note" : "Open a shared note",
+        cls: "live-share-presence-empty-text",
+      });
+      return;
+    }
+
+    if (threads.length === 0) return;
+    const list = contentEl.createEl("div", { cls: "live-share-comments-list" });
+    for (const thread of threads) {
+      this.renderThread(list, thread, this.comments?.content ?? "");
+    }
+  }
+
+  private renderSuggestions(container: HTMLElement, suggestions: Suggestion[], content: string) {
+    const header = container.createEl("div", { cls: "live-share-comments-header" });
+    header.createEl("span", {
+      text: suggestions.length === 1 ? "1 suggestion" : `${suggestions.length} suggestions`,
+      cls: "live-share-user-name",
+    });
+    if (this.reviewer.isHost) {
+      const actions = header.createEl("div", { cls: "live-share-user-actions" });
+      new ExtraButtonComponent(actions)
+        .setIcon("check-check")
+        .setTooltip("Accept all")
+        .extraSettingsEl.addEventListener("click", () => {
+          this.onAcceptRequest?.(null);
+        });
+      new ExtraButtonComponent(actions)
+        .setIcon("x")
+        .setTooltip("Reject all")
+        .extraSettingsEl.addEventListener("click", () => {
+          this.onRejectRequest?.(null);
+        });
+    }
+
+    const list = container.createEl("div", { cls: "live-share-comments-list" });
+    for (const suggestion of suggestions) {
+      const card = list.createEl("div", { cls: "live-share-suggestion" });
+      const meta = card.createEl("div", { cls: "live-share-comment-meta" });
+      meta.createEl("span", { text: suggestion.displayName, cls: "live-share-user-name" });
+      meta.createEl("span", {
+        text: new Date(suggestion.createdAt).toLocaleString(),
+        cls: "live-share-comment-time",
+      });
+      const removed = content.slice(suggestion.from, suggestion.to);
+      if (removed) {
+        card.createEl("div", { text: truncate(removed), cls: "live-share-suggestion-delete" });
+      }
+      if (suggestion.insert) {
+        card.createEl("div", {
+          text: truncate(suggestion.insert),
+          cls: "live-share-suggestion-insert",
+        });
+      }
+
+      const isAuthor = suggestion.userId === this.reviewer.userId;
+      if (!this.reviewer.isHost && !isAuthor) continue;
+      const actions = card.createEl("div", { cls: "live-share-user-actions" });
+      if (this.reviewer.isHost) {
+        new ExtraButtonComponent(actions)
+          .setIcon("check")
+          .setTooltip("Accept")
+          .extraSettingsEl.addEventListener("click", () => {
+            this.onAcceptRequest?.(suggestion.id);
+          });
+      }
+      new ExtraButtonComponent(actions)
+        .setIcon("x")
+        .setTooltip(this.reviewer.isHost ? "Reject" : "Withdraw")
+        .extraSettingsEl.addEventListener("click", () => {
+          this.onRejectRequest?.(suggestion.id);
+        });
+    }
+  }
+
+  private renderThread(list: HTMLElement, thread: CommentThread, content: string) {
+    const classes = ["live-share-comment-thread"];
+    if (thread.resolved) classes.push("is-resolved");
+    if (thread.id === this.selectedThreadId) classes.push("is-selected");
+    const card = list.createEl("div", { cls: classes.join(" ") });
+
+    const quoted = content.slice(thread.from, thread.to);
+    const quote = card.createEl("div", {
+      text: truncate(quoted),
+      cls: "live-share-comment-quote",
+    });
+    quote.addEventListener("click", () => {
+      this.selectedThreadId = thread.id;
+      this.onRevealRequest?.(thread.id);
+    });
+
+    for (const message of thread.messages) {
+      const row = card.createEl("div", { cls: "live-share-comment-message" });
+      const meta = row.createEl("div", { cls: "live-share-comment-meta" });
+      meta.createEl("span", { text: message.displayName, cls: "live-share-user-name" });
+      meta.createEl("span", {
+        text: new Date(message.createdAt).toLocaleString(),
+        cls: "live-share-comment-time",
+      });
+      row.createEl("div", { text: message.text, cls: "live-share-comment-text" });
+    }
+
+    if (!this.canComment) return;
+    const actions = card.createEl("div", { cls: "live-share-user-actions" });
+    new ExtraButtonComponent(actions)
+      .setIcon("reply")
+      .setTooltip("Reply")
+      .extraSettingsEl.addEventListener("click", () => {
+        this.onReplyRequest?.(thread.id);
+      });
+    new ExtraButtonComponent(actions)
+      .setIcon(thread.resolved ? "rotate-ccw" : "check")
+      .setTooltip(thread.resolved ? "Reopen" : "Resolve")
+      .extraSettingsEl.addEventListener("click", () => {
+        this.onResolveRequest?.(thread.id, !thread.resolved);
+      });
+  }
+}
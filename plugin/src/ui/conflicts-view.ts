@@ -0,0 +1,126 @@
+import { ItemView, setIcon } from "obsidian";
+
+import type { ActiveConflicts } from "../editor/collab";
+import type { ConflictChoice, EditConflict } from "../editor/conflict-log";
+
+export const CONFLICTS_VIEW_TYPE = "live-share-conflicts";
+
+export class ConflictsView extends ItemView {
+  private conflicts: ActiveConflicts | null = null;
+  private canSettle = false;
+  private userId = "";
+  private onRevealRequest: ((id: string) => void) | null = null;
+  private onSettleRequest: ((id: string, choice: ConflictChoice) => void) | null = null;
+
+  getViewType(): string {
+    return CONFLICTS_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return "Conflicts";
+  }
+
+  getIcon(): string {
+    return "git-compare";
+  }
+
+  setRevealHandler(handler: (id: string) => void): void {
+    this.onRevealRequest = handler;
+  }
+
+  setSettleHandler(handler: (id: string, choice: ConflictChoice) => void): void {
+    this.onSettleRequest = handler;
+  }
+
+  /** `userId` tells which logged versions are this user's own; only editors may settle. */
+  updateState(conflicts: ActiveConflicts | null, canSettle: boolean, userId: string): void {
+    this.conflicts = conflicts;
+    this.canSettle = canSettle;
+    this.userId = userId;
+    this.render();
+  }
+
+  override onOpen(): Promise<void> {
+    this.render();
+    return Promise.resolve();
+  }
+
+  override onClose(): Promise<void> {
+    this.contentEl.empty();
+    return Promise.resolve();
+  }
+
+  private render() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("live-share-conflicts-panel");
+
+    const conflicts = this.conflicts?.conflicts ?? [];
+    if (this.conflicts) {
+      const header = contentEl.createEl("div", { cls: "live-share-comments-header" });
+      header.createEl("span", { text: this.conflicts.path, cls: "live-share-user-file" });
+    }
+
+    if (conflicts.length === 0) {
+      const empty = contentEl.createEl("div", {
+        cls: "live-share-presence-empty",
+      });
+      const iconEl = empty.createEl("div", {
+        cls: "live-share-presence-empty-icon",
+      });
+      setIcon(iconEl, "git-compare");
+      empty.createEl("div", {
+        text: this.conflicts ? "No conflicting edits in this note" : "Open a shared note",
+        cls: "live-share-presence-empty-text",
+      });
+      return;
+    }
+
+    const list = contentEl.createEl("div", { cls: "live-share-comments-list" });
+    for (const conflict of conflicts) {
+      this.renderConflict(list, conflict, this.conflicts?.content ?? "");
+    }
+  }
+
+  private renderConflict(list: HTMLElement, conflict: EditConflict, content: string) {
+    const isOwn = conflict.userId === this.userId;
+    const card = list.createEl("div", { cls: "live-share-conflict-entry" });
+    const meta = card.createEl("div", { cls: "live-share-comment-meta" });
+    meta.createEl("span", {
+      text: isOwn ? "Your edit was overlapped" : `${conflict.displayName}'s edit was overlapped`,
+      cls: "live-share-user-name",
+    });
+    meta.createEl("span", {
+      text: new Date(conflict.createdAt).toLocaleString(),
+      cls: "live-share-comment-time",
+    });
+
+    const columns = card.createEl("div", { cls: "live-share-conflict-versions" });
+    const versions = [
+      { label: isOwn ? "Mine" : conflict.displayName, text: conflict.mine },
+      { label: isOwn ? "Theirs" : "Current", text: content.slice(conflict.from, conflict.to) },
+    ];
+    for (const version of versions) {
+      const column = columns.createEl("div", { cls: "live-share-conflict-version" });
+      column.createEl("div", { text: version.label, cls: "live-share-comment-time" });
+      const textEl = column.createEl("div", {
+        text: version.text,
+        cls: "live-share-conflict-text",
+      });
+      if (!version.text) textEl.addClass("is-empty");
+      textEl.addEventListener("click", () => this.onRevealRequest?.(conflict.id));
+    }
+
+    if (!this.canSettle) return;
+    const buttons = card.createEl("div", { cls: "live-share-conflict-buttons" });
+    const choices: { choice: ConflictChoice; label: string }[] = [
+      { choice: "mine", label: isOwn ? "Keep mine" : `Keep ${conflict.displayName}'s` },
+      { choice: "theirs", label: isOwn ? "Keep theirs" : "Keep current" },
+      { choice: "both", label: "Keep both" },
+    ];
+    for (const { choice, label } of choices) {
+      const button = buttons.createEl("button", { text: label });
+      button.addEventListener("click", () => this.onSettleRequest?.(conflict.id, choice));
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { type App, Modal } from "obsidian";
+
+import type { DiffLine } from "../utils";
+
+const DIFF_PREFIX: Record<DiffLine["type"], string> = {
+  same: "  ",
+  added: "+ ",
+  removed: "- ",
+};
+
+/** Shows a line diff, with an optional button acting on what it shows. */
+export class DiffModal extends Modal {
+  constructor(
+    app: App,
+    private title: string,
+    private lines: DiffLine[],
+    private action?: { label: string; run: () => void },
+  ) {
+    super(app);
+  }
+
+  override onOpen() {
+    const { contentEl } = this;
+    this.setTitle(this.title);
+    contentEl.addClass("live-share-diff-modal");
+
+    if (this.lines.every((line) => line.type === "same")) {
+      contentEl.createEl("p", { text: "No differences.", cls: "live-share-diff-empty" });
+    } else {
+      const pre = contentEl.createEl("pre", { cls: "live-share-diff" });
+      for (const line of this.lines) {
+        pre.createEl("div", {
+          text: DIFF_PREFIX[line.type] + line.text,
+          cls: `live-share-diff-line mod-${line.type}`,
+        });
+      }
+    }
+
+    const { action } = this;
+    if (action) {
+      const buttons = contentEl.createDiv({ cls: "modal-button-container" });
+      const button = buttons.createEl("button", { text: action.label, cls: "mod-cta" });
+      button.addEventListener("click", () => {
+        action.run();
+        this.close();
+      });
+    }
+  }
+
+  override onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -1,15 +1,19 @@
 import { MarkdownView, Notice, TFile } from "obsidian";
 import type LiveSharePlugin from "../main";
-import type { FocusRequestMessage, SummonMessage } from "../types";
+import type { CommentMentionMessage, FocusRequestMessage, SummonMessage } from "../types";
 import { toLocalPath } from "../utils";
 
 export function showFocusNotification(
   plugin: LiveSharePlugin,
-  request: FocusRequestMessage | SummonMessage,
+  request: FocusRequestMessage | SummonMessage | CommentMentionMessage,
 ) {
+  const location = `${request.filePath}:${request.line + 1}`;
   const fragment = document.createDocumentFragment();
   fragment.createEl("span", {
-    text: `Live Share: ${request.fromDisplayName} wants your attention at ${request.filePath}:${request.line + 1}`,
+    text:
+      request.type === "comment-mention"
+        ? `Live Share: ${request.fromDisplayName} mentioned you in a comment at ${location}`
+        : `Live Share: ${request.fromDisplayName} wants your attention at ${location}`,
   });
   fragment.createEl("br");
   const goToButton = fragment.createEl("button", {
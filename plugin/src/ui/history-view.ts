@@ -0,0 +1,117 @@
+import { ExtraButtonComponent, ItemView, setIcon } from "obsidian";
+
+import type { HistorySnapshot } from "../files/session-history";
+
+export const HISTORY_VIEW_TYPE = "live-share-history";
+
+export class HistoryView extends ItemView {
+  private snapshots: HistorySnapshot[] = [];
+  private canRestore = false;
+  private onDiffRequest: ((id: string) => void) | null = null;
+  private onRestoreRequest: ((id: string) => void) | null = null;
+
+  getViewType(): string {
+    return HISTORY_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return "Session history";
+  }
+
+  getIcon(): string {
+    return "history";
+  }
+
+  setDiffHandler(handler: (id: string) => void): void {
+    this.onDiffRequest = handler;
+  }
+
+  setRestoreHandler(handler: (id: string) => void): void {
+    this.onRestoreRequest = handler;
+  }
+
+  /** `snapshots` come newest first; `canRestore` is false once the session has ended. */
+  updateState(snapshots: HistorySnapshot[], canRestore: boolean): void {
+    this.snapshots = snapshots;
+    this.canRestore = canRestore;
+    this.render();
+  }
+
+  override onOpen(): Promise<void> {
+    this.render();
+    return Promise.resolve();
+  }
+
+  override onClose(): Promise<void> {
+    this.contentEl.empty();
+    return Promise.resolve();
+  }
+
+  private render() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("live-share-history-panel");
+
+    if (this.snapshots.length === 0) {
+      const empty = contentEl.createEl("div", {
+        cls: "live-share-presence-empty",
+      });
+      const iconEl = empty.createEl("div", {
+        cls: "live-share-presence-empty-icon",
+      });
+      setIcon(iconEl, "history");
+      empty.createEl("div", {
+        text: "No versions recorded in this session",
+        cls: "live-share-presence-empty-text",
+      });
+      return;
+    }
+
+    const byPath = new Map<string, HistorySnapshot[]>();
+    for (const snapshot of this.snapshots) {
+      const list = byPath.get(snapshot.path) ?? [];
+      list.push(snapshot);
+      byPath.set(snapshot.path, list);
+    }
+
+    for (const path of [...byPath.keys()].sort()) {
+      const snapshots = byPath.get(path) ?? [];
+      const group = contentEl.createEl("div", { cls: "live-share-history-file" });
+      group.createEl("div", { text: path, cls: "live-share-history-path" });
+      snapshots.forEach((snapshot, index) => {
+        // The oldest version of each file is the one it had when the session picked it up
+        const isFirst = index === snapshots.length - 1;
+        this.renderSnapshot(group, snapshot, isFirst);
+      });
+    }
+  }
+
+  private renderSnapshot(group: HTMLElement, snapshot: HistorySnapshot, isFirst: boolean) {
+    const row = group.createEl("div", { cls: "live-share-history-entry" });
+    const info = row.createEl("div", { cls: "live-share-user-info" });
+    info.createEl("div", {
+      text: new Date(snapshot.createdAt).toLocaleTimeString(),
+      cls: "live-share-user-name",
+    });
+    let byline = "No attributed edits";
+    if (snapshot.authors.length > 0) byline = `Edited by ${snapshot.authors.join(", ")}`;
+    else if (isFirst) byline = "At session start";
+    info.createEl("div", { text: byline, cls: "live-share-user-file" });
+
+    const actions = row.createEl("div", { cls: "live-share-user-actions" });
+    new ExtraButtonComponent(actions)
+      .setIcon("file-diff")
+      .setTooltip("Compare with current")
+      .extraSettingsEl.addEventListener("click", () => {
+        this.onDiffRequest?.(snapshot.id);
+      });
+    if (this.canRestore) {
+      new ExtraButtonComponent(actions)
+        .setIcon("rotate-ccw")
+        .setTooltip("Restore this version")
+        .extraSettingsEl.addEventListener("click", () => {
+          this.onRestoreRequest?.(snapshot.id);
+        });
+    }
+  }
+}
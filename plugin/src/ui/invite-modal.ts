@@ -0,0 +1,130 @@
+import { type App, Modal, Setting } from "obsidian";
+
+import type { InviteInfo, InviteOptions, SessionManager } from "../session/session";
+import type { Permission } from "../types";
+
+const EXPIRY_OPTIONS: Record<string, string> = {
+  "3600": "1 hour",
+  "86400": "1 day",
+  "604800": "7 days",
+  "2592000": "30 days",
+};
+
+const USE_OPTIONS: Record<string, string> = {
+  "1": "Single use",
+  "5": "5 people",
+  "25": "25 people",
+  "0": "Unlimited",
+};
+
+const PERMISSION_LABELS: Record<Permission, string> = {
+  "read-write": "Read & write",
+  comment: "Comment only",
+  "read-only": "Read only",
+};
+
+export class InviteModal extends Modal {
+  private options: InviteOptions = { expiresIn: 86400, maxUses: 1, permission: "read-write" };
+
+  constructor(
+    app: App,
+    private sessionManager: SessionManager,
+  ) {
+    super(app);
+    this.setTitle("Invite links");
+  }
+
+  override onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    new Setting(contentEl).setName("Expires after").addDropdown((dropdown) =>
+      dropdown
+        .addOptions(EXPIRY_OPTIONS)
+        .setValue(String(this.options.expiresIn))
+        .onChange((value) => {
+          this.options.expiresIn = Number(value);
+        }),
+    );
+    new Setting(contentEl).setName("Usable by").addDropdown((dropdown) =>
+      dropdown
+        .addOptions(USE_OPTIONS)
+        .setValue(String(this.options.maxUses))
+        .onChange((value) => {
+          this.options.maxUses = Number(value);
+        }),
+    );
+    new Setting(contentEl).setName("Permission").addDropdown((dropdown) =>
+      dropdown
+        .addOptions(PERMISSION_LABELS)
+        .setValue(this.options.permission)
+        .onChange((value) => {
+          this.options.permission = value as Permission;
+        }),
+    );
+    new Setting(contentEl).addButton((button) =>
+      button
+        .setButtonText("Create and copy link")
+        .setCta()
+        .onClick(async () => {
+          if (await this.sessionManager.createInvite(this.options)) void this.renderInvites();
+        }),
+    );
+
+    contentEl.createEl("h3", { text: "Outstanding invites" });
+    contentEl.createDiv({ cls: "live-share-invite-list" });
+    void this.renderInvites();
+  }
+
+  private async renderInvites() {
+    const invites = await this.sessionManager.listInvites();
+    const list = this.contentEl.querySelector<HTMLElement>(".live-share-invite-list");
+    if (!list) return;
+    list.empty();
+    if (!invites) {
+      list.createEl("p", { text: "Could not load invites." });
+      return;
+    }
+    if (invites.length === 0) {
+      list.createEl("p", { text: "No invites yet." });
+      return;
+    }
+    for (const invite of invites) {
+      new Setting(list)
+        .setName(describeInvite(invite))
+        .setDesc(describeUses(invite))
+        .addButton((button) =>
+          button.setButtonText("Copy link").onClick(() => {
+            void this.sessionManager.copyInvite(invite.token);
+          }),
+        )
+        .addButton((button) =>
+          button
+            .setButtonText("Revoke")
+            .setWarning()
+            .onClick(async () => {
+              if (await this.sessionManager.revokeInvite(invite.id)) void this.renderInvites();
+            }),
+        );
+    }
+  }
+
+  override onClose() {
+    this.contentEl.empty();
+  }
+}
+
+function describeInvite(invite: InviteInfo): string {
+  const access = PERMISSION_LABELS[invite.permission];
+  const expiry =
+    invite.expiresAt > Date.now()
+      ? `expires ${new Date(invite.expiresAt).toLocaleString()}`
+      : "expired";
+  return `${access}, ${expiry}`;
+}
+
+function describeUses(invite: InviteInfo): string {
+  const used = invite.redeemedBy.length;
+  if (invite.maxUses === 0) return `Used by ${used}`;
+  return `Used by ${used} of ${invite.maxUses}`;
+}
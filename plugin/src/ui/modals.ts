@@ -1,4 +1,5 @@
 import { type App, FuzzySuggestModal, Modal } from "obsidian";
+import type { AuthProviderInfo } from "../session/auth";
 
 export class PromptModal extends Modal {
   private result: string | null = null;
@@ -73,6 +74,29 @@ export class UserPickerModal extends FuzzySuggestModal<string> {
   }
 }
 
+export class ProviderPickerModal extends FuzzySuggestModal<AuthProviderInfo> {
+  constructor(
+    app: App,
+    private providers: AuthProviderInfo[],
+    private onChoose: (provider: AuthProviderInfo) => void,
+  ) {
+    super(app);
+    this.setPlaceholder("Log in with...");
+  }
+
+  getItems(): AuthProviderInfo[] {
+    return this.providers;
+  }
+
+  getItemText(provider: AuthProviderInfo): string {
+    return provider.name;
+  }
+
+  onChooseItem(provider: AuthProviderInfo): void {
+    this.onChoose(provider);
+  }
+}
+
 export class ConfirmModal extends Modal {
   private message: string;
   private resolve: (value: boolean) => void;
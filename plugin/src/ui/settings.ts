@@ -50,7 +50,7 @@ export class LiveShareSettingTab extends PluginSettingTab {
       .addSetting((setting) => {
         if (authManager.isAuthenticated) {
           setting
-            .setName("GitHub account")
+            .setName("Account")
             .setDesc(`Logged in as ${settings.displayName}`)
             .addButton((button) =>
               button.setButtonText("Log out").onClick(async () => {
@@ -60,11 +60,11 @@ export class LiveShareSettingTab extends PluginSettingTab {
             );
         } else {
           setting
-            .setName("GitHub account")
+            .setName("Account")
             .setDesc("Optional, used for identity verification")
             .addButton((button) =>
               button
-                .setButtonText("Log in with GitHub")
+                .setButtonText("Log in")
                 .setCta()
                 .onClick(async () => {
                   await authManager.authenticate();
@@ -233,6 +233,17 @@ export class LiveShareSettingTab extends PluginSettingTab {
               await this.plugin.saveSettings();
             }),
           );
+      })
+      .addSetting((setting) => {
+        setting
+          .setName("Show authorship")
+          .setDesc("Color shared notes by the collaborator who wrote each passage")
+          .addToggle((toggle) =>
+            toggle.setValue(settings.showAuthorship).onChange(async (value) => {
+              settings.showAuthorship = value;
+              await this.plugin.saveSettings();
+            }),
+          );
       });
 
     new SettingGroup(containerEl)
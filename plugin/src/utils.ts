@@ -75,6 +75,165 @@ export function applyMinimalYTextUpdate(
   });
 }
 
+export interface DiffLine {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+/**
+ * Line diff from `before` to `after`. Common leading and trailing lines are matched directly
+ * and only the lines between go through the quadratic longest-common-subsequence table.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const rows = endA - start;
+  const cols = endB - start;
+  // lcs[i * (cols + 1) + j] is the LCS length of a[start + i..endA) and b[start + j..endB)
+  const lcs = new Uint32Array((rows + 1) * (cols + 1));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i * (cols + 1) + j] =
+        a[start + i] === b[start + j]
+          ? lcs[(i + 1) * (cols + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (cols + 1) + j], lcs[i * (cols + 1) + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = a.slice(0, start).map((text) => ({ type: "same", text }));
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && a[start + i] === b[start + j]) {
+      result.push({ type: "same", text: a[start + i] });
+      i++;
+      j++;
+    } else if (
+      i < rows &&
+      (j === cols || lcs[(i + 1) * (cols + 1) + j] >= lcs[i * (cols + 1) + j + 1])
+    ) {
+      result.push({ type: "removed", text: a[start + i] });
+      i++;
+    } else {
+      result.push({ type: "added", text: b[start + j] });
+      j++;
+    }
+  }
+  for (const text of a.slice(endA)) result.push({ type: "same", text });
+  return result;
+}
+
+/** Base lines `start`..`end` replaced by `lines` on one side of a merge. */
+interface Hunk {
+  start: number;
+  end: number;
+  lines: string[];
+  mine: boolean;
+}
+
+function hunks(base: string, side: string, mine: boolean): Hunk[] {
+  const result: Hunk[] = [];
+  let index = 0;
+  let current: Hunk | null = null;
+  for (const line of diffLines(base, side)) {
+    if (line.type === "same") {
+      current = null;
+      index++;
+      continue;
+    }
+    if (!current) {
+      current = { start: index, end: index, lines: [], mine };
+      result.push(current);
+    }
+    if (line.type === "removed") {
+      current.end = ++index;
+    } else {
+      current.lines.push(line.text);
+    }
+  }
+  return result;
+}
+
+export interface MergeResult {
+  content: string;
+  /** Sections where both sides changed the same lines differently, now between markers. */
+  conflicts: number;
+}
+
+export const CONFLICT_MARKERS = {
+  mine: "<<<<<<< mine",
+  separator: "=======",
+  theirs: ">>>>>>> theirs",
+};
+
+/**
+ * Line-based three-way merge of `mine` and `theirs`, both edited from `base`. Changes to
+ * separate lines are combined; changes to the same or neighbouring lines are kept only when
+ * identical, and otherwise written out between conflict markers.
+ */
+export function threeWayMerge(base: string, mine: string, theirs: string): MergeResult {
+  const baseLines = base.split("\n");
+  const all = [...hunks(base, mine, true), ...hunks(base, theirs, false)].sort(
+    (a, b) => a.start - b.start || a.end - b.end,
+  );
+
+  // Hunks that overlap or touch form one group, which is resolved as a whole
+  const groups: Hunk[][] = [];
+  let groupEnd = -1;
+  for (const hunk of all) {
+    const group = groups[groups.length - 1];
+    if (group && hunk.start <= groupEnd) {
+      group.push(hunk);
+      groupEnd = Math.max(groupEnd, hunk.end);
+    } else {
+      groups.push([hunk]);
+      groupEnd = hunk.end;
+    }
+  }
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let index = 0;
+  for (const group of groups) {
+    const start = Math.min(...group.map((hunk) => hunk.start));
+    const end = Math.max(...group.map((hunk) => hunk.end));
+    output.push(...baseLines.slice(index, start));
+    index = end;
+    const version = (mine: boolean) => {
+      const lines: string[] = [];
+      let at = start;
+      for (const hunk of group.filter((h) => h.mine === mine)) {
+        lines.push(...baseLines.slice(at, hunk.start), ...hunk.lines);
+        at = hunk.end;
+      }
+      lines.push(...baseLines.slice(at, end));
+      return lines;
+    };
+    const ours = version(true);
+    const theirs = version(false);
+    if (group.every((hunk) => hunk.mine) || ours.join("\n") === theirs.join("\n")) {
+      output.push(...ours);
+    } else if (group.every((hunk) => !hunk.mine)) {
+      output.push(...theirs);
+    } else {
+      conflicts++;
+      output.push(CONFLICT_MARKERS.mine, ...ours, CONFLICT_MARKERS.separator);
+      output.push(...theirs, CONFLICT_MARKERS.theirs);
+    }
+  }
+  output.push(...baseLines.slice(index));
+  return { content: output.join("\n"), conflicts };
+}
+
 export function toWsUrl(httpUrl: string): string {
   return httpUrl.replace(/^http/, "ws");
 }
@@ -167,6 +326,9 @@ export interface JwtPayload {
   username: string;
   displayName?: string;
   avatar?: string;
+  /** `refresh` for refresh tokens; absent or `access` for access tokens. */
+  typ?: string;
+  exp?: number;
 }
 
 export function parseJwtPayload(token: string): JwtPayload {
@@ -178,6 +340,16 @@ export function parseJwtPayload(token: string): JwtPayload {
   return payload as JwtPayload;
 }
 
+/** Whether the token expires within `marginMs`. Tokens without an expiry never do. */
+export function isJwtExpiring(token: string, marginMs: number, now = Date.now()): boolean {
+  try {
+    const { exp } = parseJwtPayload(token);
+    return typeof exp === "number" && exp * 1000 - marginMs <= now;
+  } catch {
+    return true;
+  }
+}
+
 export function getFileByPath(vault: Vault, path: string): TFile | null {
   const file = vault.getAbstractFileByPath(path);
   return file instanceof TFile ? file : null;
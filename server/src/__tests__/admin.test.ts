@@ -0,0 +1,194 @@
+import type { IncomingMessage, Server, ServerResponse } from "node:http";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WebSocket } from "ws";
+
+const ADMIN_TOKEN = "admin-test-token";
+
+let server: Server<typeof IncomingMessage, typeof ServerResponse>;
+let port: number;
+let shutdown: () => Promise<void>;
+let openSockets: WebSocket[] = [];
+
+function listen(s: Server<typeof IncomingMessage, typeof ServerResponse>): Promise<number> {
+  return new Promise((resolve) => {
+    s.listen(0, () => {
+      const addr = s.address();
+      resolve(typeof addr === "object" && addr ? addr.port : 0);
+    });
+  });
+}
+
+async function setup(adminToken: string) {
+  process.env.ADMIN_TOKEN = adminToken;
+  vi.resetModules();
+  const { createApp } = await import("../index.js");
+  const { noopPersistence } = await import("../persistence.js");
+  const app = createApp(noopPersistence);
+  server = app.server;
+  shutdown = app.shutdown;
+  port = await listen(server);
+}
+
+async function cleanup() {
+  for (const ws of openSockets) ws.close();
+  openSockets = [];
+  await shutdown();
+  process.env.ADMIN_TOKEN = "";
+}
+
+async function createRoom(body: Record<string, unknown> = {}) {
+  const res = await fetch(`http://localhost:${port}/rooms`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name: "admin-test", ...body }),
+  });
+  return (await res.json()) as { id: string; token: string };
+}
+
+function admin(path: string, init: RequestInit = {}, token = ADMIN_TOKEN) {
+  return fetch(`http://localhost:${port}/admin${path}`, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+      ...init.headers,
+    },
+  });
+}
+
+function connectControl(
+  roomId: string,
+  token: string,
+): Promise<{ ws: WebSocket; messages: Record<string, unknown>[] }> {
+  return new Promise((resolve, reject) => {
+    const ws = new WebSocket(`ws://localhost:${port}/control/${roomId}?token=${token}`);
+    const messages: Record<string, unknown>[] = [];
+    ws.on("message", (data) => messages.push(JSON.parse(data.toString())));
+    ws.on("open", () => {
+      openSockets.push(ws);
+      resolve({ ws, messages });
+    });
+    ws.on("error", reject);
+  });
+}
+
+async function waitFor(check: () => boolean, timeout = 2000) {
+  const start = Date.now();
+  while (!check()) {
+    if (Date.now() - start > timeout) throw new Error("timed out");
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
+
+describe("admin API (no admin token set)", () => {
+  beforeEach(() => setup(""));
+  afterEach(cleanup);
+
+  it("is not mounted", async () => {
+    const res = await admin("/rooms");
+    expect(res.status).toBe(404);
+  });
+});
+
+describe("admin API", () => {
+  beforeEach(() => setup(ADMIN_TOKEN));
+  afterEach(cleanup);
+
+  it("rejects requests without the admin token", async () => {
+    expect((await admin("/rooms", {}, "wrong")).status).toBe(401);
+    const res = await fetch(`http://localhost:${port}/admin/rooms`);
+    expect(res.status).toBe(401);
+  });
+
+  it("lists rooms with activity times and client counts, without tokens", async () => {
+    const room = await createRoom({ requireApproval: true });
+    const { ws } = await connectControl(room.id, room.token);
+    ws.send(JSON.stringify({ type: "join-request", userId: "host-1", displayName: "Host" }));
+
+    const res = await admin("/rooms");
+    expect(res.status).toBe(200);
+    const rooms = (await res.json()) as Record<string, unknown>[];
+    const listed = rooms.find((r) => r.id === room.id);
+    expect(listed).toMatchObject({
+      name: "admin-test",
+      requireApproval: true,
+      clients: 1,
+      documents: 0,
+      documentClients: 0,
+    });
+    expect(typeof listed?.createdAt).toBe("number");
+    expect(typeof listed?.lastActivityAt).toBe("number");
+    expect(listed).not.toHaveProperty("token");
+  });
+
+  it("inspects a single room with its connected users", async () => {
+    const room = await createRoom();
+    const { ws, messages } = await connectControl(room.id, room.token);
+    ws.send(JSON.stringify({ type: "join-request", userId: "host-1", displayName: "Host" }));
+    await waitFor(() => messages.some((m) => m.type === "join-response"));
+
+    const res = await admin(`/rooms/${room.id}`);
+    expect(res.status).toBe(200);
+    const data = (await res.json()) as { users: Record<string, unknown>[] };
+    expect(data.users).toEqual([
+      {
+        userId: "host-1",
+        displayName: "Host",
+        isHost: true,
+        isCoHost: false,
+        isApproved: true,
+        permission: "read-write",
+      },
+    ]);
+
+    expect((await admin("/rooms/missing")).status).toBe(404);
+  });
+
+  it("updates a live room and pushes the change to connected clients", async () => {
+    const room = await createRoom();
+    const { ws, messages } = await connectControl(room.id, room.token);
+    ws.send(JSON.stringify({ type: "join-request", userId: "host-1", displayName: "Host" }));
+    await waitFor(() => messages.some((m) => m.type === "join-response"));
+
+    const res = await admin(`/rooms/${room.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({
+        name: "renamed",
+        requireApproval: true,
+        readOnlyPatterns: ["*.pdf"],
+        defaultPermission: "read-only",
+      }),
+    });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({
+      name: "renamed",
+      requireApproval: true,
+      readOnlyPatterns: ["*.pdf"],
+      defaultPermission: "read-only",
+    });
+
+    await waitFor(() => messages.some((m) => m.type === "room-updated"));
+    expect(messages.find((m) => m.type === "room-updated")).toEqual({
+      type: "room-updated",
+      name: "renamed",
+      requireApproval: true,
+      readOnlyPatterns: ["*.pdf"],
+      defaultPermission: "read-only",
+    });
+
+    const info = await fetch(`http://localhost:${port}/rooms/${room.id}`);
+    expect(((await info.json()) as { name: string }).name).toBe("renamed");
+  });
+
+  it("rejects invalid room updates", async () => {
+    const room = await createRoom();
+    const patch = (body: unknown) =>
+      admin(`/rooms/${room.id}`, { method: "PATCH", body: JSON.stringify(body) });
+
+    expect((await patch({ name: "" })).status).toBe(400);
+    expect((await patch({ requireApproval: "yes" })).status).toBe(400);
+    expect((await patch({ readOnlyPatterns: "*.pdf" })).status).toBe(400);
+    expect((await patch({ defaultPermission: "admin" })).status).toBe(400);
+    expect((await patch({ token: "stolen" })).status).toBe(400);
+  });
+});
@@ -1,19 +1,36 @@
+import { createHash } from "node:crypto";
 import fs from "node:fs";
 import path from "node:path";
-import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import { Level } from "level";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { WebSocket } from "ws";
 import {
   type AuditEntry,
   appendLog,
   clearLogs,
   closeAuditLog,
+  formatLogsCsv,
   getLogs,
+  importLegacyAuditLog,
   initAuditLog,
+  parseAuditQuery,
+  pruneLogs,
+  queryLogs,
+  syncAuditLog,
+  verifyLogs,
 } from "../audit-log.js";
+import { createApp } from "../index.js";
+import { type Persistence, createLevelPersistence, noopPersistence } from "../persistence.js";
+import { createLocalHub, createLocalPubSub } from "../pubsub.js";
 
 const TEST_DB_PATH = path.join(import.meta.dirname ?? __dirname, ".tmp-audit-test");
+const AUDIT_SECRET = "audit-test-secret";
+
+let persistence: Persistence;
 
 beforeAll(() => {
-  initAuditLog(TEST_DB_PATH);
+  persistence = createLevelPersistence(TEST_DB_PATH);
+  initAuditLog(persistence, AUDIT_SECRET);
 });
 
 afterEach(async () => {
@@ -23,6 +40,7 @@ afterEach(async () => {
 
 afterAll(async () => {
   await closeAuditLog();
+  await persistence.close();
   fs.rmSync(TEST_DB_PATH, { recursive: true, force: true });
 });
 
@@ -164,3 +182,416 @@ describe("clearLogs", () => {
     expect(logsB).toHaveLength(1);
   });
 });
+
+describe("queryLogs", () => {
+  async function seed() {
+    const events = ["join", "kick", "join", "leave", "join"];
+    for (let i = 0; i < events.length; i++) {
+      await appendLog("room-a", {
+        timestamp: 1000 * (i + 1),
+        event: events[i],
+        userId: `user-${i % 2}`,
+        displayName: `User ${i % 2}`,
+      });
+    }
+  }
+
+  it("filters by event type, user and time range", async () => {
+    await seed();
+    const byEvent = await queryLogs("room-a", { events: ["join"] });
+    expect(byEvent.entries.map((e) => e.timestamp)).toEqual([5000, 3000, 1000]);
+
+    const byUser = await queryLogs("room-a", { userId: "user-1" });
+    expect(byUser.entries.map((e) => e.timestamp)).toEqual([4000, 2000]);
+
+    const byTime = await queryLogs("room-a", { since: 2000, until: 4000 });
+    expect(byTime.entries.map((e) => e.timestamp)).toEqual([3000, 2000]);
+  });
+
+  it("pages through matches with a cursor", async () => {
+    await seed();
+    await appendLog("room-a", {
+      timestamp: 3000,
+      event: "join",
+      userId: "user-9",
+      displayName: "Tied",
+    });
+
+    const seen: number[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await queryLogs("room-a", { limit: 2, cursor });
+      seen.push(...page.entries.map((e) => e.timestamp));
+      cursor = page.nextCursor;
+    } while (cursor);
+    expect(seen).toEqual([5000, 4000, 3000, 3000, 2000, 1000]);
+  });
+
+  it("parses query-string filters and rejects malformed ones", () => {
+    expect(
+      parseAuditQuery({ event: "join,kick", since: "2024-01-01T00:00:00Z", until: "5000" }),
+    ).toMatchObject({ events: ["join", "kick"], since: 1704067200000, until: 5000 });
+    expect(parseAuditQuery({ since: "yesterday" })).toBe("invalid since");
+    expect(parseAuditQuery({ limit: "0" })).toBe("invalid limit");
+    expect(parseAuditQuery({ cursor: "nope" })).toBe("invalid cursor");
+  });
+});
+
+describe("formatLogsCsv", () => {
+  it("quotes fields and defuses spreadsheet formulas", () => {
+    const csv = formatLogsCsv([
+      {
+        timestamp: 0,
+        event: "join",
+        userId: "user-1",
+        displayName: '=HYPERLINK("x")',
+        details: "a, b",
+      },
+    ]);
+    expect(csv).toBe(
+      'timestamp,event,userId,displayName,details\n1970-01-01T00:00:00.000Z,join,user-1,"\'=HYPERLINK(""x"")","a, b"\n',
+    );
+  });
+});
+
+describe("pruneLogs", () => {
+  it("applies the retention policy to every room", async () => {
+    const now = 10 * 24 * 60 * 60 * 1000;
+    for (const [room, age] of [
+      ["room-a", 1],
+      ["room-a", 5],
+      ["room-b", 8],
+      ["room-b", 9],
+    ] as const) {
+      await appendLog(room, {
+        timestamp: now - age * 24 * 60 * 60 * 1000,
+        event: "join",
+        userId: "user-1",
+        displayName: "Alice",
+      });
+    }
+
+    expect(await pruneLogs(["room-a", "room-b"], { maxAgeDays: 0, maxEntries: 0 }, now)).toBe(0);
+    expect(await pruneLogs(["room-a", "room-b"], { maxAgeDays: 7, maxEntries: 1 }, now)).toBe(3);
+    // Each pruned room records where its chain now starts
+    expect(await getLogs("room-a")).toMatchObject([
+      { event: "logs-pruned", details: "1 entries removed, chain resumes at seq 1" },
+      { event: "join" },
+    ]);
+    expect(await getLogs("room-b")).toMatchObject([
+      { event: "logs-pruned", details: "2 entries removed", seq: 3 },
+    ]);
+  });
+});
+
+describe("verifyLogs", () => {
+  async function seedChain() {
+    for (const [timestamp, event] of [
+      [1000, "join"],
+      [2000, "kick"],
+      [3000, "leave"],
+    ] as const) {
+      await appendLog("room-a", { timestamp, event, userId: "user-1", displayName: "Alice" });
+    }
+    return (await persistence.loadAuditEntries("room-a")).reverse();
+  }
+
+  /** Rewrites the room's log behind the audit module's back. */
+  async function rewrite(entries: AuditEntry[]) {
+    await persistence.deleteAuditEntries("room-a");
+    for (const entry of entries) await persistence.appendAuditEntry("room-a", entry);
+  }
+
+  it("links each entry to the previous one", async () => {
+    const [first, second, third] = await seedChain();
+    expect(first).toMatchObject({ seq: 1, prevHash: "0".repeat(64) });
+    expect(second.prevHash).toBe(first.hash);
+    expect(third.prevHash).toBe(second.hash);
+    expect(await verifyLogs("room-a")).toEqual({
+      valid: true,
+      checked: 3,
+      unchained: 0,
+      unkeyed: 0,
+      head: third.hash,
+    });
+  });
+
+  it("reports the first modified, missing or inserted entry", async () => {
+    const entries = await seedChain();
+    await rewrite([entries[0], { ...entries[1], userId: "user-2" }, entries[2]]);
+    expect((await verifyLogs("room-a")).brokenAt).toEqual({
+      seq: 2,
+      timestamp: 2000,
+      reason: "entry modified",
+    });
+
+    await rewrite([entries[0], entries[2]]);
+    expect((await verifyLogs("room-a")).brokenAt).toMatchObject({
+      seq: 3,
+      reason: "entry missing",
+    });
+
+    await rewrite([
+      ...entries,
+      { timestamp: 2500, event: "kick", userId: "user-3", displayName: "Mallory" },
+    ]);
+    expect(await verifyLogs("room-a")).toMatchObject({
+      valid: false,
+      brokenAt: { timestamp: 2500, reason: "unchained entry" },
+    });
+  });
+
+  it("detects an entry rewritten with recomputed hashes", async () => {
+    const entries = await seedChain();
+    // Without the secret a forger can only fall back to the unkeyed hash
+    const rehash = (entry: AuditEntry, prevHash: string) => {
+      const { seq, timestamp, event, userId, displayName, details } = entry;
+      const hash = createHash("sha256")
+        .update(
+          JSON.stringify([seq, prevHash, timestamp, event, userId, displayName, details ?? null]),
+        )
+        .digest("hex");
+      return { ...entry, prevHash, hash };
+    };
+    const forged = rehash({ ...entries[1], userId: "user-2" }, entries[0].hash ?? "");
+    await rewrite([entries[0], forged, rehash(entries[2], forged.hash)]);
+
+    expect(await verifyLogs("room-a")).toMatchObject({
+      valid: false,
+      brokenAt: { seq: 2, reason: "entry modified" },
+    });
+  });
+
+  it("counts entries chained before the secret was set", async () => {
+    initAuditLog(persistence, "");
+    try {
+      await appendLog("room-a", { timestamp: 1000, event: "join", userId: "u", displayName: "A" });
+      await appendLog("room-a", { timestamp: 2000, event: "leave", userId: "u", displayName: "A" });
+      expect(await verifyLogs("room-a")).toMatchObject({ valid: true, checked: 2, unkeyed: 2 });
+    } finally {
+      initAuditLog(persistence, AUDIT_SECRET);
+    }
+    await appendLog("room-a", { timestamp: 3000, event: "join", userId: "u", displayName: "A" });
+    expect(await verifyLogs("room-a")).toMatchObject({ valid: true, checked: 3, unkeyed: 2 });
+  });
+
+  it("still verifies after retention drops the oldest entries", async () => {
+    const entries = await seedChain();
+    await pruneLogs(["room-a"], { maxAgeDays: 0, maxEntries: 2 });
+    expect(await verifyLogs("room-a")).toMatchObject({ valid: true, checked: 2 });
+
+    // Legacy entries written before chaining are counted but not checked
+    await rewrite([
+      { timestamp: 500, event: "join", userId: "user-0", displayName: "Old" },
+      ...entries,
+    ]);
+    expect(await verifyLogs("room-a")).toMatchObject({ valid: true, checked: 3, unchained: 1 });
+  });
+
+  it("reports oldest entries deleted outside retention", async () => {
+    const entries = await seedChain();
+    await rewrite(entries.slice(1));
+    expect(await verifyLogs("room-a")).toMatchObject({
+      valid: false,
+      brokenAt: { seq: 2, reason: "oldest entries missing" },
+    });
+
+    // A pruning marker only covers the entries retention actually removed
+    await pruneLogs(["room-a"], { maxAgeDays: 0, maxEntries: 2 });
+    const [marker] = await persistence.loadAuditEntries("room-a");
+    expect(marker.details).toBe("1 entries removed, chain resumes at seq 3");
+    expect(await verifyLogs("room-a")).toMatchObject({ valid: true, checked: 2 });
+    await rewrite([marker]);
+    expect((await verifyLogs("room-a")).brokenAt).toMatchObject({
+      seq: 4,
+      reason: "oldest entries missing",
+    });
+  });
+});
+
+describe("chain head", () => {
+  const entry = (timestamp: number): AuditEntry => ({
+    timestamp,
+    event: "join",
+    userId: "user-1",
+    displayName: "Alice",
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("is read from the store once per room, not on every append", async () => {
+    const load = vi.spyOn(persistence, "loadAuditEntries");
+    for (let timestamp = 1000; timestamp <= 5000; timestamp += 1000) {
+      await appendLog("room-a", entry(timestamp));
+    }
+    expect(load).toHaveBeenCalledTimes(1);
+    expect((await verifyLogs("room-a")).checked).toBe(5);
+  });
+
+  it("follows entries other instances sharing the store append", async () => {
+    const hub = createLocalHub();
+    await syncAuditLog(createLocalPubSub(hub));
+    await appendLog("room-a", entry(1000));
+
+    const other = createLocalPubSub(hub);
+    await other.publish(
+      "audit",
+      JSON.stringify({ roomId: "room-a", seq: 2, hash: "b".repeat(64) }),
+    );
+    await appendLog("room-a", entry(3000));
+    const [newest] = await persistence.loadAuditEntries("room-a", 1);
+    expect(newest).toMatchObject({ seq: 3, prevHash: "b".repeat(64) });
+  });
+});
+
+describe("importLegacyAuditLog", () => {
+  const legacyPath = `${TEST_DB_PATH}-legacy`;
+
+  afterEach(() => {
+    fs.rmSync(legacyPath, { recursive: true, force: true });
+    fs.rmSync(`${legacyPath}.imported`, { recursive: true, force: true });
+  });
+
+  it("copies the old audit database once and keeps it aside", async () => {
+    const legacy = new Level<string, string>(legacyPath);
+    const join = { timestamp: 1000, event: "join", userId: "user-1", displayName: "Alice" };
+    const kick = { ...join, timestamp: 2000, event: "kick", details: "kicked by Host" };
+    await legacy.put("room-a:1000:abc123", JSON.stringify(join));
+    await legacy.put("room-a:2000:def456", JSON.stringify(kick));
+    await legacy.put("room-b:1000:ghi789", JSON.stringify(join));
+    await legacy.close();
+    // An interrupted import already copied this one
+    await persistence.appendAuditEntry("room-b", join);
+
+    expect(await importLegacyAuditLog(persistence, legacyPath)).toBe(2);
+    expect(await getLogs("room-a")).toEqual([kick, join]);
+    expect(await getLogs("room-b")).toEqual([join]);
+    expect(fs.existsSync(legacyPath)).toBe(false);
+    expect(fs.existsSync(`${legacyPath}.imported`)).toBe(true);
+
+    await appendLog("room-a", {
+      timestamp: 3000,
+      event: "leave",
+      userId: "user-1",
+      displayName: "Alice",
+    });
+    expect(await verifyLogs("room-a")).toMatchObject({ valid: true, checked: 1, unchained: 2 });
+    expect(await importLegacyAuditLog(persistence, legacyPath)).toBe(0);
+  });
+});
+
+describe("audit log endpoints", () => {
+  it("filters, pages and exports a room's log", async () => {
+    const { server, shutdown } = createApp(noopPersistence);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const address = server.address();
+    const base = `http://localhost:${typeof address === "object" && address ? address.port : 0}`;
+    try {
+      const roomRes = await fetch(`${base}/rooms`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "audit-endpoints" }),
+      });
+      const room = (await roomRes.json()) as { id: string; token: string };
+      for (const [timestamp, event] of [
+        [1000, "join"],
+        [2000, "kick"],
+        [3000, "join"],
+      ] as const) {
+        await appendLog(room.id, { timestamp, event, userId: "user-1", displayName: "Alice" });
+      }
+      const headers = { Authorization: `Bearer ${room.token}` };
+
+      const first = await fetch(`${base}/rooms/${room.id}/logs?event=join&limit=1`, { headers });
+      expect(((await first.json()) as AuditEntry[]).map((e) => e.timestamp)).toEqual([3000]);
+      const cursor = first.headers.get("X-Next-Cursor");
+      expect(cursor).toBeTruthy();
+      const second = await fetch(
+        `${base}/rooms/${room.id}/logs?event=join&limit=1&cursor=${cursor}`,
+        { headers },
+      );
+      expect(((await second.json()) as AuditEntry[]).map((e) => e.timestamp)).toEqual([1000]);
+      expect(second.headers.get("X-Next-Cursor")).toBeNull();
+
+      const csv = await fetch(`${base}/rooms/${room.id}/logs/export?format=csv&event=kick`, {
+        headers,
+      });
+      expect(csv.headers.get("content-type")).toContain("text/csv");
+      expect(csv.headers.get("content-disposition")).toContain(`audit-${room.id}.csv`);
+      expect((await csv.text()).trim().split("\n")).toHaveLength(2);
+
+      const jsonl = await fetch(`${base}/rooms/${room.id}/logs/export`, { headers });
+      expect((await jsonl.text()).trim().split("\n")).toHaveLength(3);
+
+      const verify = await fetch(`${base}/rooms/${room.id}/logs/verify`, { headers });
+      expect(await verify.json()).toMatchObject({ valid: true, checked: 3 });
+
+      const bad = await fetch(`${base}/rooms/${room.id}/logs?since=never`, { headers });
+      expect(bad.status).toBe(400);
+      await clearLogs(room.id);
+    } finally {
+      await shutdown();
+      // Shutting the app down detaches the shared audit store
+      initAuditLog(persistence, AUDIT_SECRET);
+    }
+  });
+
+  it("records file operations, permission changes, kicks and session end", async () => {
+    const { server, shutdown } = createApp(noopPersistence);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const address = server.address();
+    const port = typeof address === "object" && address ? address.port : 0;
+    try {
+      const roomRes = await fetch(`http://localhost:${port}/rooms`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "audit-operations" }),
+      });
+      const room = (await roomRes.json()) as { id: string; token: string };
+      const join = async (userId: string, displayName: string) => {
+        const ws = new WebSocket(`ws://localhost:${port}/control/${room.id}?token=${room.token}`);
+        const joined = new Promise((resolve) => ws.once("message", resolve));
+        await new Promise((resolve) => ws.on("open", resolve));
+        ws.send(JSON.stringify({ type: "join-request", userId, displayName }));
+        await joined;
+        return ws;
+      };
+      const host = await join("host-1", "Host");
+      const guest = await join("guest-1", "Guest");
+
+      guest.send(
+        JSON.stringify({
+          type: "file-op",
+          op: { type: "create", path: "notes/secret.md", content: "top secret" },
+        }),
+      );
+      host.send(
+        JSON.stringify({ type: "set-permission", userId: "guest-1", permission: "read-only" }),
+      );
+      host.send(JSON.stringify({ type: "kick", userId: "guest-1" }));
+      host.send(JSON.stringify({ type: "session-end" }));
+      const events = ["file-op", "permission-change", "kick", "session-end"];
+      let { entries } = await queryLogs(room.id, { events });
+      for (let i = 0; i < 100 && entries.length < 4; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        ({ entries } = await queryLogs(room.id, { events }));
+      }
+      host.close();
+      // Entries written in the same millisecond are ordered by their place in the chain
+      entries.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+      expect(entries.map((e) => [e.event, e.userId, e.details])).toEqual([
+        ["file-op", "guest-1", "create notes/secret.md, 10 bytes"],
+        ["permission-change", "guest-1", "read-only, set by Host"],
+        ["kick", "guest-1", "kicked by Host"],
+        ["session-end", "host-1", undefined],
+      ]);
+      expect(JSON.stringify(entries)).not.toContain("top secret");
+      await clearLogs(room.id);
+    } finally {
+      await shutdown();
+      initAuditLog(persistence, AUDIT_SECRET);
+    }
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { createClientCounts } from "../client-counts.js";
+import { createLocalHub, createLocalPubSub } from "../pubsub.js";
+
+describe("createClientCounts", () => {
+  it("adds up each instance's own count", async () => {
+    const hub = createLocalHub();
+    const a = createClientCounts(createLocalPubSub(hub), "clients");
+    const b = createClientCounts(createLocalPubSub(hub), "clients");
+
+    expect(await a.set("room-1", 2)).toBe(2);
+    expect(await b.set("room-1", 1)).toBe(3);
+    // Setting the same count again changes nothing
+    expect(await a.set("room-1", 2)).toBe(3);
+    expect(await a.set("room-1", 0)).toBe(1);
+    expect(await b.set("room-1", 0)).toBe(0);
+    expect(hub.hashes.has("clients:room-1")).toBe(false);
+
+    await a.close();
+    await b.close();
+  });
+
+  it("stops counting an instance whose lease ran out", async () => {
+    const hub = createLocalHub();
+    const crashed = createClientCounts(createLocalPubSub(hub), "clients");
+    await crashed.set("room-1", 4);
+    const survivor = createClientCounts(createLocalPubSub(hub), "clients");
+    expect(await survivor.set("room-1", 1)).toBe(5);
+
+    // The crashed instance never withdraws its count, but its lease expires
+    for (const [key] of hub.state) {
+      if (key.startsWith("clients-lease:")) hub.expiries.set(key, Date.now() - 1);
+    }
+    expect(await survivor.total("room-1")).toBe(1);
+    expect(Object.keys(await createLocalPubSub(hub).getFields("clients:room-1"))).toHaveLength(1);
+
+    await survivor.close();
+    expect(hub.hashes.has("clients:room-1")).toBe(false);
+    await crashed.close();
+  });
+});
@@ -1,12 +1,15 @@
 import type { IncomingMessage, Server, ServerResponse } from "node:http";
-import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { WebSocket } from "ws";
+import { describeFileOp } from "../control-handler.js";
+import { issueTokens } from "../github-auth.js";
 import { createApp } from "../index.js";
-import { noopPersistence } from "../persistence.js";
+import { type Persistence, noopPersistence } from "../persistence.js";
 
 interface RoomInfo {
   id: string;
   token: string;
+  hostToken: string;
   name: string;
 }
 
@@ -32,11 +35,17 @@ async function createRoom(name: string): Promise<RoomInfo> {
   return res.json() as Promise<RoomInfo>;
 }
 
+function login(sub: string): string {
+  return issueTokens({ sub, username: sub, displayName: sub, avatar: null }).token;
+}
+
 function connectControl(
   roomId: string,
   token: string,
+  jwt?: string,
 ): Promise<{ ws: WebSocket; messages: string[] }> {
-  const url = `ws://localhost:${port}/control/${roomId}?token=${token}`;
+  let url = `ws://localhost:${port}/control/${roomId}?token=${token}`;
+  if (jwt) url += `&jwt=${jwt}`;
   return new Promise((resolve, reject) => {
     const ws = new WebSocket(url);
     const messages: string[] = [];
@@ -72,6 +81,20 @@ function waitForMessages(messages: string[], count: number, timeoutMs = 3000): P
   });
 }
 
+async function waitForType(
+  messages: string[],
+  type: string,
+  timeoutMs = 3000,
+): Promise<Record<string, unknown>> {
+  const start = Date.now();
+  for (;;) {
+    const found = messages.map((m) => JSON.parse(m)).find((m) => m.type === type);
+    if (found) return found;
+    if (Date.now() - start > timeoutMs) throw new Error(`timed out waiting for ${type}`);
+    await delay(10);
+  }
+}
+
 function sendJSON(ws: WebSocket, msg: Record<string, unknown>) {
   ws.send(JSON.stringify(msg));
 }
@@ -86,6 +109,7 @@ beforeEach(async () => {
 });
 
 afterEach(async () => {
+  vi.restoreAllMocks();
   for (const ws of openSockets) {
     if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) {
       ws.close();
@@ -285,6 +309,49 @@ describe("Control WebSocket handler", () => {
     expect(clientB.messages.length).toBe(0);
   });
 
+  it("routes comment mentions to the named user under the sender's identity", async () => {
+    const room = await createRoom("ctrl-comment-mention");
+
+    const clientA = await connectControl(room.id, room.token);
+    const clientB = await connectControl(room.id, room.token);
+    const clientC = await connectControl(room.id, room.token);
+
+    await delay(100);
+
+    sendJSON(clientA.ws, { type: "presence-update", userId: "userA", displayName: "Alice" });
+    await delay(100);
+    sendJSON(clientB.ws, { type: "presence-update", userId: "userB", displayName: "Bob" });
+    sendJSON(clientC.ws, { type: "presence-update", userId: "userC", displayName: "Charlie" });
+    await delay(100);
+
+    clientA.messages.length = 0;
+    clientB.messages.length = 0;
+    clientC.messages.length = 0;
+
+    sendJSON(clientB.ws, {
+      type: "comment-mention",
+      fromUserId: "userA",
+      fromDisplayName: "Alice",
+      targetUserId: "userC",
+      filePath: "notes/plan.md",
+      line: 3,
+      ch: 0,
+    });
+
+    await waitForMessages(clientC.messages, 1);
+    const msg = JSON.parse(clientC.messages[0]);
+    expect(msg).toMatchObject({
+      type: "comment-mention",
+      fromUserId: "userB",
+      fromDisplayName: "Bob",
+      filePath: "notes/plan.md",
+      line: 3,
+    });
+
+    await delay(300);
+    expect(clientA.messages.length).toBe(0);
+  });
+
   it("summon with __all__ broadcasts to all others", async () => {
     const room = await createRoom("ctrl-summon-all");
 
@@ -653,6 +720,111 @@ describe("Control WebSocket handler", () => {
     expect(fileOp.path).toBe("allowed.md");
   });
 
+  it("lets a read-only guest write only inside granted paths", async () => {
+    const room = await createRoom("ctrl-write-grant");
+
+    const host = await connectControl(room.id, room.token);
+    const guest = await connectControl(room.id, room.token);
+
+    await delay(100);
+
+    sendJSON(host.ws, { type: "join-request", userId: "host-1", displayName: "Host" });
+    sendJSON(guest.ws, { type: "join-request", userId: "guest-1", displayName: "Guest" });
+
+    await delay(100);
+    guest.messages.length = 0;
+
+    sendJSON(host.ws, {
+      type: "set-permission",
+      userId: "guest-1",
+      permission: "read-only",
+      writePaths: ["drafts/guest/**"],
+    });
+
+    const permMsg = await waitForType(guest.messages, "permission-update");
+    expect(permMsg.permission).toBe("read-only");
+    expect(permMsg.writePaths).toEqual(["drafts/guest/**"]);
+
+    host.messages.length = 0;
+    const ops = [
+      { type: "create", path: "notes/outside.md", content: "" },
+      { type: "rename", oldPath: "drafts/guest/a.md", newPath: "notes/a.md" },
+      { type: "create", path: "drafts/guest/inside.md", content: "" },
+    ];
+    for (const op of ops) sendJSON(guest.ws, { type: "file-op", op });
+
+    const fileOp = await waitForType(host.messages, "file-op");
+    expect(fileOp.op).toMatchObject({ path: "drafts/guest/inside.md" });
+    await delay(100);
+    expect(host.messages.filter((m) => JSON.parse(m).type === "file-op")).toHaveLength(1);
+
+    guest.messages.length = 0;
+    sendJSON(host.ws, { type: "set-permission", userId: "guest-1", permission: "read-write" });
+    const cleared = await waitForType(guest.messages, "permission-update");
+    expect(cleared.writePaths).toBeUndefined();
+  });
+
+  it("keeps write grants when the rooms are reloaded from storage", async () => {
+    const { getRoom, initRooms } = await import("../rooms.js");
+    const stored = new Map<string, string>();
+    const store: Persistence = {
+      ...noopPersistence,
+      async loadRooms() {
+        return [...stored.values()].map((room) => JSON.parse(room));
+      },
+      async saveRoom(room) {
+        stored.set(room.id, JSON.stringify(room));
+      },
+    };
+    await initRooms(store);
+    try {
+      const room = await createRoom("ctrl-write-grant-reload");
+      const host = await connectControl(room.id, room.token);
+      sendJSON(host.ws, { type: "join-request", userId: "host-1", displayName: "Host" });
+      await waitForType(host.messages, "join-response");
+
+      sendJSON(host.ws, {
+        type: "set-permission",
+        userId: "guest-1",
+        permission: "read-only",
+        writePaths: ["drafts/guest/**"],
+      });
+      await delay(100);
+
+      await initRooms(store);
+      expect(getRoom(room.id)!.writeGrants).toEqual({ "guest-1": ["drafts/guest/**"] });
+    } finally {
+      await initRooms(noopPersistence);
+    }
+  });
+
+  it("drops file-ops from comment-only guests", async () => {
+    const room = await createRoom("ctrl-comment-perm");
+
+    const host = await connectControl(room.id, room.token);
+    const guest = await connectControl(room.id, room.token);
+
+    await delay(100);
+
+    sendJSON(host.ws, { type: "join-request", userId: "host-1", displayName: "Host" });
+    sendJSON(guest.ws, { type: "join-request", userId: "guest-1", displayName: "Guest" });
+
+    await delay(100);
+    guest.messages.length = 0;
+
+    sendJSON(host.ws, { type: "set-permission", userId: "guest-1", permission: "comment" });
+    const permMsg = await waitForType(guest.messages, "permission-update");
+    expect(permMsg.permission).toBe("comment");
+
+    host.messages.length = 0;
+    sendJSON(guest.ws, {
+      type: "file-op",
+      op: { type: "create", path: "notes/review.md", content: "" },
+    });
+    await delay(300);
+    expect(host.messages.filter((m) => JSON.parse(m).type === "file-op")).toHaveLength(0);
+  });
+
   it("non-host cannot send set-permission", async () => {
     const room = await createRoom("ctrl-set-perm-nonhost");
 
@@ -1354,6 +1526,32 @@ describe("Control WebSocket handler", () => {
     expect(allowed.type).toBe("file-op");
   });
 
+  it("answers writes to read-only paths with write-denied", async () => {
+    const res = await fetch(`http://localhost:${port}/rooms`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "ctrl-ro-denied", readOnlyPatterns: ["secret/**"] }),
+    });
+    const room = (await res.json()) as RoomInfo;
+
+    const host = await connectControl(room.id, room.token);
+    sendJSON(host.ws, { type: "join-request", userId: "host-1", displayName: "Host" });
+    await waitForType(host.messages, "join-response");
+    const guest = await connectControl(room.id, room.token);
+    sendJSON(guest.ws, { type: "join-request", userId: "guest-1", displayName: "Guest" });
+    await waitForType(guest.messages, "join-response");
+    host.messages.length = 0;
+
+    sendJSON(guest.ws, {
+      type: "file-op",
+      op: { type: "rename", oldPath: "secret/plan.md", newPath: "plan.md" },
+    });
+    const denied = await waitForType(guest.messages, "write-denied");
+    expect(denied.path).toBe("secret/plan.md");
+    await delay(100);
+    expect(host.messages.filter((m) => JSON.parse(m).type === "file-op")).toHaveLength(0);
+  });
+
   it("readOnlyPatterns does not block host writes", async () => {
     const res = await fetch(`http://localhost:${port}/rooms`, {
       method: "POST",
@@ -1574,4 +1772,239 @@ describe("Control WebSocket handler", () => {
     expect(reconnectResponse.approved).toBe(true);
     expect(reconnectResponse.isHost).toBe(false);
   });
+
+  it("rotate-token keeps approved clients, turns away pending ones and retires the old token", async () => {
+    const room = await createRoom("ctrl-rotate-token");
+    const { getRoom } = await import("../rooms.js");
+    getRoom(room.id)!.requireApproval = true;
+
+    const host = await connectControl(room.id, room.token);
+    sendJSON(host.ws, { type: "join-request", userId: "host-1", displayName: "Host" });
+    await waitForMessages(host.messages, 1);
+
+    const pending = await connectControl(room.id, room.token);
+    sendJSON(pending.ws, { type: "join-request", userId: "guest-1", displayName: "Guest" });
+    await waitForMessages(host.messages, 2);
+
+    const pendingClosed = new Promise<void>((resolve) => pending.ws.on("close", () => resolve()));
+    host.messages.length = 0;
+    sendJSON(host.ws, { type: "rotate-token" });
+    await waitForMessages(host.messages, 1);
+
+    const rotated = JSON.parse(host.messages[0]);
+    expect(rotated.type).toBe("token-rotated");
+    expect(rotated.token).not.toBe(room.token);
+    expect(getRoom(room.id)!.token).toBe(rotated.token);
+    expect(host.ws.readyState).toBe(WebSocket.OPEN);
+
+    await pendingClosed;
+    expect(JSON.parse(pending.messages[pending.messages.length - 1])).toMatchObject({
+      type: "join-response",
+      approved: false,
+    });
+
+    await expect(connectControl(room.id, room.token)).rejects.toThrow();
+    const fresh = await connectControl(room.id, rotated.token);
+    expect(fresh.ws.readyState).toBe(WebSocket.OPEN);
+  });
+
+  it("non-host cannot rotate the room token", async () => {
+    const room = await createRoom("ctrl-rotate-token-guest");
+    const host = await connectControl(room.id, room.token);
+    sendJSON(host.ws, { type: "join-request", userId: "host-1", displayName: "Host" });
+    await waitForMessages(host.messages, 1);
+
+    const guest = await connectControl(room.id, room.token);
+    sendJSON(guest.ws, { type: "join-request", userId: "guest-1", displayName: "Guest" });
+    await delay(100);
+
+    sendJSON(guest.ws, { type: "rotate-token" });
+    await delay(100);
+
+    const { getRoom } = await import("../rooms.js");
+    expect(getRoom(room.id)!.token).toBe(room.token);
+  });
+
+  it("POST /rooms/:id/rotate-token is for the host only and returns a new token", async () => {
+    const room = await createRoom("ctrl-rotate-token-rest");
+    const rotate = (token: string) =>
+      fetch(`http://localhost:${port}/rooms/${room.id}/rotate-token`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+    expect((await rotate("wrong")).status).toBe(403);
+    // Every guest holds the room token, so it proves nothing about the host
+    expect((await rotate(room.token)).status).toBe(403);
+    const res = await rotate(room.hostToken);
+    expect(res.status).toBe(200);
+    const { token } = (await res.json()) as { token: string };
+    expect(token).not.toBe(room.token);
+
+    const { getRoom } = await import("../rooms.js");
+    getRoom(room.id)!.hostUserId = "host-1";
+    expect((await rotate(login("guest-1"))).status).toBe(403);
+    expect((await rotate(login("host-1"))).status).toBe(200);
+  });
+
+  it("POST /rooms/:id/rotate-token answers 500 when the new token cannot be saved", async () => {
+    const room = await createRoom("ctrl-rotate-token-fail");
+    vi.spyOn(noopPersistence, "saveRoom").mockRejectedValueOnce(new Error("disk full"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const res = await fetch(`http://localhost:${port}/rooms/${room.id}/rotate-token`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${room.hostToken}` },
+    });
+    expect(res.status).toBe(500);
+  });
+
+  it("co-hosts approve joins, kick and set permissions but cannot touch the host", async () => {
+    const room = await createRoom("ctrl-co-host");
+    const { getRoom } = await import("../rooms.js");
+    getRoom(room.id)!.requireApproval = true;
+
+    const host = await connectControl(room.id, room.token);
+    sendJSON(host.ws, { type: "join-request", userId: "host-1", displayName: "Host" });
+    await waitForType(host.messages, "join-response");
+
+    const coHost = await connectControl(room.id, room.token, login("co-1"));
+    sendJSON(coHost.ws, { type: "join-request", userId: "co-1", displayName: "Co" });
+    await waitForType(host.messages, "join-request");
+    sendJSON(host.ws, { type: "join-response", userId: "co-1", approved: true });
+    await waitForType(coHost.messages, "join-response");
+
+    sendJSON(host.ws, { type: "set-co-host", userId: "co-1", coHost: true });
+    expect(await waitForType(coHost.messages, "co-host-update")).toMatchObject({
+      userId: "co-1",
+      coHost: true,
+    });
+    expect(getRoom(room.id)!.coHostUserIds).toEqual(["co-1"]);
+
+    host.messages.length = 0;
+    const guest = await connectControl(room.id, room.token);
+    sendJSON(guest.ws, { type: "join-request", userId: "guest-1", displayName: "Guest" });
+    await waitForType(host.messages, "join-request");
+    expect(await waitForType(coHost.messages, "join-request")).toMatchObject({
+      userId: "guest-1",
+    });
+
+    sendJSON(coHost.ws, {
+      type: "join-response",
+      userId: "guest-1",
+      approved: true,
+      permission: "read-only",
+    });
+    expect(await waitForType(guest.messages, "join-response")).toMatchObject({
+      approved: true,
+      permission: "read-only",
+    });
+    expect(await waitForType(host.messages, "join-request-resolved")).toMatchObject({
+      userId: "guest-1",
+      approved: true,
+      displayName: "Co",
+    });
+
+    sendJSON(coHost.ws, { type: "set-permission", userId: "guest-1", permission: "read-write" });
+    expect(await waitForType(guest.messages, "permission-update")).toMatchObject({
+      permission: "read-write",
+    });
+
+    sendJSON(coHost.ws, { type: "set-permission", userId: "host-1", permission: "read-only" });
+    sendJSON(coHost.ws, { type: "kick", userId: "host-1" });
+    sendJSON(coHost.ws, { type: "session-end" });
+    sendJSON(coHost.ws, { type: "set-co-host", userId: "guest-1", coHost: true });
+    await delay(200);
+    expect(host.messages.map((m) => JSON.parse(m).type)).not.toContain("permission-update");
+    expect(host.messages.map((m) => JSON.parse(m).type)).not.toContain("kicked");
+    expect(guest.messages.map((m) => JSON.parse(m).type)).not.toContain("session-end");
+    expect(getRoom(room.id)!.coHostUserIds).toEqual(["co-1"]);
+
+    const guestClosed = new Promise<void>((resolve) => guest.ws.on("close", () => resolve()));
+    sendJSON(coHost.ws, { type: "kick", userId: "guest-1" });
+    await waitForType(guest.messages, "kicked");
+    await guestClosed;
+  });
+
+  it("restores the co-host role on reconnect until the host revokes it", async () => {
+    const room = await createRoom("ctrl-co-host-reconnect");
+    const host = await connectControl(room.id, room.token);
+    sendJSON(host.ws, { type: "join-request", userId: "host-1", displayName: "Host" });
+    await waitForType(host.messages, "join-response");
+
+    const first = await connectControl(room.id, room.token, login("co-1"));
+    sendJSON(first.ws, { type: "join-request", userId: "co-1", displayName: "Co" });
+    expect(await waitForType(first.messages, "join-response")).toMatchObject({ isCoHost: false });
+    sendJSON(host.ws, { type: "set-co-host", userId: "co-1", coHost: true });
+    await waitForType(first.messages, "co-host-update");
+    first.ws.close();
+
+    const second = await connectControl(room.id, room.token, login("co-1"));
+    sendJSON(second.ws, { type: "join-request", userId: "co-1", displayName: "Co" });
+    expect(await waitForType(second.messages, "join-response")).toMatchObject({
+      isHost: false,
+      isCoHost: true,
+    });
+
+    sendJSON(host.ws, { type: "set-co-host", userId: "co-1", coHost: false });
+    expect(await waitForType(second.messages, "co-host-update")).toMatchObject({
+      coHost: false,
+    });
+    const { getRoom } = await import("../rooms.js");
+    expect(getRoom(room.id)!.coHostUserIds).toBeUndefined();
+
+    sendJSON(second.ws, { type: "kick", userId: "host-1" });
+    await delay(200);
+    expect(host.ws.readyState).toBe(WebSocket.OPEN);
+  });
+
+  it("never makes a client co-host on a user id it only claims", async () => {
+    const room = await createRoom("ctrl-co-host-spoof");
+    const { getRoom } = await import("../rooms.js");
+    const host = await connectControl(room.id, room.token);
+    sendJSON(host.ws, { type: "join-request", userId: "host-1", displayName: "Host" });
+    await waitForType(host.messages, "join-response");
+
+    // Unverified clients cannot be made co-host at all
+    const anonymous = await connectControl(room.id, room.token);
+    sendJSON(anonymous.ws, { type: "join-request", userId: "anon-1", displayName: "Anon" });
+    await waitForType(anonymous.messages, "join-response");
+    sendJSON(host.ws, { type: "set-co-host", userId: "anon-1", coHost: true });
+    await delay(200);
+    expect(anonymous.messages.map((m) => JSON.parse(m).type)).not.toContain("co-host-update");
+    expect(getRoom(room.id)!.coHostUserIds).toBeUndefined();
+
+    const saveRoom = vi.spyOn(noopPersistence, "saveRoom");
+    sendJSON(host.ws, { type: "set-co-host", userId: "co-1", coHost: true });
+    await delay(200);
+    expect(saveRoom).toHaveBeenCalledWith(expect.objectContaining({ coHostUserIds: ["co-1"] }));
+
+    for (const jwt of [undefined, login("someone-else")]) {
+      const spoofer = await connectControl(room.id, room.token, jwt);
+      sendJSON(spoofer.ws, { type: "join-request", userId: "co-1", displayName: "Co" });
+      expect(await waitForType(spoofer.messages, "join-response")).toMatchObject({
+        isCoHost: false,
+      });
+      sendJSON(spoofer.ws, { type: "kick", userId: "anon-1" });
+      await delay(200);
+      expect(anonymous.ws.readyState).toBe(WebSocket.OPEN);
+      spoofer.ws.close();
+    }
+  });
+});
+
+describe("describeFileOp", () => {
+  it("summarizes file writes without their content", () => {
+    const op = (fields: Record<string, unknown>) => describeFileOp({ type: "file-op", op: fields });
+    expect(op({ type: "modify", path: "a.md", content: "héllo" })).toBe("modify a.md, 6 bytes");
+    expect(op({ type: "create", path: "b.png", content: "AAAA", binary: true })).toBe(
+      "create b.png, 3 bytes",
+    );
+    expect(op({ type: "rename", oldPath: "a.md", newPath: "c.md" })).toBe("rename a.md -> c.md");
+    expect(op({ type: "delete", path: "c.md" })).toBe("delete c.md");
+    expect(op({ type: "chunk-data", path: "d.pdf", index: 0, data: "AAAA" })).toBeNull();
+    expect(describeFileOp({ type: "file-chunk-start", path: "d.pdf", totalSize: 2048 })).toBe(
+      "chunk-start d.pdf, 2048 bytes",
+    );
+    expect(describeFileOp({ type: "file-chunk-end", path: "d.pdf" })).toBeNull();
+  });
 });
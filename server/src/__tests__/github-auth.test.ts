@@ -1,8 +1,11 @@
-import type { IncomingMessage, Server, ServerResponse } from "node:http";
+import { generateKeyPairSync } from "node:crypto";
+import { type IncomingMessage, type Server, type ServerResponse, createServer } from "node:http";
 import express from "express";
 import jwt from "jsonwebtoken";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
-import { createAuthRouter, verifyJWT } from "../github-auth.js";
+import { createGitHubProvider } from "../auth-providers.js";
+import { createAuthRouter, issueTokens, verifyJWT, verifyRefreshToken } from "../github-auth.js";
+import { createOidcProvider, pkceChallenge } from "../oidc.js";
 
 const DEFAULT_SECRET = "change-me-in-production";
 
@@ -63,6 +66,17 @@ describe("verifyJWT", () => {
   it("returns null for a garbage string", () => {
     expect(verifyJWT("not.a.valid.jwt.at.all")).toBeNull();
   });
+
+  it("does not accept refresh tokens or login cookies as access tokens", () => {
+    const identity = { sub: "123456", username: "testuser", displayName: "Test", avatar: null };
+    const { token, refreshToken, expiresAt } = issueTokens(identity);
+    expect(verifyJWT(token)?.sub).toBe("123456");
+    expect(expiresAt).toBeGreaterThan(Date.now());
+    expect(verifyJWT(refreshToken)).toBeNull();
+    expect(verifyRefreshToken(token)).toBeNull();
+    const cookie = jwt.sign({ typ: "login", state: "s", data: {} }, DEFAULT_SECRET);
+    expect(verifyJWT(cookie)).toBeNull();
+  });
 });
 
 describe("createAuthRouter", () => {
@@ -71,7 +85,7 @@ describe("createAuthRouter", () => {
 
   beforeEach(async () => {
     const app = express();
-    app.use("/auth", createAuthRouter());
+    app.use("/auth", createAuthRouter([createGitHubProvider("client-id", "secret")]));
     server = app.listen(0);
     await new Promise<void>((resolve) => {
       server.on("listening", resolve);
@@ -101,4 +115,236 @@ describe("createAuthRouter", () => {
     const text = await res.text();
     expect(text).toBe("Missing code");
   });
+
+  const identity = { sub: "123456", username: "testuser", displayName: "Test", avatar: null };
+  const refresh = (refreshToken: string) =>
+    fetch(`http://localhost:${port}/auth/refresh`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ refreshToken }),
+    });
+
+  it("POST /refresh rotates a refresh token into new tokens", async () => {
+    const login = issueTokens({ ...identity, provider: "github", orgs: ["acme"] });
+    const res = await refresh(login.refreshToken);
+    expect(res.status).toBe(200);
+    const tokens = (await res.json()) as { token: string; refreshToken: string };
+    expect(verifyJWT(tokens.token)).toMatchObject({ sub: "123456", provider: "github" });
+    // Memberships stay as old as the login that read them
+    expect(verifyJWT(tokens.token)?.orgs).toEqual(["acme"]);
+    const rotated = verifyRefreshToken(tokens.refreshToken);
+    expect(rotated?.sub).toBe("123456");
+    expect(rotated?.auth_time).toBe(verifyRefreshToken(login.refreshToken)?.auth_time);
+    expect(rotated?.memberships_at).toBe(verifyRefreshToken(login.refreshToken)?.memberships_at);
+
+    expect((await refresh(tokens.token)).status).toBe(401);
+    expect((await refresh("garbage")).status).toBe(401);
+  });
+
+  it("POST /refresh revokes the whole login when a refresh token is used twice", async () => {
+    const stolen = issueTokens(identity).refreshToken;
+    const res = await refresh(stolen);
+    const { refreshToken } = (await res.json()) as { refreshToken: string };
+
+    expect((await refresh(stolen)).status).toBe(401);
+    expect((await refresh(refreshToken)).status).toBe(401);
+    // Other logins of the same user are not affected
+    expect((await refresh(issueTokens(identity).refreshToken)).status).toBe(200);
+  });
+
+  it("POST /refresh ends logins past their maximum age", async () => {
+    const authTime = Math.floor(Date.now() / 1000) - 91 * 24 * 60 * 60;
+    const { refreshToken } = issueTokens(identity, { sid: "old-login", authTime });
+    expect((await refresh(refreshToken)).status).toBe(401);
+
+    const legacy = jwt.sign({ ...identity, typ: "refresh" }, DEFAULT_SECRET, { expiresIn: "1h" });
+    expect((await refresh(legacy)).status).toBe(401);
+  });
+
+  it("POST /refresh sends logins with stale memberships back to log in", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const login = { sid: "member-login", authTime: now - 2 * 24 * 60 * 60 };
+    const stale = issueTokens({ ...identity, teams: ["acme/docs"] }, login).refreshToken;
+    expect((await refresh(stale)).status).toBe(401);
+
+    // Without memberships the same login refreshes as usual
+    expect((await refresh(issueTokens(identity, login).refreshToken)).status).toBe(200);
+    const fresh = { sid: "fresh-login", authTime: login.authTime, membershipsAt: now - 60 };
+    const res = await refresh(
+      issueTokens({ ...identity, teams: ["acme/docs"] }, fresh).refreshToken,
+    );
+    expect(verifyJWT(((await res.json()) as { token: string }).token)?.teams).toEqual([
+      "acme/docs",
+    ]);
+  });
+
+  it("GET /providers lists the configured providers", async () => {
+    const res = await fetch(`http://localhost:${port}/auth/providers`);
+    expect(await res.json()).toEqual([{ id: "github", name: "GitHub" }]);
+  });
+
+  it("GET /github/callback rejects a state it did not issue", async () => {
+    const res = await fetch(`http://localhost:${port}/auth/github/callback?code=abc&state=forged`);
+    expect(res.status).toBe(400);
+  });
+});
+
+function listen(server: Server<typeof IncomingMessage, typeof ServerResponse>): Promise<number> {
+  return new Promise((resolve) => {
+    server.listen(0, () => {
+      const addr = server.address();
+      resolve(typeof addr === "object" && addr ? addr.port : 0);
+    });
+  });
+}
+
+describe("OIDC login", () => {
+  const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  let issuerServer: Server<typeof IncomingMessage, typeof ServerResponse>;
+  let relayServer: Server<typeof IncomingMessage, typeof ServerResponse>;
+  let issuer: string;
+  let relay: string;
+  /** Codes the mock issuer will redeem, with the PKCE challenge and nonce they were issued for. */
+  let grants: Map<string, { challenge: string; nonce: string }>;
+  let claims: Record<string, unknown>;
+  let audience: string;
+  let keyId: string;
+  /** What the discovery document claims to be the issuer, when not the real one. */
+  let advertisedIssuer: string | null;
+  let jwksFetches: number;
+
+  beforeEach(async () => {
+    grants = new Map();
+    claims = {};
+    audience = "relay";
+    keyId = "key-1";
+    advertisedIssuer = null;
+    jwksFetches = 0;
+    const idp = express();
+    idp.use(express.urlencoded({ extended: false }));
+    idp.get("/.well-known/openid-configuration", (_req, res) => {
+      res.json({
+        issuer: advertisedIssuer ?? issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+      });
+    });
+    idp.get("/jwks", (_req, res) => {
+      jwksFetches++;
+      res.json({ keys: [{ ...publicKey.export({ format: "jwk" }), kid: "key-1", alg: "RS256" }] });
+    });
+    idp.post("/token", (req, res) => {
+      const grant = grants.get(req.body.code);
+      if (
+        !grant ||
+        pkceChallenge(req.body.code_verifier) !== grant.challenge ||
+        req.headers.authorization !== `Basic ${Buffer.from("relay:s3cret").toString("base64")}`
+      ) {
+        res.status(400).json({ error: "invalid_grant" });
+        return;
+      }
+      const idToken = jwt.sign(
+        { sub: "user-42", name: "Ada", nonce: grant.nonce, ...claims },
+        privateKey,
+        { algorithm: "RS256", keyid: keyId, issuer, audience, expiresIn: "5m" },
+      );
+      res.json({ access_token: "at", token_type: "Bearer", id_token: idToken });
+    });
+    issuerServer = createServer(idp);
+    issuer = `http://localhost:${await listen(issuerServer)}`;
+
+    const app = express();
+    const oidc = createOidcProvider({
+      issuer,
+      clientId: "relay",
+      clientSecret: "s3cret",
+      name: "Acme SSO",
+    });
+    app.use("/auth", createAuthRouter([oidc]));
+    relayServer = createServer(app);
+    relay = `http://localhost:${await listen(relayServer)}`;
+  });
+
+  afterEach(() => {
+    issuerServer.close();
+    relayServer.close();
+  });
+
+  /** Starts a login and has the mock issuer approve it, returning the callback to follow. */
+  async function login(): Promise<{ callback: string; cookie: string }> {
+    const start = await fetch(`${relay}/auth/oidc`, { redirect: "manual" });
+    expect(start.status).toBe(302);
+    const location = new URL(start.headers.get("location") ?? "");
+    expect(`${location.origin}${location.pathname}`).toBe(`${issuer}/authorize`);
+    expect(location.searchParams.get("code_challenge_method")).toBe("S256");
+    expect(location.searchParams.get("redirect_uri")).toBe(`${relay}/auth/oidc/callback`);
+    grants.set("code-1", {
+      challenge: location.searchParams.get("code_challenge") ?? "",
+      nonce: location.searchParams.get("nonce") ?? "",
+    });
+    const state = location.searchParams.get("state") ?? "";
+    return {
+      callback: `${relay}/auth/oidc/callback?code=code-1&state=${state}`,
+      cookie: (start.headers.get("set-cookie") ?? "").split(";")[0],
+    };
+  }
+
+  it("signs the user in through the issuer's discovery document", async () => {
+    const { callback, cookie } = await login();
+    const res = await fetch(callback, { headers: { Cookie: cookie } });
+    expect(res.status).toBe(200);
+    const html = await res.text();
+    expect(html).toContain("Authenticated with Acme SSO");
+    const href = html.match(/href="(obsidian:[^"]+)"/)?.[1] ?? "";
+    const params = new URL(href.replace(/&amp;/g, "&")).searchParams;
+    expect(verifyRefreshToken(params.get("refresh") ?? "")?.sub).toBe("oidc:user-42");
+    expect(verifyJWT(params.get("token") ?? "")).toMatchObject({
+      sub: "oidc:user-42",
+      username: "user-42",
+      displayName: "Ada",
+      provider: "oidc",
+    });
+  });
+
+  it("rejects callbacks without the login cookie", async () => {
+    const { callback } = await login();
+    expect((await fetch(callback)).status).toBe(400);
+  });
+
+  it("rejects id_tokens with the wrong nonce or audience", async () => {
+    claims = { nonce: "replayed" };
+    let { callback, cookie } = await login();
+    let res = await fetch(callback, { headers: { Cookie: cookie } });
+    expect(res.status).toBe(401);
+    expect(await res.text()).toBe("id_token nonce mismatch");
+
+    claims = {};
+    audience = "someone-else";
+    ({ callback, cookie } = await login());
+    res = await fetch(callback, { headers: { Cookie: cookie } });
+    expect(res.status).toBe(401);
+    expect(await res.text()).toContain("jwt audience invalid");
+  });
+
+  it("refuses an issuer whose discovery document names another issuer", async () => {
+    advertisedIssuer = "https://impostor.example";
+    const start = await fetch(`${relay}/auth/oidc`, { redirect: "manual" });
+    expect(start.status).toBe(502);
+  });
+
+  it("refetches signing keys for unknown key ids at most once a minute", async () => {
+    let { callback, cookie } = await login();
+    expect((await fetch(callback, { headers: { Cookie: cookie } })).status).toBe(200);
+    expect(jwksFetches).toBe(1);
+
+    keyId = "made-up";
+    for (let i = 0; i < 2; i++) {
+      ({ callback, cookie } = await login());
+      const res = await fetch(callback, { headers: { Cookie: cookie } });
+      expect(res.status).toBe(401);
+      expect(await res.text()).toBe("Unknown id_token signing key");
+    }
+    expect(jwksFetches).toBe(1);
+  });
 });
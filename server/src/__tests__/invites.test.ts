@@ -0,0 +1,313 @@
+import type { IncomingMessage, Server, ServerResponse } from "node:http";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WebSocket } from "ws";
+import { issueTokens } from "../github-auth.js";
+import { createApp } from "../index.js";
+import { noopPersistence } from "../persistence.js";
+import { getRoom, updateRoom } from "../rooms.js";
+
+interface RoomInfo {
+  id: string;
+  token: string;
+  hostToken: string;
+}
+
+interface InviteInfo {
+  id: string;
+  token: string;
+  permission: string;
+  expiresAt: number;
+  maxUses: number;
+  redeemedBy: string[];
+}
+
+let server: Server<typeof IncomingMessage, typeof ServerResponse>;
+let port: number;
+let openSockets: WebSocket[] = [];
+
+function listen(s: Server<typeof IncomingMessage, typeof ServerResponse>): Promise<number> {
+  return new Promise((resolve) => {
+    s.listen(0, () => {
+      const addr = s.address();
+      resolve(typeof addr === "object" && addr ? addr.port : 0);
+    });
+  });
+}
+
+async function createRoom(body: Record<string, unknown> = {}): Promise<RoomInfo> {
+  const res = await fetch(`http://localhost:${port}/rooms`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name: "invite-test", ...body }),
+  });
+  return res.json() as Promise<RoomInfo>;
+}
+
+function roomRequest(room: RoomInfo, path: string, init: RequestInit = {}, token = room.hostToken) {
+  return fetch(`http://localhost:${port}/rooms/${room.id}${path}`, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+  });
+}
+
+async function createInvite(room: RoomInfo, body: Record<string, unknown> = {}) {
+  const res = await roomRequest(room, "/invites", { method: "POST", body: JSON.stringify(body) });
+  expect(res.status).toBe(201);
+  return (await res.json()) as InviteInfo;
+}
+
+function connectControl(
+  roomId: string,
+  token: string,
+  userId: string,
+  jwt?: string,
+): Promise<{ ws: WebSocket; messages: Record<string, unknown>[] }> {
+  let url = `ws://localhost:${port}/control/${roomId}?token=${token}&userId=${userId}`;
+  if (jwt) url += `&jwt=${jwt}`;
+  return new Promise((resolve, reject) => {
+    const ws = new WebSocket(url);
+    const messages: Record<string, unknown>[] = [];
+    ws.on("message", (data) => messages.push(JSON.parse(data.toString())));
+    ws.on("open", () => {
+      openSockets.push(ws);
+      resolve({ ws, messages });
+    });
+    ws.on("unexpected-response", (_req, res) => reject(new Error(res.statusMessage)));
+    ws.on("error", reject);
+  });
+}
+
+async function join(roomId: string, token: string, userId: string, jwt?: string) {
+  const client = await connectControl(roomId, token, userId, jwt);
+  client.ws.send(JSON.stringify({ type: "join-request", userId, displayName: userId }));
+  await waitFor(() => client.messages.some((m) => m.type === "join-response"));
+  return { ...client, response: client.messages.find((m) => m.type === "join-response") };
+}
+
+async function waitFor(check: () => boolean, timeout = 2000) {
+  const start = Date.now();
+  while (!check()) {
+    if (Date.now() - start > timeout) throw new Error("timed out");
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
+
+beforeEach(async () => {
+  openSockets = [];
+  const { server: s } = createApp(noopPersistence);
+  server = s;
+  port = await listen(server);
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  for (const ws of openSockets) ws.close();
+  openSockets = [];
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+describe("invites", () => {
+  it("are minted with the host token only and validate their options", async () => {
+    const room = await createRoom();
+    const invite = await createInvite(room, { expiresIn: 3600, maxUses: 3 });
+    expect(invite).toMatchObject({ permission: "read-write", maxUses: 3, redeemedBy: [] });
+    expect(invite.token).not.toBe(room.token);
+    expect(invite.expiresAt).toBeGreaterThan(Date.now());
+
+    const post = (body: unknown, token?: string) =>
+      roomRequest(room, "/invites", { method: "POST", body: JSON.stringify(body) }, token);
+    expect((await post({}, "wrong")).status).toBe(403);
+    expect((await post({}, invite.token)).status).toBe(403);
+    expect((await post({}, room.token)).status).toBe(403);
+    expect((await post({ expiresIn: 0 })).status).toBe(400);
+    expect((await post({ maxUses: -1 })).status).toBe(400);
+    expect((await post({ permission: "admin" })).status).toBe(400);
+  });
+
+  it("single-use invites admit one user, who can still reconnect with their pass", async () => {
+    const room = await createRoom();
+    const invite = await createInvite(room);
+    const joinWith = (body: Record<string, unknown>) =>
+      fetch(`http://localhost:${port}/rooms/${room.id}/join`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+    const joinRes = await joinWith({ token: invite.token, userId: "guest-1" });
+    expect(joinRes.status).toBe(200);
+    const { pass } = (await joinRes.json()) as { pass: string };
+    expect(pass).toEqual(expect.any(String));
+
+    const first = await connectControl(room.id, pass, "guest-1");
+    first.ws.close();
+    await connectControl(room.id, pass, "guest-1");
+    await expect(connectControl(room.id, invite.token, "guest-2")).rejects.toThrow(
+      "invite already used",
+    );
+    // Claiming the redeemer's id is not enough, and their pass is theirs alone
+    await expect(connectControl(room.id, invite.token, "guest-1")).rejects.toThrow(
+      "invite already used",
+    );
+    expect((await joinWith({ token: invite.token, userId: "guest-1" })).status).toBe(403);
+    await expect(connectControl(room.id, pass, "guest-2")).rejects.toThrow(
+      "Invite pass belongs to another user",
+    );
+
+    const list = (await (await roomRequest(room, "/invites")).json()) as InviteInfo[];
+    expect(list[0].redeemedBy).toEqual(["guest-1"]);
+    expect(JSON.stringify(list)).not.toContain(pass);
+  });
+
+  it("let logged-in redeemers back in by their login after the invite expired", async () => {
+    const room = await createRoom();
+    const invite = await createInvite(room);
+    const jwt = issueTokens({ sub: "7", username: "u", displayName: "U", avatar: null }).token;
+
+    await connectControl(room.id, invite.token, "7", jwt);
+    getRoom(room.id)!.invites![0].expiresAt = Date.now() - 1;
+    await connectControl(room.id, invite.token, "7", jwt);
+    await expect(connectControl(room.id, invite.token, "7")).rejects.toThrow("invite expired");
+  });
+
+  it("expired invites turn away new users", async () => {
+    const room = await createRoom();
+    const invite = await createInvite(room, { maxUses: 0 });
+    getRoom(room.id)!.invites![0].expiresAt = Date.now() - 1;
+
+    await expect(connectControl(room.id, invite.token, "guest-1")).rejects.toThrow(
+      "invite expired",
+    );
+    const joinRes = await fetch(`http://localhost:${port}/rooms/${room.id}/join`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token: invite.token }),
+    });
+    expect(joinRes.status).toBe(403);
+  });
+
+  it("read-only invites cap the guest's permission and never make them host", async () => {
+    const room = await createRoom();
+    const invite = await createInvite(room, { permission: "read-only", maxUses: 0 });
+
+    const guest = await join(room.id, invite.token, "guest-1");
+    expect(guest.response).toMatchObject({
+      approved: true,
+      permission: "read-only",
+      isHost: false,
+    });
+
+    const host = await join(room.id, room.token, "host-1");
+    expect(host.response).toMatchObject({ isHost: true });
+
+    host.ws.send(
+      JSON.stringify({ type: "set-permission", userId: "guest-1", permission: "read-write" }),
+    );
+    await waitFor(() => guest.messages.some((m) => m.type === "permission-update"));
+    expect(guest.messages.find((m) => m.type === "permission-update")).toMatchObject({
+      permission: "read-only",
+    });
+
+    // Raising the stored permission does not let the guest write files either
+    host.messages.length = 0;
+    guest.ws.send(
+      JSON.stringify({
+        type: "file-op",
+        op: { type: "create", path: "notes/raised.md", content: "" },
+      }),
+    );
+    await new Promise((r) => setTimeout(r, 300));
+    expect(host.messages.filter((m) => m.type === "file-op")).toHaveLength(0);
+  });
+
+  it("can be listed and revoked", async () => {
+    const room = await createRoom();
+    const kept = await createInvite(room);
+    const revoked = await createInvite(room);
+
+    expect((await roomRequest(room, `/invites/${revoked.id}`, { method: "DELETE" })).status).toBe(
+      200,
+    );
+    expect((await roomRequest(room, `/invites/${revoked.id}`, { method: "DELETE" })).status).toBe(
+      404,
+    );
+
+    const list = (await (await roomRequest(room, "/invites")).json()) as InviteInfo[];
+    expect(list.map((i) => i.id)).toEqual([kept.id]);
+    await expect(connectControl(room.id, revoked.token, "guest-1")).rejects.toThrow();
+  });
+
+  it("are managed by the host only, never by a guest holding the room token", async () => {
+    const room = await createRoom({ hostUserId: "7" });
+    const invite = await createInvite(room);
+    const asGuest = (path: string, method: string, token = room.token) =>
+      roomRequest(room, path, { method, body: method === "POST" ? "{}" : undefined }, token);
+
+    expect((await asGuest("/invites", "POST")).status).toBe(403);
+    expect((await asGuest("/invites", "GET")).status).toBe(403);
+    expect((await asGuest(`/invites/${invite.id}`, "DELETE")).status).toBe(403);
+    const guestLogin = issueTokens({ sub: "8", username: "g", displayName: "G", avatar: null });
+    expect((await asGuest("/invites", "GET", guestLogin.token)).status).toBe(403);
+    expect(getRoom(room.id)?.invites).toHaveLength(1);
+
+    // The host's own login works as well as the host token
+    const hostLogin = issueTokens({ sub: "7", username: "h", displayName: "H", avatar: null });
+    const list = await roomRequest(room, "/invites", {}, hostLogin.token);
+    expect(list.status).toBe(200);
+    expect(((await list.json()) as InviteInfo[]).map((i) => i.id)).toEqual([invite.id]);
+  });
+
+  it("answer 500 when the room cannot be saved", async () => {
+    const room = await createRoom();
+    const invite = await createInvite(room);
+    vi.spyOn(noopPersistence, "saveRoom").mockRejectedValue(new Error("disk full"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const post = await roomRequest(room, "/invites", { method: "POST", body: "{}" });
+    expect(post.status).toBe(500);
+    const revoke = await roomRequest(room, `/invites/${invite.id}`, { method: "DELETE" });
+    expect(revoke.status).toBe(500);
+  });
+});
+
+describe("room allowlists", () => {
+  function login(sub: string, memberships: { orgs?: string[]; teams?: string[] } = {}) {
+    return issueTokens({ sub, username: sub, displayName: sub, avatar: null, ...memberships })
+      .token;
+  }
+
+  it("turn away users outside the allowlist even with a valid invite", async () => {
+    const room = await createRoom({ allowlist: { orgs: ["Acme"], teams: ["other/core"] } });
+    const invite = await createInvite(room, { maxUses: 1 });
+
+    await expect(connectControl(room.id, room.token, "anon")).rejects.toThrow(
+      "Authentication required",
+    );
+    await expect(
+      connectControl(room.id, invite.token, "outsider", login("1", { orgs: ["other"] })),
+    ).rejects.toThrow("Not on the room's allowlist");
+    // The outsider did not use up the invite
+    expect(getRoom(room.id)?.invites?.[0].redeemedBy).toEqual([]);
+
+    await connectControl(room.id, invite.token, "member", login("2", { orgs: ["acme"] }));
+    await connectControl(room.id, room.token, "teammate", login("3", { teams: ["Other/Core"] }));
+  });
+
+  it("keep users removed from the allowlist from becoming host", async () => {
+    const room = await createRoom({ allowlist: { users: ["1", "2"] } });
+    const first = await connectControl(room.id, room.token, "first", login("1"));
+    await updateRoom(room.id, { allowlist: { users: ["2"] } });
+
+    first.ws.send(JSON.stringify({ type: "join-request", userId: "first", displayName: "First" }));
+    await waitFor(() => first.messages.some((m) => m.type === "join-response"));
+    expect(first.messages.find((m) => m.type === "join-response")).toMatchObject({
+      isHost: false,
+    });
+
+    const second = await join(room.id, room.token, "second", login("2"));
+    expect(second.response).toMatchObject({ isHost: true });
+  });
+});
@@ -0,0 +1,114 @@
+import type { IncomingMessage, Server, ServerResponse } from "node:http";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WebSocket } from "ws";
+import {
+  approvalLatency,
+  controlMessages,
+  renderMetrics,
+  resetMetrics,
+  roomsReaped,
+} from "../metrics.js";
+
+describe("renderMetrics", () => {
+  beforeEach(() => resetMetrics());
+
+  it("renders gauges, labelled counters and zero-valued counters", () => {
+    controlMessages.inc({ type: "file-op" });
+    controlMessages.inc({ type: "file-op" });
+    controlMessages.inc({ type: "ping" });
+
+    const text = renderMetrics({ live_share_clients: { help: "Connected clients", value: 3 } });
+
+    expect(text).toContain("# TYPE live_share_clients gauge\nlive_share_clients 3\n");
+    expect(text).toContain("# TYPE live_share_control_messages_total counter");
+    expect(text).toContain('live_share_control_messages_total{type="file-op"} 2\n');
+    expect(text).toContain('live_share_control_messages_total{type="ping"} 1\n');
+    expect(text).toContain("live_share_rooms_reaped_total 0\n");
+    expect(text.endsWith("\n")).toBe(true);
+  });
+
+  it("renders cumulative histogram buckets", () => {
+    approvalLatency.observe(3);
+    approvalLatency.observe(45);
+
+    const text = renderMetrics();
+
+    expect(text).toContain('live_share_approval_latency_seconds_bucket{le="1"} 0\n');
+    expect(text).toContain('live_share_approval_latency_seconds_bucket{le="5"} 1\n');
+    expect(text).toContain('live_share_approval_latency_seconds_bucket{le="60"} 2\n');
+    expect(text).toContain('live_share_approval_latency_seconds_bucket{le="+Inf"} 2\n');
+    expect(text).toContain("live_share_approval_latency_seconds_sum 48\n");
+    expect(text).toContain("live_share_approval_latency_seconds_count 2\n");
+  });
+
+  it("resetMetrics clears every series", () => {
+    roomsReaped.inc();
+    approvalLatency.observe(1);
+    resetMetrics();
+
+    const text = renderMetrics();
+    expect(text).toContain("live_share_rooms_reaped_total 0\n");
+    expect(text).toContain("live_share_approval_latency_seconds_count 0\n");
+  });
+});
+
+describe("/metrics endpoint", () => {
+  let server: Server<typeof IncomingMessage, typeof ServerResponse>;
+  let port: number;
+  let shutdown: () => Promise<void>;
+
+  async function setup(metricsToken: string) {
+    process.env.METRICS_TOKEN = metricsToken;
+    vi.resetModules();
+    const { createApp } = await import("../index.js");
+    const { noopPersistence } = await import("../persistence.js");
+    const app = createApp(noopPersistence);
+    server = app.server;
+    shutdown = app.shutdown;
+    port = await new Promise((resolve) => {
+      server.listen(0, () => {
+        const addr = server.address();
+        resolve(typeof addr === "object" && addr ? addr.port : 0);
+      });
+    });
+  }
+
+  afterEach(async () => {
+    await shutdown();
+    process.env.METRICS_TOKEN = "";
+  });
+
+  it("reports control traffic in Prometheus text format", async () => {
+    await setup("");
+    const roomRes = await fetch(`http://localhost:${port}/rooms`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "metrics-test" }),
+    });
+    const room = (await roomRes.json()) as { id: string; token: string };
+
+    const ws = new WebSocket(`ws://localhost:${port}/control/${room.id}?token=${room.token}`);
+    await new Promise((resolve) => ws.on("open", resolve));
+    const response = new Promise((resolve) => ws.on("message", resolve));
+    ws.send(JSON.stringify({ type: "join-request", userId: "host-1", displayName: "Host" }));
+    await response;
+    ws.close();
+
+    const res = await fetch(`http://localhost:${port}/metrics`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toContain("text/plain");
+    const text = await res.text();
+    expect(text).toContain('live_share_control_messages_total{type="join-request"} 1\n');
+    expect(text).toMatch(/live_share_relayed_bytes_total\{channel="control"\} [1-9]\d*\n/);
+    expect(text).toContain("live_share_rooms 1\n");
+  });
+
+  it("requires METRICS_TOKEN when set", async () => {
+    await setup("metrics-secret");
+    expect((await fetch(`http://localhost:${port}/metrics`)).status).toBe(401);
+    const res = await fetch(`http://localhost:${port}/metrics`, {
+      headers: { Authorization: "Bearer metrics-secret" },
+    });
+    expect(res.status).toBe(200);
+  });
+});
@@ -2,13 +2,42 @@ import { afterEach, describe, expect, it } from "vitest";
 import {
   clearPermission,
   clearRoomPermissions,
+  flushPermissions,
   getPermission,
+  getRoomPermissions,
+  initPermissions,
+  isPermission,
+  loadRoomPermissions,
+  minPermission,
   setPermission,
 } from "../permissions.js";
+import { type Permission, type Persistence, noopPersistence } from "../persistence.js";
+
+function createMemoryStore(): Persistence & { stored: Map<string, Map<string, Permission>> } {
+  const stored = new Map<string, Map<string, Permission>>();
+  return {
+    ...noopPersistence,
+    stored,
+    async loadPermissions(roomId) {
+      return new Map(stored.get(roomId));
+    },
+    async savePermission(roomId, userId, permission) {
+      if (!stored.has(roomId)) stored.set(roomId, new Map());
+      stored.get(roomId)?.set(userId, permission);
+    },
+    async deletePermission(roomId, userId) {
+      stored.get(roomId)?.delete(userId);
+    },
+    async deletePermissions(roomId) {
+      stored.delete(roomId);
+    },
+  };
+}
 
 afterEach(() => {
   clearRoomPermissions("room-a");
   clearRoomPermissions("room-b");
+  initPermissions(noopPersistence);
 });
 
 describe("setPermission / getPermission", () => {
@@ -72,3 +101,54 @@ describe("clearRoomPermissions", () => {
     clearRoomPermissions("no-such-room");
   });
 });
+
+describe("getRoomPermissions", () => {
+  it("lists the permissions of one room by user id", () => {
+    setPermission("room-a", "user-1", "read-only");
+    setPermission("room-a", "user-2", "read-write");
+    setPermission("room-b", "user-3", "read-only");
+    expect(Object.fromEntries(getRoomPermissions("room-a"))).toEqual({
+      "user-1": "read-only",
+      "user-2": "read-write",
+    });
+  });
+});
+
+describe("permission levels", () => {
+  it("recognizes the three levels", () => {
+    expect(["read-write", "comment", "read-only"].every(isPermission)).toBe(true);
+    expect(isPermission("admin")).toBe(false);
+    expect(isPermission(undefined)).toBe(false);
+  });
+
+  it("picks the more restrictive of two levels", () => {
+    expect(minPermission("read-write", "comment")).toBe("comment");
+    expect(minPermission("comment", "read-only")).toBe("read-only");
+    expect(minPermission("read-write", "read-write")).toBe("read-write");
+  });
+});
+
+describe("persisted permissions", () => {
+  it("writes every change through to the store", async () => {
+    const store = createMemoryStore();
+    initPermissions(store);
+    setPermission("room-a", "user-1", "read-only");
+    setPermission("room-a", "user-2", "read-write");
+    setPermission("room-b", "user-1", "read-write");
+    clearPermission("room-a", "user-2");
+    await flushPermissions();
+    expect(Object.fromEntries(store.stored.get("room-a") ?? [])).toEqual({ "user-1": "read-only" });
+
+    clearRoomPermissions("room-b");
+    await flushPermissions();
+    expect(store.stored.has("room-b")).toBe(false);
+  });
+
+  it("restores a room's permissions from the store", async () => {
+    const store = createMemoryStore();
+    store.stored.set("room-a", new Map([["user-1", "read-only"]]));
+    initPermissions(store);
+    await loadRoomPermissions("room-a");
+    expect(getPermission("room-a", "user-1")).toBe("read-only");
+  });
+});
@@ -0,0 +1,236 @@
+import { rmSync } from "node:fs";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as Y from "yjs";
+import { createFsPersistence } from "../persistence-fs.js";
+import { createSqlitePersistence } from "../persistence-sqlite.js";
+import {
+  type AuditEntry,
+  type Persistence,
+  type Room,
+  createLevelPersistence,
+  createPersistence,
+} from "../persistence.js";
+
+const TEST_DIR = path.join(import.meta.dirname ?? __dirname, ".tmp-persistence-backends");
+
+const backends: [string, (dir: string) => Persistence][] = [
+  ["level", (dir) => createLevelPersistence(dir)],
+  ["sqlite", (dir) => createSqlitePersistence(path.join(dir, "live-share.db"))],
+  ["fs", (dir) => createFsPersistence(dir)],
+];
+
+function makeRoom(id: string, overrides: Partial<Room> = {}): Room {
+  return {
+    id,
+    token: `token-${id}`,
+    name: `Room ${id}`,
+    createdAt: 1000,
+    lastActivityAt: 2000,
+    ...overrides,
+  };
+}
+
+function makeEntry(timestamp: number, event = "join"): AuditEntry {
+  return { timestamp, event, userId: "user-1", displayName: "Alice" };
+}
+
+describe.each(backends)("%s persistence", (name, create) => {
+  const dir = path.join(TEST_DIR, name);
+  let persistence: Persistence;
+
+  beforeEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    persistence = create(dir);
+  });
+
+  afterEach(async () => {
+    await persistence.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("starts with no rooms", async () => {
+    expect(await persistence.loadRooms()).toEqual([]);
+  });
+
+  it("saves, overwrites and deletes rooms", async () => {
+    await persistence.saveRoom(makeRoom("room-1"));
+    await persistence.saveRoom(makeRoom("room-2", { readOnlyPatterns: ["*.pdf"] }));
+    await persistence.saveRoom(makeRoom("room-1", { lastActivityAt: 5000 }));
+
+    const rooms = await persistence.loadRooms();
+    rooms.sort((a, b) => a.id.localeCompare(b.id));
+    expect(rooms).toEqual([
+      makeRoom("room-1", { lastActivityAt: 5000 }),
+      makeRoom("room-2", { readOnlyPatterns: ["*.pdf"] }),
+    ]);
+
+    await persistence.deleteRoom("room-1");
+    await persistence.deleteRoom("missing");
+    expect((await persistence.loadRooms()).map((r) => r.id)).toEqual(["room-2"]);
+  });
+
+  it("keeps rooms across reopen", async () => {
+    await persistence.saveRoom(makeRoom("room-1"));
+    await persistence.saveDoc("room-1", "a.md", new Uint8Array([1, 2, 3]));
+    await persistence.appendAuditEntry("room-1", makeEntry(1));
+    await persistence.close();
+
+    persistence = create(dir);
+    expect(await persistence.loadRooms()).toEqual([makeRoom("room-1")]);
+    expect([...((await persistence.loadDoc("room-1", "a.md")) ?? [])]).toEqual([1, 2, 3]);
+    expect(await persistence.loadAuditEntries("room-1", 10)).toEqual([makeEntry(1)]);
+  });
+
+  it("round-trips stored doc state per room and doc id", async () => {
+    const doc = new Y.Doc();
+    doc.getText("content").insert(0, "stored on the server");
+    await persistence.saveDoc("room-1", "notes/a.md", Y.encodeStateAsUpdate(doc));
+
+    const state = await persistence.loadDoc("room-1", "notes/a.md");
+    expect(state).not.toBeNull();
+    const restored = new Y.Doc();
+    Y.applyUpdate(restored, state as Uint8Array);
+    expect(restored.getText("content").toString()).toBe("stored on the server");
+
+    expect(await persistence.loadDoc("room-1", "notes/b.md")).toBeNull();
+    expect(await persistence.loadDoc("room-2", "notes/a.md")).toBeNull();
+
+    doc.destroy();
+    restored.destroy();
+  });
+
+  it("keeps doc ids with path-like characters apart", async () => {
+    await persistence.saveDoc("room-1", "../escape.md", new Uint8Array([1]));
+    await persistence.saveDoc("room-1", "..", new Uint8Array([2]));
+    await persistence.saveDoc("room-1", "a/b.md", new Uint8Array([3]));
+    await persistence.saveDoc("room-1", "a%2Fb.md", new Uint8Array([4]));
+
+    expect([...((await persistence.loadDoc("room-1", "../escape.md")) ?? [])]).toEqual([1]);
+    expect([...((await persistence.loadDoc("room-1", "..")) ?? [])]).toEqual([2]);
+    expect([...((await persistence.loadDoc("room-1", "a/b.md")) ?? [])]).toEqual([3]);
+    expect([...((await persistence.loadDoc("room-1", "a%2Fb.md")) ?? [])]).toEqual([4]);
+  });
+
+  it("appends encrypted updates in order without mixing doc ids sharing a prefix", async () => {
+    await Promise.all([
+      persistence.appendEncryptedUpdate("room-1", "a", new Uint8Array([2, 1])),
+      persistence.appendEncryptedUpdate("room-1", "a", new Uint8Array([2, 2])),
+      persistence.appendEncryptedUpdate("room-1", "a:b", new Uint8Array([2, 9])),
+    ]);
+    await persistence.appendEncryptedUpdate("room-1", "a", new Uint8Array([2, 3]));
+
+    const updates = await persistence.loadEncryptedUpdates("room-1", "a");
+    expect(updates.map((u) => [...u])).toEqual([
+      [2, 1],
+      [2, 2],
+      [2, 3],
+    ]);
+    const nested = await persistence.loadEncryptedUpdates("room-1", "a:b");
+    expect(nested.map((u) => [...u])).toEqual([[2, 9]]);
+  });
+
+  it("replaces a doc's encrypted log and appends after the replacement", async () => {
+    await persistence.appendEncryptedUpdate("room-1", "a", new Uint8Array([2, 1]));
+    await persistence.appendEncryptedUpdate("room-1", "a", new Uint8Array([2, 2]));
+    await persistence.appendEncryptedUpdate("room-1", "a:b", new Uint8Array([2, 9]));
+
+    await persistence.replaceEncryptedUpdates("room-1", "a", [new Uint8Array([2, 7])]);
+    await persistence.appendEncryptedUpdate("room-1", "a", new Uint8Array([2, 3]));
+
+    const updates = await persistence.loadEncryptedUpdates("room-1", "a");
+    expect(updates.map((u) => [...u])).toEqual([
+      [2, 7],
+      [2, 3],
+    ]);
+    const nested = await persistence.loadEncryptedUpdates("room-1", "a:b");
+    expect(nested.map((u) => [...u])).toEqual([[2, 9]]);
+  });
+
+  it("deleteDocs removes stored docs and encrypted logs for one room only", async () => {
+    await persistence.saveDoc("room-1", "a.md", new Uint8Array([0, 0]));
+    await persistence.appendEncryptedUpdate("room-1", "b.md", new Uint8Array([2, 1]));
+    await persistence.saveDoc("room-2", "a.md", new Uint8Array([0, 0]));
+
+    await persistence.deleteDocs("room-1");
+
+    expect(await persistence.loadDoc("room-1", "a.md")).toBeNull();
+    expect(await persistence.loadEncryptedUpdates("room-1", "b.md")).toEqual([]);
+    expect(await persistence.loadDoc("room-2", "a.md")).not.toBeNull();
+  });
+
+  it("saves, overwrites and deletes permissions per room", async () => {
+    await persistence.savePermission("room-1", "user-1", "read-only");
+    await persistence.savePermission("room-1", "user-2", "read-only");
+    await persistence.savePermission("room-1", "user-2", "read-write");
+    await persistence.savePermission("room-2", "user-1", "read-write");
+
+    expect(Object.fromEntries(await persistence.loadPermissions("room-1"))).toEqual({
+      "user-1": "read-only",
+      "user-2": "read-write",
+    });
+
+    await persistence.deletePermission("room-1", "user-1");
+    await persistence.deletePermission("room-1", "missing");
+    expect([...(await persistence.loadPermissions("room-1")).keys()]).toEqual(["user-2"]);
+
+    await persistence.deletePermissions("room-1");
+    expect((await persistence.loadPermissions("room-1")).size).toBe(0);
+    expect(Object.fromEntries(await persistence.loadPermissions("room-2"))).toEqual({
+      "user-1": "read-write",
+    });
+  });
+
+  it("keeps user ids that look like object keys", async () => {
+    await persistence.savePermission("room-1", "__proto__", "read-only");
+    await persistence.close();
+    persistence = create(dir);
+    expect((await persistence.loadPermissions("room-1")).get("__proto__")).toBe("read-only");
+  });
+
+  it("returns audit entries newest first up to the limit", async () => {
+    await persistence.appendAuditEntry("room-1", makeEntry(1000, "join"));
+    await persistence.appendAuditEntry("room-1", makeEntry(3000, "kick"));
+    await persistence.appendAuditEntry("room-1", {
+      ...makeEntry(2000, "permission-change"),
+      details: "read-only",
+    });
+
+    const entries = await persistence.loadAuditEntries("room-1", 10);
+    expect(entries.map((e) => e.timestamp)).toEqual([3000, 2000, 1000]);
+    expect(entries[1].details).toBe("read-only");
+    expect(await persistence.loadAuditEntries("room-1", 2)).toHaveLength(2);
+    expect(await persistence.loadAuditEntries("room-2", 10)).toEqual([]);
+  });
+
+  it("prunes audit entries by age and count", async () => {
+    for (const timestamp of [1000, 2000, 3000, 3000, 4000]) {
+      await persistence.appendAuditEntry("room-1", makeEntry(timestamp));
+    }
+    await persistence.appendAuditEntry("room-2", makeEntry(1000));
+
+    expect(await persistence.pruneAuditEntries("room-1", { before: 2000 })).toBe(1);
+    expect(await persistence.loadAuditEntries("room-1")).toHaveLength(4);
+    expect(await persistence.pruneAuditEntries("room-1", { keep: 2 })).toBe(2);
+    const remaining = await persistence.loadAuditEntries("room-1");
+    expect(remaining.map((e) => e.timestamp)).toEqual([4000, 3000]);
+    expect(await persistence.pruneAuditEntries("room-1", { before: 0, keep: 5 })).toBe(0);
+    expect(await persistence.loadAuditEntries("room-2")).toHaveLength(1);
+  });
+
+  it("deleteAuditEntries clears one room only", async () => {
+    await persistence.appendAuditEntry("room-1", makeEntry(1));
+    await persistence.appendAuditEntry("room-2", makeEntry(2));
+
+    await persistence.deleteAuditEntries("room-1");
+
+    expect(await persistence.loadAuditEntries("room-1", 10)).toEqual([]);
+    expect(await persistence.loadAuditEntries("room-2", 10)).toEqual([makeEntry(2)]);
+  });
+});
+
+describe("createPersistence", () => {
+  it("rejects unknown backends", () => {
+    expect(() => createPersistence("postgres")).toThrow("unknown persistence backend: postgres");
+  });
+});
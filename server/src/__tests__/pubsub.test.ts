@@ -0,0 +1,247 @@
+import { type Server, type Socket, createServer } from "node:net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { type RespValue, createRedisPubSub, encodeCommand, parseReply } from "../pubsub-redis.js";
+import { type PubSubAdapter, createLocalHub, createLocalPubSub } from "../pubsub.js";
+
+function encodeReply(value: RespValue): string {
+  if (value === null) return "$-1\r\n";
+  if (value instanceof Error) return `-${value.message}\r\n`;
+  if (typeof value === "number") return `:${value}\r\n`;
+  if (Array.isArray(value)) return `*${value.length}\r\n${value.map(encodeReply).join("")}`;
+  return `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+}
+
+/** Just enough of a Redis server for the adapter: strings, hashes and pub/sub. */
+function createRespServer(password?: string): Server {
+  const state = new Map<string, string>();
+  const hashes = new Map<string, Map<string, string>>();
+  const expiries = new Map<string, number>();
+  const live = (key: string) => {
+    if ((expiries.get(key) ?? Number.POSITIVE_INFINITY) <= Date.now()) {
+      state.delete(key);
+      expiries.delete(key);
+    }
+    return state.has(key);
+  };
+  const subscribers = new Map<string, Set<Socket>>();
+
+  return createServer((socket) => {
+    let buffer = Buffer.alloc(0);
+    let authed = !password;
+    const reply = (value: RespValue) => socket.write(encodeReply(value));
+
+    socket.on("close", () => {
+      for (const sockets of subscribers.values()) sockets.delete(socket);
+    });
+    socket.on("data", (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      for (;;) {
+        const parsed = parseReply(buffer);
+        if (!parsed) break;
+        buffer = buffer.subarray(parsed.next);
+        const [name, ...args] = parsed.value as string[];
+        const command = name.toUpperCase();
+        if (command === "AUTH") {
+          authed = args[args.length - 1] === password;
+          reply(authed ? "OK" : new Error("WRONGPASS invalid password"));
+          continue;
+        }
+        if (!authed) {
+          reply(new Error("NOAUTH Authentication required."));
+          continue;
+        }
+        switch (command) {
+          case "SELECT":
+            reply("OK");
+            break;
+          case "GET":
+            reply(live(args[0]) ? (state.get(args[0]) ?? null) : null);
+            break;
+          case "SET": {
+            const options = args.slice(2).map((option) => option.toUpperCase());
+            if (options.includes("NX") && live(args[0])) {
+              reply(null);
+              break;
+            }
+            state.set(args[0], args[1]);
+            const ex = options.indexOf("EX");
+            if (ex >= 0) expiries.set(args[0], Date.now() + Number(args[2 + ex + 1]) * 1000);
+            else expiries.delete(args[0]);
+            reply("OK");
+            break;
+          }
+          case "DEL":
+            reply(state.delete(args[0]) ? 1 : 0);
+            break;
+          case "HSET": {
+            const hash = hashes.get(args[0]) ?? new Map<string, string>();
+            hashes.set(args[0], hash.set(args[1], args[2]));
+            reply(1);
+            break;
+          }
+          case "HGETALL":
+            reply([...(hashes.get(args[0]) ?? [])].flat());
+            break;
+          case "HDEL": {
+            const hash = hashes.get(args[0]);
+            const deleted = hash?.delete(args[1]) ?? false;
+            if (hash?.size === 0) hashes.delete(args[0]);
+            reply(deleted ? 1 : 0);
+            break;
+          }
+          case "PUBLISH": {
+            const sockets = subscribers.get(args[0]) ?? new Set();
+            for (const subscriber of sockets) {
+              subscriber.write(encodeReply(["message", args[0], args[1]]));
+            }
+            reply(sockets.size);
+            break;
+          }
+          case "SUBSCRIBE": {
+            let sockets = subscribers.get(args[0]);
+            if (!sockets) {
+              sockets = new Set();
+              subscribers.set(args[0], sockets);
+            }
+            sockets.add(socket);
+            reply(["subscribe", args[0], 1]);
+            break;
+          }
+          case "UNSUBSCRIBE":
+            subscribers.get(args[0])?.delete(socket);
+            reply(["unsubscribe", args[0], 0]);
+            break;
+          default:
+            reply(new Error(`ERR unknown command '${name}'`));
+        }
+      }
+    });
+  });
+}
+
+function listen(server: Server): Promise<number> {
+  return new Promise((resolve) => {
+    server.listen(0, () => {
+      const addr = server.address();
+      resolve(typeof addr === "object" && addr ? addr.port : 0);
+    });
+  });
+}
+
+const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe("RESP encoding", () => {
+  it("encodes commands as bulk string arrays", () => {
+    expect(encodeCommand(["SET", "k", "vé"]).toString()).toBe(
+      "*3\r\n$3\r\nSET\r\n$1\r\nk\r\n$3\r\nvé\r\n",
+    );
+  });
+
+  it("parses nested replies and waits for incomplete input", () => {
+    const buf = Buffer.from("*3\r\n$7\r\nmessage\r\n$2\r\nch\r\n:5\r\n+OK\r\n");
+    const first = parseReply(buf);
+    expect(first?.value).toEqual(["message", "ch", 5]);
+    expect(parseReply(buf, first?.next)?.value).toBe("OK");
+    expect(parseReply(Buffer.from("$5\r\nhel"))).toBeNull();
+    expect(parseReply(Buffer.from("$-1\r\n"))?.value).toBeNull();
+    expect(parseReply(Buffer.from("-ERR nope\r\n"))?.value).toEqual(new Error("ERR nope"));
+  });
+});
+
+const adapters: [string, () => Promise<[PubSubAdapter, PubSubAdapter]>][] = [
+  [
+    "local",
+    async () => {
+      const hub = createLocalHub();
+      return [createLocalPubSub(hub), createLocalPubSub(hub)];
+    },
+  ],
+  [
+    "redis",
+    async () => {
+      const port = await listen(respServer);
+      const url = `redis://:secret@localhost:${port}/2`;
+      return [createRedisPubSub(url), createRedisPubSub(url)];
+    },
+  ],
+];
+
+let respServer: Server;
+
+describe.each(adapters)("%s pub/sub adapter", (_name, create) => {
+  let a: PubSubAdapter;
+  let b: PubSubAdapter;
+
+  beforeEach(async () => {
+    respServer = createRespServer("secret");
+    [a, b] = await create();
+  });
+
+  afterEach(async () => {
+    await a.close();
+    await b.close();
+    await new Promise((resolve) => respServer.close(resolve));
+  });
+
+  it("delivers messages to other instances but not back to the publisher", async () => {
+    const receivedByA: string[] = [];
+    const receivedByB: string[] = [];
+    await a.subscribe("room", (message) => receivedByA.push(message));
+    await b.subscribe("room", (message) => receivedByB.push(message));
+
+    await a.publish("room", "from a");
+    await b.publish("room", "from b");
+
+    await delay(50);
+    expect(receivedByA).toEqual(["from b"]);
+    expect(receivedByB).toEqual(["from a"]);
+  });
+
+  it("stops delivering after unsubscribe", async () => {
+    const received: string[] = [];
+    await b.subscribe("room", (message) => received.push(message));
+    await b.unsubscribe("room");
+    await a.publish("room", "ignored");
+    await delay(50);
+    expect(received).toEqual([]);
+  });
+
+  it("shares keys and hash fields between instances", async () => {
+    expect(await a.setIfAbsent("host:r1", "alice")).toBe(true);
+    expect(await b.setIfAbsent("host:r1", "bob")).toBe(false);
+    expect(await b.get("host:r1")).toBe("alice");
+
+    await b.set("host:r1", "bob");
+    expect(await a.get("host:r1")).toBe("bob");
+    await a.del("host:r1");
+    expect(await b.get("host:r1")).toBeNull();
+
+    await a.setField("clients:r1", "a", "2");
+    await b.setField("clients:r1", "b", "1");
+    expect(await b.getFields("clients:r1")).toEqual({ a: "2", b: "1" });
+    await a.deleteField("clients:r1", "a");
+    await b.deleteField("clients:r1", "b");
+    expect(await a.getFields("clients:r1")).toEqual({});
+  });
+
+  it("lets keys set with a lifetime expire", async () => {
+    await a.set("lease:r1", "alive", 1);
+    expect(await a.setIfAbsent("once:r1", "first", 1)).toBe(true);
+    expect(await b.get("lease:r1")).toBe("alive");
+
+    await delay(1100);
+    expect(await b.get("lease:r1")).toBeNull();
+    expect(await b.setIfAbsent("once:r1", "second")).toBe(true);
+  });
+});
+
+describe("redis pub/sub adapter", () => {
+  it("rejects commands the server refuses", async () => {
+    respServer = createRespServer("secret");
+    const port = await listen(respServer);
+    const adapter = createRedisPubSub(`redis://:wrong@localhost:${port}`);
+    await expect(adapter.get("key")).rejects.toThrow("NOAUTH");
+    await adapter.close();
+    await new Promise((resolve) => respServer.close(resolve));
+  });
+});
@@ -1,7 +1,14 @@
 import { type IncomingMessage, type Server, type ServerResponse, createServer } from "node:http";
 import express from "express";
-import { beforeEach, describe, expect, it } from "vitest";
-import { getRoom, roomRouter } from "../rooms.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  getRoom,
+  getRoomExpiry,
+  isAllowed,
+  parseAllowlist,
+  reapStaleRooms,
+  roomRouter,
+} from "../rooms.js";
 
 function setupApp() {
   const app = express();
@@ -165,3 +172,125 @@ describe("rooms API", () => {
     expect(getRoom(roomId)).toBeDefined();
   });
 });
+
+describe("room allowlists", () => {
+  it("normalizes org and team names and rejects malformed entries", () => {
+    expect(parseAllowlist({ users: ["42"], orgs: ["Acme", "acme"], teams: ["Acme/Core"] })).toEqual(
+      { users: ["42"], orgs: ["acme"], teams: ["acme/core"] },
+    );
+    expect(parseAllowlist({ users: [] })).toBeUndefined();
+    expect(parseAllowlist(null)).toBeUndefined();
+    expect(parseAllowlist(["42"])).toBe("invalid allowlist");
+    expect(parseAllowlist({ teams: ["core"] })).toBe("invalid allowlist teams");
+    expect(parseAllowlist({ orgs: [42] })).toBe("invalid allowlist orgs");
+  });
+
+  it("admits users by id, org or team", () => {
+    const allowlist = { users: ["42"], orgs: ["acme"], teams: ["other/core"] };
+    expect(isAllowed(undefined, null)).toBe(true);
+    expect(isAllowed(allowlist, null)).toBe(false);
+    expect(isAllowed(allowlist, { sub: "42" })).toBe(true);
+    expect(isAllowed(allowlist, { sub: "7", orgs: ["ACME"] })).toBe(true);
+    expect(isAllowed(allowlist, { sub: "7", teams: ["Other/Core"] })).toBe(true);
+    expect(isAllowed(allowlist, { sub: "7", orgs: ["other"], teams: ["other/web"] })).toBe(false);
+  });
+
+  it("stores the allowlist given at creation", async () => {
+    const { server } = setupApp();
+    const port = await listen(server);
+    try {
+      const { data } = await req(port, "POST", "/rooms", { allowlist: { orgs: ["Acme"] } });
+      expect(getRoom(data.id as string)?.allowlist).toEqual({ orgs: ["acme"] });
+      expect((await req(port, "POST", "/rooms", { allowlist: { teams: "x" } })).status).toBe(400);
+    } finally {
+      server.close();
+    }
+  });
+});
+
+describe("room lifetime", () => {
+  let server: Server<typeof IncomingMessage, typeof ServerResponse>;
+  let port: number;
+
+  beforeEach(async () => {
+    const { server: s } = setupApp();
+    server = s;
+    port = await listen(server);
+    return () => server.close();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("stores a per-room ttl and rejects invalid ones", async () => {
+    const { status, data } = await req(port, "POST", "/rooms", { name: "weekly", ttl: 7 * 86400 });
+    expect(status).toBe(201);
+    const room = getRoom(data.id as string);
+    expect(room?.ttl).toBe(7 * 86400);
+    expect(getRoomExpiry(room as NonNullable<typeof room>)).toBe(
+      (room?.lastActivityAt as number) + 7 * 86400 * 1000,
+    );
+
+    expect((await req(port, "POST", "/rooms", { ttl: -1 })).status).toBe(400);
+    expect((await req(port, "POST", "/rooms", { ttl: 1.5 })).status).toBe(400);
+    expect((await req(port, "POST", "/rooms", { ttl: "never" })).status).toBe(400);
+  });
+
+  it("uses the server default when no ttl is given", async () => {
+    const { data } = await req(port, "POST", "/rooms", { name: "default-ttl" });
+    const room = getRoom(data.id as string);
+    expect(room?.ttl).toBeUndefined();
+    expect(getRoomExpiry(room as NonNullable<typeof room>)).toBe(
+      (room?.lastActivityAt as number) + 24 * 60 * 60 * 1000,
+    );
+  });
+
+  it("warns before reaping an idle room", async () => {
+    const { data } = await req(port, "POST", "/rooms", { name: "short", ttl: 3600 });
+    const id = data.id as string;
+    const created = getRoom(id)?.lastActivityAt as number;
+    const onExpiring = vi.fn();
+    const onReaped = vi.fn();
+
+    vi.spyOn(Date, "now").mockReturnValue(created + 30 * 60 * 1000);
+    await reapStaleRooms({ onExpiring, onReaped });
+    expect(onExpiring).toHaveBeenCalledWith(getRoom(id), created + 90 * 60 * 1000);
+    expect(getRoom(id)).toBeDefined();
+
+    vi.spyOn(Date, "now").mockReturnValue(created + 2 * 60 * 60 * 1000);
+    await reapStaleRooms({ onExpiring, onReaped });
+    expect(getRoom(id)).toBeUndefined();
+    expect(onReaped).toHaveBeenCalledWith(expect.objectContaining({ id }));
+    expect(onExpiring).toHaveBeenCalledTimes(1);
+  });
+
+  it("warns on the reaping pass instead of deleting an overdue room unannounced", async () => {
+    const { data } = await req(port, "POST", "/rooms", { name: "overdue", ttl: 60 });
+    const id = data.id as string;
+    const created = getRoom(id)?.lastActivityAt as number;
+    const onExpiring = vi.fn();
+
+    vi.spyOn(Date, "now").mockReturnValue(created + 10 * 60 * 1000);
+    await reapStaleRooms({ onExpiring });
+    expect(getRoom(id)).toBeDefined();
+    expect(onExpiring).toHaveBeenCalledTimes(1);
+
+    await reapStaleRooms({ onExpiring });
+    expect(getRoom(id)).toBeUndefined();
+  });
+
+  it("never reaps a permanent room", async () => {
+    const { data } = await req(port, "POST", "/rooms", { name: "permanent", ttl: 0 });
+    const id = data.id as string;
+    const room = getRoom(id);
+    expect(getRoomExpiry(room as NonNullable<typeof room>)).toBeNull();
+
+    const onExpiring = vi.fn();
+    vi.spyOn(Date, "now").mockReturnValue(Date.now() + 400 * 24 * 60 * 60 * 1000);
+    await reapStaleRooms({ onExpiring });
+    await reapStaleRooms({ onExpiring });
+    expect(getRoom(id)).toBeDefined();
+    expect(onExpiring).not.toHaveBeenCalledWith(expect.objectContaining({ id }), expect.anything());
+  });
+});
@@ -0,0 +1,217 @@
+import type { IncomingMessage, Server, ServerResponse } from "node:http";
+import * as decoding from "lib0/decoding";
+import * as encoding from "lib0/encoding";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { WebSocket } from "ws";
+import * as syncProtocol from "y-protocols/sync";
+import * as Y from "yjs";
+import { createApp } from "../index.js";
+import {
+  MUX_SUBSCRIBE,
+  MUX_SUBSCRIBED,
+  MUX_SYNC,
+  decodeMuxMessage,
+  encodeMuxMessage,
+} from "../mux-protocol.js";
+import { noopPersistence } from "../persistence.js";
+import { createLocalHub, createLocalPubSub } from "../pubsub.js";
+
+// Two servers sharing a hub stand in for two instances behind a load balancer
+
+interface Instance {
+  server: Server<typeof IncomingMessage, typeof ServerResponse>;
+  shutdown: () => Promise<void>;
+  port: number;
+}
+
+let instances: Instance[] = [];
+let openSockets: WebSocket[] = [];
+
+function listen(s: Server<typeof IncomingMessage, typeof ServerResponse>): Promise<number> {
+  return new Promise((resolve) => {
+    s.listen(0, () => {
+      const addr = s.address();
+      resolve(typeof addr === "object" && addr ? addr.port : 0);
+    });
+  });
+}
+
+async function createRoom(
+  port: number,
+  body: Record<string, unknown>,
+): Promise<{ id: string; token: string }> {
+  const res = await fetch(`http://localhost:${port}/rooms`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  return res.json() as Promise<{ id: string; token: string }>;
+}
+
+function connect(url: string): Promise<{ ws: WebSocket; messages: Buffer[] }> {
+  return new Promise((resolve, reject) => {
+    const ws = new WebSocket(url);
+    const messages: Buffer[] = [];
+    ws.on("message", (data: Buffer) => messages.push(data));
+    ws.on("open", () => {
+      openSockets.push(ws);
+      resolve({ ws, messages });
+    });
+    ws.on("error", reject);
+  });
+}
+
+function waitFor<T>(messages: Buffer[], find: (message: Buffer) => T | undefined): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const start = Date.now();
+    const interval = setInterval(() => {
+      for (const message of messages) {
+        const found = find(message);
+        if (found !== undefined) {
+          clearInterval(interval);
+          resolve(found);
+          return;
+        }
+      }
+      if (Date.now() - start > 3000) {
+        clearInterval(interval);
+        reject(new Error("timed out waiting for message"));
+      }
+    }, 10);
+  });
+}
+
+function waitForType(messages: Buffer[], type: string): Promise<Record<string, unknown>> {
+  return waitFor(messages, (message) => {
+    const parsed = JSON.parse(message.toString());
+    return parsed.type === type ? parsed : undefined;
+  });
+}
+
+function sendJSON(ws: WebSocket, msg: Record<string, unknown>) {
+  ws.send(JSON.stringify(msg));
+}
+
+beforeEach(async () => {
+  const hub = createLocalHub();
+  for (let i = 0; i < 2; i++) {
+    const { server, shutdown } = createApp(noopPersistence, undefined, createLocalPubSub(hub));
+    instances.push({ server, shutdown, port: await listen(server) });
+  }
+});
+
+afterEach(async () => {
+  for (const ws of openSockets) ws.close();
+  openSockets = [];
+  for (const instance of instances) await instance.shutdown();
+  instances = [];
+});
+
+describe("running several instances", () => {
+  it("relays control broadcasts between instances", async () => {
+    const [a, b] = instances;
+    const room = await createRoom(a.port, { name: "scale-broadcast" });
+    const alice = await connect(`ws://localhost:${a.port}/control/${room.id}?token=${room.token}`);
+    const bob = await connect(`ws://localhost:${b.port}/control/${room.id}?token=${room.token}`);
+
+    sendJSON(alice.ws, { type: "join-request", userId: "alice", displayName: "Alice" });
+    sendJSON(bob.ws, { type: "join-request", userId: "bob", displayName: "Bob" });
+    expect((await waitForType(alice.messages, "join-response")).isHost).toBe(true);
+    expect((await waitForType(bob.messages, "join-response")).isHost).toBe(false);
+
+    sendJSON(alice.ws, { type: "presence-update", userId: "alice", displayName: "Alice" });
+    const presence = await waitForType(bob.messages, "presence-update");
+    expect(presence.userId).toBe("alice");
+  });
+
+  it("lets a host on one instance approve a guest on another", async () => {
+    const [a, b] = instances;
+    const room = await createRoom(a.port, { name: "scale-approval", requireApproval: true });
+    const host = await connect(`ws://localhost:${a.port}/control/${room.id}?token=${room.token}`);
+    sendJSON(host.ws, { type: "join-request", userId: "host", displayName: "Host" });
+    await waitForType(host.messages, "join-response");
+
+    const guest = await connect(`ws://localhost:${b.port}/control/${room.id}?token=${room.token}`);
+    sendJSON(guest.ws, { type: "join-request", userId: "guest", displayName: "Guest" });
+    const request = await waitForType(host.messages, "join-request");
+    expect(request.userId).toBe("guest");
+
+    sendJSON(host.ws, {
+      type: "join-response",
+      userId: "guest",
+      approved: true,
+      permission: "read-only",
+    });
+    const response = await waitForType(guest.messages, "join-response");
+    expect(response).toMatchObject({ approved: true, permission: "read-only", isHost: false });
+  });
+
+  it("elects a host on another instance when the host leaves", async () => {
+    const [a, b] = instances;
+    const room = await createRoom(a.port, { name: "scale-election" });
+    const host = await connect(`ws://localhost:${a.port}/control/${room.id}?token=${room.token}`);
+    sendJSON(host.ws, { type: "join-request", userId: "host", displayName: "Host" });
+    await waitForType(host.messages, "join-response");
+    const guest = await connect(`ws://localhost:${b.port}/control/${room.id}?token=${room.token}`);
+    sendJSON(guest.ws, { type: "join-request", userId: "guest", displayName: "Guest" });
+    await waitForType(guest.messages, "join-response");
+
+    host.ws.close();
+    const complete = await waitForType(guest.messages, "host-transfer-complete");
+    expect(complete.userId).toBe("guest");
+  });
+
+  it("fans document updates out to subscribers on other instances", async () => {
+    const [a, b] = instances;
+    const room = await createRoom(a.port, { name: "scale-sync" });
+    const docId = "notes/shared.md";
+    const first = await connect(`ws://localhost:${a.port}/ws-mux/${room.id}?token=${room.token}`);
+    // Subscribing again, as after a reconnect, does not count twice
+    first.ws.send(encodeMuxMessage(docId, MUX_SUBSCRIBE));
+    first.ws.send(encodeMuxMessage(docId, MUX_SUBSCRIBE));
+    await waitFor(first.messages, (m) =>
+      decodeMuxMessage(new Uint8Array(m)).msgType === MUX_SUBSCRIBED ? true : undefined,
+    );
+
+    const second = await connect(`ws://localhost:${b.port}/ws-mux/${room.id}?token=${room.token}`);
+    second.ws.send(encodeMuxMessage(docId, MUX_SUBSCRIBE));
+    const peerCount = await waitFor(second.messages, (m) => {
+      const { msgType, payload } = decodeMuxMessage(new Uint8Array(m));
+      return msgType === MUX_SUBSCRIBED ? payload[0] : undefined;
+    });
+    // The subscriber on the other instance counts as a peer to sync with
+    expect(peerCount).toBe(1);
+
+    const doc = new Y.Doc();
+    doc.getText("content").insert(0, "hello from a");
+    const encoder = encoding.createEncoder();
+    syncProtocol.writeUpdate(encoder, Y.encodeStateAsUpdate(doc));
+    first.ws.send(encodeMuxMessage(docId, MUX_SYNC, encoding.toUint8Array(encoder)));
+
+    const received = new Y.Doc();
+    await waitFor(second.messages, (m) => {
+      const { msgType, payload } = decodeMuxMessage(new Uint8Array(m));
+      if (msgType !== MUX_SYNC) return undefined;
+      const decoder = decoding.createDecoder(payload);
+      syncProtocol.readSyncMessage(decoder, encoding.createEncoder(), received, null);
+      return received.getText("content").length > 0 ? true : undefined;
+    });
+    expect(received.getText("content").toString()).toBe("hello from a");
+  });
+
+  it("ends a removed room's sessions on every instance", async () => {
+    const [a, b] = instances;
+    const room = await createRoom(a.port, { name: "scale-removal" });
+    const guest = await connect(`ws://localhost:${b.port}/control/${room.id}?token=${room.token}`);
+    sendJSON(guest.ws, { type: "join-request", userId: "guest", displayName: "Guest" });
+    await waitForType(guest.messages, "join-response");
+
+    const closed = new Promise((resolve) => guest.ws.on("close", resolve));
+    await fetch(`http://localhost:${a.port}/rooms/${room.id}`, {
+      method: "DELETE",
+      headers: { Authorization: `Bearer ${room.token}` },
+    });
+    await waitForType(guest.messages, "session-end");
+    await closed;
+  });
+});
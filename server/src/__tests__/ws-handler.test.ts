@@ -8,15 +8,20 @@ import * as Y from "yjs";
 import { createApp } from "../index.js";
 import {
   MUX_AWARENESS,
+  MUX_SNAPSHOT,
+  MUX_SNAPSHOT_REQUEST,
   MUX_SUBSCRIBE,
   MUX_SUBSCRIBED,
   MUX_SYNC,
+  MUX_SYNC_ENCRYPTED,
   MUX_SYNC_REQUEST,
+  MUX_WRITE_DENIED,
   decodeMuxMessage,
   encodeMuxMessage,
 } from "../mux-protocol.js";
 import { setPermission } from "../permissions.js";
-import { noopPersistence } from "../persistence.js";
+import { type Persistence, noopPersistence } from "../persistence.js";
+import { getRoom, removeRoom } from "../rooms.js";
 
 interface RoomInfo {
   id: string;
@@ -24,6 +29,7 @@ interface RoomInfo {
 }
 
 let server: Server<typeof IncomingMessage, typeof ServerResponse>;
+let shutdown: () => Promise<void>;
 let port: number;
 let openSockets: WebSocket[] = [];
 
@@ -144,10 +150,57 @@ function findMessages(
   return messages.filter((m) => m.docId === docId && m.msgType === msgType);
 }
 
+function createMemoryPersistence(): Persistence & {
+  docs: Map<string, Uint8Array>;
+  encrypted: Map<string, Uint8Array[]>;
+} {
+  const docs = new Map<string, Uint8Array>();
+  const encrypted = new Map<string, Uint8Array[]>();
+  return {
+    ...noopPersistence,
+    docs,
+    encrypted,
+    async loadDoc(roomId, docId) {
+      return docs.get(`${roomId}:${docId}`) ?? null;
+    },
+    async saveDoc(roomId, docId, state) {
+      docs.set(`${roomId}:${docId}`, state);
+    },
+    async loadEncryptedUpdates(roomId, docId) {
+      return [...(encrypted.get(`${roomId}:${docId}`) ?? [])];
+    },
+    async appendEncryptedUpdate(roomId, docId, update) {
+      const key = `${roomId}:${docId}`;
+      encrypted.set(key, [...(encrypted.get(key) ?? []), update]);
+    },
+    async replaceEncryptedUpdates(roomId, docId, updates) {
+      encrypted.set(`${roomId}:${docId}`, updates);
+    },
+    async deleteDocs(roomId) {
+      for (const map of [docs, encrypted]) {
+        for (const key of map.keys()) {
+          if (key.startsWith(`${roomId}:`)) map.delete(key);
+        }
+      }
+    },
+  };
+}
+
+async function restartServer(persistence: Persistence) {
+  for (const ws of openSockets) ws.close();
+  openSockets = [];
+  await shutdown();
+  const app = createApp(persistence);
+  server = app.server;
+  shutdown = app.shutdown;
+  port = await listen(server);
+}
+
 beforeEach(async () => {
   openSockets = [];
-  const { server: s } = createApp(noopPersistence);
-  server = s;
+  const app = createApp(noopPersistence);
+  server = app.server;
+  shutdown = app.shutdown;
   port = await listen(server);
 });
 
@@ -365,6 +418,105 @@ describe("Mux WebSocket relay", () => {
     roDoc.destroy();
   });
 
+  it("relays updates from a read-only client to docs its write grant covers", async () => {
+    const room = await createRoom("relay-ro-grant");
+    const roUserId = "granted-user";
+    setPermission(room.id, roUserId, "read-only");
+    getRoom(room.id)!.writeGrants = { [roUserId]: ["drafts/**"] };
+    const docIds = ["drafts/mine.md", "__canvas__:drafts/board.canvas", "notes/theirs.md"];
+
+    const clientA = await connectMux(room.id, room.token);
+    const clientB = await connectMux(room.id, room.token, roUserId);
+    for (const docId of docIds) {
+      subscribe(clientA.ws, docId);
+      await waitForMessages(clientA.messages, clientA.messages.length + 1);
+      subscribe(clientB.ws, docId);
+      await waitForMessages(clientB.messages, clientB.messages.length + 1);
+    }
+    await new Promise((r) => setTimeout(r, 200));
+    clientA.messages.length = 0;
+
+    const roDoc = new Y.Doc();
+    roDoc.getText("content").insert(0, "granted edit");
+    for (const docId of docIds) sendUpdate(clientB.ws, docId, Y.encodeStateAsUpdate(roDoc));
+
+    await new Promise((r) => setTimeout(r, 300));
+    expect(findMessages(clientA.messages, docIds[0], MUX_SYNC)).toHaveLength(1);
+    expect(findMessages(clientA.messages, docIds[1], MUX_SYNC)).toHaveLength(1);
+    expect(findMessages(clientA.messages, docIds[2], MUX_SYNC)).toHaveLength(0);
+
+    roDoc.destroy();
+  });
+
+  it("accepts updates to read-only paths only from the host", async () => {
+    const room = await createRoom("relay-ro-pattern");
+    getRoom(room.id)!.readOnlyPatterns = ["locked/**"];
+    const docId = "locked/plan.md";
+
+    const control = new WebSocket(`ws://localhost:${port}/control/${room.id}?token=${room.token}`);
+    openSockets.push(control);
+    await new Promise((r) => control.on("open", r));
+    control.send(
+      JSON.stringify({ type: "join-request", userId: "host-user", displayName: "Host" }),
+    );
+    await new Promise((r) => control.once("message", r));
+
+    const host = await connectMux(room.id, room.token, "host-user");
+    subscribe(host.ws, docId);
+    await waitForMessages(host.messages, 1);
+    const guest = await connectMux(room.id, room.token, "guest-user");
+    subscribe(guest.ws, docId);
+    await waitForMessages(guest.messages, 1);
+    await new Promise((r) => setTimeout(r, 200));
+    host.messages.length = 0;
+    guest.messages.length = 0;
+
+    const guestDoc = new Y.Doc();
+    guestDoc.getText("content").insert(0, "guest edit");
+    sendUpdate(guest.ws, docId, Y.encodeStateAsUpdate(guestDoc));
+    sendUpdate(guest.ws, docId, Y.encodeStateAsUpdate(guestDoc));
+    await new Promise((r) => setTimeout(r, 300));
+    expect(findMessages(host.messages, docId, MUX_SYNC)).toHaveLength(0);
+    expect(findMessages(guest.messages, docId, MUX_WRITE_DENIED)).toHaveLength(1);
+
+    const hostDoc = new Y.Doc();
+    hostDoc.getText("content").insert(0, "host edit");
+    sendUpdate(host.ws, docId, Y.encodeStateAsUpdate(hostDoc));
+    await waitForMessages(guest.messages, 2);
+    expect(findMessages(guest.messages, docId, MUX_SYNC)).toHaveLength(1);
+
+    guestDoc.destroy();
+    hostDoc.destroy();
+  });
+
+  it("lets a comment-only client write the comments doc but not the text", async () => {
+    const room = await createRoom("relay-comment");
+    const commenter = "comment-user";
+    setPermission(room.id, commenter, "comment");
+    const docIds = ["notes/review.md", "__comments__:notes/review.md"];
+
+    const clientA = await connectMux(room.id, room.token);
+    const clientB = await connectMux(room.id, room.token, commenter);
+    for (const docId of docIds) {
+      subscribe(clientA.ws, docId);
+      await waitForMessages(clientA.messages, clientA.messages.length + 1);
+      subscribe(clientB.ws, docId);
+      await waitForMessages(clientB.messages, clientB.messages.length + 1);
+    }
+    await new Promise((r) => setTimeout(r, 200));
+    clientA.messages.length = 0;
+
+    const doc = new Y.Doc();
+    doc.getArray("threads").push(["looks good"]);
+    for (const docId of docIds) sendUpdate(clientB.ws, docId, Y.encodeStateAsUpdate(doc));
+
+    await new Promise((r) => setTimeout(r, 300));
+    expect(findMessages(clientA.messages, docIds[0], MUX_SYNC)).toHaveLength(0);
+    expect(findMessages(clientA.messages, docIds[1], MUX_SYNC)).toHaveLength(1);
+
+    doc.destroy();
+  });
+
   it("live-updates read-only status when permission changes after connect", async () => {
     const room = await createRoom("relay-live-perm");
     const docId = "perm-doc";
@@ -431,3 +583,208 @@ describe("Mux WebSocket relay", () => {
     roDoc.destroy();
   });
 });
+
+describe("Stored documents", () => {
+  it("answers a new subscriber from the stored doc after every peer left", async () => {
+    const store = createMemoryPersistence();
+    await restartServer(store);
+    const room = await createRoom("stored-doc");
+    const docId = "notes/kept.md";
+
+    const host = await connectMux(room.id, room.token);
+    subscribe(host.ws, docId);
+    await waitForMessages(host.messages, 1);
+
+    const hostDoc = new Y.Doc();
+    hostDoc.getText("content").insert(0, "survives the host");
+    sendUpdate(host.ws, docId, Y.encodeStateAsUpdate(hostDoc));
+    await new Promise((r) => setTimeout(r, 100));
+
+    await restartServer(store);
+    expect(store.docs.has(`${room.id}:${docId}`)).toBe(true);
+
+    const guest = await connectMux(room.id, room.token);
+    subscribe(guest.ws, docId);
+    await waitForMessages(guest.messages, 3);
+
+    const subMsgs = findMessages(guest.messages, docId, MUX_SUBSCRIBED);
+    expect(decoding.readVarUint(decoding.createDecoder(subMsgs[0].payload))).toBe(1);
+
+    const guestDoc = new Y.Doc();
+    for (const msg of findMessages(guest.messages, docId, MUX_SYNC)) {
+      syncProtocol.readSyncMessage(
+        decoding.createDecoder(msg.payload),
+        encoding.createEncoder(),
+        guestDoc,
+        null,
+      );
+    }
+    expect(guestDoc.getText("content").toString()).toBe("survives the host");
+
+    hostDoc.destroy();
+    guestDoc.destroy();
+  });
+
+  it("replies to SyncStep1 with the stored state", async () => {
+    const store = createMemoryPersistence();
+    await restartServer(store);
+    const room = await createRoom("stored-step1");
+    const docId = "step1-doc";
+
+    const seed = new Y.Doc();
+    seed.getText("content").insert(0, "from storage");
+    store.docs.set(`${room.id}:${docId}`, Y.encodeStateAsUpdate(seed));
+
+    const client = await connectMux(room.id, room.token);
+    subscribe(client.ws, docId);
+    await waitForMessages(client.messages, 3);
+    const countBefore = client.messages.length;
+
+    const empty = new Y.Doc();
+    sendSyncStep1(client.ws, docId, empty);
+    await waitForMessages(client.messages, countBefore + 1);
+
+    const reply = client.messages[countBefore];
+    expect(reply.msgType).toBe(MUX_SYNC);
+    syncProtocol.readSyncMessage(
+      decoding.createDecoder(reply.payload),
+      encoding.createEncoder(),
+      empty,
+      null,
+    );
+    expect(empty.getText("content").toString()).toBe("from storage");
+
+    seed.destroy();
+    empty.destroy();
+  });
+
+  it("does not store updates from read-only clients", async () => {
+    const store = createMemoryPersistence();
+    await restartServer(store);
+    const room = await createRoom("stored-ro");
+    const docId = "ro-stored";
+
+    const roUserId = "ro-stored-user";
+    setPermission(room.id, roUserId, "read-only");
+    const client = await connectMux(room.id, room.token, roUserId);
+    subscribe(client.ws, docId);
+    await waitForMessages(client.messages, 1);
+
+    const roDoc = new Y.Doc();
+    roDoc.getText("content").insert(0, "not allowed");
+    sendUpdate(client.ws, docId, Y.encodeStateAsUpdate(roDoc));
+    await new Promise((r) => setTimeout(r, 100));
+
+    await restartServer(store);
+    expect(store.docs.has(`${room.id}:${docId}`)).toBe(false);
+
+    roDoc.destroy();
+  });
+
+  it("appends encrypted updates to a log and replays them opaquely", async () => {
+    const store = createMemoryPersistence();
+    await restartServer(store);
+    const room = await createRoom("stored-e2e");
+    const docId = "secret.md";
+
+    const host = await connectMux(room.id, room.token);
+    subscribe(host.ws, docId);
+    await waitForMessages(host.messages, 1);
+
+    const blobA = new Uint8Array([2, 10, 11, 12]);
+    const blobB = new Uint8Array([2, 20, 21]);
+    host.ws.send(encodeMuxMessage(docId, MUX_SYNC_ENCRYPTED, blobA));
+    host.ws.send(encodeMuxMessage(docId, MUX_SYNC_ENCRYPTED, blobB));
+    host.ws.send(encodeMuxMessage(docId, MUX_SYNC_ENCRYPTED, new Uint8Array([0, 99])));
+    await new Promise((r) => setTimeout(r, 100));
+
+    expect(store.encrypted.get(`${room.id}:${docId}`)).toHaveLength(2);
+    expect(store.docs.has(`${room.id}:${docId}`)).toBe(false);
+
+    await restartServer(store);
+    const guest = await connectMux(room.id, room.token);
+    subscribe(guest.ws, docId);
+    await waitForMessages(guest.messages, 3);
+
+    const replayed = findMessages(guest.messages, docId, MUX_SYNC_ENCRYPTED);
+    expect(replayed).toHaveLength(2);
+    expect([...replayed[0].payload]).toEqual([2, 10, 11, 12]);
+    expect([...replayed[1].payload]).toEqual([1, 20, 21]);
+  });
+
+  it("compacts a growing encrypted log into a snapshot from a writer", async () => {
+    const store = createMemoryPersistence();
+    await restartServer(store);
+    const room = await createRoom("compacted-e2e");
+    const docId = "big.md";
+
+    const host = await connectMux(room.id, room.token);
+    subscribe(host.ws, docId);
+    await waitForMessages(host.messages, 1);
+
+    const chunk = new Uint8Array(1024 * 1024).fill(7);
+    chunk[0] = 2;
+    for (let i = 0; i < 5; i++) {
+      host.ws.send(encodeMuxMessage(docId, MUX_SYNC_ENCRYPTED, chunk));
+    }
+    await waitForMessages(host.messages, 2);
+    expect(findMessages(host.messages, docId, MUX_SNAPSHOT_REQUEST)).toHaveLength(1);
+
+    host.ws.send(encodeMuxMessage(docId, MUX_SYNC_ENCRYPTED, new Uint8Array([2, 40])));
+    host.ws.send(encodeMuxMessage(docId, MUX_SNAPSHOT, new Uint8Array([1, 30, 31])));
+    await new Promise((r) => setTimeout(r, 100));
+
+    // The update sent after the request is not in the snapshot, so it stays
+    expect(store.encrypted.get(`${room.id}:${docId}`)?.map((u) => [...u])).toEqual([
+      [2, 30, 31],
+      [2, 40],
+    ]);
+
+    const guest = await connectMux(room.id, room.token);
+    subscribe(guest.ws, docId);
+    await waitForMessages(guest.messages, 3);
+    const replayed = findMessages(guest.messages, docId, MUX_SYNC_ENCRYPTED);
+    expect(replayed.map((m) => [...m.payload])).toEqual([
+      [2, 30, 31],
+      [1, 40],
+    ]);
+  });
+
+  it("ignores snapshots nobody asked for", async () => {
+    const store = createMemoryPersistence();
+    await restartServer(store);
+    const room = await createRoom("unasked-snapshot");
+    const docId = "small.md";
+
+    const host = await connectMux(room.id, room.token);
+    subscribe(host.ws, docId);
+    await waitForMessages(host.messages, 1);
+    host.ws.send(encodeMuxMessage(docId, MUX_SYNC_ENCRYPTED, new Uint8Array([2, 10])));
+    host.ws.send(encodeMuxMessage(docId, MUX_SNAPSHOT, new Uint8Array([2, 99])));
+    await new Promise((r) => setTimeout(r, 100));
+
+    expect(store.encrypted.get(`${room.id}:${docId}`)?.map((u) => [...u])).toEqual([[2, 10]]);
+  });
+
+  it("does not write a removed room's docs back after deleting them", async () => {
+    const store = createMemoryPersistence();
+    await restartServer(store);
+    const room = await createRoom("removed-docs");
+    const docId = "gone.md";
+
+    const host = await connectMux(room.id, room.token);
+    subscribe(host.ws, docId);
+    await waitForMessages(host.messages, 1);
+    const hostDoc = new Y.Doc();
+    hostDoc.getText("content").insert(0, "deleted with the room");
+    sendUpdate(host.ws, docId, Y.encodeStateAsUpdate(hostDoc));
+    await new Promise((r) => setTimeout(r, 100));
+
+    await removeRoom(room.id);
+    // Shutting down flushes the pending saves of every doc still held
+    await restartServer(store);
+    expect(store.docs.has(`${room.id}:${docId}`)).toBe(false);
+
+    hostDoc.destroy();
+  });
+});
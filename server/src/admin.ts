@@ -0,0 +1,125 @@
+import { type Request, type Response, Router } from "express";
+
+import type { ControlClientInfo } from "./control-handler.js";
+import { isPermission } from "./permissions.js";
+import {
+  type Room,
+  type RoomSettings,
+  getRoom,
+  getRoomExpiry,
+  isValidRoomName,
+  isValidTtl,
+  listRooms,
+  parseAllowlist,
+  parsePathPatterns,
+  updateRoom,
+} from "./rooms.js";
+import { safeTokenCompare } from "./util.js";
+
+export interface AdminRouterOptions {
+  token: string;
+  getControlClients: (roomId: string) => ControlClientInfo[];
+  getDocumentStats: (roomId: string) => { documents: number; clients: number };
+  onRoomUpdated: (roomId: string, settings: RoomSettings) => void;
+}
+
+function parseRoomSettings(body: Record<string, unknown>): RoomSettings | string {
+  const settings: RoomSettings = {};
+  if (body.name !== undefined) {
+    if (typeof body.name !== "string" || !isValidRoomName(body.name)) return "invalid name";
+    settings.name = body.name;
+  }
+  if (body.requireApproval !== undefined) {
+    if (typeof body.requireApproval !== "boolean") return "invalid requireApproval";
+    settings.requireApproval = body.requireApproval;
+  }
+  if (body.readOnlyPatterns !== undefined) {
+    if (!Array.isArray(body.readOnlyPatterns)) return "invalid readOnlyPatterns";
+    settings.readOnlyPatterns = parsePathPatterns(body.readOnlyPatterns);
+  }
+  if (body.defaultPermission !== undefined) {
+    if (!isPermission(body.defaultPermission)) {
+      return "invalid defaultPermission";
+    }
+    settings.defaultPermission = body.defaultPermission;
+  }
+  if (body.ttl !== undefined) {
+    if (!isValidTtl(body.ttl)) return "invalid ttl";
+    settings.ttl = body.ttl;
+  }
+  if (body.allowlist !== undefined) {
+    const allowlist = parseAllowlist(body.allowlist);
+    if (typeof allowlist === "string") return allowlist;
+    settings.allowlist = allowlist;
+  }
+  if (Object.keys(settings).length === 0) return "no changes";
+  return settings;
+}
+
+export function createAdminRouter(options: AdminRouterOptions): Router {
+  const router = Router();
+
+  function summarize(room: Room) {
+    const controlClients = options.getControlClients(room.id);
+    const docStats = options.getDocumentStats(room.id);
+    return {
+      id: room.id,
+      name: room.name,
+      createdAt: room.createdAt,
+      lastActivityAt: room.lastActivityAt,
+      hostUserId: room.hostUserId,
+      requireApproval: room.requireApproval ?? false,
+      readOnlyPatterns: room.readOnlyPatterns ?? [],
+      defaultPermission: room.defaultPermission ?? "read-write",
+      ttl: room.ttl ?? null,
+      allowlist: room.allowlist ?? null,
+      expiresAt: getRoomExpiry(room),
+      clients: controlClients.length,
+      documents: docStats.documents,
+      documentClients: docStats.clients,
+    };
+  }
+
+  function findRoom(req: Request, res: Response): Room | undefined {
+    const room = getRoom(req.params.id);
+    if (!room) res.status(404).json({ error: "room not found" });
+    return room;
+  }
+
+  router.use((req, res, next) => {
+    const auth = req.headers.authorization;
+    if (!auth?.startsWith("Bearer ") || !safeTokenCompare(auth.slice(7), options.token)) {
+      res.status(401).json({ error: "invalid admin token" });
+      return;
+    }
+    next();
+  });
+
+  router.get("/rooms", (_req, res) => {
+    res.json(listRooms().map(summarize));
+  });
+
+  router.get("/rooms/:id", (req, res) => {
+    const room = findRoom(req, res);
+    if (!room) return;
+    res.json({ ...summarize(room), users: options.getControlClients(room.id) });
+  });
+
+  router.patch("/rooms/:id", async (req, res) => {
+    if (!findRoom(req, res)) return;
+    const settings = parseRoomSettings(req.body ?? {});
+    if (typeof settings === "string") {
+      res.status(400).json({ error: settings });
+      return;
+    }
+    const room = await updateRoom(req.params.id, settings);
+    if (!room) {
+      res.status(404).json({ error: "room not found" });
+      return;
+    }
+    options.onRoomUpdated(room.id, settings);
+    res.json(summarize(room));
+  });
+
+  return router;
+}
@@ -1,73 +1,480 @@
+import { createHash, createHmac } from "node:crypto";
+import { existsSync, renameSync } from "node:fs";
 import { Level } from "level";
-import { nanoid } from "nanoid";
+import type { AuditEntry, AuditRetention, Persistence } from "./persistence.js";
+import type { PubSubAdapter } from "./pubsub.js";
 
-export interface AuditEntry {
-  timestamp: number;
-  event: string;
-  userId: string;
-  displayName: string;
-  details?: string;
+export type { AuditEntry };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const GENESIS_HASH = "0".repeat(64);
+/** Written after retention removes entries, naming the oldest chained entry it kept. */
+const PRUNED_EVENT = "logs-pruned";
+const AUDIT_CHANNEL = "audit";
+
+export interface AuditQuery {
+  /** Only these event types. */
+  events?: string[];
+  userId?: string;
+  /** Inclusive lower bound on the entry timestamp. */
+  since?: number;
+  /** Exclusive upper bound on the entry timestamp. */
+  until?: number;
+  limit?: number;
+  /** Opaque position returned as `nextCursor` by the previous page. */
+  cursor?: string;
+}
+
+export interface AuditPage {
+  entries: AuditEntry[];
+  /** Absent on the last page. */
+  nextCursor?: string;
+}
+
+export interface AuditRetentionPolicy {
+  /** Entries older than this many days are removed; 0 keeps them. */
+  maxAgeDays: number;
+  /** Only this many of the newest entries are kept per room; 0 keeps all. */
+  maxEntries: number;
+}
+
+function readNonNegativeInt(name: string): number {
+  const raw = process.env[name];
+  if (!raw) return 0;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    console.warn(`[audit] invalid ${name}: ${raw}, ignoring`);
+    return 0;
+  }
+  return value;
+}
+
+export const AUDIT_RETENTION: AuditRetentionPolicy = {
+  maxAgeDays: readNonNegativeInt("AUDIT_MAX_AGE_DAYS"),
+  maxEntries: readNonNegativeInt("AUDIT_MAX_ENTRIES"),
+};
+
+export interface AuditVerification {
+  valid: boolean;
+  /** Chained entries checked, from the oldest one still stored. */
+  checked: number;
+  /** Entries written before chaining was introduced, which cannot be verified. */
+  unchained: number;
+  /**
+   * Checked entries hashed without `AUDIT_HMAC_SECRET`, which anyone with access to the
+   * store could recompute. Once the secret is set this should stop growing.
+   */
+  unkeyed: number;
+  /** Hash of the newest entry. Recorded elsewhere, it also exposes later truncation. */
+  head?: string;
+  /** The first entry whose link does not hold. */
+  brokenAt?: { seq?: number; timestamp: number; reason: string };
 }
 
-let db: Level | null = null;
+type ChainHead = Pick<AuditEntry, "seq" | "hash">;
 
-export function initAuditLog(dbPath = "./data/audit"): void {
-  db = new Level(dbPath, { valueEncoding: "buffer" });
+let store: Persistence | null = null;
+let chainKey: string | undefined;
+let pubsub: PubSubAdapter | null = null;
+// Appends are chained per room so each entry links to the one written before it
+const appendQueues = new Map<string, Promise<void>>();
+// Read from the store once per room, then kept current by this and the other instances' appends
+const chainHeads = new Map<string, ChainHead>();
+
+/**
+ * `secret` keys the hash chain. Kept out of the store, it stops whoever can edit the store
+ * from rewriting an entry and recomputing the hashes after it.
+ */
+export function initAuditLog(
+  persistence: Persistence,
+  secret = process.env.AUDIT_HMAC_SECRET,
+): void {
+  store = persistence;
+  chainKey = secret || undefined;
+  chainHeads.clear();
+  if (!chainKey) {
+    console.warn(
+      "[audit] AUDIT_HMAC_SECRET is not set; anyone with access to the store can rewrite " +
+        "the audit log undetected. Set it to a strong random value in production",
+    );
+  }
+}
+
+function hashEntry(entry: AuditEntry, key: string | undefined): string {
+  const { seq, prevHash, timestamp, event, userId, displayName, details } = entry;
+  return (key ? createHmac("sha256", key) : createHash("sha256"))
+    .update(JSON.stringify([seq, prevHash, timestamp, event, userId, displayName, details ?? null]))
+    .digest("hex");
+}
+
+function prunedDetails(removed: number, firstKept: number | undefined): string {
+  const resumes = firstKept === undefined ? "" : `, chain resumes at seq ${firstKept}`;
+  return `${removed} entries removed${resumes}`;
+}
+
+/** The oldest seq a pruning marker allows the stored chain to start at. */
+function prunedFrom(marker: AuditEntry): number {
+  const match = /resumes at seq (\d+)$/.exec(marker.details ?? "");
+  return match ? Number(match[1]) : (marker.seq ?? 1);
+}
+
+async function findHead(persistence: Persistence, roomId: string): Promise<ChainHead | undefined> {
+  const cached = chainHeads.get(roomId);
+  if (cached) return cached;
+  let head: AuditEntry | undefined;
+  for (const entry of await persistence.loadAuditEntries(roomId)) {
+    if (entry.hash && (entry.seq ?? 0) > (head?.seq ?? 0)) head = entry;
+  }
+  return head;
+}
+
+/** Keeps a head only if it is further along the chain than the one already known. */
+function advanceHead(roomId: string, head: ChainHead) {
+  const known = chainHeads.get(roomId);
+  if (!known || (head.seq ?? 0) > (known.seq ?? 0)) chainHeads.set(roomId, head);
+}
+
+/** Hears about entries other instances sharing the store append, so chains continue from them. */
+export async function syncAuditLog(adapter: PubSubAdapter): Promise<void> {
+  pubsub = adapter;
+  await adapter.subscribe(AUDIT_CHANNEL, (message) => {
+    try {
+      const { roomId, seq, hash } = JSON.parse(message);
+      // Rooms never looked up here are read from the store when first needed
+      if (chainHeads.has(roomId)) advanceHead(roomId, { seq, hash });
+    } catch (err) {
+      console.error("[audit] ignoring malformed chain head:", err);
+    }
+  });
+}
+
+async function appendChained(persistence: Persistence, roomId: string, entry: AuditEntry) {
+  const previous = await findHead(persistence, roomId);
+  const chained: AuditEntry = {
+    ...entry,
+    seq: (previous?.seq ?? 0) + 1,
+    prevHash: previous?.hash ?? GENESIS_HASH,
+  };
+  chained.hash = hashEntry(chained, chainKey);
+  await persistence.appendAuditEntry(roomId, chained);
+  chainHeads.set(roomId, { seq: chained.seq, hash: chained.hash });
+  pubsub
+    ?.publish(AUDIT_CHANNEL, JSON.stringify({ roomId, seq: chained.seq, hash: chained.hash }))
+    .catch((err) => {
+      console.error("[audit] failed to publish chain head:", err);
+    });
 }
 
 export async function appendLog(roomId: string, entry: AuditEntry): Promise<void> {
-  if (!db) return;
-  const key = `${roomId}:${entry.timestamp}:${nanoid(6)}`;
+  const persistence = store;
+  if (!persistence) return;
+  const queued = (appendQueues.get(roomId) ?? Promise.resolve())
+    .then(() => appendChained(persistence, roomId, entry))
+    .catch((err) => {
+      console.error("[audit] failed to write log entry:", err);
+    });
+  appendQueues.set(roomId, queued);
+  await queued;
+  if (appendQueues.get(roomId) === queued) appendQueues.delete(roomId);
+}
+
+/**
+ * Walks the room's chain from its oldest stored entry. The chain must start at seq 1 unless
+ * a pruning marker in it says retention removed the entries before.
+ */
+export async function verifyLogs(roomId: string): Promise<AuditVerification> {
+  const entries = store ? await store.loadAuditEntries(roomId) : [];
+  const chained = entries.filter((entry) => entry.hash).sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+  const result: AuditVerification = {
+    valid: true,
+    checked: 0,
+    unchained: entries.length - chained.length,
+    unkeyed: 0,
+    head: chained[chained.length - 1]?.hash,
+  };
+  const firstChainedAt = chained[0]?.timestamp ?? Number.POSITIVE_INFINITY;
+  const strays = entries.filter((entry) => !entry.hash && entry.timestamp > firstChainedAt);
+
+  let previous: AuditEntry | undefined;
+  let keyedSeen = false;
+  for (const entry of chained) {
+    // Entries hashed before the secret was set verify without it, but only ahead of keyed ones
+    const keyed = chainKey !== undefined && hashEntry(entry, chainKey) === entry.hash;
+    const unkeyed = !keyed && !keyedSeen && hashEntry(entry, undefined) === entry.hash;
+    let reason: string | undefined;
+    if (!keyed && !unkeyed) {
+      reason = "entry modified";
+    } else if (previous && entry.seq === previous.seq) {
+      reason = "conflicting entries";
+    } else if (previous && entry.seq !== (previous.seq ?? 0) + 1) {
+      reason = "entry missing";
+    } else if (previous && entry.prevHash !== previous.hash) {
+      reason = "link mismatch";
+    }
+    if (reason) {
+      return {
+        ...result,
+        valid: false,
+        brokenAt: { seq: entry.seq, timestamp: entry.timestamp, reason },
+      };
+    }
+    result.checked++;
+    if (unkeyed) result.unkeyed++;
+    keyedSeen ||= keyed;
+    previous = entry;
+  }
+  const oldest = chained[0];
+  if (oldest && (oldest.seq ?? 1) > 1) {
+    const markers = chained.filter((entry) => entry.event === PRUNED_EVENT);
+    const allowed = Math.max(1, ...markers.map(prunedFrom));
+    if ((oldest.seq ?? 1) > allowed) {
+      return {
+        ...result,
+        valid: false,
+        brokenAt: {
+          seq: oldest.seq,
+          timestamp: oldest.timestamp,
+          reason: "oldest entries missing",
+        },
+      };
+    }
+  }
+  if (strays.length > 0) {
+    // Unchained entries can only predate the chain; a later one was inserted by hand
+    const stray = strays[strays.length - 1];
+    return {
+      ...result,
+      valid: false,
+      brokenAt: { timestamp: stray.timestamp, reason: "unchained entry" },
+    };
+  }
+  return result;
+}
+
+export async function getLogs(roomId: string, limit = 100): Promise<AuditEntry[]> {
+  if (!store) return [];
   try {
-    await db.put(key, Buffer.from(JSON.stringify(entry)) as unknown as string);
+    return await store.loadAuditEntries(roomId, limit);
   } catch (err) {
-    console.error("[audit] failed to write log entry:", err);
+    console.error("[audit] failed to read logs:", err);
+    return [];
   }
 }
 
-export async function getLogs(roomId: string, limit = 100): Promise<AuditEntry[]> {
-  if (!db) return [];
-  const entries: AuditEntry[] = [];
+function parseTime(value: unknown): number | undefined | null {
+  if (value === undefined || value === "") return undefined;
+  if (typeof value !== "string") return null;
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isFinite(time) ? time : null;
+}
+
+/** Reads query-string filters; returns an error message when one is malformed. */
+export function parseAuditQuery(query: Record<string, unknown>): AuditQuery | string {
+  const since = parseTime(query.since);
+  if (since === null) return "invalid since";
+  const until = parseTime(query.until);
+  if (until === null) return "invalid until";
+  let limit: number | undefined;
+  if (query.limit !== undefined) {
+    limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1) return "invalid limit";
+  }
+  if (
+    query.cursor !== undefined &&
+    (typeof query.cursor !== "string" || !decodeCursor(query.cursor))
+  ) {
+    return "invalid cursor";
+  }
+  const events =
+    typeof query.event === "string" && query.event
+      ? query.event.split(",").map((event) => event.trim())
+      : undefined;
+  return {
+    events,
+    userId: typeof query.userId === "string" && query.userId ? query.userId : undefined,
+    since,
+    until,
+    limit,
+    cursor: query.cursor as string | undefined,
+  };
+}
+
+// A cursor names the last entry returned: its timestamp and how many entries sharing
+// that timestamp had been returned, since timestamps are not unique
+function encodeCursor(timestamp: number, skip: number): string {
+  return Buffer.from(`${timestamp}:${skip}`).toString("base64url");
+}
+
+function decodeCursor(cursor: string): { timestamp: number; skip: number } | null {
+  const match = /^(\d+):(\d+)$/.exec(Buffer.from(cursor, "base64url").toString());
+  return match ? { timestamp: Number(match[1]), skip: Number(match[2]) } : null;
+}
+
+function matchesQuery(entry: AuditEntry, query: AuditQuery): boolean {
+  if (query.events && !query.events.includes(entry.event)) return false;
+  if (query.userId && entry.userId !== query.userId) return false;
+  if (query.since !== undefined && entry.timestamp < query.since) return false;
+  if (query.until !== undefined && entry.timestamp >= query.until) return false;
+  return true;
+}
+
+/** Matching entries newest first, one page at a time. Without a limit every match is returned. */
+export async function queryLogs(roomId: string, query: AuditQuery = {}): Promise<AuditPage> {
+  if (!store) return { entries: [] };
+  let entries: AuditEntry[];
   try {
-    for await (const [, value] of db.iterator<string, Buffer>({
-      gte: `${roomId}:`,
-      lte: `${roomId}:\xff`,
-      keyEncoding: "utf8",
-      reverse: true,
-      limit,
-    })) {
-      try {
-        entries.push(JSON.parse((value as unknown as Buffer).toString("utf-8")));
-      } catch {
-        // Skip malformed entries
-      }
-    }
+    entries = (await store.loadAuditEntries(roomId)).filter((entry) => matchesQuery(entry, query));
   } catch (err) {
     console.error("[audit] failed to read logs:", err);
+    return { entries: [] };
+  }
+
+  let start = 0;
+  const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+  if (cursor) {
+    while (start < entries.length && entries[start].timestamp > cursor.timestamp) start++;
+    let skipped = 0;
+    while (
+      start < entries.length &&
+      entries[start].timestamp === cursor.timestamp &&
+      skipped < cursor.skip
+    ) {
+      start++;
+      skipped++;
+    }
+  }
+
+  const end = query.limit ? Math.min(start + query.limit, entries.length) : entries.length;
+  const page = entries.slice(start, end);
+  if (end >= entries.length || page.length === 0) return { entries: page };
+
+  const last = page[page.length - 1].timestamp;
+  let sameTimestamp = 0;
+  for (let i = end - 1; i >= 0 && entries[i].timestamp === last; i--) sameTimestamp++;
+  return { entries: page, nextCursor: encodeCursor(last, sameTimestamp) };
+}
+
+const CSV_COLUMNS = ["timestamp", "event", "userId", "displayName", "details"] as const;
+
+function csvField(value: string): string {
+  // Leading formula characters are defused so spreadsheets show the text as-is
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function formatLogsCsv(entries: AuditEntry[]): string {
+  const rows = entries.map((entry) =>
+    CSV_COLUMNS.map((column) =>
+      column === "timestamp"
+        ? new Date(entry.timestamp).toISOString()
+        : csvField(entry[column] ?? ""),
+    ).join(","),
+  );
+  return `${[CSV_COLUMNS.join(","), ...rows].join("\n")}\n`;
+}
+
+export function formatLogsJsonl(entries: AuditEntry[]): string {
+  return entries.map((entry) => `${JSON.stringify(entry)}\n`).join("");
+}
+
+/**
+ * Applies the retention policy to each room and returns how many entries were removed. Each
+ * pruned room gets a marker entry saying where its chain now starts, so verification can tell
+ * retention from someone deleting the oldest entries; it counts toward `maxEntries`.
+ */
+export async function pruneLogs(
+  roomIds: Iterable<string>,
+  policy: AuditRetentionPolicy = AUDIT_RETENTION,
+  now = Date.now(),
+): Promise<number> {
+  const persistence = store;
+  if (!persistence || (!policy.maxAgeDays && !policy.maxEntries)) return 0;
+  const retention: AuditRetention = {
+    before: policy.maxAgeDays ? now - policy.maxAgeDays * DAY_MS : undefined,
+    keep: policy.maxEntries ? Math.max(policy.maxEntries - 1, 1) : undefined,
+  };
+  let removed = 0;
+  for (const roomId of roomIds) {
+    try {
+      const count = await persistence.pruneAuditEntries(roomId, retention);
+      if (count === 0) continue;
+      removed += count;
+      const kept = (await persistence.loadAuditEntries(roomId)).filter((entry) => entry.hash);
+      const firstKept =
+        kept.length > 0 ? Math.min(...kept.map((entry) => entry.seq ?? 1)) : undefined;
+      await appendLog(roomId, {
+        timestamp: now,
+        event: PRUNED_EVENT,
+        userId: "",
+        displayName: "",
+        details: prunedDetails(count, firstKept),
+      });
+    } catch (err) {
+      console.error(`[audit] failed to prune logs for ${roomId}:`, err);
+    }
   }
-  return entries;
+  return removed;
 }
 
 export async function clearLogs(roomId: string): Promise<void> {
-  if (!db) return;
+  if (!store) return;
+  chainHeads.delete(roomId);
   try {
-    const batch = db.batch();
-    for await (const [key] of db.iterator<string, Buffer>({
-      gte: `${roomId}:`,
-      lte: `${roomId}:\xff`,
-      keyEncoding: "utf8",
-    })) {
-      batch.del(key);
-    }
-    await batch.write();
+    await store.deleteAuditEntries(roomId);
   } catch (err) {
     console.error("[audit] failed to clear logs:", err);
   }
 }
 
-export async function closeAuditLog(): Promise<void> {
-  if (db) {
+function legacyKey(entry: AuditEntry): string {
+  const { timestamp, event, userId, displayName, details } = entry;
+  return JSON.stringify([timestamp, event, userId, displayName, details ?? null]);
+}
+
+/**
+ * Copies the entries earlier versions kept in a separate LevelDB at `dbPath` into
+ * `persistence`, then renames the directory so the import runs once. Entries already copied by
+ * an interrupted import are skipped. Returns how many entries were imported.
+ */
+export async function importLegacyAuditLog(
+  persistence: Persistence,
+  dbPath = "./data/audit",
+): Promise<number> {
+  if (!existsSync(dbPath)) return 0;
+  const byRoom = new Map<string, AuditEntry[]>();
+  const db = new Level<string, string>(dbPath);
+  try {
+    // Keys were `${roomId}:${timestamp}:${id}`
+    for await (const [key, value] of db.iterator()) {
+      const roomId = key.slice(0, key.lastIndexOf(":", key.lastIndexOf(":") - 1));
+      try {
+        const entry = JSON.parse(value) as AuditEntry;
+        byRoom.set(roomId, [...(byRoom.get(roomId) ?? []), entry]);
+      } catch {
+        // Skip malformed entries
+      }
+    }
+  } finally {
     await db.close();
-    db = null;
   }
+
+  let imported = 0;
+  for (const [roomId, entries] of byRoom) {
+    const existing = new Set(
+      (await persistence.loadAuditEntries(roomId)).filter((e) => !e.hash).map(legacyKey),
+    );
+    for (const entry of entries) {
+      if (existing.has(legacyKey(entry))) continue;
+      await persistence.appendAuditEntry(roomId, entry);
+      imported++;
+    }
+  }
+  renameSync(dbPath, `${dbPath}.imported`);
+  return imported;
+}
+
+/** The store itself is closed with the rest of persistence. */
+export async function closeAuditLog(): Promise<void> {
+  store = null;
+  chainHeads.clear();
 }
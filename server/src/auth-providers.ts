@@ -0,0 +1,156 @@
+import { createOidcProvider } from "./oidc.js";
+
+/** Who signed in, as carried in the server's JWT. */
+export interface AuthIdentity {
+  sub: string;
+  username: string;
+  displayName: string;
+  avatar: string | null;
+  /** GitHub organization logins, for room allowlists. */
+  orgs?: string[];
+  /** GitHub teams as `org/team-slug`. */
+  teams?: string[];
+}
+
+export interface AuthFailure {
+  status: number;
+  error: string;
+}
+
+export interface AuthorizationRequest {
+  url: string;
+  /** Values the provider needs back in `callback`, kept server-side in a signed cookie. */
+  session?: Record<string, string>;
+}
+
+/**
+ * A login method mounted at `/auth/<id>`. `authorize` starts the flow and `callback`
+ * exchanges the code the provider redirected back with.
+ */
+export interface AuthProvider {
+  id: string;
+  name: string;
+  authorize(redirectUri: string, state: string): Promise<AuthorizationRequest>;
+  callback(
+    code: string,
+    redirectUri: string,
+    session: Record<string, string>,
+  ): Promise<AuthIdentity | AuthFailure>;
+}
+
+interface GitHubUser {
+  id: number;
+  login: string;
+  name: string | null;
+  avatar_url: string;
+}
+
+interface GitHubTeam {
+  slug: string;
+  organization: { login: string };
+}
+
+/** Allowlists fail closed, so a membership lookup that fails only costs access to those rooms. */
+async function fetchGitHubList<T>(url: string, accessToken: string): Promise<T[]> {
+  try {
+    const res = await fetch(`${url}?per_page=100`, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        Accept: "application/vnd.github+json",
+      },
+    });
+    if (!res.ok) return [];
+    return (await res.json()) as T[];
+  } catch {
+    return [];
+  }
+}
+
+export function createGitHubProvider(clientId: string, clientSecret: string): AuthProvider {
+  return {
+    id: "github",
+    name: "GitHub",
+
+    async authorize(_redirectUri, state) {
+      const params = new URLSearchParams({
+        client_id: clientId,
+        scope: "read:user read:org",
+        state,
+      });
+      return { url: `https://github.com/login/oauth/authorize?${params}` };
+    },
+
+    async callback(code) {
+      let tokenResponse: Response;
+      try {
+        tokenResponse = await fetch("https://github.com/login/oauth/access_token", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Accept: "application/json",
+          },
+          body: JSON.stringify({ client_id: clientId, client_secret: clientSecret, code }),
+        });
+      } catch {
+        return { status: 502, error: "Failed to contact GitHub" };
+      }
+      if (!tokenResponse.ok) return { status: 401, error: "GitHub auth failed" };
+
+      const { access_token } = (await tokenResponse.json()) as { access_token: string };
+      if (!access_token) return { status: 401, error: "GitHub auth failed" };
+
+      let userResponse: Response;
+      try {
+        userResponse = await fetch("https://api.github.com/user", {
+          headers: {
+            Authorization: `Bearer ${access_token}`,
+            Accept: "application/vnd.github+json",
+          },
+        });
+      } catch {
+        return { status: 502, error: "Failed to fetch user info" };
+      }
+      if (!userResponse.ok) return { status: 401, error: "Failed to fetch user info" };
+
+      const githubUser = (await userResponse.json()) as GitHubUser;
+      const [orgs, teams] = await Promise.all([
+        fetchGitHubList<{ login: string }>("https://api.github.com/user/orgs", access_token),
+        fetchGitHubList<GitHubTeam>("https://api.github.com/user/teams", access_token),
+      ]);
+      return {
+        sub: String(githubUser.id),
+        username: githubUser.login,
+        displayName: githubUser.name || githubUser.login,
+        avatar: githubUser.avatar_url,
+        orgs: orgs.map((org) => org.login),
+        teams: teams.map((team) => `${team.organization.login}/${team.slug}`),
+      };
+    },
+  };
+}
+
+/**
+ * GitHub stays available by default, as before OIDC support; configuring an OIDC issuer
+ * without GitHub credentials offers only that issuer.
+ */
+export function getConfiguredProviders(): AuthProvider[] {
+  const providers: AuthProvider[] = [];
+  const oidcIssuer = process.env.OIDC_ISSUER;
+  const githubClientId = process.env.GITHUB_CLIENT_ID || "";
+  if (githubClientId || !oidcIssuer) {
+    providers.push(createGitHubProvider(githubClientId, process.env.GITHUB_CLIENT_SECRET || ""));
+  }
+  if (oidcIssuer) {
+    providers.push(
+      createOidcProvider({
+        issuer: oidcIssuer,
+        clientId: process.env.OIDC_CLIENT_ID || "",
+        clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+        name: process.env.OIDC_NAME || "Single sign-on",
+        scopes: process.env.OIDC_SCOPES || undefined,
+        redirectUri: process.env.OIDC_REDIRECT_URI || undefined,
+      }),
+    );
+  }
+  return providers;
+}
@@ -0,0 +1,75 @@
+import { randomUUID } from "node:crypto";
+import type { PubSubAdapter } from "./pubsub.js";
+
+/** How long an instance's counts outlive its last renewal, and how often it renews them. */
+const INSTANCE_TTL_SECONDS = 30;
+const RENEW_INTERVAL_MS = 10_000;
+
+export interface ClientCounts {
+  /** Sets this instance's count for `id` and returns the count across live instances. */
+  set(id: string, count: number): Promise<number>;
+  total(id: string): Promise<number>;
+  /** Withdraws this instance's counts and stops renewing its lease. */
+  close(): Promise<void>;
+}
+
+/**
+ * Counts clients across instances. Each instance writes its own count as a field of the
+ * shared `${prefix}:${id}` hash and holds an expiring lease, so an instance that crashed
+ * stops counting once its lease runs out rather than leaving the total off for good.
+ */
+export function createClientCounts(pubsub: PubSubAdapter, prefix: string): ClientCounts {
+  const instanceId = randomUUID();
+  const local = new Map<string, number>();
+  const leaseKey = (instance: string) => `${prefix}-lease:${instance}`;
+  const countKey = (id: string) => `${prefix}:${id}`;
+
+  function renew(): Promise<void> {
+    return pubsub.set(leaseKey(instanceId), "1", INSTANCE_TTL_SECONDS).catch((err) => {
+      console.error(`[pubsub] failed to renew ${prefix} lease:`, err);
+    });
+  }
+  const leased = renew();
+  const renewTimer = setInterval(renew, RENEW_INTERVAL_MS);
+  renewTimer.unref();
+
+  async function total(id: string): Promise<number> {
+    const fields = await pubsub.getFields(countKey(id));
+    let sum = local.get(id) ?? 0;
+    for (const [instance, value] of Object.entries(fields)) {
+      if (instance === instanceId) continue;
+      if (await pubsub.get(leaseKey(instance))) {
+        sum += Number(value) || 0;
+      } else {
+        await pubsub.deleteField(countKey(id), instance);
+      }
+    }
+    return sum;
+  }
+
+  return {
+    async set(id, count) {
+      await leased;
+      if (count > 0) {
+        local.set(id, count);
+        await pubsub.setField(countKey(id), instanceId, String(count));
+      } else {
+        local.delete(id);
+        await pubsub.deleteField(countKey(id), instanceId);
+      }
+      return total(id);
+    },
+
+    total,
+
+    async close() {
+      clearInterval(renewTimer);
+      const ids = [...local.keys()];
+      local.clear();
+      await Promise.allSettled([
+        ...ids.map((id) => pubsub.deleteField(countKey(id), instanceId)),
+        pubsub.del(leaseKey(instanceId)),
+      ]);
+    },
+  };
+}
@@ -1,17 +1,34 @@
 import type { IncomingMessage } from "node:http";
-import { minimatch } from "minimatch";
 import { WebSocket, WebSocketServer } from "ws";
 
 import { appendLog } from "./audit-log.js";
+import { createClientCounts } from "./client-counts.js";
 import { verifyJWT } from "./github-auth.js";
+import { approvalLatency, controlMessages, rateLimitDisconnects, relayedBytes } from "./metrics.js";
 import {
   clearPermission,
-  clearRoomPermissions,
   getPermission,
+  hasWriteGrant,
+  isPermission,
+  isReadOnlyPath,
+  minPermission,
   setPermission,
 } from "./permissions.js";
 import type { Permission } from "./persistence.js";
-import { getRoom, removeRoom, touchRoom } from "./rooms.js";
+import { type PubSubAdapter, createLocalPubSub } from "./pubsub.js";
+import {
+  type MemberIdentity,
+  type RoomSettings,
+  findInvite,
+  getRoom,
+  isAllowed,
+  onRoomRemoved,
+  parsePathPatterns,
+  removeRoom,
+  rotateRoomToken,
+  touchRoom,
+  updateRoom,
+} from "./rooms.js";
 
 const ALLOWED_TYPES = new Set([
   "file-op",
@@ -25,6 +42,7 @@ const ALLOWED_TYPES = new Set([
   "join-response",
   "focus-request",
   "summon",
+  "comment-mention",
   "kick",
   "sync-request",
   "set-permission",
@@ -38,6 +56,8 @@ const ALLOWED_TYPES = new Set([
   "host-transfer-decline",
   "host-changed",
   "host-disconnected",
+  "rotate-token",
+  "set-co-host",
 ]);
 
 const MSG_RATE_WINDOW = 10_000;
@@ -45,19 +65,75 @@ const MSG_RATE_LIMIT = 100;
 const UNKNOWN_TYPE_WARN_LIMIT = 10;
 let unknownTypeWarnCount = 0;
 
+// One channel for every room, so instances without clients in a room still see permission changes
+const CONTROL_CHANNEL = "control";
+
+/**
+ * Summarizes a file write for the audit log: operation, path and size, never content.
+ * Returns null for the chunks that follow a transfer's start.
+ */
+export function describeFileOp(msg: Record<string, unknown>): string | null {
+  const op =
+    msg.type === "file-op" && typeof msg.op === "object" && msg.op !== null
+      ? (msg.op as Record<string, unknown>)
+      : { ...msg, type: msg.type === "file-chunk-start" ? "chunk-start" : msg.type };
+  const path = typeof op.path === "string" ? op.path : "";
+  switch (op.type) {
+    case "create":
+    case "modify": {
+      const content = typeof op.content === "string" ? op.content : "";
+      const size = Buffer.byteLength(content, op.binary ? "base64" : "utf8");
+      return `${op.type} ${path}, ${size} bytes`;
+    }
+    case "chunk-start":
+      return `${op.type} ${path}, ${Number(op.totalSize) || 0} bytes`;
+    case "rename":
+      return `rename ${String(op.oldPath ?? "")} -> ${String(op.newPath ?? "")}`;
+    case "delete":
+    case "folder-create":
+      return `${op.type} ${path}`;
+    default:
+      return null;
+  }
+}
+
+/** Every path a file write touches, both sides for a rename; empty when it names none. */
+export function fileOpPaths(msg: Record<string, unknown>): string[] {
+  const op =
+    msg.type === "file-op" && typeof msg.op === "object" && msg.op !== null
+      ? (msg.op as Record<string, unknown>)
+      : msg;
+  const paths = op.type === "rename" ? [op.oldPath, op.newPath] : [op.path];
+  return paths.every((path) => typeof path === "string") ? (paths as string[]) : [];
+}
+
+/** The pub/sub key holding a room's host user id, which the document channel reads too. */
+export function hostKey(roomId: string): string {
+  return `host:${roomId}`;
+}
+
 interface ControlClient {
   ws: WebSocket;
   userId: string;
   verifiedUserId: string | null;
+  /** The login token's claims, checked against the room's allowlist. */
+  identity: MemberIdentity | null;
   displayName: string;
   isHost: boolean;
+  /** Granted by the host: may approve joins, kick and change permissions. */
+  isCoHost: boolean;
   isApproved: boolean;
   permission: Permission;
   msgTimestamps: number[];
   joinOrder: number;
+  /** When the client's pending join request was sent to the host. */
+  joinRequestedAt?: number;
+  /** Set when the client connected with an invite rather than the room token. */
+  invitePermission?: Permission;
 }
 
 interface ControlRoom {
+  id: string;
   clients: Map<WebSocket, ControlClient>;
   pendingApprovals: Map<string, WebSocket>;
   pendingTransferTarget: string | null;
@@ -66,21 +142,62 @@ interface ControlRoom {
   nextJoinOrder: number;
 }
 
+/** What one instance relays to the others about a room's control channel. */
+interface ControlEvent {
+  roomId: string;
+  kind:
+    | "broadcast"
+    | "to-user"
+    | "to-moderators"
+    | "command"
+    | "host-changed"
+    | "host-left"
+    | "expired";
+  /** The serialized client message, or for `command` the host message to replay. */
+  data?: string;
+  userId?: string;
+  displayName?: string;
+}
+
+export interface ControlClientInfo {
+  userId: string;
+  displayName: string;
+  isHost: boolean;
+  isCoHost: boolean;
+  isApproved: boolean;
+  permission: Permission;
+}
+
 export interface ControlWSSOptions {
   onPermissionChange?: (roomId: string, userId: string, permission: Permission) => void;
+  onTokenRotated?: (roomId: string, approvedUserIds: Set<string>) => void;
+  /** Shares broadcasts and host state with other server instances. */
+  pubsub?: PubSubAdapter;
 }
 
 export function createControlWSS(options?: ControlWSSOptions) {
   const rooms = new Map<string, ControlRoom>();
+  const pubsub = options?.pubsub ?? createLocalPubSub();
+  const clientCounts = createClientCounts(pubsub, "control-clients");
+  // Removed on any instance, so clients connected here must go too
+  const stopWatchingRemovals = onRoomRemoved((roomId) => {
+    const room = rooms.get(roomId);
+    if (room) closeRoomLocally(room, true);
+  });
   const wss = new WebSocketServer({
     noServer: true,
     maxPayload: 2 * 1024 * 1024,
   });
 
+  pubsub.subscribe(CONTROL_CHANNEL, handleRemoteEvent).catch((err) => {
+    console.error("[control] failed to subscribe to other instances:", err);
+  });
+
   function getOrCreateRoom(roomId: string): ControlRoom {
     let room = rooms.get(roomId);
     if (!room) {
       room = {
+        id: roomId,
         clients: new Map(),
         pendingApprovals: new Map(),
         pendingTransferTarget: null,
@@ -98,19 +215,65 @@ export function createControlWSS(options?: ControlWSSOptions) {
 
   function safeSend(ws: WebSocket, data: string) {
     try {
-      if (ws.readyState === WebSocket.OPEN) ws.send(data);
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(data);
+        relayedBytes.inc({ channel: "control" }, Buffer.byteLength(data));
+      }
     } catch {
       // Send may fail if socket is closing
     }
   }
 
+  function broadcastLocal(room: ControlRoom, data: string, exclude?: WebSocket) {
+    for (const [ws, client] of room.clients) {
+      if (ws !== exclude && client.isApproved) safeSend(ws, data);
+    }
+  }
+
   function broadcast(room: ControlRoom, data: Buffer | string, exclude?: WebSocket) {
     const messageString = typeof data === "string" ? data : data.toString("utf-8");
+    broadcastLocal(room, messageString, exclude);
+    publish({ roomId: room.id, kind: "broadcast", data: messageString });
+  }
+
+  function publish(event: ControlEvent) {
+    pubsub.publish(CONTROL_CHANNEL, JSON.stringify(event)).catch((err) => {
+      console.error(`[control] failed to publish to other instances for ${event.roomId}:`, err);
+    });
+  }
+
+  /** Sends to the user's connections here, or to other instances when it has none here. */
+  function sendToUser(room: ControlRoom, userId: string, data: string) {
+    let delivered = false;
     for (const [ws, client] of room.clients) {
-      if (ws !== exclude && client.isApproved) safeSend(ws, messageString);
+      if (client.userId === userId) {
+        safeSend(ws, data);
+        delivered = true;
+      }
+    }
+    if (!delivered) publish({ roomId: room.id, kind: "to-user", userId, data });
+  }
+
+  /** Sends to the host and every co-host, here and on other instances. */
+  function sendToModerators(room: ControlRoom, message: Record<string, unknown>) {
+    const data = JSON.stringify(message);
+    sendToLocalModerators(room, data);
+    publish({ roomId: room.id, kind: "to-moderators", data });
+  }
+
+  function sendToLocalModerators(room: ControlRoom, data: string) {
+    for (const [ws, client] of room.clients) {
+      if (isModerator(client)) safeSend(ws, data);
     }
   }
 
+  function countClients(room: ControlRoom): Promise<void> {
+    return clientCounts.set(room.id, room.clients.size).then(
+      () => undefined,
+      (err) => console.error(`[control] failed to update shared client count for ${room.id}:`, err),
+    );
+  }
+
   function sendTo(ws: WebSocket, message: Record<string, unknown>) {
     safeSend(ws, JSON.stringify(message));
   }
@@ -122,6 +285,10 @@ export function createControlWSS(options?: ControlWSSOptions) {
     return undefined;
   }
 
+  function isModerator(client: ControlClient): boolean {
+    return client.isHost || client.isCoHost;
+  }
+
   function findClientByUserId(room: ControlRoom, userId: string): ControlClient | undefined {
     for (const client of room.clients.values()) {
       if (client.userId === userId) return client;
@@ -130,24 +297,424 @@ export function createControlWSS(options?: ControlWSSOptions) {
   }
 
   const HOST_ONLY_TYPES = new Set([
-    "kick",
     "summon",
     "present-start",
     "present-stop",
     "session-end",
-    "set-permission",
     "host-transfer-offer",
+    "rotate-token",
+    "set-co-host",
   ]);
 
-  function determineHostStatus(
+  // Co-hosts share these with the host
+  const MODERATOR_TYPES = new Set(["join-response", "kick", "set-permission"]);
+
+  /**
+   * Approved clients stay attached and receive the new token so they can reconnect;
+   * everyone else (pending approval) is turned away.
+   */
+  async function rotateToken(roomId: string): Promise<string | undefined> {
+    const token = await rotateRoomToken(roomId);
+    if (!token) return undefined;
+    const approvedUserIds = notifyTokenRotated(roomId, token);
+    publish({
+      roomId,
+      kind: "command",
+      data: JSON.stringify({ type: "token-rotated", token, approvedUserIds: [...approvedUserIds] }),
+    });
+    return token;
+  }
+
+  function notifyTokenRotated(
+    roomId: string,
+    token: string,
+    approvedElsewhere: string[] = [],
+  ): Set<string> {
+    const approvedUserIds = new Set<string>(approvedElsewhere);
+    const room = rooms.get(roomId);
+    if (room) {
+      for (const [ws, client] of room.clients) {
+        if (client.isApproved) {
+          approvedUserIds.add(client.userId);
+          // Invite guests keep using their invite, which rotation does not revoke
+          if (!client.invitePermission) sendTo(ws, { type: "token-rotated", token });
+        } else {
+          sendTo(ws, { type: "join-response", approved: false, isHost: false });
+          ws.close(1000, "room token rotated");
+        }
+      }
+      room.pendingApprovals.clear();
+    }
+    options?.onTokenRotated?.(roomId, approvedUserIds);
+    return approvedUserIds;
+  }
+
+  /** Invite guests never get more than the invite grants, whatever the host picks. */
+  function capPermission(client: ControlClient, permission: Permission): Permission {
+    return client.invitePermission
+      ? minPermission(permission, client.invitePermission)
+      : permission;
+  }
+
+  async function determineHostStatus(
     client: ControlClient,
     room: ControlRoom,
     serverRoom: ReturnType<typeof getRoom>,
-  ): void {
-    if (client.verifiedUserId && serverRoom?.hostUserId) {
+  ): Promise<void> {
+    // The allowlist may have been tightened since the client connected
+    if (client.invitePermission || !isAllowed(serverRoom?.allowlist, client.identity)) {
+      client.isHost = false;
+    } else if (client.verifiedUserId && serverRoom?.hostUserId) {
       client.isHost = client.verifiedUserId === serverRoom.hostUserId;
+      if (client.isHost) await pubsub.set(hostKey(room.id), client.userId);
     } else {
-      client.isHost = !getHostClient(room);
+      client.isHost = !getHostClient(room) && (await claimHost(room.id, client.userId));
+    }
+    client.isCoHost =
+      !client.isHost &&
+      isAllowed(serverRoom?.allowlist, client.identity) &&
+      isVerifiedCoHost(client, serverRoom?.coHostUserIds);
+  }
+
+  /** Co-host ids are login ids, so a client claiming one without logging in as it gets nothing. */
+  function isVerifiedCoHost(client: ControlClient, coHostUserIds: string[] | undefined): boolean {
+    return (
+      !!client.verifiedUserId &&
+      client.verifiedUserId === client.userId &&
+      !!coHostUserIds?.includes(client.verifiedUserId)
+    );
+  }
+
+  /** Takes the room's host slot unless another user holds it, possibly on another instance. */
+  async function claimHost(roomId: string, userId: string): Promise<boolean> {
+    if (await pubsub.setIfAbsent(hostKey(roomId), userId)) return true;
+    return (await pubsub.get(hostKey(roomId))) === userId;
+  }
+
+  function rejectPendingApprovals(room: ControlRoom) {
+    for (const [userId, pendingWs] of room.pendingApprovals) {
+      void appendLog(room.id, {
+        timestamp: Date.now(),
+        event: "join-denied",
+        userId,
+        displayName: room.clients.get(pendingWs)?.displayName ?? "",
+        details: "host left",
+      });
+      sendTo(pendingWs, { type: "join-response", approved: false, isHost: false });
+    }
+    room.pendingApprovals.clear();
+  }
+
+  /**
+   * Promotes the earliest-joined eligible client here. Returns whether the room has a
+   * host afterwards, which may be one another instance elected first.
+   */
+  async function electHost(room: ControlRoom): Promise<boolean> {
+    const allowlist = getRoom(room.id)?.allowlist;
+    let newHost: ControlClient | undefined;
+    for (const client of room.clients.values()) {
+      if (
+        client.isApproved &&
+        !client.invitePermission &&
+        isAllowed(allowlist, client.identity) &&
+        (!newHost || client.joinOrder < newHost.joinOrder)
+      ) {
+        newHost = client;
+      }
+    }
+    if (!newHost) return false;
+    if (!(await pubsub.setIfAbsent(hostKey(room.id), newHost.userId))) return true;
+    newHost.isHost = true;
+    const serverRoom = getRoom(room.id);
+    if (newHost.verifiedUserId && serverRoom) {
+      serverRoom.hostUserId = newHost.verifiedUserId;
+      touchRoom(room.id);
+    }
+    void appendLog(room.id, {
+      timestamp: Date.now(),
+      event: "host-transfer",
+      userId: newHost.userId,
+      displayName: newHost.displayName,
+      details: "auto-elected after host disconnect",
+    });
+    sendTo(newHost.ws, {
+      type: "host-transfer-complete",
+      userId: newHost.userId,
+      displayName: newHost.displayName,
+    });
+    publish({ roomId: room.id, kind: "host-changed", userId: newHost.userId });
+    broadcast(
+      room,
+      JSON.stringify({
+        type: "host-changed",
+        userId: newHost.userId,
+        displayName: newHost.displayName,
+      }),
+      newHost.ws,
+    );
+    return true;
+  }
+
+  async function replaceHost(room: ControlRoom) {
+    await pubsub.del(hostKey(room.id));
+    if (await electHost(room)) return;
+    broadcastLocal(room, JSON.stringify({ type: "host-disconnected" }));
+    publish({ roomId: room.id, kind: "host-left" });
+  }
+
+  function applyJoinResponse(room: ControlRoom, msg: Record<string, unknown>, decidedBy: string) {
+    const targetUserId = msg.userId;
+    if (typeof targetUserId !== "string" || !targetUserId) return;
+    if (typeof msg.approved !== "boolean") return;
+    const targetWs = room.pendingApprovals.get(targetUserId);
+    if (!targetWs) return;
+    room.pendingApprovals.delete(targetUserId);
+    const targetClient = room.clients.get(targetWs);
+    if (!targetClient) return;
+    if (targetClient.joinRequestedAt) {
+      approvalLatency.observe((Date.now() - targetClient.joinRequestedAt) / 1000);
+      targetClient.joinRequestedAt = undefined;
+    }
+    targetClient.isApproved = msg.approved;
+    if (isPermission(msg.permission)) {
+      targetClient.permission = capPermission(targetClient, msg.permission);
+    }
+    if (targetClient.isApproved && targetClient.userId) {
+      setPermission(room.id, targetClient.userId, targetClient.permission);
+      void appendLog(room.id, {
+        timestamp: Date.now(),
+        event: "join",
+        userId: targetClient.userId,
+        displayName: targetClient.displayName,
+        details: `approved by ${decidedBy}, ${targetClient.permission}`,
+      });
+    } else if (!targetClient.isApproved) {
+      void appendLog(room.id, {
+        timestamp: Date.now(),
+        event: "join-denied",
+        userId: targetClient.userId,
+        displayName: targetClient.displayName,
+        details: `denied by ${decidedBy}`,
+      });
+    }
+    sendTo(targetWs, {
+      type: "join-response",
+      approved: targetClient.isApproved,
+      permission: targetClient.permission,
+      readOnlyPatterns: targetClient.isApproved ? getRoom(room.id)?.readOnlyPatterns : undefined,
+      isHost: targetClient.isHost,
+      isCoHost: targetClient.isCoHost,
+    });
+    // Other moderators may still have the request open
+    sendToModerators(room, {
+      type: "join-request-resolved",
+      userId: targetClient.userId,
+      approved: targetClient.isApproved,
+      displayName: decidedBy,
+    });
+  }
+
+  function applyKick(
+    roomId: string,
+    room: ControlRoom | undefined,
+    targetUserId: string,
+    kickedBy: string,
+  ) {
+    clearPermission(roomId, targetUserId);
+    setWriteGrant(roomId, targetUserId, []);
+    if (getRoom(roomId)?.coHostUserIds?.includes(targetUserId)) {
+      applyCoHost(roomId, room, targetUserId, false);
+    }
+    if (!room) return;
+    room.kickedUserIds.add(targetUserId);
+    for (const [clientWs, targetClient] of room.clients) {
+      if (targetClient.userId === targetUserId) {
+        void appendLog(roomId, {
+          timestamp: Date.now(),
+          event: "kick",
+          userId: targetClient.userId,
+          displayName: targetClient.displayName,
+          details: `kicked by ${kickedBy}`,
+        });
+        sendTo(clientWs, { type: "kicked" });
+        clientWs.close();
+      }
+    }
+  }
+
+  /** Grants only mean something alongside read-only, so read-write clears them. */
+  function setWriteGrant(roomId: string, targetUserId: string, writePaths: string[]) {
+    const serverRoom = getRoom(roomId);
+    if (!serverRoom) return;
+    const grants = { ...serverRoom.writeGrants };
+    if (writePaths.length > 0) grants[targetUserId] = writePaths;
+    else if (targetUserId in grants) delete grants[targetUserId];
+    // Nothing to clear, so nothing to save
+    else return;
+    updateRoom(roomId, {
+      writeGrants: Object.keys(grants).length > 0 ? grants : undefined,
+    }).catch((err) => {
+      console.error("[control] failed to save write grants:", err);
+    });
+  }
+
+  function applyPermission(
+    roomId: string,
+    room: ControlRoom | undefined,
+    targetUserId: string,
+    permission: Permission,
+    writePaths: string[],
+  ) {
+    setPermission(roomId, targetUserId, permission);
+    setWriteGrant(roomId, targetUserId, permission === "read-only" ? writePaths : []);
+    options?.onPermissionChange?.(roomId, targetUserId, permission);
+    if (!room) return;
+    for (const [clientWs, targetClient] of room.clients) {
+      if (targetClient.userId === targetUserId) {
+        targetClient.permission = capPermission(targetClient, permission);
+        sendTo(clientWs, {
+          type: "permission-update",
+          permission: targetClient.permission,
+          writePaths: getRoom(roomId)?.writeGrants?.[targetUserId],
+        });
+      }
+    }
+  }
+
+  function applyCoHost(
+    roomId: string,
+    room: ControlRoom | undefined,
+    targetUserId: string,
+    coHost: boolean,
+  ) {
+    const serverRoom = getRoom(roomId);
+    if (serverRoom) {
+      const coHosts = new Set(serverRoom.coHostUserIds);
+      if (coHost) coHosts.add(targetUserId);
+      else coHosts.delete(targetUserId);
+      updateRoom(roomId, { coHostUserIds: coHosts.size > 0 ? [...coHosts] : undefined }).catch(
+        (err) => {
+          console.error("[control] failed to save co-hosts:", err);
+        },
+      );
+    }
+    if (!room) return;
+    for (const targetClient of room.clients.values()) {
+      if (targetClient.userId === targetUserId) {
+        targetClient.isCoHost =
+          coHost && !targetClient.isHost && isVerifiedCoHost(targetClient, [targetUserId]);
+      }
+    }
+    broadcastLocal(room, JSON.stringify({ type: "co-host-update", userId: targetUserId, coHost }));
+  }
+
+  /** Co-hosts moderate guests but cannot act on the host. */
+  async function isHostUser(room: ControlRoom, userId: string): Promise<boolean> {
+    return (
+      !!findClientByUserId(room, userId)?.isHost || (await pubsub.get(hostKey(room.id))) === userId
+    );
+  }
+
+  function offerHostTransfer(
+    room: ControlRoom,
+    targetUserId: string,
+    from: Pick<ControlClient, "userId" | "displayName">,
+  ): boolean {
+    const target = findClientByUserId(room, targetUserId);
+    if (!target || !target.isApproved || target.invitePermission) return false;
+    room.pendingTransferTarget = targetUserId;
+    sendTo(target.ws, {
+      type: "host-transfer-offer",
+      userId: from.userId,
+      displayName: from.displayName,
+    });
+    return true;
+  }
+
+  /** Replays a host's command on this instance, for the clients connected here. */
+  function applyRemoteCommand(event: ControlEvent, room: ControlRoom | undefined) {
+    const msg = JSON.parse(event.data ?? "{}");
+    const targetUserId = typeof msg.userId === "string" ? msg.userId : "";
+    switch (msg.type) {
+      case "join-response":
+        if (room) applyJoinResponse(room, msg, event.displayName ?? "");
+        break;
+      case "kick":
+        if (targetUserId) applyKick(event.roomId, room, targetUserId, event.displayName ?? "");
+        break;
+      case "set-permission":
+        if (targetUserId && isPermission(msg.permission)) {
+          applyPermission(
+            event.roomId,
+            room,
+            targetUserId,
+            msg.permission,
+            parsePathPatterns(msg.writePaths),
+          );
+        }
+        break;
+      case "set-co-host":
+        if (targetUserId && typeof msg.coHost === "boolean") {
+          applyCoHost(event.roomId, room, targetUserId, msg.coHost);
+        }
+        break;
+      case "host-transfer-offer":
+        if (room && targetUserId) {
+          offerHostTransfer(room, targetUserId, {
+            userId: event.userId ?? "",
+            displayName: event.displayName ?? "",
+          });
+        }
+        break;
+      case "token-rotated":
+        if (typeof msg.token === "string") {
+          notifyTokenRotated(event.roomId, msg.token, msg.approvedUserIds ?? []);
+        }
+        break;
+    }
+  }
+
+  function handleRemoteEvent(message: string) {
+    let event: ControlEvent;
+    try {
+      event = JSON.parse(message);
+      if (event.kind === "command") {
+        applyRemoteCommand(event, rooms.get(event.roomId));
+        return;
+      }
+    } catch (err) {
+      console.error("[control] ignoring malformed event from another instance:", err);
+      return;
+    }
+    const room = rooms.get(event.roomId);
+    if (!room) return;
+    const data = event.data ?? "";
+    switch (event.kind) {
+      case "broadcast":
+        broadcastLocal(room, data);
+        break;
+      case "to-user":
+        for (const [ws, client] of room.clients) {
+          if (client.userId === event.userId) safeSend(ws, data);
+        }
+        break;
+      case "to-moderators":
+        sendToLocalModerators(room, data);
+        break;
+      case "host-changed":
+        for (const client of room.clients.values()) client.isHost = client.userId === event.userId;
+        break;
+      case "host-left":
+        rejectPendingApprovals(room);
+        electHost(room)
+          .then((hasHost) => {
+            if (!hasHost) broadcastLocal(room, JSON.stringify({ type: "host-disconnected" }));
+          })
+          .catch((err) => console.error(`[control] failed to elect host for ${room.id}:`, err));
+        break;
+      case "expired":
+        closeRoomLocally(room);
+        break;
     }
   }
 
@@ -156,13 +723,21 @@ export function createControlWSS(options?: ControlWSSOptions) {
     const serverRoom = getRoom(roomId);
 
     let verifiedUserId: string | null = null;
+    let identity: MemberIdentity | null = null;
+    let invitePermission: Permission | undefined;
     try {
       const reqUrl = new URL(req.url || "", `http://${req.headers.host}`);
       const jwtToken = reqUrl.searchParams.get("jwt");
       if (jwtToken) {
         const payload = verifyJWT(jwtToken);
-        if (payload) verifiedUserId = payload.sub;
+        if (payload) {
+          verifiedUserId = payload.sub;
+          identity = payload;
+        }
       }
+      // The upgrade was already authenticated; an invite token only narrows what the client may do
+      const token = reqUrl.searchParams.get("token");
+      if (serverRoom && token) invitePermission = findInvite(serverRoom, token)?.permission;
     } catch {
       // JWT may be invalid or absent
     }
@@ -171,27 +746,50 @@ export function createControlWSS(options?: ControlWSSOptions) {
       ws,
       userId: "",
       verifiedUserId,
+      identity,
       displayName: "",
       isHost: false,
+      isCoHost: false,
       isApproved: !serverRoom?.requireApproval,
-      permission: serverRoom?.defaultPermission || "read-write",
+      permission: minPermission(
+        serverRoom?.defaultPermission || "read-write",
+        invitePermission ?? "read-write",
+      ),
       msgTimestamps: [],
       joinOrder: room.nextJoinOrder++,
+      invitePermission,
     };
     room.clients.set(ws, client);
+    void countClients(room);
 
     ws.on("error", (err) => {
       console.error(`[control] ws error for room ${roomId}:`, err.message);
       ws.close();
     });
 
+    // Messages are handled one at a time since host checks may wait on shared state
+    let queue = Promise.resolve();
     ws.on("message", (raw: Buffer | ArrayBuffer | Buffer[]) => {
+      queue = queue
+        .then(() => handleMessage(raw))
+        .catch((err) => console.error(`[control] failed to handle message in ${roomId}:`, err));
+    });
+
+    const handleMessage = async (raw: Buffer | ArrayBuffer | Buffer[]) => {
       const now = Date.now();
       client.msgTimestamps.push(now);
       while (client.msgTimestamps.length > 0 && client.msgTimestamps[0] < now - MSG_RATE_WINDOW) {
         client.msgTimestamps.shift();
       }
       if (client.msgTimestamps.length > MSG_RATE_LIMIT) {
+        rateLimitDisconnects.inc();
+        void appendLog(roomId, {
+          timestamp: now,
+          event: "rate-limited",
+          userId: client.userId,
+          displayName: client.displayName,
+          details: `over ${MSG_RATE_LIMIT} messages in ${MSG_RATE_WINDOW / 1000}s`,
+        });
         ws.close(1008, "rate limit exceeded");
         return;
       }
@@ -211,6 +809,7 @@ export function createControlWSS(options?: ControlWSSOptions) {
       }
 
       if (typeof msg.type !== "string" || !ALLOWED_TYPES.has(msg.type)) {
+        controlMessages.inc({ type: "unknown" });
         if (unknownTypeWarnCount < UNKNOWN_TYPE_WARN_LIMIT) {
           unknownTypeWarnCount++;
           console.warn(`[control] dropped unknown type from ${client.userId}:`, msg.type);
@@ -218,18 +817,21 @@ export function createControlWSS(options?: ControlWSSOptions) {
         return;
       }
 
-      touchRoom(roomId);
+      controlMessages.inc({ type: msg.type });
 
       if (msg.type === "ping") {
         sendTo(ws, { type: "pong", timestamp: msg.timestamp });
         return;
       }
 
+      // Keepalive pings above do not count as activity, so idle rooms can expire
+      touchRoom(roomId);
+
       if (msg.type === "join-request") {
         if (!client.userId) {
           client.userId = typeof msg.userId === "string" ? msg.userId.slice(0, 128) : "";
 
-          determineHostStatus(client, room, serverRoom);
+          await determineHostStatus(client, room, serverRoom);
         }
         client.displayName =
           typeof msg.displayName === "string" ? msg.displayName.slice(0, 100) : "";
@@ -250,6 +852,7 @@ export function createControlWSS(options?: ControlWSSOptions) {
               permission: client.permission,
               readOnlyPatterns: serverRoom?.readOnlyPatterns,
               isHost: client.isHost,
+              isCoHost: client.isCoHost,
             });
           } else {
             const existingPermission = client.userId
@@ -257,7 +860,7 @@ export function createControlWSS(options?: ControlWSSOptions) {
               : undefined;
             if (existingPermission) {
               client.isApproved = true;
-              client.permission = existingPermission;
+              client.permission = capPermission(client, existingPermission);
               void appendLog(roomId, {
                 timestamp: Date.now(),
                 event: "rejoin",
@@ -269,34 +872,34 @@ export function createControlWSS(options?: ControlWSSOptions) {
                 approved: true,
                 permission: client.permission,
                 readOnlyPatterns: serverRoom?.readOnlyPatterns,
+                writePaths: serverRoom?.writeGrants?.[client.userId],
                 isHost: client.isHost,
+                isCoHost: client.isCoHost,
               });
             } else {
               client.isApproved = false;
               room.pendingApprovals.set(client.userId, ws);
+              client.joinRequestedAt = Date.now();
 
-              const host = getHostClient(room);
-              if (host) {
-                sendTo(host.ws, {
-                  type: "join-request",
-                  userId: client.userId,
-                  displayName: client.displayName,
-                  avatarUrl: msg.avatarUrl || "",
-                  verified: !!client.verifiedUserId,
-                });
-              }
+              sendToModerators(room, {
+                type: "join-request",
+                userId: client.userId,
+                displayName: client.displayName,
+                avatarUrl: msg.avatarUrl || "",
+                verified: !!client.verifiedUserId,
+              });
             }
           }
         } else if (room.kickedUserIds.has(client.userId)) {
-          const host = getHostClient(room);
-          if (!host) {
+          if (!getHostClient(room) && !(await pubsub.get(hostKey(roomId)))) {
             sendTo(ws, { type: "join-response", approved: false, isHost: false });
             return;
           }
           room.kickedUserIds.delete(client.userId);
           client.isApproved = false;
           room.pendingApprovals.set(client.userId, ws);
-          sendTo(host.ws, {
+          client.joinRequestedAt = Date.now();
+          sendToModerators(room, {
             type: "join-request",
             userId: client.userId,
             displayName: client.displayName,
@@ -318,100 +921,110 @@ export function createControlWSS(options?: ControlWSSOptions) {
             permission: client.permission,
             readOnlyPatterns: serverRoom?.readOnlyPatterns,
             isHost: client.isHost,
+            isCoHost: client.isCoHost,
           });
         }
         return;
       }
 
-      if (msg.type === "join-response" && client.isHost) {
-        const targetUserId = msg.userId;
-        if (typeof targetUserId !== "string" || !targetUserId) return;
-        if (typeof msg.approved !== "boolean") return;
-        const targetWs = room.pendingApprovals.get(targetUserId);
-        if (targetWs) {
-          room.pendingApprovals.delete(targetUserId);
-          const targetClient = room.clients.get(targetWs);
-          if (targetClient) {
-            targetClient.isApproved = msg.approved;
-            if (msg.permission === "read-write" || msg.permission === "read-only") {
-              targetClient.permission = msg.permission;
-            }
-            if (targetClient.isApproved && targetClient.userId) {
-              setPermission(roomId, targetClient.userId, targetClient.permission);
-              void appendLog(roomId, {
-                timestamp: Date.now(),
-                event: "join",
-                userId: targetClient.userId,
-                displayName: targetClient.displayName,
-              });
-            }
-            sendTo(targetWs, {
-              type: "join-response",
-              approved: targetClient.isApproved,
-              permission: targetClient.permission,
-              readOnlyPatterns: targetClient.isApproved ? serverRoom?.readOnlyPatterns : undefined,
-              isHost: targetClient.isHost,
-            });
-          }
-        }
+      if (msg.type === "join-response" && isModerator(client)) {
+        applyJoinResponse(room, msg, client.displayName);
+        publish({
+          roomId,
+          kind: "command",
+          data: JSON.stringify(msg),
+          displayName: client.displayName,
+        });
         return;
       }
 
-      if (msg.type === "kick" && client.isHost) {
+      if (msg.type === "kick" && isModerator(client)) {
         const targetUserId = msg.userId;
         if (typeof targetUserId !== "string" || !targetUserId) return;
-        room.kickedUserIds.add(targetUserId);
-        clearPermission(roomId, targetUserId);
-        for (const [clientWs, targetClient] of room.clients) {
-          if (targetClient.userId === targetUserId) {
-            void appendLog(roomId, {
-              timestamp: Date.now(),
-              event: "kick",
-              userId: targetClient.userId,
-              displayName: targetClient.displayName,
-              details: `kicked by ${client.displayName}`,
-            });
-            sendTo(clientWs, { type: "kicked" });
-            clientWs.close();
-          }
-        }
+        if (!client.isHost && (await isHostUser(room, targetUserId))) return;
+        applyKick(roomId, room, targetUserId, client.displayName);
+        publish({
+          roomId,
+          kind: "command",
+          data: JSON.stringify(msg),
+          displayName: client.displayName,
+        });
         return;
       }
 
-      if (msg.type === "set-permission" && client.isHost) {
+      if (msg.type === "set-permission" && isModerator(client)) {
         const targetUserId = msg.userId;
         if (typeof targetUserId !== "string" || !targetUserId) return;
+        if (!client.isHost && (await isHostUser(room, targetUserId))) return;
         const permission = msg.permission;
-        if (permission !== "read-write" && permission !== "read-only") return;
-        setPermission(roomId, targetUserId, permission);
+        if (!isPermission(permission)) return;
+        const writePaths = permission === "read-only" ? parsePathPatterns(msg.writePaths) : [];
+        const granted = writePaths.length > 0 ? ` except ${writePaths.join(", ")}` : "";
         void appendLog(roomId, {
           timestamp: Date.now(),
           event: "permission-change",
           userId: targetUserId,
-          displayName: "",
-          details: permission,
+          displayName: findClientByUserId(room, targetUserId)?.displayName ?? "",
+          details: `${permission}${granted}, set by ${client.displayName}`,
         });
-        options?.onPermissionChange?.(roomId, targetUserId, permission);
-        for (const [clientWs, targetClient] of room.clients) {
-          if (targetClient.userId === targetUserId) {
-            targetClient.permission = permission;
-            sendTo(clientWs, { type: "permission-update", permission });
-          }
-        }
+        applyPermission(roomId, room, targetUserId, permission, writePaths);
+        publish({ roomId, kind: "command", data: JSON.stringify(msg) });
         return;
       }
 
-      if (msg.type === "host-transfer-offer" && client.isHost) {
+      if (msg.type === "set-co-host" && client.isHost) {
         const targetUserId = msg.userId;
-        if (typeof targetUserId !== "string" || !targetUserId) return;
+        if (typeof targetUserId !== "string" || !targetUserId || targetUserId === client.userId) {
+          return;
+        }
+        if (typeof msg.coHost !== "boolean") return;
+        // Only a logged-in user can be made co-host; their id cannot be claimed by someone else
         const target = findClientByUserId(room, targetUserId);
-        if (!target || !target.isApproved) return;
-        room.pendingTransferTarget = targetUserId;
-        sendTo(target.ws, {
-          type: "host-transfer-offer",
+        if (msg.coHost && target && !isVerifiedCoHost(target, [targetUserId])) return;
+        void appendLog(roomId, {
+          timestamp: Date.now(),
+          event: "co-host-change",
+          userId: targetUserId,
+          displayName: findClientByUserId(room, targetUserId)?.displayName ?? "",
+          details: `${msg.coHost ? "granted" : "revoked"} by ${client.displayName}`,
+        });
+        applyCoHost(roomId, room, targetUserId, msg.coHost);
+        publish({ roomId, kind: "command", data: JSON.stringify(msg) });
+        return;
+      }
+
+      if (msg.type === "rotate-token" && client.isHost) {
+        void appendLog(roomId, {
+          timestamp: Date.now(),
+          event: "token-rotated",
           userId: client.userId,
           displayName: client.displayName,
         });
+        rotateToken(roomId).catch((err) => {
+          console.error("[control] failed to rotate room token:", err);
+        });
+        return;
+      }
+
+      if (msg.type === "host-transfer-offer" && client.isHost) {
+        const targetUserId = msg.userId;
+        if (typeof targetUserId !== "string" || !targetUserId) return;
+        void appendLog(roomId, {
+          timestamp: Date.now(),
+          event: "host-transfer-offer",
+          userId: targetUserId,
+          displayName: findClientByUserId(room, targetUserId)?.displayName ?? "",
+          details: `offered by ${client.displayName}`,
+        });
+        if (!offerHostTransfer(room, targetUserId, client)) {
+          publish({
+            roomId,
+            kind: "command",
+            data: JSON.stringify(msg),
+            userId: client.userId,
+            displayName: client.displayName,
+          });
+        }
         return;
       }
 
@@ -421,9 +1034,15 @@ export function createControlWSS(options?: ControlWSSOptions) {
         const targetUserId = msg.userId;
         if (typeof targetUserId !== "string" || !targetUserId) return;
         const oldHost = findClientByUserId(room, targetUserId);
-        if (!oldHost?.isHost) return;
-        oldHost.isHost = false;
+        if (oldHost) {
+          if (!oldHost.isHost) return;
+          oldHost.isHost = false;
+        } else if ((await pubsub.get(hostKey(roomId))) !== targetUserId) {
+          return;
+        }
         client.isHost = true;
+        await pubsub.set(hostKey(roomId), client.userId);
+        publish({ roomId, kind: "host-changed", userId: client.userId });
         if (client.verifiedUserId && serverRoom) {
           serverRoom.hostUserId = client.verifiedUserId;
           touchRoom(roomId);
@@ -455,13 +1074,21 @@ export function createControlWSS(options?: ControlWSSOptions) {
         room.pendingTransferTarget = null;
         const targetUserId = msg.userId;
         if (typeof targetUserId !== "string" || !targetUserId) return;
-        const oldHost = findClientByUserId(room, targetUserId);
-        if (!oldHost) return;
-        sendTo(oldHost.ws, {
-          type: "host-transfer-decline",
+        void appendLog(roomId, {
+          timestamp: Date.now(),
+          event: "host-transfer-decline",
           userId: client.userId,
           displayName: client.displayName,
         });
+        sendToUser(
+          room,
+          targetUserId,
+          JSON.stringify({
+            type: "host-transfer-decline",
+            userId: client.userId,
+            displayName: client.displayName,
+          }),
+        );
         return;
       }
 
@@ -473,20 +1100,32 @@ export function createControlWSS(options?: ControlWSSOptions) {
         msg.type === "file-chunk-data" ||
         msg.type === "file-chunk-end";
       if (isFileWrite) {
-        const filePath =
-          msg.type === "file-op" && typeof msg.op === "object" && msg.op !== null
-            ? ((msg.op as Record<string, unknown>).path ??
-              (msg.op as Record<string, unknown>).newPath)
-            : msg.path;
         const basePerm = getPermission(roomId, client.userId);
-        if ((basePerm ?? client.permission) === "read-only") {
-          return;
+        // Comment-only users annotate through the comments doc and never write files. The
+        // stored permission is what the host picked, so cap it by the invite like docs do.
+        if (capPermission(client, basePerm ?? client.permission) !== "read-write") {
+          const paths = fileOpPaths(msg);
+          const granted =
+            paths.length > 0 &&
+            paths.every((path) => hasWriteGrant(serverRoom, client.userId, path));
+          if (!granted) return;
         }
-        if (
-          !client.isHost &&
-          typeof filePath === "string" &&
-          serverRoom?.readOnlyPatterns?.some((p) => minimatch(filePath, p))
-        ) {
+        const protectedPath = client.isHost
+          ? undefined
+          : fileOpPaths(msg).find((path) => isReadOnlyPath(serverRoom, path));
+        if (protectedPath !== undefined) {
+          // Chunks after a denied start carry nothing new to report
+          const denied = describeFileOp(msg);
+          if (denied) {
+            sendTo(ws, { type: "write-denied", path: protectedPath });
+            void appendLog(roomId, {
+              timestamp: Date.now(),
+              event: "write-denied",
+              userId: client.userId,
+              displayName: client.displayName,
+              details: `${denied}, read-only path`,
+            });
+          }
           return;
         }
       }
@@ -494,34 +1133,59 @@ export function createControlWSS(options?: ControlWSSOptions) {
       if (HOST_ONLY_TYPES.has(msg.type) && !client.isHost) {
         return;
       }
+      if (MODERATOR_TYPES.has(msg.type) && !isModerator(client)) {
+        return;
+      }
+
+      const fileOp = isFileWrite ? describeFileOp(msg) : null;
+      if (fileOp || msg.type === "session-end") {
+        void appendLog(roomId, {
+          timestamp: Date.now(),
+          event: fileOp ? "file-op" : "session-end",
+          userId: client.userId,
+          displayName: client.displayName,
+          details: fileOp ?? undefined,
+        });
+      }
 
       if (
         msg.type === "summon" &&
         typeof msg.targetUserId === "string" &&
         msg.targetUserId !== "__all__"
       ) {
-        const targetUserId = msg.targetUserId;
-        const strData = data.toString("utf-8");
-        for (const [clientWs, targetClient] of room.clients) {
-          if (targetClient.userId === targetUserId) {
-            safeSend(clientWs, strData);
-          }
-        }
+        sendToUser(room, msg.targetUserId, data.toString("utf-8"));
+        return;
+      }
+
+      // Mentions only go to the named user, and always name the real sender
+      if (msg.type === "comment-mention") {
+        if (typeof msg.targetUserId !== "string" || !msg.targetUserId) return;
+        sendToUser(
+          room,
+          msg.targetUserId,
+          JSON.stringify({
+            ...msg,
+            fromUserId: client.userId,
+            fromDisplayName: client.displayName,
+          }),
+        );
         return;
       }
 
       if (msg.type === "presence-update") {
         if (typeof msg.userId === "string" && msg.userId && !client.userId) {
           client.userId = msg.userId.slice(0, 128);
-          determineHostStatus(client, room, serverRoom);
+          await determineHostStatus(client, room, serverRoom);
         }
         if (typeof msg.displayName === "string") client.displayName = msg.displayName.slice(0, 100);
       }
 
       broadcast(room, data, ws);
-    });
+    };
 
     ws.on("close", () => {
+      // The room was already torn down (expired or shutting down)
+      if (rooms.get(roomId) !== room) return;
       const closingClient = room.clients.get(ws);
       const wasHost = closingClient?.isHost ?? false;
       if (closingClient) {
@@ -541,55 +1205,20 @@ export function createControlWSS(options?: ControlWSSOptions) {
         }
       }
       room.clients.delete(ws);
-      if (wasHost && room.clients.size > 0) {
-        for (const [, pendingWs] of room.pendingApprovals) {
-          sendTo(pendingWs, { type: "join-response", approved: false, isHost: false });
-        }
-        room.pendingApprovals.clear();
-
-        let newHost: ControlClient | undefined;
-        for (const client of room.clients.values()) {
-          if (client.isApproved && (!newHost || client.joinOrder < newHost.joinOrder)) {
-            newHost = client;
-          }
-        }
-        if (newHost) {
-          newHost.isHost = true;
-          if (newHost.verifiedUserId && serverRoom) {
-            serverRoom.hostUserId = newHost.verifiedUserId;
-            touchRoom(roomId);
-          }
-          void appendLog(roomId, {
-            timestamp: Date.now(),
-            event: "host-transfer",
-            userId: newHost.userId,
-            displayName: newHost.displayName,
-            details: "auto-elected after host disconnect",
-          });
-          sendTo(newHost.ws, {
-            type: "host-transfer-complete",
-            userId: newHost.userId,
-            displayName: newHost.displayName,
-          });
-          broadcast(
-            room,
-            JSON.stringify({
-              type: "host-changed",
-              userId: newHost.userId,
-              displayName: newHost.displayName,
-            }),
-            newHost.ws,
-          );
-        } else {
-          broadcast(room, JSON.stringify({ type: "host-disconnected" }));
-        }
+      void countClients(room);
+      if (wasHost) {
+        rejectPendingApprovals(room);
+        replaceHost(room).catch((err) => {
+          console.error(`[control] failed to replace host in ${roomId}:`, err);
+        });
       }
       if (room.clients.size === 0) {
         room.cleanupTimer = setTimeout(() => {
           if (room.clients.size === 0) {
-            clearRoomPermissions(roomId);
             rooms.delete(roomId);
-            removeRoom(roomId).catch((err) => {
+            // Rooms created with an explicit ttl outlive their clients until reaped
+            if (getRoom(roomId)?.ttl !== undefined) return;
+            removeAbandonedRoom(roomId).catch((err) => {
               console.error(`[control] failed to remove room ${roomId}:`, err);
             });
           }
@@ -598,15 +1227,81 @@ export function createControlWSS(options?: ControlWSSOptions) {
     });
   });
 
-  function closeAll() {
+  /** Removes the room once no instance has clients left in it. */
+  async function removeAbandonedRoom(roomId: string) {
+    if ((await clientCounts.total(roomId)) > 0) return;
+    await pubsub.del(hostKey(roomId));
+    await removeRoom(roomId);
+  }
+
+  async function closeAll(): Promise<void> {
+    const released: Promise<void>[] = [];
     for (const room of rooms.values()) {
       if (room.cleanupTimer) clearTimeout(room.cleanupTimer);
       for (const ws of room.clients.keys()) {
         ws.close(1000, "server shutting down");
       }
+      // Hand the shared state back so clients reconnecting to another instance carry on
+      if (getHostClient(room)) released.push(pubsub.del(hostKey(room.id)));
     }
     rooms.clear();
+    stopWatchingRemovals();
+    released.push(clientCounts.close());
+    await Promise.allSettled(released);
+  }
+
+  function getRoomClients(roomId: string): ControlClientInfo[] {
+    const room = rooms.get(roomId);
+    if (!room) return [];
+    return [...room.clients.values()].map((client) => ({
+      userId: client.userId,
+      displayName: client.displayName,
+      isHost: client.isHost,
+      isCoHost: client.isCoHost,
+      isApproved: client.isApproved,
+      permission: getPermission(roomId, client.userId) ?? client.permission,
+    }));
+  }
+
+  function notifyRoomUpdated(roomId: string, settings: RoomSettings) {
+    const room = rooms.get(roomId);
+    if (!room) return;
+    // Clients have no use for the allowlist, and it names the owner's orgs and teams
+    const { allowlist: _allowlist, ...visible } = settings;
+    if (Object.keys(visible).length === 0) return;
+    broadcast(room, JSON.stringify({ type: "room-updated", ...visible }));
+  }
+
+  // Every instance runs the reaper, so each warns only its own clients
+  function notifyRoomExpiring(roomId: string, expiresAt: number) {
+    const room = rooms.get(roomId);
+    if (!room) return;
+    broadcastLocal(room, JSON.stringify({ type: "room-expiring", expiresAt }));
+  }
+
+  function closeExpiredRoom(roomId: string) {
+    publish({ roomId, kind: "expired" });
+    void Promise.allSettled([pubsub.del(hostKey(roomId))]);
+    const room = rooms.get(roomId);
+    if (room) closeRoomLocally(room);
+  }
+
+  function closeRoomLocally(room: ControlRoom, removed = false) {
+    if (room.cleanupTimer) clearTimeout(room.cleanupTimer);
+    rooms.delete(room.id);
+    for (const ws of room.clients.keys()) {
+      sendTo(ws, { type: removed ? "session-end" : "room-expired" });
+      ws.close(1000, removed ? "room removed" : "room expired");
+    }
   }
 
-  return { wss, closeAll };
+  return {
+    wss,
+    closeAll,
+    getRoomClients,
+    notifyRoomUpdated,
+    notifyRoomExpiring,
+    closeExpiredRoom,
+    rotateToken,
+  };
 }
@@ -1,24 +1,55 @@
-import { Router } from "express";
+import { randomBytes, randomUUID } from "node:crypto";
+import { type Request, type Response, Router, json } from "express";
 import jwt from "jsonwebtoken";
+import {
+  type AuthIdentity,
+  type AuthProvider,
+  type AuthorizationRequest,
+  getConfiguredProviders,
+} from "./auth-providers.js";
+import { type PubSubAdapter, createLocalPubSub } from "./pubsub.js";
 
-interface GitHubUser {
-  id: number;
-  login: string;
-  name: string | null;
-  avatar_url: string;
-}
-
-interface JWTPayload {
-  sub: string;
-  username: string;
-  displayName: string;
-  avatar: string | null;
+interface JWTPayload extends AuthIdentity {
+  /** The login provider's id; absent on tokens issued before OIDC support (GitHub). */
+  provider?: string;
+  /** Absent on access tokens issued before refresh tokens existed. */
+  typ?: "access" | "refresh" | "login";
+  /** When the user logged in, in epoch seconds; refreshing carries it over. */
+  auth_time?: number;
+  /** The login a refresh token belongs to, shared by every token it is rotated into. */
+  sid?: string;
+  /** When `orgs` and `teams` were read from the provider, in epoch seconds. */
+  memberships_at?: number;
+  jti?: string;
   iat: number;
   exp: number;
 }
 
-const GITHUB_CLIENT_ID = process.env.GITHUB_CLIENT_ID || "";
-const GITHUB_CLIENT_SECRET = process.env.GITHUB_CLIENT_SECRET || "";
+export interface IssuedTokens {
+  token: string;
+  refreshToken: string;
+  /** When `token` expires, in epoch milliseconds. */
+  expiresAt: number;
+}
+
+function readTtl(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  const ttl = Number(raw);
+  if (!Number.isInteger(ttl) || ttl <= 0) {
+    console.warn(`[auth] invalid ${name}: ${raw}, using ${fallback}`);
+    return fallback;
+  }
+  return ttl;
+}
+
+const ACCESS_TOKEN_TTL_SECONDS = readTtl("ACCESS_TOKEN_TTL_SECONDS", 60 * 60);
+const REFRESH_TOKEN_TTL_SECONDS = readTtl("REFRESH_TOKEN_TTL_SECONDS", 30 * 24 * 60 * 60);
+/** However often it is refreshed, a login ends this long after it happened. */
+const LOGIN_MAX_AGE_SECONDS = readTtl("LOGIN_MAX_AGE_SECONDS", 90 * 24 * 60 * 60);
+/** Memberships read at login are refreshed along with it for this long, then need a new login. */
+const MEMBERSHIP_MAX_AGE_SECONDS = readTtl("MEMBERSHIP_MAX_AGE_SECONDS", 24 * 60 * 60);
+
 const JWT_SECRET = process.env.JWT_SECRET || "change-me-in-production";
 
 if (!process.env.JWT_SECRET) {
@@ -36,118 +67,140 @@ if (!process.env.JWT_SECRET) {
   }
 }
 
-export function verifyJWT(token: string): JWTPayload | null {
+function verifyTyped(token: string, typ: JWTPayload["typ"]): JWTPayload | null {
+  let payload: JWTPayload;
   try {
-    return jwt.verify(token, JWT_SECRET) as JWTPayload;
+    payload = jwt.verify(token, JWT_SECRET) as JWTPayload;
   } catch {
     return null;
   }
+  // Refresh tokens and login cookies share the secret but must never pass as access tokens
+  if ((payload.typ ?? "access") !== typ || typeof payload.sub !== "string") return null;
+  return payload;
 }
 
-export function createAuthRouter(): Router {
-  const router = Router();
-
-  router.get("/github", (req, res) => {
-    const state = typeof req.query.state === "string" ? req.query.state : "";
-    const params = new URLSearchParams({
-      client_id: GITHUB_CLIENT_ID,
-      scope: "read:user",
-      state,
-    });
-    res.redirect(`https://github.com/login/oauth/authorize?${params}`);
-  });
-
-  router.get("/github/callback", async (req, res) => {
-    try {
-      const code = typeof req.query.code === "string" ? req.query.code : "";
-      if (!code) {
-        res.status(400).send("Missing code");
-        return;
-      }
-
-      let tokenResponse: Response;
-      try {
-        tokenResponse = await fetch("https://github.com/login/oauth/access_token", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Accept: "application/json",
-          },
-          body: JSON.stringify({
-            client_id: GITHUB_CLIENT_ID,
-            client_secret: GITHUB_CLIENT_SECRET,
-            code,
-          }),
-        });
-      } catch {
-        res.status(502).send("Failed to contact GitHub");
-        return;
-      }
+export function verifyJWT(token: string): JWTPayload | null {
+  return verifyTyped(token, "access");
+}
 
-      if (!tokenResponse.ok) {
-        res.status(401).send("GitHub auth failed");
-        return;
-      }
+export function verifyRefreshToken(token: string): JWTPayload | null {
+  return verifyTyped(token, "refresh");
+}
 
-      const { access_token } = (await tokenResponse.json()) as {
-        access_token: string;
-      };
+interface LoginSession {
+  sid: string;
+  /** Epoch seconds. */
+  authTime: number;
+  /** When the login's memberships were read, in epoch seconds; defaults to `authTime`. */
+  membershipsAt?: number;
+}
 
-      if (!access_token) {
-        res.status(401).send("GitHub auth failed");
-        return;
-      }
+/**
+ * A short-lived access token and the refresh token that renews it. Without `login` this
+ * starts a new login; refreshes pass the one they continue.
+ */
+export function issueTokens(
+  identity: AuthIdentity & { provider?: string },
+  login: LoginSession = { sid: randomUUID(), authTime: Math.floor(Date.now() / 1000) },
+): IssuedTokens {
+  const { sub, username, displayName, avatar, provider, orgs, teams } = identity;
+  const claims = { sub, username, displayName, avatar, provider, orgs, teams };
+  const membershipsAt = orgs || teams ? (login.membershipsAt ?? login.authTime) : undefined;
+  // Neither token outlives the login
+  const loginLeft = Math.max(1, login.authTime + LOGIN_MAX_AGE_SECONDS - Date.now() / 1000);
+  const accessTtl = Math.floor(Math.min(ACCESS_TOKEN_TTL_SECONDS, loginLeft));
+  const refreshTtl = Math.floor(Math.min(REFRESH_TOKEN_TTL_SECONDS, loginLeft));
+  return {
+    token: jwt.sign({ ...claims, typ: "access" }, JWT_SECRET, { expiresIn: accessTtl }),
+    refreshToken: jwt.sign(
+      {
+        ...claims,
+        typ: "refresh",
+        auth_time: login.authTime,
+        sid: login.sid,
+        memberships_at: membershipsAt,
+      },
+      JWT_SECRET,
+      { expiresIn: refreshTtl, jwtid: randomUUID() },
+    ),
+    expiresAt: Date.now() + accessTtl * 1000,
+  };
+}
 
-      let userResponse: Response;
-      try {
-        userResponse = await fetch("https://api.github.com/user", {
-          headers: {
-            Authorization: `Bearer ${access_token}`,
-            Accept: "application/vnd.github+json",
-          },
-        });
-      } catch {
-        res.status(502).send("Failed to fetch user info");
-        return;
-      }
+function revokedKey(sid: string): string {
+  return `revoked-login:${sid}`;
+}
 
-      if (!userResponse.ok) {
-        res.status(401).send("Failed to fetch user info");
-        return;
-      }
+/**
+ * Marks the refresh token used and returns the login it continues, or null when the token
+ * may not be refreshed. A refresh token used a second time was copied, so that revokes the
+ * whole login: whoever holds the newest token of it has to log in again too.
+ */
+async function redeemRefreshToken(
+  payload: JWTPayload,
+  pubsub: PubSubAdapter,
+): Promise<LoginSession | null> {
+  const { sid, jti, auth_time: authTime, memberships_at: membershipsAt } = payload;
+  // Refresh tokens from before logins were tracked cannot be checked for reuse
+  if (!sid || !jti || typeof authTime !== "number") return null;
+  const now = Math.floor(Date.now() / 1000);
+  const loginLeft = authTime + LOGIN_MAX_AGE_SECONDS - now;
+  if (loginLeft <= 0) return null;
+  // Someone let in by a membership may have lost it since; only a new login can tell
+  if (payload.orgs || payload.teams) {
+    if (typeof membershipsAt !== "number") return null;
+    if (now - membershipsAt >= MEMBERSHIP_MAX_AGE_SECONDS) return null;
+  }
+  if (await pubsub.get(revokedKey(sid))) return null;
+  if (!(await pubsub.setIfAbsent(`used-refresh:${jti}`, sid, Math.max(1, payload.exp - now)))) {
+    console.warn(`[auth] refresh token reused, revoking the login of ${payload.sub}`);
+    await pubsub.set(revokedKey(sid), "reused", loginLeft);
+    return null;
+  }
+  return { sid, authTime, membershipsAt };
+}
 
-      const githubUser = (await userResponse.json()) as GitHubUser;
-      const displayName = githubUser.name || githubUser.login;
+const SESSION_COOKIE = "live_share_auth";
+const SESSION_TTL = "10m";
 
-      const payload: Omit<JWTPayload, "iat" | "exp"> = {
-        sub: String(githubUser.id),
-        username: githubUser.login,
-        displayName,
-        avatar: githubUser.avatar_url,
-      };
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
 
-      const jwtToken = jwt.sign(payload, JWT_SECRET, { expiresIn: "7d" });
+function readCookie(req: Request, name: string): string | undefined {
+  for (const part of (req.headers.cookie ?? "").split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return undefined;
+}
 
-      const safeName = displayName
-        .replace(/&/g, "&amp;")
-        .replace(/</g, "&lt;")
-        .replace(/>/g, "&gt;")
-        .replace(/"/g, "&quot;");
+function callbackUrl(req: Request, provider: AuthProvider): string {
+  return `${req.protocol}://${req.get("host")}/auth/${provider.id}/callback`;
+}
 
-      const obsidianUri = `obsidian://live-share-auth?token=${encodeURIComponent(jwtToken)}`;
-      let safeAvatar = "";
-      try {
-        const avatarUrl = new URL(githubUser.avatar_url);
-        if (
-          avatarUrl.protocol === "https:" &&
-          avatarUrl.hostname.endsWith("githubusercontent.com")
-        ) {
-          safeAvatar = avatarUrl.href.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
-        }
-      } catch {
-        // Invalid avatar URL, skip
-      }
-      res.send(`<!DOCTYPE html>
+function renderAuthPage(
+  res: Response,
+  identity: AuthIdentity,
+  tokens: IssuedTokens,
+  providerName: string,
+) {
+  const params = new URLSearchParams({ token: tokens.token, refresh: tokens.refreshToken });
+  const obsidianUri = `obsidian://live-share-auth?${params}`;
+  let safeAvatar = "";
+  try {
+    const avatarUrl = new URL(identity.avatar ?? "");
+    if (avatarUrl.protocol === "https:" && avatarUrl.hostname.endsWith("githubusercontent.com")) {
+      safeAvatar = avatarUrl.href.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+    }
+  } catch {
+    // Invalid or missing avatar URL, skip
+  }
+  res.send(`<!DOCTYPE html>
 <html><head>
 <meta charset="utf-8">
 <meta name="viewport" content="width=device-width,initial-scale=1">
@@ -174,17 +227,116 @@ h1{font-size:18px;font-weight:600;margin-bottom:2px}
 </head>
 <body>
 <div class="card">
-  <img class="avatar" src="${safeAvatar}" alt="">
-  <h1>${safeName}</h1>
-  <p class="subtitle">Authenticated with GitHub</p>
+  ${safeAvatar ? `<img class="avatar" src="${safeAvatar}" alt="">` : ""}
+  <h1>${escapeHtml(identity.displayName)}</h1>
+  <p class="subtitle">Authenticated with ${escapeHtml(providerName)}</p>
   <a class="open-btn" id="open" href="${obsidianUri}">Open in Obsidian</a>
   <p class="fallback">If the button doesn't work, copy the token and paste it in Obsidian:</p>
   <div class="token-row">
-    <input class="token-input" id="token" readonly value=${JSON.stringify(jwtToken)} onclick="this.select()">
+    <input class="token-input" id="token" readonly value=${JSON.stringify(tokens.refreshToken)} onclick="this.select()">
     <button class="copy-btn" id="copy" onclick="navigator.clipboard.writeText(document.getElementById('token').value).then(()=>{document.getElementById('copy').innerHTML='<span class=check>Copied!</span>'})">Copy</button>
   </div>
 </div>
 </body></html>`);
+}
+
+/** `pubsub` holds the used and revoked refresh tokens, so every instance sees them. */
+export function createAuthRouter(
+  providers: AuthProvider[] = getConfiguredProviders(),
+  pubsub: PubSubAdapter = createLocalPubSub(),
+): Router {
+  const router = Router();
+  const byId = new Map(providers.map((provider) => [provider.id, provider]));
+
+  // Each refresh token works once and is replaced by the one returned with the access token
+  router.post("/refresh", json(), async (req, res) => {
+    const refreshToken = req.body?.refreshToken;
+    const payload = typeof refreshToken === "string" ? verifyRefreshToken(refreshToken) : null;
+    let login: LoginSession | null = null;
+    try {
+      login = payload && (await redeemRefreshToken(payload, pubsub));
+    } catch (err) {
+      console.error("[auth] failed to check refresh token:", err);
+      res.status(503).json({ error: "try again later" });
+      return;
+    }
+    if (!payload || !login) {
+      res.status(401).json({ error: "invalid refresh token" });
+      return;
+    }
+    res.json(issueTokens(payload, login));
+  });
+
+  router.get("/providers", (_req, res) => {
+    res.json(providers.map(({ id, name }) => ({ id, name })));
+  });
+
+  // The state and the provider's secrets ride in a signed cookie, so any instance can
+  // complete a login another one started
+  router.get("/:provider", async (req, res) => {
+    const provider = byId.get(req.params.provider);
+    if (!provider) {
+      res.status(404).send("Unknown login provider");
+      return;
+    }
+    const state = randomBytes(16).toString("base64url");
+    let request: AuthorizationRequest;
+    try {
+      request = await provider.authorize(callbackUrl(req, provider), state);
+    } catch (err) {
+      console.error(`[auth] failed to start ${provider.id} login:`, err);
+      res.status(502).send(`Failed to contact ${provider.name}`);
+      return;
+    }
+    const session = jwt.sign(
+      { typ: "login", provider: provider.id, state, data: request.session ?? {} },
+      JWT_SECRET,
+      { expiresIn: SESSION_TTL },
+    );
+    res.cookie(SESSION_COOKIE, session, {
+      httpOnly: true,
+      secure: req.secure,
+      sameSite: "lax",
+      path: "/auth",
+      maxAge: 10 * 60 * 1000,
+    });
+    res.redirect(request.url);
+  });
+
+  router.get("/:provider/callback", async (req, res) => {
+    const provider = byId.get(req.params.provider);
+    if (!provider) {
+      res.status(404).send("Unknown login provider");
+      return;
+    }
+    try {
+      const code = typeof req.query.code === "string" ? req.query.code : "";
+      if (!code) {
+        res.status(400).send("Missing code");
+        return;
+      }
+
+      let session: { typ?: string; provider: string; state: string; data: Record<string, string> };
+      try {
+        session = jwt.verify(readCookie(req, SESSION_COOKIE) ?? "", JWT_SECRET) as typeof session;
+        if (session.typ !== "login") throw new Error("not a login session");
+      } catch {
+        res.status(400).send("Login session expired, please try again");
+        return;
+      }
+      if (session.provider !== provider.id || session.state !== req.query.state) {
+        res.status(400).send("Login state mismatch, please try again");
+        return;
+      }
+      res.clearCookie(SESSION_COOKIE, { path: "/auth" });
+
+      const result = await provider.callback(code, callbackUrl(req, provider), session.data);
+      if ("error" in result) {
+        res.status(result.status).send(result.error);
+        return;
+      }
+
+      renderAuthPage(res, result, issueTokens({ ...result, provider: provider.id }), provider.name);
     } catch (err) {
       console.error("[auth] failed to handle OAuth callback:", err);
       if (!res.headersSent) {
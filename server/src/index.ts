@@ -6,20 +6,55 @@ import cors from "cors";
 import express from "express";
 import rateLimit from "express-rate-limit";
 
-import { closeAuditLog, getLogs, initAuditLog } from "./audit-log.js";
+import { createAdminRouter } from "./admin.js";
+import {
+  closeAuditLog,
+  formatLogsCsv,
+  formatLogsJsonl,
+  importLegacyAuditLog,
+  initAuditLog,
+  parseAuditQuery,
+  pruneLogs,
+  queryLogs,
+  syncAuditLog,
+  verifyLogs,
+} from "./audit-log.js";
+import { getConfiguredProviders } from "./auth-providers.js";
 import { createControlWSS } from "./control-handler.js";
 import { createAuthRouter, verifyJWT } from "./github-auth.js";
+import { renderMetrics } from "./metrics.js";
+import { flushPermissions, getRoomPermissions } from "./permissions.js";
 import { type Persistence, getDefaultPersistence } from "./persistence.js";
-import { getRoom, initRooms, reapStaleRooms, roomRouter } from "./rooms.js";
+import { type PubSubAdapter, createLocalPubSub, getDefaultPubSub } from "./pubsub.js";
+import {
+  REAP_INTERVAL_MS,
+  createInvite,
+  findInvite,
+  getRoom,
+  initRooms,
+  isAllowed,
+  listInvites,
+  listRooms,
+  parseInviteOptions,
+  passHolder,
+  reapStaleRooms,
+  redeemInvite,
+  revokeInvite,
+  roomRouter,
+  syncRooms,
+} from "./rooms.js";
 import { safeTokenCompare } from "./util.js";
 import { createYjsWSS } from "./ws-handler.js";
 
 const REQUIRE_GITHUB_AUTH = process.env.REQUIRE_GITHUB_AUTH === "true";
 const SERVER_PASSWORD = process.env.SERVER_PASSWORD || "";
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN || "";
+const METRICS_TOKEN = process.env.METRICS_TOKEN || "";
 
 export function createApp(
   persistence?: Persistence,
   externalServer?: Server,
+  pubsub: PubSubAdapter = createLocalPubSub(),
 ): {
   app: express.Express;
   server: Server;
@@ -51,17 +86,40 @@ export function createApp(
     });
   }
   app.use("/rooms", limiter, roomRouter);
-  app.use("/auth", authLimiter, createAuthRouter());
+  app.use("/auth", authLimiter, createAuthRouter(getConfiguredProviders(), pubsub));
 
   const server = externalServer ?? createServer(app);
 
-  const yjs = createYjsWSS();
+  syncRooms(pubsub).catch((err) => {
+    console.error("[server] failed to subscribe to room changes:", err);
+  });
+  syncAuditLog(pubsub).catch((err) => {
+    console.error("[server] failed to subscribe to audit log changes:", err);
+  });
+  const yjs = createYjsWSS(persistence, pubsub);
   const control = createControlWSS({
+    pubsub,
     onPermissionChange: (roomId, userId, permission) => {
       yjs.updatePermission(roomId, userId, permission);
     },
+    onTokenRotated: (roomId, approvedUserIds) => {
+      yjs.closeUnapprovedClients(roomId, approvedUserIds);
+    },
   });
 
+  if (ADMIN_TOKEN) {
+    app.use(
+      "/admin",
+      limiter,
+      createAdminRouter({
+        token: ADMIN_TOKEN,
+        getControlClients: control.getRoomClients,
+        getDocumentStats: yjs.getRoomStats,
+        onRoomUpdated: control.notifyRoomUpdated,
+      }),
+    );
+  }
+
   app.get("/healthz", (_req, res) => {
     const stats = yjs.getStats();
     res.json({
@@ -73,11 +131,30 @@ export function createApp(
     });
   });
 
-  app.get("/rooms/:id/logs", async (req, res) => {
+  app.get("/metrics", (req, res) => {
+    if (METRICS_TOKEN) {
+      const auth = req.headers.authorization;
+      if (!auth?.startsWith("Bearer ") || !safeTokenCompare(auth.slice(7), METRICS_TOKEN)) {
+        res.status(401).json({ error: "invalid metrics token" });
+        return;
+      }
+    }
+    const stats = yjs.getStats();
+    res.type("text/plain; version=0.0.4").send(
+      renderMetrics({
+        live_share_sessions: { help: "Rooms with open documents", value: stats.sessions },
+        live_share_documents: { help: "Open documents", value: stats.documents },
+        live_share_clients: { help: "Connected document channel clients", value: stats.clients },
+        live_share_rooms: { help: "Rooms known to the server", value: listRooms().length },
+      }),
+    );
+  });
+
+  function authorizeRoomRequest(req: express.Request, res: express.Response): boolean {
     const room = getRoom(req.params.id);
     if (!room) {
       res.status(404).json({ error: "room not found" });
-      return;
+      return false;
     }
     const authHeader = req.headers.authorization;
     const token = authHeader?.startsWith("Bearer ")
@@ -85,11 +162,137 @@ export function createApp(
       : (req.query.token as string);
     if (typeof token !== "string" || !safeTokenCompare(token, room.token)) {
       res.status(403).json({ error: "invalid token" });
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Host-only endpoints take the host token issued when the room was created, or the
+   * host's own login; the room token alone is not enough, since every guest holds it.
+   */
+  function authorizeHostRequest(req: express.Request, res: express.Response): boolean {
+    const room = getRoom(req.params.id);
+    if (!room) {
+      res.status(404).json({ error: "room not found" });
+      return false;
+    }
+    const authHeader = req.headers.authorization;
+    const token = authHeader?.startsWith("Bearer ") ? authHeader.slice(7) : undefined;
+    const isHost =
+      token !== undefined &&
+      ((room.hostToken !== undefined && safeTokenCompare(token, room.hostToken)) ||
+        (room.hostUserId !== undefined && verifyJWT(token)?.sub === room.hostUserId));
+    if (!isHost) {
+      res.status(403).json({ error: "host only" });
+      return false;
+    }
+    return true;
+  }
+
+  app.get("/rooms/:id/logs", async (req, res) => {
+    if (!authorizeRoomRequest(req, res)) return;
+    const query = parseAuditQuery(req.query);
+    if (typeof query === "string") {
+      res.status(400).json({ error: query });
+      return;
+    }
+    const page = await queryLogs(req.params.id, {
+      ...query,
+      limit: Math.min(query.limit ?? 100, 500),
+    });
+    if (page.nextCursor) res.setHeader("X-Next-Cursor", page.nextCursor);
+    res.json(page.entries);
+  });
+
+  app.get("/rooms/:id/logs/export", async (req, res) => {
+    if (!authorizeRoomRequest(req, res)) return;
+    const format = req.query.format ?? "jsonl";
+    if (format !== "csv" && format !== "jsonl") {
+      res.status(400).json({ error: "invalid format" });
       return;
     }
-    const limit = Math.min(Number(req.query.limit) || 100, 500);
-    const entries = await getLogs(req.params.id, limit);
-    res.json(entries);
+    const query = parseAuditQuery(req.query);
+    if (typeof query === "string") {
+      res.status(400).json({ error: query });
+      return;
+    }
+    // Exports are never paged
+    const { entries } = await queryLogs(req.params.id, {
+      ...query,
+      limit: undefined,
+      cursor: undefined,
+    });
+    res.attachment(`audit-${req.params.id}.${format}`);
+    if (format === "csv") {
+      res.type("text/csv").send(formatLogsCsv(entries));
+    } else {
+      res.type("application/x-ndjson").send(formatLogsJsonl(entries));
+    }
+  });
+
+  app.get("/rooms/:id/logs/verify", async (req, res) => {
+    if (!authorizeRoomRequest(req, res)) return;
+    res.json(await verifyLogs(req.params.id));
+  });
+
+  app.get("/rooms/:id/permissions", (req, res) => {
+    if (!authorizeRoomRequest(req, res)) return;
+    res.json(Object.fromEntries(getRoomPermissions(req.params.id)));
+  });
+
+  app.post("/rooms/:id/rotate-token", async (req, res) => {
+    if (!authorizeHostRequest(req, res)) return;
+    try {
+      const token = await control.rotateToken(req.params.id);
+      if (!token) {
+        res.status(404).json({ error: "room not found" });
+        return;
+      }
+      res.json({ token });
+    } catch (err) {
+      console.error(`[rooms] failed to rotate token for ${req.params.id}:`, err);
+      res.status(500).json({ error: "internal error" });
+    }
+  });
+
+  app.post("/rooms/:id/invites", async (req, res) => {
+    if (!authorizeHostRequest(req, res)) return;
+    const options = parseInviteOptions(req.body ?? {});
+    if (typeof options === "string") {
+      res.status(400).json({ error: options });
+      return;
+    }
+    try {
+      const invite = await createInvite(req.params.id, options);
+      if (!invite) {
+        res.status(404).json({ error: "room not found" });
+        return;
+      }
+      res.status(201).json(invite);
+    } catch (err) {
+      console.error(`[rooms] failed to create an invite for ${req.params.id}:`, err);
+      res.status(500).json({ error: "internal error" });
+    }
+  });
+
+  app.get("/rooms/:id/invites", (req, res) => {
+    if (!authorizeHostRequest(req, res)) return;
+    res.json(listInvites(req.params.id));
+  });
+
+  app.delete("/rooms/:id/invites/:inviteId", async (req, res) => {
+    if (!authorizeHostRequest(req, res)) return;
+    try {
+      if (!(await revokeInvite(req.params.id, req.params.inviteId))) {
+        res.status(404).json({ error: "invite not found" });
+        return;
+      }
+      res.json({ ok: true });
+    } catch (err) {
+      console.error(`[rooms] failed to revoke invite ${req.params.inviteId}:`, err);
+      res.status(500).json({ error: "internal error" });
+    }
   });
 
   server.on("upgrade", (req, socket, head) => {
@@ -106,19 +309,37 @@ export function createApp(
       }
     }
 
+    /**
+     * Invite tokens admit new users until they expire or run out of uses. After that only the
+     * redeemers' passes, or logins as a redeemer, are let back in.
+     */
     function authenticateUpgrade(
       url: URL,
       roomId: string,
     ): { ok: true } | { ok: false; code: number; reason: string } {
       const room = getRoom(roomId);
       const token = url.searchParams.get("token");
-      if (!room || !token || !safeTokenCompare(token, room.token))
-        return { ok: false, code: 403, reason: "Invalid room or token" };
-      if (REQUIRE_GITHUB_AUTH) {
-        const jwtToken = url.searchParams.get("jwt");
-        if (!jwtToken || !verifyJWT(jwtToken))
-          return { ok: false, code: 401, reason: "Authentication required" };
+      if (!room || !token) return { ok: false, code: 403, reason: "Invalid room or token" };
+      const isRoomToken = safeTokenCompare(token, room.token);
+      const invite = isRoomToken ? undefined : findInvite(room, token);
+      if (!isRoomToken && !invite) return { ok: false, code: 403, reason: "Invalid room or token" };
+      const jwtToken = url.searchParams.get("jwt");
+      const jwtPayload = jwtToken ? verifyJWT(jwtToken) : null;
+      if ((REQUIRE_GITHUB_AUTH || room.allowlist) && !jwtPayload)
+        return { ok: false, code: 401, reason: "Authentication required" };
+      // Checked before the invite is redeemed, so a leaked invite is not used up by outsiders
+      if (!isAllowed(room.allowlist, jwtPayload))
+        return { ok: false, code: 403, reason: "Not on the room's allowlist" };
+      if (!invite) return { ok: true };
+      const userId = (jwtPayload?.sub ?? url.searchParams.get("userId"))?.slice(0, 128);
+      if (!userId) return { ok: false, code: 403, reason: "Invite requires a user id" };
+      const holder = passHolder(invite, token);
+      if (holder !== undefined) {
+        if (holder === userId) return { ok: true };
+        return { ok: false, code: 403, reason: "Invite pass belongs to another user" };
       }
+      const redeemed = redeemInvite(room, invite, userId, jwtPayload !== null);
+      if ("error" in redeemed) return { ok: false, code: 403, reason: redeemed.error };
       return { ok: true };
     }
 
@@ -160,19 +381,30 @@ export function createApp(
     socket.destroy();
   });
 
-  const reaperInterval = setInterval(
-    () => {
-      reapStaleRooms().catch((err) => console.error("[rooms] failed to reap stale rooms:", err));
-    },
-    60 * 60 * 1000,
-  );
+  const reaperInterval = setInterval(() => {
+    reapStaleRooms({
+      onExpiring: (room, expiresAt) => control.notifyRoomExpiring(room.id, expiresAt),
+      onReaped: (room) => control.closeExpiredRoom(room.id),
+    }).catch((err) => console.error("[rooms] failed to reap stale rooms:", err));
+  }, REAP_INTERVAL_MS);
+
+  const auditRetentionInterval = setInterval(() => {
+    pruneLogs(listRooms().map((room) => room.id))
+      .then((removed) => {
+        if (removed > 0) console.debug(`[audit] pruned ${removed} entries past retention`);
+      })
+      .catch((err) => console.error("[audit] failed to apply retention:", err));
+  }, REAP_INTERVAL_MS);
 
   async function shutdown() {
     console.debug("[server] shutting down gracefully...");
     clearInterval(reaperInterval);
-    control.closeAll();
-    yjs.closeAll();
+    clearInterval(auditRetentionInterval);
+    await control.closeAll();
+    await yjs.closeAll();
+    await pubsub.close();
     await closeAuditLog();
+    await flushPermissions();
     if (persistence) await persistence.close();
     server.close();
   }
@@ -184,11 +416,17 @@ const isMain = process.argv[1] && resolve(process.argv[1]) === fileURLToPath(imp
 
 if (isMain) {
   const persistence = getDefaultPersistence();
-  initAuditLog();
-  initRooms(persistence)
+  initAuditLog(persistence);
+  importLegacyAuditLog(persistence)
+    .then((imported) => {
+      if (imported > 0) console.debug(`[audit] imported ${imported} entries from ./data/audit`);
+    })
+    .catch((err) => console.error("[audit] failed to import ./data/audit, will retry:", err))
+    .then(() => initRooms(persistence))
     .then(async () => {
       const TLS_CERT = process.env.TLS_CERT;
       const TLS_KEY = process.env.TLS_KEY;
+      const pubsub = getDefaultPubSub();
 
       let server: Server;
       let shutdown: () => Promise<void>;
@@ -198,12 +436,12 @@ if (isMain) {
           cert: readFileSync(TLS_CERT),
           key: readFileSync(TLS_KEY),
         });
-        const appSetup = createApp(persistence, tlsServer);
+        const appSetup = createApp(persistence, tlsServer, pubsub);
         tlsServer.on("request", appSetup.app);
         server = tlsServer;
         shutdown = appSetup.shutdown;
       } else {
-        const appSetup = createApp(persistence);
+        const appSetup = createApp(persistence, undefined, pubsub);
         server = appSetup.server;
         shutdown = appSetup.shutdown;
       }
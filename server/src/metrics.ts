@@ -0,0 +1,127 @@
+/**
+ * Process-wide counters and histograms rendered in the Prometheus text exposition format.
+ * Label values must come from a small fixed set (message types, channel names) to keep
+ * the series count bounded.
+ */
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string[];
+  reset(): void;
+}
+
+const registry: Metric[] = [];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries.map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(",")}}`;
+}
+
+export interface Counter {
+  inc(labels?: Labels, value?: number): void;
+}
+
+export function counter(name: string, help: string): Counter {
+  const values = new Map<string, number>();
+  registry.push({
+    render() {
+      const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} counter`];
+      if (values.size === 0) lines.push(`${name} 0`);
+      for (const [labels, value] of values) lines.push(`${name}${labels} ${value}`);
+      return lines;
+    },
+    reset() {
+      values.clear();
+    },
+  });
+  return {
+    inc(labels = {}, value = 1) {
+      const key = formatLabels(labels);
+      values.set(key, (values.get(key) ?? 0) + value);
+    },
+  };
+}
+
+export interface Histogram {
+  observe(value: number): void;
+}
+
+export function histogram(name: string, help: string, buckets: number[]): Histogram {
+  const counts = buckets.map(() => 0);
+  let sum = 0;
+  let count = 0;
+  registry.push({
+    render() {
+      const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} histogram`];
+      buckets.forEach((bound, i) => {
+        lines.push(`${name}_bucket{le="${bound}"} ${counts[i]}`);
+      });
+      lines.push(`${name}_bucket{le="+Inf"} ${count}`);
+      lines.push(`${name}_sum ${sum}`);
+      lines.push(`${name}_count ${count}`);
+      return lines;
+    },
+    reset() {
+      counts.fill(0);
+      sum = 0;
+      count = 0;
+    },
+  });
+  return {
+    observe(value) {
+      buckets.forEach((bound, i) => {
+        if (value <= bound) counts[i]++;
+      });
+      sum += value;
+      count++;
+    },
+  };
+}
+
+export const muxMessages = counter(
+  "live_share_mux_messages_total",
+  "Messages received on the document channel, by mux message type",
+);
+export const controlMessages = counter(
+  "live_share_control_messages_total",
+  "Messages received on the control channel, by message type",
+);
+export const relayedBytes = counter(
+  "live_share_relayed_bytes_total",
+  "Bytes sent to clients, by channel",
+);
+export const rateLimitDisconnects = counter(
+  "live_share_rate_limit_disconnects_total",
+  "Control clients disconnected for exceeding the message rate limit",
+);
+export const roomsReaped = counter(
+  "live_share_rooms_reaped_total",
+  "Idle rooms removed after their ttl expired",
+);
+export const approvalLatency = histogram(
+  "live_share_approval_latency_seconds",
+  "Time from a guest's join request to the host's decision",
+  [1, 5, 15, 30, 60, 120, 300, 600],
+);
+
+/** `gauges` are point-in-time values supplied by the caller, such as connected clients. */
+export function renderMetrics(
+  gauges: Record<string, { help: string; value: number }> = {},
+): string {
+  const lines: string[] = [];
+  for (const [name, { help, value }] of Object.entries(gauges)) {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} gauge`, `${name} ${value}`);
+  }
+  for (const metric of registry) lines.push(...metric.render());
+  return `${lines.join("\n")}\n`;
+}
+
+export function resetMetrics(): void {
+  for (const metric of registry) metric.reset();
+}
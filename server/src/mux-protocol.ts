@@ -9,6 +9,33 @@ export const MUX_SUBSCRIBED = 4;
 export const MUX_SYNC_REQUEST = 6;
 export const MUX_SYNC_ENCRYPTED = 7;
 export const MUX_AWARENESS_ENCRYPTED = 8;
+/** Server -> client: an update to a read-only path was dropped. */
+export const MUX_WRITE_DENIED = 9;
+/** Server -> client: send the whole doc, encrypted, to replace the stored update log. */
+export const MUX_SNAPSHOT_REQUEST = 10;
+/** Client -> server: the encrypted full state asked for by a snapshot request; not relayed. */
+export const MUX_SNAPSHOT = 11;
+/** Server -> client: an encrypted update could not be stored and is missing for later joiners. */
+export const MUX_STORE_FAILED = 12;
+
+const MUX_TYPE_NAMES: Record<number, string> = {
+  [MUX_SYNC]: "sync",
+  [MUX_AWARENESS]: "awareness",
+  [MUX_SUBSCRIBE]: "subscribe",
+  [MUX_UNSUBSCRIBE]: "unsubscribe",
+  [MUX_SUBSCRIBED]: "subscribed",
+  [MUX_SYNC_REQUEST]: "sync-request",
+  [MUX_SYNC_ENCRYPTED]: "sync-encrypted",
+  [MUX_AWARENESS_ENCRYPTED]: "awareness-encrypted",
+  [MUX_WRITE_DENIED]: "write-denied",
+  [MUX_SNAPSHOT_REQUEST]: "snapshot-request",
+  [MUX_SNAPSHOT]: "snapshot",
+  [MUX_STORE_FAILED]: "store-failed",
+};
+
+export function muxTypeName(msgType: number): string {
+  return MUX_TYPE_NAMES[msgType] ?? "unknown";
+}
 
 export function encodeMuxMessage(docId: string, msgType: number, payload?: Uint8Array): Uint8Array {
   const encoder = encoding.createEncoder();
@@ -0,0 +1,227 @@
+import { type KeyObject, createHash, createPublicKey, randomBytes } from "node:crypto";
+import jwt from "jsonwebtoken";
+import type { AuthFailure, AuthIdentity, AuthProvider } from "./auth-providers.js";
+
+export interface OidcConfig {
+  /** Prefixes the user id and names the `/auth/<id>` routes. Defaults to `oidc`. */
+  id?: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  /** Omit for public clients, which rely on PKCE alone. */
+  clientSecret?: string;
+  scopes?: string;
+  /** Overrides the callback URL derived from the incoming request. */
+  redirectUri?: string;
+}
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+interface IdTokenClaims {
+  sub: string;
+  nonce?: string;
+  name?: string;
+  preferred_username?: string;
+  email?: string;
+}
+
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = [
+  "RS256",
+  "RS384",
+  "RS512",
+  "PS256",
+  "PS384",
+  "PS512",
+  "ES256",
+  "ES384",
+  "ES512",
+];
+/** Tokens naming a key the cache lacks refetch the keys at most this often. */
+const JWKS_REFETCH_INTERVAL_MS = 60_000;
+
+function base64url(bytes: Buffer): string {
+  return bytes.toString("base64url");
+}
+
+/** The S256 PKCE challenge for `verifier`. */
+export function pkceChallenge(verifier: string): string {
+  return base64url(createHash("sha256").update(verifier).digest());
+}
+
+/**
+ * Authorization code flow with PKCE against any OpenID Connect issuer. The discovery
+ * document and signing keys are fetched on first use and cached; keys are refetched
+ * when a token names one the cache has not seen, which covers issuer key rotation.
+ * A discovery document naming an issuer other than the configured one is rejected.
+ */
+export function createOidcProvider(config: OidcConfig): AuthProvider {
+  const id = config.id ?? "oidc";
+  const issuer = config.issuer.replace(/\/+$/, "");
+  let discovery: Promise<DiscoveryDocument> | null = null;
+  let keys = new Map<string, KeyObject>();
+  let keysFetchedAt = 0;
+
+  function discover(): Promise<DiscoveryDocument> {
+    if (!discovery) {
+      discovery = fetchJson<DiscoveryDocument>(`${issuer}/.well-known/openid-configuration`).then(
+        (doc) => {
+          // Its tokens are checked against this issuer, so it must be the one configured
+          if (typeof doc.issuer !== "string" || doc.issuer.replace(/\/+$/, "") !== issuer) {
+            throw new Error(`discovery document names issuer ${doc.issuer}, not ${issuer}`);
+          }
+          return doc;
+        },
+      );
+      // Retry on the next login rather than caching the failure
+      discovery.catch(() => {
+        discovery = null;
+      });
+    }
+    return discovery;
+  }
+
+  async function loadKeys(doc: DiscoveryDocument) {
+    keysFetchedAt = Date.now();
+    const { keys: jwks } = await fetchJson<{ keys: (JsonWebKey & { kid?: string })[] }>(
+      doc.jwks_uri,
+    ).catch((err) => {
+      // A failed fetch does not hold back the next login's
+      keysFetchedAt = 0;
+      throw err;
+    });
+    keys = new Map();
+    for (const jwk of jwks) {
+      try {
+        keys.set(jwk.kid ?? "", createPublicKey({ key: jwk, format: "jwk" }));
+      } catch {
+        // Keys of a type node cannot import are never used to sign our tokens
+      }
+    }
+  }
+
+  async function signingKey(doc: DiscoveryDocument, kid: string): Promise<KeyObject | undefined> {
+    // Made-up key ids must not have every login refetch the issuer's keys
+    if (!keys.has(kid) && Date.now() - keysFetchedAt >= JWKS_REFETCH_INTERVAL_MS) {
+      await loadKeys(doc);
+    }
+    return keys.get(kid) ?? (kid === "" && keys.size === 1 ? [...keys.values()][0] : undefined);
+  }
+
+  async function verifyIdToken(
+    doc: DiscoveryDocument,
+    idToken: string,
+    nonce: string,
+  ): Promise<IdTokenClaims | AuthFailure> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded) return { status: 401, error: "Malformed id_token" };
+    const key = await signingKey(doc, decoded.header.kid ?? "");
+    if (!key) return { status: 401, error: "Unknown id_token signing key" };
+    let claims: IdTokenClaims;
+    try {
+      claims = jwt.verify(idToken, key, {
+        algorithms: ID_TOKEN_ALGORITHMS,
+        issuer: doc.issuer,
+        audience: config.clientId,
+      }) as IdTokenClaims;
+    } catch (err) {
+      return { status: 401, error: `Invalid id_token: ${(err as Error).message}` };
+    }
+    if (claims.nonce !== nonce) return { status: 401, error: "id_token nonce mismatch" };
+    if (typeof claims.sub !== "string" || !claims.sub) {
+      return { status: 401, error: "id_token has no subject" };
+    }
+    return claims;
+  }
+
+  return {
+    id,
+    name: config.name,
+
+    async authorize(redirectUri, state) {
+      const doc = await discover();
+      const verifier = base64url(randomBytes(32));
+      const nonce = base64url(randomBytes(16));
+      const params = new URLSearchParams({
+        response_type: "code",
+        client_id: config.clientId,
+        redirect_uri: config.redirectUri ?? redirectUri,
+        scope: config.scopes ?? "openid profile email",
+        state,
+        nonce,
+        code_challenge: pkceChallenge(verifier),
+        code_challenge_method: "S256",
+      });
+      return { url: `${doc.authorization_endpoint}?${params}`, session: { verifier, nonce } };
+    },
+
+    async callback(code, redirectUri, session) {
+      let doc: DiscoveryDocument;
+      try {
+        doc = await discover();
+      } catch {
+        return { status: 502, error: `Failed to contact ${config.name}` };
+      }
+
+      const body = new URLSearchParams({
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: config.redirectUri ?? redirectUri,
+        client_id: config.clientId,
+        code_verifier: session.verifier ?? "",
+      });
+      const headers: Record<string, string> = {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Accept: "application/json",
+      };
+      if (config.clientSecret) {
+        const methods = doc.token_endpoint_auth_methods_supported ?? ["client_secret_basic"];
+        if (methods.includes("client_secret_basic")) {
+          const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+          headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+        } else {
+          body.set("client_secret", config.clientSecret);
+        }
+      }
+
+      let tokenResponse: Response;
+      try {
+        tokenResponse = await fetch(doc.token_endpoint, { method: "POST", headers, body });
+      } catch {
+        return { status: 502, error: `Failed to contact ${config.name}` };
+      }
+      if (!tokenResponse.ok) return { status: 401, error: `${config.name} auth failed` };
+      const { id_token } = (await tokenResponse.json()) as { id_token?: string };
+      if (!id_token) return { status: 401, error: `${config.name} returned no id_token` };
+
+      let claims: IdTokenClaims | AuthFailure;
+      try {
+        claims = await verifyIdToken(doc, id_token, session.nonce ?? "");
+      } catch {
+        return { status: 502, error: `Failed to fetch ${config.name} signing keys` };
+      }
+      if ("error" in claims) return claims;
+
+      const username = claims.preferred_username || claims.email || claims.sub;
+      const identity: AuthIdentity = {
+        sub: `${id}:${claims.sub}`,
+        username,
+        displayName: claims.name || username,
+        // Avatars are only accepted from GitHub's CDN
+        avatar: null,
+      };
+      return identity;
+    },
+  };
+}
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const res = await fetch(url, { headers: { Accept: "application/json" } });
+  if (!res.ok) throw new Error(`${url} returned ${res.status}`);
+  return (await res.json()) as T;
+}
@@ -1,26 +1,88 @@
-import type { Permission } from "./persistence.js";
+import { minimatch } from "minimatch";
+import { type Permission, type Persistence, type Room, noopPersistence } from "./persistence.js";
+
+const PERMISSION_RANK: Record<Permission, number> = { "read-only": 0, comment: 1, "read-write": 2 };
 
 const permissions = new Map<string, Permission>();
+let persistence: Persistence = noopPersistence;
+// Writes are chained so a set followed by a clear can never land out of order
+let pendingWrites: Promise<void> = Promise.resolve();
 
 function permissionKey(roomId: string, userId: string): string {
   return `${roomId}:${userId}`;
 }
 
+function persist(write: () => Promise<void>): void {
+  pendingWrites = pendingWrites.then(write).catch((err) => {
+    console.error("[permissions] failed to persist permission change:", err);
+  });
+}
+
+export function isPermission(value: unknown): value is Permission {
+  return value === "read-write" || value === "comment" || value === "read-only";
+}
+
+/** The more restrictive of two permissions. */
+export function minPermission(a: Permission, b: Permission): Permission {
+  return PERMISSION_RANK[a] <= PERMISSION_RANK[b] ? a : b;
+}
+
+export function initPermissions(store: Persistence): void {
+  persistence = store;
+}
+
+export async function loadRoomPermissions(roomId: string): Promise<void> {
+  for (const [userId, permission] of await persistence.loadPermissions(roomId)) {
+    permissions.set(permissionKey(roomId, userId), permission);
+  }
+}
+
+export function flushPermissions(): Promise<void> {
+  return pendingWrites;
+}
+
 export function setPermission(roomId: string, userId: string, permission: Permission): void {
   permissions.set(permissionKey(roomId, userId), permission);
+  persist(() => persistence.savePermission(roomId, userId, permission));
 }
 
 export function getPermission(roomId: string, userId: string): Permission | undefined {
   return permissions.get(permissionKey(roomId, userId));
 }
 
+export function getRoomPermissions(roomId: string): Map<string, Permission> {
+  const prefix = `${roomId}:`;
+  const result = new Map<string, Permission>();
+  for (const [key, permission] of permissions) {
+    if (key.startsWith(prefix)) result.set(key.slice(prefix.length), permission);
+  }
+  return result;
+}
+
 export function clearPermission(roomId: string, userId: string): void {
   permissions.delete(permissionKey(roomId, userId));
+  persist(() => persistence.deletePermission(roomId, userId));
 }
 
 export function clearRoomPermissions(roomId: string): void {
+  forgetRoomPermissions(roomId);
+  persist(() => persistence.deletePermissions(roomId));
+}
+
+/** Drops the room's permissions from memory only, once another instance deleted them. */
+export function forgetRoomPermissions(roomId: string): void {
   const prefix = `${roomId}:`;
   for (const key of permissions.keys()) {
     if (key.startsWith(prefix)) permissions.delete(key);
   }
 }
+
+/** Whether `path` matches one of the room's read-only patterns, which bind everyone but the host. */
+export function isReadOnlyPath(room: Room | undefined, path: string): boolean {
+  return !!room?.readOnlyPatterns?.some((pattern) => minimatch(path, pattern));
+}
+
+/** Whether the host let read-only `userId` write `path` anyway. */
+export function hasWriteGrant(room: Room | undefined, userId: string, path: string): boolean {
+  return !!room?.writeGrants?.[userId]?.some((pattern) => minimatch(path, pattern));
+}
@@ -0,0 +1,265 @@
+import { appendFile, mkdir, readFile, readdir, rename, rm, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { nanoid } from "nanoid";
+import type { AuditEntry, AuditRetention, Permission, Persistence, Room } from "./persistence.js";
+
+/** Ids become single path segments, so dots are escaped too ("." and ".." stay inert). */
+function fileName(id: string): string {
+  return encodeURIComponent(id).replace(/\./g, "%2E");
+}
+
+function isNotFound(err: unknown): boolean {
+  return (err as { code?: string }).code === "ENOENT";
+}
+
+async function readOptional(path: string): Promise<Buffer | null> {
+  try {
+    return await readFile(path);
+  } catch (err) {
+    if (isNotFound(err)) return null;
+    throw err;
+  }
+}
+
+async function writeAtomic(path: string, data: string | Uint8Array): Promise<void> {
+  const tmp = `${path}.${nanoid(6)}.tmp`;
+  await writeFile(tmp, data);
+  await rename(tmp, path);
+}
+
+/** An encrypted update as stored in a doc's log: its length, then its bytes. */
+function frameOf(update: Uint8Array): Buffer {
+  const frame = Buffer.alloc(4 + update.length);
+  frame.writeUInt32BE(update.length, 0);
+  frame.set(update, 4);
+  return frame;
+}
+
+/**
+ * Stores everything as plain files under `dir`:
+ * `rooms/<room>.json`, `docs/<room>/<doc>.bin`, `updates/<room>/<doc>.log`
+ * (length-prefixed frames), `permissions/<room>.json` and `audit/<room>.jsonl`.
+ */
+export function createFsPersistence(dir = "./data/store"): Persistence {
+  const roomsDir = join(dir, "rooms");
+  const docsDir = join(dir, "docs");
+  const updatesDir = join(dir, "updates");
+  const permissionsDir = join(dir, "permissions");
+  const auditDir = join(dir, "audit");
+  const writeQueues = new Map<string, Promise<void>>();
+
+  // Writes are chained per file so appends never interleave and updates never race
+  function enqueueWrite(path: string, write: () => Promise<void>): Promise<void> {
+    const queued = (writeQueues.get(path) ?? Promise.resolve()).then(write);
+    const settled = queued.catch(() => {});
+    writeQueues.set(path, settled);
+    void settled.then(() => {
+      if (writeQueues.get(path) === settled) writeQueues.delete(path);
+    });
+    return queued;
+  }
+
+  function enqueueAppend(path: string, data: string | Uint8Array): Promise<void> {
+    return enqueueWrite(path, async () => {
+      await mkdir(dirname(path), { recursive: true });
+      await appendFile(path, data);
+    });
+  }
+
+  async function readPermissions(path: string): Promise<Map<string, Permission>> {
+    const data = await readOptional(path);
+    return new Map(data ? Object.entries(JSON.parse(data.toString("utf-8"))) : []);
+  }
+
+  function updatePermissions(
+    roomId: string,
+    update: (permissions: Map<string, Permission>) => void,
+  ): Promise<void> {
+    const path = permissionsPath(roomId);
+    return enqueueWrite(path, async () => {
+      const permissions = await readPermissions(path);
+      update(permissions);
+      await mkdir(permissionsDir, { recursive: true });
+      await writeAtomic(path, JSON.stringify(Object.fromEntries(permissions)));
+    });
+  }
+
+  function docPath(roomId: string, docId: string): string {
+    return join(docsDir, fileName(roomId), `${fileName(docId)}.bin`);
+  }
+
+  function updatesPath(roomId: string, docId: string): string {
+    return join(updatesDir, fileName(roomId), `${fileName(docId)}.log`);
+  }
+
+  function permissionsPath(roomId: string): string {
+    return join(permissionsDir, `${fileName(roomId)}.json`);
+  }
+
+  function auditPath(roomId: string): string {
+    return join(auditDir, `${fileName(roomId)}.jsonl`);
+  }
+
+  return {
+    async loadRooms(): Promise<Room[]> {
+      const rooms: Room[] = [];
+      try {
+        await mkdir(roomsDir, { recursive: true });
+        for (const name of await readdir(roomsDir)) {
+          if (!name.endsWith(".json")) continue;
+          try {
+            rooms.push(JSON.parse(await readFile(join(roomsDir, name), "utf-8")));
+          } catch (err) {
+            console.warn("[persistence] corrupt room entry, skipping:", name, err);
+          }
+        }
+      } catch (err) {
+        console.warn("[persistence] failed to load rooms:", err);
+      }
+      return rooms;
+    },
+
+    async saveRoom(room: Room): Promise<void> {
+      await mkdir(roomsDir, { recursive: true });
+      await writeAtomic(join(roomsDir, `${fileName(room.id)}.json`), JSON.stringify(room));
+    },
+
+    async deleteRoom(id: string): Promise<void> {
+      await rm(join(roomsDir, `${fileName(id)}.json`), { force: true });
+    },
+
+    async loadDoc(roomId: string, docId: string): Promise<Uint8Array | null> {
+      const data = await readOptional(docPath(roomId, docId));
+      return data ? new Uint8Array(data) : null;
+    },
+
+    async saveDoc(roomId: string, docId: string, state: Uint8Array): Promise<void> {
+      const path = docPath(roomId, docId);
+      await mkdir(dirname(path), { recursive: true });
+      await writeAtomic(path, state);
+    },
+
+    async loadEncryptedUpdates(roomId: string, docId: string): Promise<Uint8Array[]> {
+      const data = await readOptional(updatesPath(roomId, docId));
+      const updates: Uint8Array[] = [];
+      if (!data) return updates;
+      let offset = 0;
+      while (offset + 4 <= data.length) {
+        const length = data.readUInt32BE(offset);
+        offset += 4;
+        // A torn final frame (crash mid-append) is dropped
+        if (offset + length > data.length) break;
+        updates.push(new Uint8Array(data.subarray(offset, offset + length)));
+        offset += length;
+      }
+      return updates;
+    },
+
+    async appendEncryptedUpdate(roomId: string, docId: string, update: Uint8Array): Promise<void> {
+      await enqueueAppend(updatesPath(roomId, docId), frameOf(update));
+    },
+
+    async replaceEncryptedUpdates(
+      roomId: string,
+      docId: string,
+      updates: Uint8Array[],
+    ): Promise<void> {
+      const path = updatesPath(roomId, docId);
+      const frames = Buffer.concat(updates.map(frameOf));
+      await enqueueWrite(path, async () => {
+        await mkdir(dirname(path), { recursive: true });
+        await writeAtomic(path, frames);
+      });
+    },
+
+    async deleteDocs(roomId: string): Promise<void> {
+      await rm(join(docsDir, fileName(roomId)), { recursive: true, force: true });
+      await rm(join(updatesDir, fileName(roomId)), { recursive: true, force: true });
+    },
+
+    async loadPermissions(roomId: string): Promise<Map<string, Permission>> {
+      const path = permissionsPath(roomId);
+      await writeQueues.get(path);
+      return readPermissions(path);
+    },
+
+    async savePermission(roomId: string, userId: string, permission: Permission): Promise<void> {
+      await updatePermissions(roomId, (permissions) => {
+        permissions.set(userId, permission);
+      });
+    },
+
+    async deletePermission(roomId: string, userId: string): Promise<void> {
+      await updatePermissions(roomId, (permissions) => {
+        permissions.delete(userId);
+      });
+    },
+
+    async deletePermissions(roomId: string): Promise<void> {
+      const path = permissionsPath(roomId);
+      await enqueueWrite(path, () => rm(path, { force: true }));
+    },
+
+    async appendAuditEntry(roomId: string, entry: AuditEntry): Promise<void> {
+      await enqueueAppend(auditPath(roomId), `${JSON.stringify(entry)}\n`);
+    },
+
+    async loadAuditEntries(roomId: string, limit?: number): Promise<AuditEntry[]> {
+      const data = await readOptional(auditPath(roomId));
+      if (!data) return [];
+      const entries: AuditEntry[] = [];
+      for (const line of data.toString("utf-8").split("\n")) {
+        if (!line) continue;
+        try {
+          entries.push(JSON.parse(line));
+        } catch {
+          // Skip malformed entries
+        }
+      }
+      // Newest appended first among equal timestamps (sort is stable)
+      entries.reverse();
+      entries.sort((a, b) => b.timestamp - a.timestamp);
+      return entries.slice(0, limit);
+    },
+
+    async pruneAuditEntries(roomId: string, { before, keep }: AuditRetention): Promise<number> {
+      const path = auditPath(roomId);
+      let removed = 0;
+      await enqueueWrite(path, async () => {
+        const data = await readOptional(path);
+        if (!data) return;
+        const lines = data
+          .toString("utf-8")
+          .split("\n")
+          .filter((line) => line);
+        const timestamps = lines.map((line) => {
+          try {
+            return Number(JSON.parse(line).timestamp) || 0;
+          } catch {
+            return 0;
+          }
+        });
+        // Same newest-first order as loadAuditEntries, then rewritten in append order
+        const newestFirst = lines
+          .map((_, index) => index)
+          .reverse()
+          .sort((a, b) => timestamps[b] - timestamps[a])
+          .filter((index) => before === undefined || timestamps[index] >= before);
+        const kept = new Set(newestFirst.slice(0, keep));
+        removed = lines.length - kept.size;
+        if (removed === 0) return;
+        const remaining = lines.filter((_, index) => kept.has(index));
+        await writeAtomic(path, remaining.map((line) => `${line}\n`).join(""));
+      });
+      return removed;
+    },
+
+    async deleteAuditEntries(roomId: string): Promise<void> {
+      await rm(auditPath(roomId), { force: true });
+    },
+
+    async close(): Promise<void> {
+      await Promise.all(writeQueues.values());
+    },
+  };
+}
@@ -0,0 +1,195 @@
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import Database from "better-sqlite3";
+import type { AuditEntry, AuditRetention, Permission, Persistence, Room } from "./persistence.js";
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS rooms (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS docs (
+    room_id TEXT NOT NULL,
+    doc_id TEXT NOT NULL,
+    state BLOB NOT NULL,
+    PRIMARY KEY (room_id, doc_id)
+  );
+  CREATE TABLE IF NOT EXISTS encrypted_updates (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    room_id TEXT NOT NULL,
+    doc_id TEXT NOT NULL,
+    data BLOB NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS encrypted_updates_doc ON encrypted_updates (room_id, doc_id, seq);
+  CREATE TABLE IF NOT EXISTS permissions (
+    room_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    permission TEXT NOT NULL,
+    PRIMARY KEY (room_id, user_id)
+  );
+  CREATE TABLE IF NOT EXISTS audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    room_id TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS audit_log_room ON audit_log (room_id, timestamp);
+`;
+
+export function createSqlitePersistence(dbPath = "./data/live-share.db"): Persistence {
+  mkdirSync(dirname(dbPath), { recursive: true });
+  const db = new Database(dbPath);
+  db.pragma("journal_mode = WAL");
+  db.exec(SCHEMA);
+
+  const selectRooms = db.prepare<[], { id: string; data: string }>("SELECT id, data FROM rooms");
+  const upsertRoom = db.prepare<[string, string]>(
+    "INSERT INTO rooms (id, data) VALUES (?, ?) ON CONFLICT (id) DO UPDATE SET data = excluded.data",
+  );
+  const deleteRoom = db.prepare<[string]>("DELETE FROM rooms WHERE id = ?");
+  const selectDoc = db.prepare<[string, string], { state: Buffer }>(
+    "SELECT state FROM docs WHERE room_id = ? AND doc_id = ?",
+  );
+  const upsertDoc = db.prepare<[string, string, Buffer]>(
+    "INSERT INTO docs (room_id, doc_id, state) VALUES (?, ?, ?) ON CONFLICT (room_id, doc_id) DO UPDATE SET state = excluded.state",
+  );
+  const selectUpdates = db.prepare<[string, string], { data: Buffer }>(
+    "SELECT data FROM encrypted_updates WHERE room_id = ? AND doc_id = ? ORDER BY seq",
+  );
+  const insertUpdate = db.prepare<[string, string, Buffer]>(
+    "INSERT INTO encrypted_updates (room_id, doc_id, data) VALUES (?, ?, ?)",
+  );
+  const deleteDocs = db.prepare<[string]>("DELETE FROM docs WHERE room_id = ?");
+  const deleteUpdates = db.prepare<[string]>("DELETE FROM encrypted_updates WHERE room_id = ?");
+  const selectPermissions = db.prepare<[string], { user_id: string; permission: Permission }>(
+    "SELECT user_id, permission FROM permissions WHERE room_id = ?",
+  );
+  const upsertPermission = db.prepare<[string, string, Permission]>(
+    "INSERT INTO permissions (room_id, user_id, permission) VALUES (?, ?, ?) ON CONFLICT (room_id, user_id) DO UPDATE SET permission = excluded.permission",
+  );
+  const deletePermission = db.prepare<[string, string]>(
+    "DELETE FROM permissions WHERE room_id = ? AND user_id = ?",
+  );
+  const deletePermissions = db.prepare<[string]>("DELETE FROM permissions WHERE room_id = ?");
+  const insertAudit = db.prepare<[string, number, string]>(
+    "INSERT INTO audit_log (room_id, timestamp, data) VALUES (?, ?, ?)",
+  );
+  const selectAudit = db.prepare<[string, number], { data: string }>(
+    "SELECT data FROM audit_log WHERE room_id = ? ORDER BY timestamp DESC, id DESC LIMIT ?",
+  );
+  // A negative LIMIT means no limit, and no entry is timestamped before 0
+  const pruneAudit = db.prepare<[string, number, string, number]>(
+    "DELETE FROM audit_log WHERE room_id = ? AND (timestamp < ? OR id NOT IN (SELECT id FROM audit_log WHERE room_id = ? ORDER BY timestamp DESC, id DESC LIMIT ?))",
+  );
+  const deleteAudit = db.prepare<[string]>("DELETE FROM audit_log WHERE room_id = ?");
+  const deleteDocUpdates = db.prepare<[string, string]>(
+    "DELETE FROM encrypted_updates WHERE room_id = ? AND doc_id = ?",
+  );
+  const replaceUpdates = db.transaction((roomId: string, docId: string, updates: Uint8Array[]) => {
+    deleteDocUpdates.run(roomId, docId);
+    for (const update of updates) insertUpdate.run(roomId, docId, Buffer.from(update));
+  });
+  const deleteAllDocs = db.transaction((roomId: string) => {
+    deleteDocs.run(roomId);
+    deleteUpdates.run(roomId);
+  });
+
+  return {
+    async loadRooms(): Promise<Room[]> {
+      const rooms: Room[] = [];
+      try {
+        for (const row of selectRooms.all()) {
+          try {
+            rooms.push(JSON.parse(row.data));
+          } catch (err) {
+            console.warn("[persistence] corrupt room entry, skipping:", row.id, err);
+          }
+        }
+      } catch (err) {
+        console.warn("[persistence] failed to load rooms:", err);
+      }
+      return rooms;
+    },
+
+    async saveRoom(room: Room): Promise<void> {
+      upsertRoom.run(room.id, JSON.stringify(room));
+    },
+
+    async deleteRoom(id: string): Promise<void> {
+      deleteRoom.run(id);
+    },
+
+    async loadDoc(roomId: string, docId: string): Promise<Uint8Array | null> {
+      const row = selectDoc.get(roomId, docId);
+      return row ? new Uint8Array(row.state) : null;
+    },
+
+    async saveDoc(roomId: string, docId: string, state: Uint8Array): Promise<void> {
+      upsertDoc.run(roomId, docId, Buffer.from(state));
+    },
+
+    async loadEncryptedUpdates(roomId: string, docId: string): Promise<Uint8Array[]> {
+      return selectUpdates.all(roomId, docId).map((row) => new Uint8Array(row.data));
+    },
+
+    async appendEncryptedUpdate(roomId: string, docId: string, update: Uint8Array): Promise<void> {
+      insertUpdate.run(roomId, docId, Buffer.from(update));
+    },
+
+    async replaceEncryptedUpdates(
+      roomId: string,
+      docId: string,
+      updates: Uint8Array[],
+    ): Promise<void> {
+      replaceUpdates(roomId, docId, updates);
+    },
+
+    async deleteDocs(roomId: string): Promise<void> {
+      deleteAllDocs(roomId);
+    },
+
+    async loadPermissions(roomId: string): Promise<Map<string, Permission>> {
+      return new Map(selectPermissions.all(roomId).map((row) => [row.user_id, row.permission]));
+    },
+
+    async savePermission(roomId: string, userId: string, permission: Permission): Promise<void> {
+      upsertPermission.run(roomId, userId, permission);
+    },
+
+    async deletePermission(roomId: string, userId: string): Promise<void> {
+      deletePermission.run(roomId, userId);
+    },
+
+    async deletePermissions(roomId: string): Promise<void> {
+      deletePermissions.run(roomId);
+    },
+
+    async appendAuditEntry(roomId: string, entry: AuditEntry): Promise<void> {
+      insertAudit.run(roomId, entry.timestamp, JSON.stringify(entry));
+    },
+
+    async loadAuditEntries(roomId: string, limit?: number): Promise<AuditEntry[]> {
+      const entries: AuditEntry[] = [];
+      for (const row of selectAudit.all(roomId, limit ?? -1)) {
+        try {
+          entries.push(JSON.parse(row.data));
+        } catch {
+          // Skip malformed entries
+        }
+      }
+      return entries;
+    },
+
+    async pruneAuditEntries(roomId: string, { before, keep }: AuditRetention): Promise<number> {
+      return pruneAudit.run(roomId, before ?? 0, roomId, keep ?? -1).changes;
+    },
+
+    async deleteAuditEntries(roomId: string): Promise<void> {
+      deleteAudit.run(roomId);
+    },
+
+    async close(): Promise<void> {
+      db.close();
+    },
+  };
+}
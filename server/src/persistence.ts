@@ -1,6 +1,38 @@
 import { Level } from "level";
+import { nanoid } from "nanoid";
+import { createFsPersistence } from "./persistence-fs.js";
+import { createSqlitePersistence } from "./persistence-sqlite.js";
+
+/** `comment` may annotate a file through its comments doc but not edit the file itself. */
+export type Permission = "read-write" | "comment" | "read-only";
+
+export interface Invite {
+  id: string;
+  token: string;
+  permission: Permission;
+  createdAt: number;
+  /** New users are turned away after this; users who already joined can still reconnect. */
+  expiresAt: number;
+  /** Number of distinct users that may join with this invite; 0 is unlimited. */
+  maxUses: number;
+  redeemedBy: string[];
+  /**
+   * Each redeemer's own token by user id. Anyone holding the invite can claim a user id, so
+   * only a pass, or a login with that id, lets a redeemer back in once the invite is used up.
+   */
+  passes?: Record<string, string>;
+}
+
+/** Who may connect to a room, on top of holding its token or an invite. */
+export interface RoomAllowlist {
+  /** User ids as carried in the login token: GitHub's numeric id, or `<provider>:<sub>`. */
+  users?: string[];
+  /** GitHub organization logins, lowercase. */
+  orgs?: string[];
+  /** GitHub teams as `org/team-slug`, lowercase. */
+  teams?: string[];
+}
 
-export type Permission = "read-write" | "read-only";
 export interface Room {
   id: string;
   token: string;
@@ -8,34 +40,116 @@ export interface Room {
   createdAt: number;
   lastActivityAt: number;
   hostUserId?: string;
+  /** Given only to the room's creator, and proves them host to host-only REST endpoints. */
+  hostToken?: string;
+  /** Users the host made co-host, restored when they reconnect. */
+  coHostUserIds?: string[];
   requireApproval?: boolean;
   readOnlyPatterns?: string[];
+  /** Globs read-only users may still write, keyed by user id. */
+  writeGrants?: Record<string, string[]>;
   defaultPermission?: Permission;
+  /** Idle lifetime in seconds; 0 never expires, unset uses `ROOM_TTL_SECONDS`. */
+  ttl?: number;
+  invites?: Invite[];
+  /** When set, only logged-in users matching an entry can connect or become host. */
+  allowlist?: RoomAllowlist;
+}
+
+export interface AuditEntry {
+  timestamp: number;
+  event: string;
+  userId: string;
+  displayName: string;
+  details?: string;
+  /** Position in the room's hash chain, starting at 1. Absent on entries written before chaining. */
+  seq?: number;
+  /** `hash` of the previous entry in the room's chain. */
+  prevHash?: string;
+  hash?: string;
+}
+
+export interface AuditRetention {
+  /** Entries timestamped before this are removed. */
+  before?: number;
+  /** Only this many of the newest entries are kept. */
+  keep?: number;
 }
 
 export interface Persistence {
   loadRooms(): Promise<Room[]>;
   saveRoom(room: Room): Promise<void>;
   deleteRoom(id: string): Promise<void>;
+  loadDoc(roomId: string, docId: string): Promise<Uint8Array | null>;
+  saveDoc(roomId: string, docId: string, state: Uint8Array): Promise<void>;
+  loadEncryptedUpdates(roomId: string, docId: string): Promise<Uint8Array[]>;
+  appendEncryptedUpdate(roomId: string, docId: string, update: Uint8Array): Promise<void>;
+  /** Swaps a doc's whole encrypted log for `updates`, as when it was compacted. */
+  replaceEncryptedUpdates(roomId: string, docId: string, updates: Uint8Array[]): Promise<void>;
+  deleteDocs(roomId: string): Promise<void>;
+  loadPermissions(roomId: string): Promise<Map<string, Permission>>;
+  savePermission(roomId: string, userId: string, permission: Permission): Promise<void>;
+  deletePermission(roomId: string, userId: string): Promise<void>;
+  deletePermissions(roomId: string): Promise<void>;
+  appendAuditEntry(roomId: string, entry: AuditEntry): Promise<void>;
+  /** Newest entries first; all of them when `limit` is omitted. */
+  loadAuditEntries(roomId: string, limit?: number): Promise<AuditEntry[]>;
+  /** Returns how many entries were removed. */
+  pruneAuditEntries(roomId: string, retention: AuditRetention): Promise<number>;
+  deleteAuditEntries(roomId: string): Promise<void>;
   close(): Promise<void>;
 }
 
+const UPDATE_SEQ_RE = /^\d{12}$/;
+
+function docKey(roomId: string, docId: string): string {
+  return `doc:${roomId}:${docId}`;
+}
+
+function updatePrefix(roomId: string, docId: string): string {
+  return `update:${roomId}:${docId}:`;
+}
+
+function permissionPrefix(roomId: string): string {
+  return `permission:${roomId}:`;
+}
+
+function auditKey(roomId: string, entry: AuditEntry): string {
+  return `audit:${roomId}:${String(entry.timestamp).padStart(16, "0")}:${nanoid(6)}`;
+}
+
 export function createLevelPersistence(dbPath = "./data/yjs-docs"): Persistence {
   const db = new Level(dbPath, { valueEncoding: "buffer" });
+  const updateSeqs = new Map<string, number>();
+  const appendQueues = new Map<string, Promise<void>>();
+
+  async function lastUpdateSeq(roomId: string, docId: string): Promise<number> {
+    const prefix = updatePrefix(roomId, docId);
+    for await (const [key] of db.iterator<string, Buffer>({
+      gte: prefix,
+      lte: `${prefix}\xff`,
+      keyEncoding: "utf8",
+      reverse: true,
+    })) {
+      const suffix = key.slice(prefix.length);
+      if (UPDATE_SEQ_RE.test(suffix)) return Number(suffix);
+    }
+    return 0;
+  }
 
   return {
     async loadRooms(): Promise<Room[]> {
       const rooms: Room[] = [];
       try {
         for await (const [key, value] of db.iterator<string, Buffer>({
+          gte: "room:",
+          lte: "room:\xff",
           keyEncoding: "utf8",
         })) {
-          if (key.startsWith("room:")) {
-            try {
-              rooms.push(JSON.parse(value.toString("utf-8")));
-            } catch (err) {
-              console.warn("[persistence] corrupt room entry, skipping:", key, err);
-            }
+          try {
+            rooms.push(JSON.parse(value.toString("utf-8")));
+          } catch (err) {
+            console.warn("[persistence] corrupt room entry, skipping:", key, err);
           }
         }
       } catch (err) {
@@ -56,6 +170,199 @@ export function createLevelPersistence(dbPath = "./data/yjs-docs"): Persistence
       }
     },
 
+    async loadDoc(roomId: string, docId: string): Promise<Uint8Array | null> {
+      try {
+        const value = (await db.get(docKey(roomId, docId))) as unknown as Buffer | undefined;
+        return value ? new Uint8Array(value) : null;
+      } catch (err: unknown) {
+        if ((err as { code?: string }).code === "LEVEL_NOT_FOUND") return null;
+        throw err;
+      }
+    },
+
+    async saveDoc(roomId: string, docId: string, state: Uint8Array): Promise<void> {
+      await db.put(docKey(roomId, docId), Buffer.from(state) as unknown as string);
+    },
+
+    async loadEncryptedUpdates(roomId: string, docId: string): Promise<Uint8Array[]> {
+      const prefix = updatePrefix(roomId, docId);
+      const updates: Uint8Array[] = [];
+      for await (const [key, value] of db.iterator<string, Buffer>({
+        gte: prefix,
+        lte: `${prefix}\xff`,
+        keyEncoding: "utf8",
+      })) {
+        // Doc ids may contain colons, so make sure the suffix is our sequence number
+        if (UPDATE_SEQ_RE.test(key.slice(prefix.length))) updates.push(new Uint8Array(value));
+      }
+      return updates;
+    },
+
+    async appendEncryptedUpdate(roomId: string, docId: string, update: Uint8Array): Promise<void> {
+      const key = docKey(roomId, docId);
+      // Appends are chained per doc so concurrent writers never reuse a sequence number
+      const append = (appendQueues.get(key) ?? Promise.resolve()).then(async () => {
+        const seq = (updateSeqs.get(key) ?? (await lastUpdateSeq(roomId, docId))) + 1;
+        updateSeqs.set(key, seq);
+        await db.put(
+          `${updatePrefix(roomId, docId)}${String(seq).padStart(12, "0")}`,
+          Buffer.from(update) as unknown as string,
+        );
+      });
+      appendQueues.set(
+        key,
+        append.catch(() => {}),
+      );
+      return append;
+    },
+
+    async replaceEncryptedUpdates(
+      roomId: string,
+      docId: string,
+      updates: Uint8Array[],
+    ): Promise<void> {
+      const key = docKey(roomId, docId);
+      const replace = (appendQueues.get(key) ?? Promise.resolve()).then(async () => {
+        const prefix = updatePrefix(roomId, docId);
+        const batch = db.batch();
+        for await (const [existing] of db.iterator<string, Buffer>({
+          gte: prefix,
+          lte: `${prefix}\xff`,
+          keyEncoding: "utf8",
+        })) {
+          if (UPDATE_SEQ_RE.test(existing.slice(prefix.length))) batch.del(existing);
+        }
+        updates.forEach((update, index) => {
+          batch.put(
+            `${prefix}${String(index + 1).padStart(12, "0")}`,
+            Buffer.from(update) as unknown as string,
+          );
+        });
+        await batch.write();
+        updateSeqs.set(key, updates.length);
+      });
+      appendQueues.set(
+        key,
+        replace.catch(() => {}),
+      );
+      return replace;
+    },
+
+    async deleteDocs(roomId: string): Promise<void> {
+      const batch = db.batch();
+      for (const prefix of [`doc:${roomId}:`, `update:${roomId}:`]) {
+        for await (const [key] of db.iterator<string, Buffer>({
+          gte: prefix,
+          lte: `${prefix}\xff`,
+          keyEncoding: "utf8",
+        })) {
+          batch.del(key);
+        }
+      }
+      await batch.write();
+      for (const key of [...updateSeqs.keys(), ...appendQueues.keys()]) {
+        if (key.startsWith(`doc:${roomId}:`)) {
+          updateSeqs.delete(key);
+          appendQueues.delete(key);
+        }
+      }
+    },
+
+    async loadPermissions(roomId: string): Promise<Map<string, Permission>> {
+      const prefix = permissionPrefix(roomId);
+      const permissions = new Map<string, Permission>();
+      for await (const [key, value] of db.iterator<string, Buffer>({
+        gte: prefix,
+        lte: `${prefix}\xff`,
+        keyEncoding: "utf8",
+      })) {
+        permissions.set(key.slice(prefix.length), value.toString("utf-8") as Permission);
+      }
+      return permissions;
+    },
+
+    async savePermission(roomId: string, userId: string, permission: Permission): Promise<void> {
+      await db.put(
+        `${permissionPrefix(roomId)}${userId}`,
+        Buffer.from(permission) as unknown as string,
+      );
+    },
+
+    async deletePermission(roomId: string, userId: string): Promise<void> {
+      await db.del(`${permissionPrefix(roomId)}${userId}`);
+    },
+
+    async deletePermissions(roomId: string): Promise<void> {
+      const prefix = permissionPrefix(roomId);
+      const batch = db.batch();
+      for await (const [key] of db.iterator<string, Buffer>({
+        gte: prefix,
+        lte: `${prefix}\xff`,
+        keyEncoding: "utf8",
+      })) {
+        batch.del(key);
+      }
+      await batch.write();
+    },
+
+    async appendAuditEntry(roomId: string, entry: AuditEntry): Promise<void> {
+      await db.put(
+        auditKey(roomId, entry),
+        Buffer.from(JSON.stringify(entry)) as unknown as string,
+      );
+    },
+
+    async loadAuditEntries(roomId: string, limit?: number): Promise<AuditEntry[]> {
+      const entries: AuditEntry[] = [];
+      for await (const [, value] of db.iterator<string, Buffer>({
+        gte: `audit:${roomId}:`,
+        lte: `audit:${roomId}:\xff`,
+        keyEncoding: "utf8",
+        reverse: true,
+        limit: limit ?? -1,
+      })) {
+        try {
+          entries.push(JSON.parse(value.toString("utf-8")));
+        } catch {
+          // Skip malformed entries
+        }
+      }
+      return entries;
+    },
+
+    async pruneAuditEntries(roomId: string, { before, keep }: AuditRetention): Promise<number> {
+      const prefix = `audit:${roomId}:`;
+      const batch = db.batch();
+      let seen = 0;
+      for await (const [key] of db.iterator<string, Buffer>({
+        gte: prefix,
+        lte: `${prefix}\xff`,
+        keyEncoding: "utf8",
+        reverse: true,
+      })) {
+        seen++;
+        const timestamp = Number(key.slice(prefix.length, prefix.length + 16));
+        if ((keep !== undefined && seen > keep) || (before !== undefined && timestamp < before)) {
+          batch.del(key);
+        }
+      }
+      const removed = batch.length;
+      await batch.write();
+      return removed;
+    },
+
+    async deleteAuditEntries(roomId: string): Promise<void> {
+      const batch = db.batch();
+      for await (const [key] of db.iterator<string, Buffer>({
+        gte: `audit:${roomId}:`,
+        lte: `audit:${roomId}:\xff`,
+        keyEncoding: "utf8",
+      })) {
+        batch.del(key);
+      }
+      await batch.write();
+    },
+
     async close(): Promise<void> {
       await db.close();
     },
@@ -72,16 +379,71 @@ export const noopPersistence: Persistence = {
   deleteRoom() {
     return Promise.resolve();
   },
+  loadDoc() {
+    return Promise.resolve(null);
+  },
+  saveDoc() {
+    return Promise.resolve();
+  },
+  loadEncryptedUpdates() {
+    return Promise.resolve([]);
+  },
+  appendEncryptedUpdate() {
+    return Promise.resolve();
+  },
+  replaceEncryptedUpdates() {
+    return Promise.resolve();
+  },
+  deleteDocs() {
+    return Promise.resolve();
+  },
+  loadPermissions() {
+    return Promise.resolve(new Map());
+  },
+  savePermission() {
+    return Promise.resolve();
+  },
+  deletePermission() {
+    return Promise.resolve();
+  },
+  deletePermissions() {
+    return Promise.resolve();
+  },
+  appendAuditEntry() {
+    return Promise.resolve();
+  },
+  loadAuditEntries() {
+    return Promise.resolve([]);
+  },
+  pruneAuditEntries() {
+    return Promise.resolve(0);
+  },
+  deleteAuditEntries() {
+    return Promise.resolve();
+  },
   close() {
     return Promise.resolve();
   },
 };
 
+export function createPersistence(backend = "level"): Persistence {
+  switch (backend) {
+    case "level":
+      return createLevelPersistence();
+    case "sqlite":
+      return createSqlitePersistence();
+    case "fs":
+      return createFsPersistence();
+    default:
+      throw new Error(`unknown persistence backend: ${backend}`);
+  }
+}
+
 let defaultPersistence: Persistence | null = null;
 
 export function getDefaultPersistence(): Persistence {
   if (!defaultPersistence) {
-    defaultPersistence = createLevelPersistence();
+    defaultPersistence = createPersistence(process.env.PERSISTENCE_BACKEND || "level");
   }
   return defaultPersistence;
 }
@@ -0,0 +1,240 @@
+import { randomUUID } from "node:crypto";
+import { type Socket, createConnection } from "node:net";
+import { connect as tlsConnect } from "node:tls";
+import type { PubSubAdapter } from "./pubsub.js";
+
+export type RespValue = string | number | null | Error | RespValue[];
+
+const KEY_PREFIX = "live-share:";
+const RECONNECT_DELAY_MS = 1000;
+
+export function encodeCommand(args: string[]): Buffer {
+  let out = `*${args.length}\r\n`;
+  for (const arg of args) out += `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`;
+  return Buffer.from(out);
+}
+
+/** Parses one RESP value starting at `offset`, or returns null until more bytes arrive. */
+export function parseReply(buf: Buffer, offset = 0): { value: RespValue; next: number } | null {
+  const lineEnd = buf.indexOf("\r\n", offset);
+  if (lineEnd < 0) return null;
+  const type = String.fromCharCode(buf[offset]);
+  const line = buf.toString("utf8", offset + 1, lineEnd);
+  switch (type) {
+    case "+":
+      return { value: line, next: lineEnd + 2 };
+    case "-":
+      return { value: new Error(line), next: lineEnd + 2 };
+    case ":":
+      return { value: Number(line), next: lineEnd + 2 };
+    case "$": {
+      const length = Number(line);
+      if (length < 0) return { value: null, next: lineEnd + 2 };
+      const end = lineEnd + 2 + length;
+      if (buf.length < end + 2) return null;
+      return { value: buf.toString("utf8", lineEnd + 2, end), next: end + 2 };
+    }
+    case "*": {
+      const count = Number(line);
+      if (count < 0) return { value: null, next: lineEnd + 2 };
+      const items: RespValue[] = [];
+      let next = lineEnd + 2;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buf, next);
+        if (!item) return null;
+        items.push(item.value);
+        next = item.next;
+      }
+      return { value: items, next };
+    }
+    default:
+      throw new Error(`unexpected RESP type: ${type}`);
+  }
+}
+
+interface ConnectionOptions {
+  /** Pub/sub `message` pushes, which arrive outside the request/reply order. */
+  onMessage?: (channel: string, payload: string) => void;
+  onReconnect?: () => void;
+}
+
+interface RespConnection {
+  command(args: string[]): Promise<RespValue>;
+  close(): void;
+}
+
+function openConnection(url: URL, options: ConnectionOptions = {}): RespConnection {
+  const host = url.hostname || "localhost";
+  const port = Number(url.port) || 6379;
+  const password = decodeURIComponent(url.password);
+  const username = decodeURIComponent(url.username);
+  const db = url.pathname.slice(1);
+
+  let socket: Socket;
+  let buffer = Buffer.alloc(0);
+  let closed = false;
+  const pending: { resolve: (value: RespValue) => void; reject: (err: Error) => void }[] = [];
+
+  function dispatch(value: RespValue) {
+    if (options.onMessage && Array.isArray(value) && value[0] === "message") {
+      options.onMessage(String(value[1]), String(value[2]));
+      return;
+    }
+    const request = pending.shift();
+    if (!request) return;
+    if (value instanceof Error) request.reject(value);
+    else request.resolve(value);
+  }
+
+  function onData(chunk: Buffer) {
+    buffer = Buffer.concat([buffer, chunk]);
+    let offset = 0;
+    try {
+      for (;;) {
+        const parsed = parseReply(buffer, offset);
+        if (!parsed) break;
+        offset = parsed.next;
+        dispatch(parsed.value);
+      }
+    } catch (err) {
+      console.error("[pubsub] malformed redis reply, reconnecting:", err);
+      socket.destroy();
+      return;
+    }
+    buffer = buffer.subarray(offset);
+  }
+
+  function open() {
+    socket =
+      url.protocol === "rediss:"
+        ? tlsConnect({ host, port, servername: host })
+        : createConnection({ host, port });
+    socket.on("data", onData);
+    socket.on("error", (err) => {
+      console.error("[pubsub] redis connection error:", err.message);
+    });
+    socket.on("close", () => {
+      for (const request of pending.splice(0)) {
+        request.reject(new Error("redis connection closed"));
+      }
+      buffer = Buffer.alloc(0);
+      if (closed) return;
+      setTimeout(() => {
+        if (closed) return;
+        open();
+        options.onReconnect?.();
+      }, RECONNECT_DELAY_MS);
+    });
+    const handshake: string[][] = [];
+    if (password) handshake.push(username ? ["AUTH", username, password] : ["AUTH", password]);
+    if (db) handshake.push(["SELECT", db]);
+    for (const args of handshake) {
+      command(args).catch((err) => {
+        console.error(`[pubsub] redis ${args[0]} failed:`, err.message);
+      });
+    }
+  }
+
+  function command(args: string[]): Promise<RespValue> {
+    if (socket.destroyed) return Promise.reject(new Error("redis connection closed"));
+    return new Promise((resolve, reject) => {
+      pending.push({ resolve, reject });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  open();
+
+  return {
+    command,
+    close() {
+      closed = true;
+      socket.end();
+    },
+  };
+}
+
+/**
+ * Talks RESP directly so the server needs no Redis client dependency. One connection
+ * carries commands and a second one stays in subscribe mode.
+ */
+export function createRedisPubSub(redisUrl: string): PubSubAdapter {
+  const url = new URL(redisUrl);
+  const instanceId = randomUUID();
+  const handlers = new Map<string, (message: string) => void>();
+
+  const commands = openConnection(url);
+  const subscriber = openConnection(url, {
+    onMessage(channel, payload) {
+      const separator = payload.indexOf(" ");
+      if (separator < 0 || payload.slice(0, separator) === instanceId) return;
+      handlers.get(channel.slice(KEY_PREFIX.length))?.(payload.slice(separator + 1));
+    },
+    onReconnect() {
+      for (const channel of handlers.keys()) {
+        subscriber.command(["SUBSCRIBE", KEY_PREFIX + channel]).catch((err) => {
+          console.error(`[pubsub] failed to resubscribe to ${channel}:`, err.message);
+        });
+      }
+    },
+  });
+
+  return {
+    async publish(channel, message) {
+      await commands.command(["PUBLISH", KEY_PREFIX + channel, `${instanceId} ${message}`]);
+    },
+
+    async subscribe(channel, handler) {
+      if (handlers.has(channel)) return;
+      handlers.set(channel, handler);
+      await subscriber.command(["SUBSCRIBE", KEY_PREFIX + channel]);
+    },
+
+    async unsubscribe(channel) {
+      if (!handlers.delete(channel)) return;
+      await subscriber.command(["UNSUBSCRIBE", KEY_PREFIX + channel]);
+    },
+
+    async get(key) {
+      const value = await commands.command(["GET", KEY_PREFIX + key]);
+      return typeof value === "string" ? value : null;
+    },
+
+    async set(key, value, ttlSeconds) {
+      const expiry = ttlSeconds ? ["EX", String(Math.ceil(ttlSeconds))] : [];
+      await commands.command(["SET", KEY_PREFIX + key, value, ...expiry]);
+    },
+
+    async setIfAbsent(key, value, ttlSeconds) {
+      const expiry = ttlSeconds ? ["EX", String(Math.ceil(ttlSeconds))] : [];
+      const reply = await commands.command(["SET", KEY_PREFIX + key, value, "NX", ...expiry]);
+      return reply === "OK";
+    },
+
+    async del(key) {
+      await commands.command(["DEL", KEY_PREFIX + key]);
+    },
+
+    async setField(key, field, value) {
+      await commands.command(["HSET", KEY_PREFIX + key, field, value]);
+    },
+
+    async getFields(key) {
+      const reply = await commands.command(["HGETALL", KEY_PREFIX + key]);
+      const fields: Record<string, string> = {};
+      if (!Array.isArray(reply)) return fields;
+      for (let i = 0; i + 1 < reply.length; i += 2) fields[String(reply[i])] = String(reply[i + 1]);
+      return fields;
+    },
+
+    async deleteField(key, field) {
+      await commands.command(["HDEL", KEY_PREFIX + key, field]);
+    },
+
+    async close() {
+      handlers.clear();
+      commands.close();
+      subscriber.close();
+    },
+  };
+}
@@ -0,0 +1,135 @@
+import { randomUUID } from "node:crypto";
+import { EventEmitter } from "node:events";
+import { createRedisPubSub } from "./pubsub-redis.js";
+
+/**
+ * Fans messages out to the other server instances and holds the little state they must
+ * agree on (who is host, how many clients a room has). Messages are never delivered back
+ * to the instance that published them.
+ */
+export interface PubSubAdapter {
+  publish(channel: string, message: string): Promise<void>;
+  subscribe(channel: string, handler: (message: string) => void): Promise<void>;
+  unsubscribe(channel: string): Promise<void>;
+  get(key: string): Promise<string | null>;
+  /** With `ttlSeconds` the key disappears on its own after that long. */
+  set(key: string, value: string, ttlSeconds?: number): Promise<void>;
+  /** Returns false without writing when the key already holds a value. */
+  setIfAbsent(key: string, value: string, ttlSeconds?: number): Promise<boolean>;
+  del(key: string): Promise<void>;
+  /** Hash fields let each instance keep its own share of a value under one key. */
+  setField(key: string, field: string, value: string): Promise<void>;
+  getFields(key: string): Promise<Record<string, string>>;
+  /** The hash itself goes once its last field is deleted. */
+  deleteField(key: string, field: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface LocalHub {
+  events: EventEmitter;
+  state: Map<string, string>;
+  /** Epoch milliseconds after which the key of the same name in `state` is gone. */
+  expiries: Map<string, number>;
+  hashes: Map<string, Map<string, string>>;
+}
+
+export function createLocalHub(): LocalHub {
+  const events = new EventEmitter();
+  events.setMaxListeners(0);
+  return { events, state: new Map(), expiries: new Map(), hashes: new Map() };
+}
+
+/**
+ * Adapters sharing a hub behave like instances sharing a Redis server, which is how the
+ * scaling tests run several servers in one process. A lone instance gets a private hub.
+ */
+export function createLocalPubSub(hub: LocalHub = createLocalHub()): PubSubAdapter {
+  const instanceId = randomUUID();
+  const listeners = new Map<string, (origin: string, message: string) => void>();
+
+  function read(key: string): string | undefined {
+    const expiry = hub.expiries.get(key);
+    if (expiry !== undefined && expiry <= Date.now()) {
+      hub.state.delete(key);
+      hub.expiries.delete(key);
+    }
+    return hub.state.get(key);
+  }
+
+  function write(key: string, value: string, ttlSeconds?: number) {
+    hub.state.set(key, value);
+    if (ttlSeconds) hub.expiries.set(key, Date.now() + ttlSeconds * 1000);
+    else hub.expiries.delete(key);
+  }
+
+  return {
+    async publish(channel, message) {
+      hub.events.emit(channel, instanceId, message);
+    },
+
+    async subscribe(channel, handler) {
+      if (listeners.has(channel)) return;
+      const listener = (origin: string, message: string) => {
+        if (origin !== instanceId) handler(message);
+      };
+      listeners.set(channel, listener);
+      hub.events.on(channel, listener);
+    },
+
+    async unsubscribe(channel) {
+      const listener = listeners.get(channel);
+      if (!listener) return;
+      listeners.delete(channel);
+      hub.events.off(channel, listener);
+    },
+
+    async get(key) {
+      return read(key) ?? null;
+    },
+
+    async set(key, value, ttlSeconds) {
+      write(key, value, ttlSeconds);
+    },
+
+    async setIfAbsent(key, value, ttlSeconds) {
+      if (read(key) !== undefined) return false;
+      write(key, value, ttlSeconds);
+      return true;
+    },
+
+    async del(key) {
+      hub.state.delete(key);
+      hub.expiries.delete(key);
+    },
+
+    async setField(key, field, value) {
+      let hash = hub.hashes.get(key);
+      if (!hash) {
+        hash = new Map();
+        hub.hashes.set(key, hash);
+      }
+      hash.set(field, value);
+    },
+
+    async getFields(key) {
+      return Object.fromEntries(hub.hashes.get(key) ?? []);
+    },
+
+    async deleteField(key, field) {
+      const hash = hub.hashes.get(key);
+      if (!hash) return;
+      hash.delete(field);
+      if (hash.size === 0) hub.hashes.delete(key);
+    },
+
+    async close() {
+      for (const [channel, listener] of listeners) hub.events.off(channel, listener);
+      listeners.clear();
+    },
+  };
+}
+
+export function getDefaultPubSub(): PubSubAdapter {
+  const url = process.env.REDIS_URL;
+  return url ? createRedisPubSub(url) : createLocalPubSub();
+}
@@ -3,30 +3,160 @@ import { Router } from "express";
 import { nanoid } from "nanoid";
 
 import { clearLogs } from "./audit-log.js";
-import { clearRoomPermissions } from "./permissions.js";
-import { type Persistence, type Room, noopPersistence } from "./persistence.js";
+import { roomsReaped } from "./metrics.js";
+import {
+  clearRoomPermissions,
+  forgetRoomPermissions,
+  initPermissions,
+  isPermission,
+  loadRoomPermissions,
+} from "./permissions.js";
+import {
+  type Invite,
+  type Permission,
+  type Persistence,
+  type Room,
+  type RoomAllowlist,
+  noopPersistence,
+} from "./persistence.js";
+import type { PubSubAdapter } from "./pubsub.js";
 import { safeTokenCompare } from "./util.js";
 
-export type { Room };
+export type { Invite, Room, RoomAllowlist };
 
-const ROOM_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+export type RoomSettings = Partial<
+  Pick<
+    Room,
+    "name" | "requireApproval" | "readOnlyPatterns" | "defaultPermission" | "ttl" | "allowlist"
+  >
+>;
+
+/** What the host has handed out in a session; kept with the room, but not a room setting. */
+export type RoomGrants = Partial<Pick<Room, "coHostUserIds" | "writeGrants">>;
+
+export const REAP_INTERVAL_MS = 60 * 60 * 1000;
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const MAX_TTL_SECONDS = 365 * 24 * 60 * 60;
 const TOUCH_DEBOUNCE_MS = 5_000;
+const DEFAULT_INVITE_TTL_SECONDS = 7 * 24 * 60 * 60;
+const MAX_INVITE_TTL_SECONDS = 30 * 24 * 60 * 60;
+const MAX_INVITE_USES = 1000;
+const MAX_INVITES = 50;
+
+export function isValidTtl(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= MAX_TTL_SECONDS;
+}
+
+function readDefaultTtl(): number {
+  const raw = process.env.ROOM_TTL_SECONDS;
+  if (!raw) return DEFAULT_TTL_SECONDS;
+  const ttl = Number(raw);
+  if (!isValidTtl(ttl)) {
+    console.warn(`[rooms] invalid ROOM_TTL_SECONDS: ${raw}, using ${DEFAULT_TTL_SECONDS}`);
+    return DEFAULT_TTL_SECONDS;
+  }
+  return ttl;
+}
+
+const ROOM_TTL_SECONDS = readDefaultTtl();
 
 const rooms = new Map<string, Room>();
 const touchTimers = new Map<string, ReturnType<typeof setTimeout>>();
+// Rooms already warned about expiry since their last activity
+const expiryWarned = new Set<string>();
 let persistence: Persistence = noopPersistence;
+let pubsub: PubSubAdapter | null = null;
+const removedListeners = new Set<(id: string) => void>();
+
+const ROOMS_CHANNEL = "rooms";
+
+type RoomEvent = { type: "saved"; room: Room } | { type: "removed"; id: string };
+
+/** Persists the room and tells other server instances about the change. */
+async function saveRoom(room: Room): Promise<void> {
+  await persistence.saveRoom(room);
+  publishRoomEvent({ type: "saved", room });
+}
+
+function publishRoomEvent(event: RoomEvent) {
+  pubsub?.publish(ROOMS_CHANNEL, JSON.stringify(event)).catch((err) => {
+    console.error("[rooms] failed to publish room change:", err);
+  });
+}
+
+/** Calls `listener` with the id of each room removed, here or on another instance. */
+export function onRoomRemoved(listener: (id: string) => void): () => void {
+  removedListeners.add(listener);
+  return () => removedListeners.delete(listener);
+}
+
+/** Forgets the room in memory and tells listeners, before anything of it is deleted. */
+function forgetRoom(id: string) {
+  rooms.delete(id);
+  expiryWarned.delete(id);
+  const timer = touchTimers.get(id);
+  if (timer) {
+    clearTimeout(timer);
+    touchTimers.delete(id);
+  }
+  for (const listener of removedListeners) listener(id);
+}
+
+function applyRoomEvent(event: RoomEvent) {
+  if (event.type === "removed") {
+    forgetRoom(event.id);
+    forgetRoomPermissions(event.id);
+    return;
+  }
+  const existing = rooms.get(event.room.id);
+  if (existing) {
+    // Update in place so handlers holding the room object see the change
+    Object.assign(existing, event.room);
+    for (const key of Object.keys(existing) as (keyof Room)[]) {
+      if (!(key in event.room)) delete existing[key];
+    }
+    return;
+  }
+  rooms.set(event.room.id, event.room);
+  loadRoomPermissions(event.room.id).catch((err) => {
+    console.error(`[rooms] failed to load permissions for ${event.room.id}:`, err);
+  });
+}
+
+/** Keeps this instance's rooms in step with rooms created and changed on other instances. */
+export async function syncRooms(adapter: PubSubAdapter): Promise<void> {
+  pubsub = adapter;
+  await adapter.subscribe(ROOMS_CHANNEL, (message) => {
+    try {
+      applyRoomEvent(JSON.parse(message));
+    } catch (err) {
+      console.error("[rooms] ignoring malformed room change:", err);
+    }
+  });
+}
+
+/** When an idle room becomes eligible for reaping, or null if it never expires. */
+export function getRoomExpiry(room: Room): number | null {
+  const ttl = room.ttl ?? ROOM_TTL_SECONDS;
+  if (ttl === 0) return null;
+  return (room.lastActivityAt || room.createdAt) + ttl * 1000;
+}
 
 export async function initRooms(store: Persistence) {
   persistence = store;
+  initPermissions(store);
   const stored = await store.loadRooms();
   const now = Date.now();
   for (const room of stored) {
-    const age = now - (room.lastActivityAt || room.createdAt);
-    if (age > ROOM_MAX_AGE_MS) {
+    const expiresAt = getRoomExpiry(room);
+    if (expiresAt !== null && expiresAt < now) {
       await store.deleteRoom(room.id);
+      await store.deleteDocs(room.id);
+      await store.deletePermissions(room.id);
       continue;
     }
     rooms.set(room.id, room);
+    await loadRoomPermissions(room.id);
   }
 }
 
@@ -34,12 +164,13 @@ export function touchRoom(id: string) {
   const room = rooms.get(id);
   if (!room) return;
   room.lastActivityAt = Date.now();
+  expiryWarned.delete(id);
   if (!touchTimers.has(id)) {
     touchTimers.set(
       id,
       setTimeout(() => {
         touchTimers.delete(id);
-        persistence.saveRoom(room).catch((err) => {
+        saveRoom(room).catch((err) => {
           console.error(`[rooms] failed to persist room ${id}:`, err);
         });
       }, TOUCH_DEBOUNCE_MS),
@@ -48,14 +179,12 @@ export function touchRoom(id: string) {
 }
 
 export async function removeRoom(id: string) {
-  rooms.delete(id);
-  const timer = touchTimers.get(id);
-  if (timer) {
-    clearTimeout(timer);
-    touchTimers.delete(id);
-  }
+  forgetRoom(id);
+  clearRoomPermissions(id);
+  publishRoomEvent({ type: "removed", id });
   try {
     await persistence.deleteRoom(id);
+    await persistence.deleteDocs(id);
   } catch (err) {
     console.error(`[rooms] failed to delete room ${id}:`, err);
   }
@@ -64,12 +193,27 @@ export async function removeRoom(id: string) {
   });
 }
 
-export async function reapStaleRooms() {
+export interface ReapHooks {
+  onExpiring?: (room: Room, expiresAt: number) => void;
+  onReaped?: (room: Room) => void;
+}
+
+/**
+ * Runs every `REAP_INTERVAL_MS`. A room is always warned on one pass and reaped on a
+ * later one, so `onExpiring` gets at least one interval of notice.
+ */
+export async function reapStaleRooms(hooks: ReapHooks = {}) {
   const now = Date.now();
   for (const [id, room] of rooms) {
-    const age = now - (room.lastActivityAt || room.createdAt);
-    if (age > ROOM_MAX_AGE_MS) {
+    const expiresAt = getRoomExpiry(room);
+    if (expiresAt === null || expiresAt - now > REAP_INTERVAL_MS) continue;
+    if (!expiryWarned.has(id)) {
+      expiryWarned.add(id);
+      hooks.onExpiring?.(room, Math.max(expiresAt, now + REAP_INTERVAL_MS));
+    } else if (expiresAt <= now) {
       await removeRoom(id);
+      roomsReaped.inc();
+      hooks.onReaped?.(room);
     }
   }
 }
@@ -78,15 +222,228 @@ export function getRoom(id: string): Room | undefined {
   return rooms.get(id);
 }
 
-export const roomRouter = Router();
+export function listRooms(): Room[] {
+  return [...rooms.values()];
+}
+
+/** Applies settings in place so handlers holding the room object see them immediately. */
+export async function updateRoom(
+  id: string,
+  settings: RoomSettings | RoomGrants,
+): Promise<Room | undefined> {
+  const room = rooms.get(id);
+  if (!room) return undefined;
+  Object.assign(room, settings);
+  expiryWarned.delete(id);
+  await saveRoom(room);
+  return room;
+}
+
+export async function rotateRoomToken(id: string): Promise<string | undefined> {
+  const room = rooms.get(id);
+  if (!room) return undefined;
+  room.token = nanoid(24);
+  await saveRoom(room);
+  return room.token;
+}
+
+export interface InviteOptions {
+  /** Seconds until the invite stops admitting new users. */
+  expiresIn: number;
+  maxUses: number;
+  permission: Permission;
+}
+
+export function parseInviteOptions(body: Record<string, unknown>): InviteOptions | string {
+  const expiresIn = body.expiresIn ?? DEFAULT_INVITE_TTL_SECONDS;
+  if (
+    !Number.isInteger(expiresIn) ||
+    (expiresIn as number) <= 0 ||
+    (expiresIn as number) > MAX_INVITE_TTL_SECONDS
+  ) {
+    return "invalid expiresIn";
+  }
+  const maxUses = body.maxUses ?? 1;
+  if (
+    !Number.isInteger(maxUses) ||
+    (maxUses as number) < 0 ||
+    (maxUses as number) > MAX_INVITE_USES
+  ) {
+    return "invalid maxUses";
+  }
+  const permission = body.permission ?? "read-write";
+  if (!isPermission(permission)) return "invalid permission";
+  return { expiresIn: expiresIn as number, maxUses: maxUses as number, permission };
+}
+
+export async function createInvite(
+  roomId: string,
+  options: InviteOptions,
+): Promise<Invite | undefined> {
+  const room = rooms.get(roomId);
+  if (!room) return undefined;
+  const now = Date.now();
+  // Expired invites nobody joined with can no longer grant access to anyone
+  const invites = (room.invites ?? []).filter(
+    (invite) => invite.expiresAt > now || invite.redeemedBy.length > 0,
+  );
+  const invite: Invite = {
+    id: nanoid(10),
+    token: nanoid(24),
+    permission: options.permission,
+    createdAt: now,
+    expiresAt: now + options.expiresIn * 1000,
+    maxUses: options.maxUses,
+    redeemedBy: [],
+  };
+  invites.push(invite);
+  room.invites = invites.slice(-MAX_INVITES);
+  await saveRoom(room);
+  return invite;
+}
+
+/** Invites as shown to the host, without their redeemers' passes. */
+export function listInvites(roomId: string): Invite[] {
+  return (rooms.get(roomId)?.invites ?? []).map(({ passes: _passes, ...invite }) => invite);
+}
+
+export async function revokeInvite(roomId: string, inviteId: string): Promise<boolean> {
+  const room = rooms.get(roomId);
+  const index = room?.invites?.findIndex((invite) => invite.id === inviteId) ?? -1;
+  if (!room?.invites || index < 0) return false;
+  room.invites.splice(index, 1);
+  await saveRoom(room);
+  return true;
+}
+
+/** The invite whose token, or one of whose redeemers' passes, `token` is. */
+export function findInvite(room: Room, token: string): Invite | undefined {
+  return room.invites?.find(
+    (invite) => safeTokenCompare(token, invite.token) || passHolder(invite, token) !== undefined,
+  );
+}
+
+/** The user `token` is the invite pass of, if it is one. */
+export function passHolder(invite: Invite, token: string): string | undefined {
+  return Object.entries(invite.passes ?? {}).find(([, pass]) => safeTokenCompare(token, pass))?.[0];
+}
+
+/**
+ * Returns why `userId` may not join with the invite, or null if it may. Only a `verified`
+ * user id, one taken from a login, is let back in once the invite would turn them away.
+ */
+export function checkInvite(invite: Invite, userId?: string, verified = false): string | null {
+  const redeemed = userId !== undefined && invite.redeemedBy.includes(userId);
+  if (redeemed && verified) return null;
+  if (invite.expiresAt <= Date.now()) return "invite expired";
+  if (redeemed) return "invite already used";
+  if (invite.maxUses > 0 && invite.redeemedBy.length >= invite.maxUses) {
+    return "invite already used";
+  }
+  return null;
+}
+
+/**
+ * Records `userId` as a user of the invite, so later reconnects do not count as new uses, and
+ * gives them a pass to reconnect with unless their id is `verified`. Returns the pass, if any.
+ */
+export function redeemInvite(
+  room: Room,
+  invite: Invite,
+  userId: string,
+  verified = false,
+): { error: string } | { pass?: string } {
+  const error = checkInvite(invite, userId, verified);
+  if (error) return { error };
+  if (invite.redeemedBy.includes(userId)) return {};
+  invite.redeemedBy.push(userId);
+  const pass = verified ? undefined : nanoid(24);
+  if (pass) invite.passes = { ...invite.passes, [userId]: pass };
+  saveRoom(room).catch((err) => {
+    console.error(`[rooms] failed to persist invite use for ${room.id}:`, err);
+  });
+  return { pass };
+}
 
 // biome-ignore lint/suspicious/noControlCharactersInRegex: intentional control character check for input validation
 const CONTROL_CHARS = /[\x00-\x1f\x7f]/;
+const MAX_PATTERNS = 50;
+const MAX_PATTERN_LENGTH = 200;
+const MAX_ALLOWLIST_ENTRIES = 100;
+const MAX_ALLOWLIST_ENTRY_LENGTH = 128;
+
+export function isValidRoomName(name: string): boolean {
+  return name.length > 0 && name.length <= 100 && !CONTROL_CHARS.test(name);
+}
+
+export function parsePathPatterns(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return (value as unknown[])
+    .filter(
+      (p): p is string =>
+        typeof p === "string" && p.length <= MAX_PATTERN_LENGTH && !CONTROL_CHARS.test(p),
+    )
+    .slice(0, MAX_PATTERNS);
+}
+
+/**
+ * Validates an allowlist from a request body. Org and team names are lowercased, since
+ * GitHub treats them case-insensitively; `null` or an allowlist with no entries clears it.
+ */
+export function parseAllowlist(value: unknown): RoomAllowlist | undefined | string {
+  if (value === null) return undefined;
+  if (typeof value !== "object" || Array.isArray(value)) return "invalid allowlist";
+  const allowlist: RoomAllowlist = {};
+  for (const key of ["users", "orgs", "teams"] as const) {
+    const entries = (value as Record<string, unknown>)[key];
+    if (entries === undefined) continue;
+    if (!Array.isArray(entries) || entries.length > MAX_ALLOWLIST_ENTRIES) {
+      return `invalid allowlist ${key}`;
+    }
+    const parsed = new Set<string>();
+    for (const entry of entries) {
+      if (
+        typeof entry !== "string" ||
+        !entry ||
+        entry.length > MAX_ALLOWLIST_ENTRY_LENGTH ||
+        CONTROL_CHARS.test(entry) ||
+        (key === "teams" && !/^[^/]+\/[^/]+$/.test(entry))
+      ) {
+        return `invalid allowlist ${key}`;
+      }
+      parsed.add(key === "users" ? entry : entry.toLowerCase());
+    }
+    if (parsed.size > 0) allowlist[key] = [...parsed];
+  }
+  return Object.keys(allowlist).length > 0 ? allowlist : undefined;
+}
+
+export interface MemberIdentity {
+  sub: string;
+  orgs?: string[];
+  teams?: string[];
+}
+
+/** Whether `identity` matches the allowlist; a room without one admits everyone. */
+export function isAllowed(
+  allowlist: RoomAllowlist | undefined,
+  identity: MemberIdentity | null,
+): boolean {
+  if (!allowlist) return true;
+  if (!identity) return false;
+  if (allowlist.users?.includes(identity.sub)) return true;
+  const orgs = identity.orgs?.map((org) => org.toLowerCase()) ?? [];
+  if (allowlist.orgs?.some((org) => orgs.includes(org))) return true;
+  const teams = identity.teams?.map((team) => team.toLowerCase()) ?? [];
+  return allowlist.teams?.some((team) => teams.includes(team)) ?? false;
+}
+
+export const roomRouter = Router();
 
 roomRouter.post("/", async (req, res) => {
   const rawName = req.body.name;
   const name = typeof rawName === "string" && rawName.length > 0 ? rawName : `session-${nanoid(6)}`;
-  if (name.length > 100 || CONTROL_CHARS.test(name)) {
+  if (!isValidRoomName(name)) {
     res.status(400).json({ error: "invalid name" });
     return;
   }
@@ -97,17 +454,20 @@ roomRouter.post("/", async (req, res) => {
     return;
   }
 
+  const ttl = req.body.ttl;
+  if (ttl !== undefined && !isValidTtl(ttl)) {
+    res.status(400).json({ error: "invalid ttl" });
+    return;
+  }
+
   const requireApproval = req.body.requireApproval === true;
-  const MAX_PATTERNS = 50;
-  const MAX_PATTERN_LENGTH = 200;
-  const readOnlyPatterns = Array.isArray(req.body.readOnlyPatterns)
-    ? (req.body.readOnlyPatterns as unknown[])
-        .filter(
-          (p): p is string =>
-            typeof p === "string" && p.length <= MAX_PATTERN_LENGTH && !CONTROL_CHARS.test(p),
-        )
-        .slice(0, MAX_PATTERNS)
-    : [];
+  const readOnlyPatterns = parsePathPatterns(req.body.readOnlyPatterns);
+  const allowlist =
+    req.body.allowlist === undefined ? undefined : parseAllowlist(req.body.allowlist);
+  if (typeof allowlist === "string") {
+    res.status(400).json({ error: allowlist });
+    return;
+  }
 
   const now = Date.now();
   const room: Room = {
@@ -117,13 +477,18 @@ roomRouter.post("/", async (req, res) => {
     createdAt: now,
     lastActivityAt: now,
     hostUserId,
+    hostToken: nanoid(24),
     requireApproval,
     readOnlyPatterns: readOnlyPatterns.length > 0 ? readOnlyPatterns : undefined,
+    ttl,
+    allowlist,
   };
   rooms.set(room.id, room);
-  await persistence.saveRoom(room);
+  await saveRoom(room);
 
-  res.status(201).json({ id: room.id, token: room.token, name: room.name });
+  res
+    .status(201)
+    .json({ id: room.id, token: room.token, hostToken: room.hostToken, name: room.name });
 });
 
 roomRouter.post("/:id/join", (req, res) => {
@@ -133,13 +498,42 @@ roomRouter.post("/:id/join", (req, res) => {
     return;
   }
 
-  const { token } = req.body;
-  if (!token || !safeTokenCompare(token, room.token)) {
+  const { token, userId } = req.body;
+  if (typeof token !== "string" || !token) {
     res.status(403).json({ error: "invalid token" });
     return;
   }
+  let pass: string | undefined;
+  if (!safeTokenCompare(token, room.token)) {
+    const invite = findInvite(room, token);
+    if (!invite) {
+      res.status(403).json({ error: "invalid token" });
+      return;
+    }
+    const holder = passHolder(invite, token);
+    if (holder !== undefined) {
+      if (userId !== undefined && userId !== holder) {
+        res.status(403).json({ error: "invite pass belongs to another user" });
+        return;
+      }
+    } else if (typeof userId === "string" && userId) {
+      // Redeemed here so the new user gets the pass they reconnect with
+      const redeemed = redeemInvite(room, invite, userId.slice(0, 128));
+      if ("error" in redeemed) {
+        res.status(403).json({ error: redeemed.error });
+        return;
+      }
+      pass = redeemed.pass;
+    } else {
+      const error = checkInvite(invite);
+      if (error) {
+        res.status(403).json({ error });
+        return;
+      }
+    }
+  }
 
-  res.json({ id: room.id, name: room.name, wsUrl: `/ws/${room.id}` });
+  res.json({ id: room.id, name: room.name, wsUrl: `/ws/${room.id}`, pass });
 });
 
 roomRouter.get("/:id", (req, res) => {
@@ -171,7 +565,6 @@ roomRouter.delete("/:id", async (req, res) => {
     return;
   }
 
-  clearRoomPermissions(req.params.id);
   await removeRoom(req.params.id);
 
   res.json({ ok: true });
@@ -2,38 +2,88 @@ import type { IncomingMessage } from "node:http";
 import * as decoding from "lib0/decoding";
 import * as encoding from "lib0/encoding";
 import { WebSocket, WebSocketServer } from "ws";
+import * as syncProtocol from "y-protocols/sync";
+import * as Y from "yjs";
 
+import { appendLog } from "./audit-log.js";
+import { createClientCounts } from "./client-counts.js";
+import { hostKey } from "./control-handler.js";
 import { verifyJWT } from "./github-auth.js";
+import { muxMessages, relayedBytes } from "./metrics.js";
 import {
   MUX_AWARENESS,
   MUX_AWARENESS_ENCRYPTED,
+  MUX_SNAPSHOT,
+  MUX_SNAPSHOT_REQUEST,
+  MUX_STORE_FAILED,
   MUX_SUBSCRIBE,
   MUX_SUBSCRIBED,
   MUX_SYNC,
   MUX_SYNC_ENCRYPTED,
   MUX_SYNC_REQUEST,
   MUX_UNSUBSCRIBE,
+  MUX_WRITE_DENIED,
   decodeMuxMessage,
   encodeMuxMessage,
+  muxTypeName,
 } from "./mux-protocol.js";
-import { getPermission } from "./permissions.js";
-import type { Permission } from "./persistence.js";
+import { getPermission, hasWriteGrant, isReadOnlyPath, minPermission } from "./permissions.js";
+import { type Permission, type Persistence, noopPersistence } from "./persistence.js";
+import { type PubSubAdapter, createLocalPubSub } from "./pubsub.js";
+import { findInvite, getRoom, onRoomRemoved, touchRoom } from "./rooms.js";
 
+const SYNC_STEP1 = 0;
 const SYNC_STEP2 = 1;
 const SYNC_UPDATE = 2;
+const DOC_SAVE_DEBOUNCE_MS = 2_000;
+const MAX_ENCRYPTED_LOG_BYTES = 16 * 1024 * 1024;
+// An encrypted log past this size, and past twice its last snapshot, is compacted
+const COMPACT_ENCRYPTED_LOG_BYTES = 4 * 1024 * 1024;
+const SNAPSHOT_REQUEST_TIMEOUT_MS = 30_000;
+// The plugin's doc ids: a vault path, a prefixed canvas or comments path, or the host's file manifest
+const CANVAS_DOC_PREFIX = "__canvas__:";
+const COMMENTS_DOC_PREFIX = "__comments__:";
+const MANIFEST_DOC_ID = "__manifest__";
 
 interface MuxClient {
   ws: WebSocket;
   subscribedRooms: Set<string>;
   userId: string | null;
   baseRoomId: string;
+  /** Joined with an invite, so never gets more than it grants whatever its stored permission says. */
+  invitePermission: Permission | undefined;
 }
 
 interface RoomState {
+  baseRoomId: string;
+  docId: string;
   clients: Set<MuxClient>;
   readOnlyClients: Set<MuxClient>;
+  /** Clients already told that this doc is read-only, so a stream of updates is reported once. */
+  deniedClients: Set<MuxClient>;
   clientAwarenessIds: Map<MuxClient, Set<number>>;
+  /** Clients sent the stored log, so a snapshot of their doc takes in every entry of it. */
+  replayedClients: Set<MuxClient>;
   cleanupTimer?: ReturnType<typeof setTimeout>;
+  doc: Y.Doc;
+  encryptedLog: Uint8Array[];
+  encryptedLogBytes: number;
+  encrypted: boolean;
+  /** Size of the snapshot the encrypted log starts with, 0 until it was first compacted. */
+  snapshotBytes: number;
+  /** The client asked for a snapshot, and the last log entry the snapshot will replace. */
+  snapshotRequest?: { client: MuxClient; covers: Uint8Array; requestedAt: number };
+  loaded: Promise<void>;
+  saveTimer?: ReturnType<typeof setTimeout>;
+  /** The room was removed, so nothing more of the doc may be written to persistence. */
+  removed: boolean;
+}
+
+/** What one instance relays to the others for a doc; payloads are base64-encoded. */
+interface DocEvent {
+  kind: "sync" | "awareness" | "sync-request" | "compacted";
+  encrypted?: boolean;
+  payload?: string;
 }
 
 function toUint8Array(raw: Buffer | ArrayBuffer | Buffer[]): Uint8Array {
@@ -43,8 +93,21 @@ function toUint8Array(raw: Buffer | ArrayBuffer | Buffer[]): Uint8Array {
   return new Uint8Array(buf.buffer, buf.byteOffset, buf.byteLength);
 }
 
-export function createYjsWSS() {
+/** The vault path a doc syncs, or null for the manifest, which names no single file. */
+function docPath(docId: string): string | null {
+  if (docId === MANIFEST_DOC_ID) return null;
+  for (const prefix of [CANVAS_DOC_PREFIX, COMMENTS_DOC_PREFIX]) {
+    if (docId.startsWith(prefix)) return docId.slice(prefix.length);
+  }
+  return docId;
+}
+
+export function createYjsWSS(
+  persistence: Persistence = noopPersistence,
+  pubsub: PubSubAdapter = createLocalPubSub(),
+) {
   const roomStates = new Map<string, RoomState>();
+  const subscriberCounts = createClientCounts(pubsub, "doc-clients");
   const muxWss = new WebSocketServer({
     noServer: true,
     maxPayload: 10 * 1024 * 1024,
@@ -52,13 +115,20 @@ export function createYjsWSS() {
 
   function safeSend(ws: WebSocket, data: Uint8Array | string) {
     try {
-      if (ws.readyState === WebSocket.OPEN) ws.send(data);
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(data);
+        relayedBytes.inc(
+          { channel: "document" },
+          typeof data === "string" ? Buffer.byteLength(data) : data.byteLength,
+        );
+      }
     } catch {
       // Send may fail if socket is closing
     }
   }
 
-  function getOrCreateRoom(roomId: string): RoomState {
+  function getOrCreateRoom(baseRoomId: string, docId: string): RoomState {
+    const roomId = `${baseRoomId}:${docId}`;
     const existing = roomStates.get(roomId);
     if (existing) {
       if (existing.cleanupTimer) {
@@ -67,35 +137,311 @@ export function createYjsWSS() {
       }
       return existing;
     }
+    const doc = new Y.Doc();
     const state: RoomState = {
+      baseRoomId,
+      docId,
       clients: new Set(),
       readOnlyClients: new Set(),
+      deniedClients: new Set(),
       clientAwarenessIds: new Map(),
+      replayedClients: new Set(),
+      doc,
+      encryptedLog: [],
+      encryptedLogBytes: 0,
+      encrypted: false,
+      snapshotBytes: 0,
+      loaded: Promise.resolve(),
+      removed: false,
     };
+    state.loaded = loadRoomState(state);
+    doc.on("update", (_update: Uint8Array, origin: unknown) => {
+      if (origin !== persistence) scheduleSave(state);
+    });
     roomStates.set(roomId, state);
+    pubsub
+      .subscribe(`doc:${roomId}`, (message) => handleRemoteEvent(state, message))
+      .catch((err) => {
+        console.error(`[yjs-mux] failed to subscribe to ${roomId} on other instances:`, err);
+      });
     return state;
   }
 
+  function publishDocEvent(roomId: string, event: DocEvent) {
+    pubsub.publish(`doc:${roomId}`, JSON.stringify(event)).catch((err) => {
+      console.error(`[yjs-mux] failed to publish to other instances for ${roomId}:`, err);
+    });
+  }
+
+  function handleRemoteEvent(state: RoomState, message: string) {
+    let event: DocEvent;
+    try {
+      event = JSON.parse(message);
+    } catch {
+      return;
+    }
+    const payload = Buffer.from(event.payload ?? "", "base64");
+    let msg: Uint8Array;
+    switch (event.kind) {
+      case "sync":
+        if (event.encrypted) {
+          storeEncryptedSync(state, payload);
+        } else {
+          applyRemoteSync(state, payload);
+        }
+        msg = encodeMuxMessage(
+          state.docId,
+          event.encrypted ? MUX_SYNC_ENCRYPTED : MUX_SYNC,
+          payload,
+        );
+        break;
+      case "awareness":
+        msg = encodeMuxMessage(
+          state.docId,
+          event.encrypted ? MUX_AWARENESS_ENCRYPTED : MUX_AWARENESS,
+          payload,
+        );
+        break;
+      case "sync-request":
+        msg = encodeMuxMessage(state.docId, MUX_SYNC_REQUEST);
+        break;
+      case "compacted":
+        void reloadEncryptedLog(state);
+        return;
+      default:
+        return;
+    }
+    for (const peer of state.clients) safeSend(peer.ws, msg);
+  }
+
+  /** Keeps this instance's copy of the doc current; replies go to the originating instance. */
+  function applyRemoteSync(state: RoomState, payload: Uint8Array) {
+    try {
+      const decoder = decoding.createDecoder(payload);
+      if (decoding.peekVarUint(decoder) === SYNC_STEP1) return;
+      syncProtocol.readSyncMessage(decoder, encoding.createEncoder(), state.doc, pubsub);
+    } catch (err) {
+      console.debug("[yjs-mux] failed to apply remote sync message to stored doc:", err);
+    }
+  }
+
+  /** Subscribers to a doc across every instance, falling back to this instance's count. */
+  function countSubscribers(roomId: string, state: RoomState): Promise<number> {
+    return subscriberCounts.set(roomId, state.clients.size).catch((err) => {
+      console.error(`[yjs-mux] failed to update shared client count for ${roomId}:`, err);
+      return state.clients.size;
+    });
+  }
+
+  async function loadRoomState(state: RoomState): Promise<void> {
+    try {
+      const [stored, encryptedUpdates] = await Promise.all([
+        persistence.loadDoc(state.baseRoomId, state.docId),
+        persistence.loadEncryptedUpdates(state.baseRoomId, state.docId),
+      ]);
+      if (stored) Y.applyUpdate(state.doc, stored, persistence);
+      if (encryptedUpdates.length > 0) {
+        state.encrypted = true;
+        state.encryptedLog = [...encryptedUpdates, ...state.encryptedLog];
+        for (const update of encryptedUpdates) state.encryptedLogBytes += update.byteLength;
+      }
+    } catch (err) {
+      console.error(`[yjs-mux] failed to load doc ${state.baseRoomId}:${state.docId}:`, err);
+    }
+  }
+
+  function scheduleSave(state: RoomState) {
+    if (state.saveTimer) return;
+    state.saveTimer = setTimeout(() => {
+      state.saveTimer = undefined;
+      void saveRoomState(state);
+    }, DOC_SAVE_DEBOUNCE_MS);
+  }
+
+  async function saveRoomState(state: RoomState): Promise<void> {
+    if (state.removed) return;
+    try {
+      await persistence.saveDoc(state.baseRoomId, state.docId, Y.encodeStateAsUpdate(state.doc));
+    } catch (err) {
+      console.error(`[yjs-mux] failed to persist doc ${state.baseRoomId}:${state.docId}:`, err);
+    }
+  }
+
+  function flushSave(state: RoomState): Promise<void> {
+    if (!state.saveTimer) return Promise.resolve();
+    clearTimeout(state.saveTimer);
+    state.saveTimer = undefined;
+    return saveRoomState(state);
+  }
+
+  function destroyRoomState(roomId: string, state: RoomState): Promise<void> {
+    roomStates.delete(roomId);
+    const released = [pubsub.unsubscribe(`doc:${roomId}`), subscriberCounts.set(roomId, 0)];
+    return Promise.allSettled(released)
+      .then(() => flushSave(state))
+      .finally(() => state.doc.destroy());
+  }
+
   function scheduleRoomCleanup(roomId: string, state: RoomState) {
     if (state.clients.size === 0) {
       state.cleanupTimer = setTimeout(() => {
         if (state.clients.size === 0) {
-          roomStates.delete(roomId);
+          void destroyRoomState(roomId, state);
         }
       }, 30_000);
     }
   }
 
-  function handleSubscribe(client: MuxClient, docId: string, payload: Uint8Array) {
+  function hasStoredState(state: RoomState): boolean {
+    return state.encrypted ? state.encryptedLog.length > 0 : state.doc.store.clients.size > 0;
+  }
+
+  function sendStoredState(client: MuxClient, state: RoomState) {
+    if (state.encrypted) {
+      // Replay the opaque log; the final entry is tagged as step 2 so the client marks itself synced
+      state.encryptedLog.forEach((entry, index) => {
+        const replay = entry.slice();
+        replay[0] = index === state.encryptedLog.length - 1 ? SYNC_STEP2 : SYNC_UPDATE;
+        safeSend(client.ws, encodeMuxMessage(state.docId, MUX_SYNC_ENCRYPTED, replay));
+      });
+      return;
+    }
+    const step1 = encoding.createEncoder();
+    syncProtocol.writeSyncStep1(step1, state.doc);
+    safeSend(client.ws, encodeMuxMessage(state.docId, MUX_SYNC, encoding.toUint8Array(step1)));
+    const step2 = encoding.createEncoder();
+    syncProtocol.writeSyncStep2(step2, state.doc);
+    safeSend(client.ws, encodeMuxMessage(state.docId, MUX_SYNC, encoding.toUint8Array(step2)));
+  }
+
+  function storeSync(client: MuxClient, state: RoomState, payload: Uint8Array) {
+    try {
+      const decoder = decoding.createDecoder(payload);
+      const reply = encoding.createEncoder();
+      const syncType = decoding.peekVarUint(decoder);
+      // Only answer SyncStep1 when the server holds content, otherwise peers respond
+      if (syncType === SYNC_STEP1 && !hasStoredState(state)) return;
+      syncProtocol.readSyncMessage(decoder, reply, state.doc, client);
+      if (encoding.length(reply) > 0) {
+        safeSend(client.ws, encodeMuxMessage(state.docId, MUX_SYNC, encoding.toUint8Array(reply)));
+      }
+    } catch (err) {
+      console.debug("[yjs-mux] failed to apply sync message to stored doc:", err);
+    }
+  }
+
+  /** `writer` is unset for updates relayed from another instance, which already stored them. */
+  function storeEncryptedSync(state: RoomState, payload: Uint8Array, writer?: MuxClient) {
+    if (payload.length <= 1) return;
+    const syncType = payload[0];
+    if (syncType !== SYNC_STEP2 && syncType !== SYNC_UPDATE) return;
+    state.encrypted = true;
+    if (state.encryptedLogBytes + payload.byteLength > MAX_ENCRYPTED_LOG_BYTES) {
+      console.error(
+        `[yjs-mux] encrypted log for ${state.baseRoomId}:${state.docId} is full, dropping an update until it is compacted`,
+      );
+      if (writer) {
+        reportStoreFailure(writer, state);
+        requestSnapshot(writer, state);
+      }
+      return;
+    }
+    const entry = payload.slice();
+    state.encryptedLog.push(entry);
+    state.encryptedLogBytes += entry.byteLength;
+    if (!writer || state.removed) return;
+    if (
+      state.encryptedLogBytes > COMPACT_ENCRYPTED_LOG_BYTES &&
+      state.encryptedLogBytes > 2 * state.snapshotBytes
+    ) {
+      requestSnapshot(writer, state);
+    }
+    persistence.appendEncryptedUpdate(state.baseRoomId, state.docId, entry).catch((err) => {
+      console.error(
+        `[yjs-mux] failed to persist encrypted update ${state.baseRoomId}:${state.docId}:`,
+        err,
+      );
+      reportStoreFailure(writer, state);
+    });
+  }
+
+  function reportStoreFailure(client: MuxClient, state: RoomState) {
+    safeSend(client.ws, encodeMuxMessage(state.docId, MUX_STORE_FAILED));
+  }
+
+  /**
+   * Asks `client` for its whole doc to replace the log up to its last entry. Every entry so far
+   * was replayed or relayed to the client before this request, so its snapshot takes them in.
+   */
+  function requestSnapshot(client: MuxClient, state: RoomState) {
+    const pending = state.snapshotRequest;
+    if (
+      pending &&
+      state.clients.has(pending.client) &&
+      Date.now() - pending.requestedAt < SNAPSHOT_REQUEST_TIMEOUT_MS
+    ) {
+      return;
+    }
+    const covers = state.encryptedLog.at(-1);
+    if (!covers || !state.replayedClients.has(client)) return;
+    state.snapshotRequest = { client, covers, requestedAt: Date.now() };
+    safeSend(client.ws, encodeMuxMessage(state.docId, MUX_SNAPSHOT_REQUEST));
+  }
+
+  function handleSnapshot(client: MuxClient, docId: string, payload: Uint8Array) {
     const roomId = `${client.baseRoomId}:${docId}`;
-    const state = getOrCreateRoom(roomId);
+    const state = roomStates.get(roomId);
+    const request = state?.snapshotRequest;
+    if (!state || request?.client !== client || payload.length <= 1) return;
+    state.snapshotRequest = undefined;
+    const covered = state.encryptedLog.lastIndexOf(request.covers);
+    // The log was replaced since the request, or the client lost write access meanwhile
+    if (covered === -1 || state.readOnlyClients.has(client) || state.removed) return;
+
+    const snapshot = payload.slice();
+    snapshot[0] = SYNC_UPDATE;
+    state.encryptedLog = [snapshot, ...state.encryptedLog.slice(covered + 1)];
+    state.encryptedLogBytes = logBytes(state.encryptedLog);
+    state.snapshotBytes = snapshot.byteLength;
+    persistence
+      .replaceEncryptedUpdates(state.baseRoomId, docId, [...state.encryptedLog])
+      .then(() => publishDocEvent(roomId, { kind: "compacted" }))
+      .catch((err) => {
+        console.error(`[yjs-mux] failed to persist compacted log ${roomId}:`, err);
+      });
+  }
+
+  /** Takes up the log another instance compacted, keeping the entries relayed here since. */
+  async function reloadEncryptedLog(state: RoomState) {
+    const known = state.encryptedLog.length;
+    try {
+      const stored = await persistence.loadEncryptedUpdates(state.baseRoomId, state.docId);
+      state.encryptedLog = [...stored, ...state.encryptedLog.slice(known)];
+      state.encryptedLogBytes = logBytes(state.encryptedLog);
+      state.snapshotBytes = stored[0]?.byteLength ?? 0;
+      state.snapshotRequest = undefined;
+    } catch (err) {
+      console.error(
+        `[yjs-mux] failed to reload compacted log ${state.baseRoomId}:${state.docId}:`,
+        err,
+      );
+    }
+  }
 
-    const peerCount = state.clients.size;
+  async function handleSubscribe(client: MuxClient, docId: string, payload: Uint8Array) {
+    // A removed room's docs are gone, and its sockets are closing
+    if (!getRoom(client.baseRoomId)) return;
+    const roomId = `${client.baseRoomId}:${docId}`;
+    const state = getOrCreateRoom(client.baseRoomId, docId);
 
+    // The count is the set's size, so a repeated subscribe does not count twice
     state.clients.add(client);
     client.subscribedRooms.add(roomId);
+    const subscribers = countSubscribers(roomId, state);
 
-    if (client.userId) {
+    if (client.invitePermission === "read-only") {
+      state.readOnlyClients.add(client);
+    } else if (client.userId) {
       const permission = getPermission(client.baseRoomId, client.userId);
       if (permission === "read-only") {
         state.readOnlyClients.add(client);
@@ -117,16 +463,26 @@ export function createYjsWSS() {
       }
     }
 
+    const existingPeers = (await subscribers) - 1;
+    await state.loaded;
+    if (!client.subscribedRooms.has(roomId)) return;
+
+    // The stored doc counts as a peer so the client waits for its SyncStep2 before seeding
+    const stored = hasStoredState(state);
+    const peerCount = existingPeers + (stored ? 1 : 0);
     const peerCountEncoder = encoding.createEncoder();
     encoding.writeVarUint(peerCountEncoder, peerCount);
     const msg = encodeMuxMessage(docId, MUX_SUBSCRIBED, encoding.toUint8Array(peerCountEncoder));
     safeSend(client.ws, msg);
+    if (stored) sendStoredState(client, state);
+    state.replayedClients.add(client);
 
-    if (peerCount > 0) {
+    if (existingPeers > 0) {
       const syncRequestMsg = encodeMuxMessage(docId, MUX_SYNC_REQUEST);
       for (const peer of state.clients) {
         if (peer !== client) safeSend(peer.ws, syncRequestMsg);
       }
+      publishDocEvent(roomId, { kind: "sync-request" });
     }
   }
 
@@ -140,22 +496,88 @@ export function createYjsWSS() {
     const state = roomStates.get(roomId);
     if (!state || !state.clients.has(client)) return;
 
+    const path = docPath(docId);
+    const permission = state.readOnlyClients.has(client) ? "read-only" : clientPermission(client);
+    // Annotating a read-only path is fine; only the text is protected
+    const isComments = docId.startsWith(COMMENTS_DOC_PREFIX);
     const isReadOnly =
-      state.readOnlyClients.has(client) ||
-      (client.userId && getPermission(client.baseRoomId, client.userId) === "read-only");
-    if (isReadOnly && payload.length > 0) {
+      (isComments ? permission === "read-only" : permission !== "read-write") &&
+      !hasDocWriteGrant(client, docId);
+    const isProtected =
+      !isComments && path !== null && isReadOnlyPath(getRoom(client.baseRoomId), path);
+    if ((isReadOnly || isProtected) && payload.length > 0) {
       const decoder = decoding.createDecoder(payload);
       const syncType = decoding.peekVarUint(decoder);
       if (syncType === SYNC_STEP2 || syncType === SYNC_UPDATE) {
+        if (isReadOnly || path === null) return;
+        // Only the host may write protected docs; pub/sub knows it on every instance
+        void pubsub.get(hostKey(client.baseRoomId)).then((hostUserId) => {
+          if (!state.clients.has(client)) return;
+          if (client.userId && client.userId === hostUserId) {
+            relaySync(client, state, payload, encrypted);
+          } else {
+            denyWrite(client, state, path);
+          }
+        });
         return;
       }
     }
 
+    relaySync(client, state, payload, encrypted);
+  }
+
+  function relaySync(client: MuxClient, state: RoomState, payload: Uint8Array, encrypted: boolean) {
+    const { docId } = state;
+    const roomId = `${client.baseRoomId}:${docId}`;
+    touchRoom(client.baseRoomId);
+    if (encrypted) {
+      storeEncryptedSync(state, payload, client);
+    } else {
+      storeSync(client, state, payload);
+    }
+
     const msgType = encrypted ? MUX_SYNC_ENCRYPTED : MUX_SYNC;
     const msg = encodeMuxMessage(docId, msgType, payload);
     for (const peer of state.clients) {
       if (peer !== client) safeSend(peer.ws, msg);
     }
+    publishDocEvent(roomId, {
+      kind: "sync",
+      encrypted,
+      payload: Buffer.from(payload).toString("base64"),
+    });
+  }
+
+  function denyWrite(client: MuxClient, state: RoomState, path: string) {
+    if (state.deniedClients.has(client)) return;
+    state.deniedClients.add(client);
+    safeSend(client.ws, encodeMuxMessage(state.docId, MUX_WRITE_DENIED));
+    void appendLog(client.baseRoomId, {
+      timestamp: Date.now(),
+      event: "write-denied",
+      userId: client.userId ?? "",
+      displayName: "",
+      details: `edit ${path}, read-only path`,
+    });
+  }
+
+  function clientPermission(client: MuxClient): Permission {
+    const stored =
+      (client.userId && getPermission(client.baseRoomId, client.userId)) || "read-write";
+    return client.invitePermission ? minPermission(stored, client.invitePermission) : stored;
+  }
+
+  function hasDocWriteGrant(client: MuxClient, docId: string): boolean {
+    if (!client.userId) return false;
+    const path = docPath(docId);
+    return path !== null && hasWriteGrant(getRoom(client.baseRoomId), client.userId, path);
+  }
+
+  async function handleSyncRequest(client: MuxClient, docId: string) {
+    const state = roomStates.get(`${client.baseRoomId}:${docId}`);
+    if (!state || !state.clients.has(client)) return;
+    await state.loaded;
+    if (hasStoredState(state)) sendStoredState(client, state);
   }
 
   function handleAwareness(
@@ -191,6 +613,11 @@ export function createYjsWSS() {
     for (const peer of state.clients) {
       if (peer !== client) safeSend(peer.ws, msg);
     }
+    publishDocEvent(roomId, {
+      kind: "awareness",
+      encrypted,
+      payload: Buffer.from(payload).toString("base64"),
+    });
   }
 
   function removeClientFromRoom(client: MuxClient, roomId: string) {
@@ -199,10 +626,14 @@ export function createYjsWSS() {
 
     state.clients.delete(client);
     state.readOnlyClients.delete(client);
+    state.deniedClients.delete(client);
+    state.replayedClients.delete(client);
+    if (state.snapshotRequest?.client === client) state.snapshotRequest = undefined;
     client.subscribedRooms.delete(roomId);
+    void countSubscribers(roomId, state);
 
     const clientIds = state.clientAwarenessIds.get(client);
-    if (clientIds && clientIds.size > 0 && state.clients.size > 0) {
+    if (clientIds && clientIds.size > 0) {
       const removalEncoder = encoding.createEncoder();
       encoding.writeVarUint(removalEncoder, clientIds.size);
       for (const id of clientIds) {
@@ -216,6 +647,10 @@ export function createYjsWSS() {
       for (const peer of state.clients) {
         safeSend(peer.ws, msg);
       }
+      publishDocEvent(roomId, {
+        kind: "awareness",
+        payload: Buffer.from(removalPayload).toString("base64"),
+      });
     }
     state.clientAwarenessIds.delete(client);
 
@@ -238,11 +673,16 @@ export function createYjsWSS() {
       if (payload) userId = payload.sub;
     }
 
+    const room = getRoom(baseRoomId);
+    const token = reqUrl.searchParams.get("token");
+    const invite = room && token ? findInvite(room, token) : undefined;
+
     const client: MuxClient = {
       ws,
       subscribedRooms: new Set(),
       userId,
       baseRoomId,
+      invitePermission: invite?.permission,
     };
 
     ws.on("error", (err) => {
@@ -254,9 +694,17 @@ export function createYjsWSS() {
       const data = toUint8Array(raw);
       try {
         const { docId, msgType, payload } = decodeMuxMessage(data);
+        muxMessages.inc({ type: muxTypeName(msgType) });
         switch (msgType) {
           case MUX_SUBSCRIBE:
-            handleSubscribe(client, docId, payload);
+            handleSubscribe(client, docId, payload).catch((err) => {
+              console.error("[yjs-mux] failed to subscribe:", err);
+            });
+            break;
+          case MUX_SYNC_REQUEST:
+            handleSyncRequest(client, docId).catch((err) => {
+              console.error("[yjs-mux] failed to answer sync request:", err);
+            });
             break;
           case MUX_UNSUBSCRIBE:
             handleUnsubscribe(client, docId);
@@ -273,6 +721,9 @@ export function createYjsWSS() {
           case MUX_AWARENESS_ENCRYPTED:
             handleAwareness(client, docId, payload, true);
             break;
+          case MUX_SNAPSHOT:
+            handleSnapshot(client, docId, payload);
+            break;
         }
       } catch (err) {
         console.error("[yjs-mux] failed to handle message:", err);
@@ -284,14 +735,33 @@ export function createYjsWSS() {
     });
   });
 
-  function closeAll() {
-    for (const state of roomStates.values()) {
+  // Drop a removed room's docs without saving them, before their stored copies are deleted
+  const stopWatchingRemovals = onRoomRemoved((baseRoomId) => {
+    for (const [roomId, state] of roomStates) {
+      if (state.baseRoomId !== baseRoomId) continue;
+      state.removed = true;
+      clearTimeout(state.saveTimer);
+      clearTimeout(state.cleanupTimer);
+      state.saveTimer = undefined;
+      for (const client of state.clients) {
+        client.ws.close(1000, "room removed");
+      }
+      void destroyRoomState(roomId, state);
+    }
+  });
+
+  async function closeAll(): Promise<void> {
+    stopWatchingRemovals();
+    const pending: Promise<void>[] = [];
+    for (const [roomId, state] of roomStates) {
       if (state.cleanupTimer) clearTimeout(state.cleanupTimer);
       for (const client of state.clients) {
         client.ws.close(1000, "server shutting down");
       }
+      pending.push(destroyRoomState(roomId, state));
     }
-    roomStates.clear();
+    await Promise.all(pending);
+    await subscriberCounts.close();
   }
 
   function getStats() {
@@ -311,12 +781,25 @@ export function createYjsWSS() {
     };
   }
 
+  function getRoomStats(baseRoomId: string) {
+    const uniqueClients = new Set<WebSocket>();
+    let documents = 0;
+    for (const state of roomStates.values()) {
+      if (state.baseRoomId !== baseRoomId) continue;
+      documents++;
+      for (const client of state.clients) {
+        uniqueClients.add(client.ws);
+      }
+    }
+    return { documents, clients: uniqueClients.size };
+  }
+
   function updatePermission(baseRoomId: string, userId: string, permission: Permission) {
     for (const [fullRoomId, state] of roomStates) {
       if (!fullRoomId.startsWith(`${baseRoomId}:`)) continue;
       for (const client of state.clients) {
         if (client.userId === userId) {
-          if (permission === "read-only") {
+          if (permission === "read-only" || client.invitePermission === "read-only") {
             state.readOnlyClients.add(client);
           } else {
             state.readOnlyClients.delete(client);
@@ -326,7 +809,29 @@ export function createYjsWSS() {
     }
   }
 
-  return { muxWss, closeAll, getStats, updatePermission };
+  function closeUnapprovedClients(baseRoomId: string, approvedUserIds: Set<string>) {
+    for (const [fullRoomId, state] of roomStates) {
+      if (!fullRoomId.startsWith(`${baseRoomId}:`)) continue;
+      for (const client of state.clients) {
+        if (!client.userId || !approvedUserIds.has(client.userId)) {
+          client.ws.close(1000, "room token rotated");
+        }
+      }
+    }
+  }
+
+  return {
+    muxWss,
+    closeAll,
+    getStats,
+    getRoomStats,
+    updatePermission,
+    closeUnapprovedClients,
+  };
+}
+
+function logBytes(log: Uint8Array[]): number {
+  return log.reduce((total, entry) => total + entry.byteLength, 0);
 }
 
 function extractBaseRoomId(roomId: string): string {